@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { User, Project, Assignment } from './src/models/index.js';
+
+dotenv.config();
+
+// Replaces the old isActive soft delete with archivedAt/archivedBy. Raw collection
+// calls are used because isActive is no longer part of the schemas.
+async function migrateArchive() {
+  try {
+    console.log('🔄 Migrating deactivated records to archives...');
+
+    await mongoose.connect(process.env.DATABASE_URL || 'mongodb://localhost:27017/erms');
+    console.log('✅ Connected to database');
+
+    // 1. Deactivated users become archived, keeping the time they were last changed
+    const deactivatedUsers = await User.collection.find({ isActive: false }).toArray();
+    for (const user of deactivatedUsers) {
+      await User.collection.updateOne(
+        { _id: user._id },
+        { $set: { archivedAt: user.updatedAt || new Date(), archivedBy: null } }
+      );
+    }
+    console.log(`👩‍💻 Archived ${deactivatedUsers.length} deactivated users`);
+
+    // 2. Their assignments are archived with them so restoring the user brings them back
+    let archivedAssignments = 0;
+    for (const user of deactivatedUsers) {
+      const result = await Assignment.collection.updateMany(
+        { engineerId: user._id, archivedAt: null },
+        { $set: { archivedAt: user.updatedAt || new Date(), archivedBy: null } }
+      );
+      archivedAssignments += result.modifiedCount;
+    }
+    console.log(`📋 Archived ${archivedAssignments} assignments of deactivated users`);
+
+    // 3. Drop the old flag everywhere
+    for (const Model of [User, Project, Assignment]) {
+      const result = await Model.collection.updateMany(
+        { isActive: { $exists: true } },
+        { $unset: { isActive: '' } }
+      );
+      console.log(`🧹 Removed isActive from ${result.modifiedCount} ${Model.modelName.toLowerCase()} records`);
+    }
+
+    console.log('🎉 Archive migration completed successfully!');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+migrateArchive();
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { User } from './src/models/index.js';
+
+dotenv.config();
+
+// Replaces the old `manager` role with `resource-manager`, which keeps the same access.
+// A raw collection call is used because `manager` is no longer part of the role enum.
+// Pass the email of an account to promote it to admin, for example:
+//   npm run migrate:roles -- owner@example.com
+async function migrateRoles() {
+  try {
+    console.log('🔄 Migrating user roles...');
+
+    await mongoose.connect(process.env.DATABASE_URL || 'mongodb://localhost:27017/erms');
+    console.log('✅ Connected to database');
+
+    // 1. Managers become resource managers
+    const result = await User.collection.updateMany(
+      { role: 'manager' },
+      { $set: { role: 'resource-manager' } }
+    );
+    console.log(`👥 Moved ${result.modifiedCount} managers to resource-manager`);
+
+    // 2. Optionally promote one account so someone can assign roles
+    const adminEmail = process.argv[2];
+    if (adminEmail) {
+      const promoted = await User.collection.updateOne(
+        { email: adminEmail.toLowerCase() },
+        { $set: { role: 'admin' } }
+      );
+      console.log(promoted.matchedCount > 0
+        ? `🔑 ${adminEmail} is now an admin`
+        : `⚠️  No account found for ${adminEmail}`);
+    }
+
+    const admins = await User.collection.countDocuments({ role: 'admin' });
+    if (admins === 0) {
+      console.log('⚠️  There is no admin yet. Run again with an email to promote one.');
+    }
+
+    console.log('🎉 Role migration completed successfully!');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+migrateRoles();
@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { User, Project, Skill } from './src/models/index.js';
+import { buildSkillResolver, canonicalizeSkillEntries } from './src/utils/skillTaxonomy.js';
+
+dotenv.config();
+
+// Starting taxonomy; aliases cover the spellings already found in engineer and project data
+const DEFAULT_SKILLS = [
+  { name: 'JavaScript', category: 'frontend', aliases: ['JS', 'ECMAScript', 'ES6'] },
+  { name: 'TypeScript', category: 'frontend', aliases: ['TS'] },
+  { name: 'React', category: 'frontend', aliases: ['React.js', 'ReactJS'] },
+  { name: 'Vue', category: 'frontend', aliases: ['Vue.js', 'VueJS'] },
+  { name: 'Angular', category: 'frontend', aliases: ['AngularJS', 'Angular.js'] },
+  { name: 'HTML', category: 'frontend', aliases: ['HTML5'] },
+  { name: 'CSS', category: 'frontend', aliases: ['CSS3', 'SCSS', 'Sass'] },
+  { name: 'Node.js', category: 'backend', aliases: ['Node', 'NodeJS'] },
+  { name: 'Express', category: 'backend', aliases: ['Express.js', 'ExpressJS'] },
+  { name: 'Python', category: 'backend', aliases: ['Python3'] },
+  { name: 'Django', category: 'backend' },
+  { name: 'Java', category: 'backend', aliases: ['Java SE', 'Java EE'] },
+  { name: 'Spring Boot', category: 'backend', aliases: ['Spring'] },
+  { name: 'Go', category: 'backend', aliases: ['Golang'] },
+  { name: 'C#', category: 'backend', aliases: ['CSharp', 'C Sharp'] },
+  { name: '.NET', category: 'backend', aliases: ['dotnet', 'ASP.NET'] },
+  { name: 'GraphQL', category: 'backend' },
+  { name: 'REST API', category: 'backend', aliases: ['REST', 'RESTful APIs', 'API Design'] },
+  { name: 'MongoDB', category: 'database', aliases: ['Mongo'] },
+  { name: 'PostgreSQL', category: 'database', aliases: ['Postgres'] },
+  { name: 'MySQL', category: 'database' },
+  { name: 'Redis', category: 'database' },
+  { name: 'SQL', category: 'database' },
+  { name: 'AWS', category: 'cloud', aliases: ['Amazon Web Services'] },
+  { name: 'Azure', category: 'cloud', aliases: ['Microsoft Azure'] },
+  { name: 'Google Cloud', category: 'cloud', aliases: ['GCP', 'Google Cloud Platform'] },
+  { name: 'Docker', category: 'devops' },
+  { name: 'Kubernetes', category: 'devops', aliases: ['K8s'] },
+  { name: 'Terraform', category: 'devops' },
+  { name: 'CI/CD', category: 'devops', aliases: ['CICD', 'Continuous Integration'] },
+  { name: 'React Native', category: 'mobile' },
+  { name: 'Swift', category: 'mobile', aliases: ['iOS'] },
+  { name: 'Kotlin', category: 'mobile', aliases: ['Android'] },
+  { name: 'Machine Learning', category: 'data', aliases: ['ML'] },
+  { name: 'Data Analysis', category: 'data', aliases: ['Data Analytics'] },
+  { name: 'Jest', category: 'testing' },
+  { name: 'Cypress', category: 'testing' },
+  { name: 'Test Automation', category: 'testing', aliases: ['QA Automation'] },
+  { name: 'UI/UX Design', category: 'design', aliases: ['UI Design', 'UX Design', 'UX'] },
+  { name: 'Figma', category: 'design' }
+];
+
+async function migrateSkills() {
+  try {
+    console.log('🔄 Migrating skills onto the skill taxonomy...');
+
+    await mongoose.connect(process.env.DATABASE_URL || 'mongodb://localhost:27017/erms');
+    console.log('✅ Connected to database');
+
+    // 1. Make sure the default taxonomy exists
+    let createdDefaults = 0;
+    for (const definition of DEFAULT_SKILLS) {
+      const existing = await Skill.findByNameOrAlias(definition.name);
+      if (!existing) {
+        await Skill.create(definition);
+        createdDefaults++;
+      }
+    }
+    console.log(`📚 Added ${createdDefaults} default skills`);
+
+    // 2. Create skills for any names the taxonomy does not know yet so every entry gets an ID
+    const [userSkillNames, projectSkillNames] = await Promise.all([
+      User.distinct('skills.skill'),
+      Project.distinct('requiredSkills.skill')
+    ]);
+    const resolve = await buildSkillResolver();
+    const unknownNames = new Map();
+    [...userSkillNames, ...projectSkillNames].forEach(name => {
+      if (name && !resolve(name)) {
+        unknownNames.set(name.trim().toLowerCase(), name.trim());
+      }
+    });
+
+    for (const name of unknownNames.values()) {
+      await Skill.create({ name, category: 'other' });
+      console.log(`➕ Created skill "${name}" (category: other) - review it in the Skills admin page`);
+    }
+
+    // 3. Point every engineer skill and project requirement at its canonical skill
+    const users = await User.find({ 'skills.0': { $exists: true } });
+    for (const user of users) {
+      const skills = await canonicalizeSkillEntries(user.skills.map(entry => entry.toObject()));
+      await User.updateOne({ _id: user._id }, { $set: { skills } });
+    }
+    console.log(`👩‍💻 Updated skills for ${users.length} users`);
+
+    const projects = await Project.find({ 'requiredSkills.0': { $exists: true } });
+    for (const project of projects) {
+      const requiredSkills = await canonicalizeSkillEntries(project.requiredSkills.map(entry => entry.toObject()));
+      await Project.updateOne({ _id: project._id }, { $set: { requiredSkills } });
+    }
+    console.log(`📁 Updated required skills for ${projects.length} projects`);
+
+    console.log('🎉 Skill migration completed successfully!');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+migrateSkills();
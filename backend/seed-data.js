@@ -22,11 +22,17 @@ async function seedData() {
     // Note: User model will automatically hash passwords via pre-save hook
     
     const users = await User.create([
+      {
+        name: 'Ada Admin',
+        email: 'admin@gmail.com',
+        password: 'password123',
+        role: 'admin'
+      },
       {
         name: 'John Manager',
         email: 'manager@gmail.com',
         password: 'password123',
-        role: 'manager'
+        role: 'resource-manager'
       },
       {
         name: 'Engineer Alice',
@@ -102,7 +108,7 @@ async function seedData() {
     console.log('👥 Created users:', users.length);
 
     // Create sample projects
-    const manager = users.find(e => e.role === 'manager');
+    const manager = users.find(e => e.role === 'resource-manager');
     
     const projects = await Project.create([
       {
@@ -247,7 +253,8 @@ async function seedData() {
     console.log(`   Projects: ${projects.length}`);
     console.log(`   Assignments: ${assignments.length}`);
     console.log('\n🔑 Login credentials:');
-    console.log('   Manager: manager@gmail.com / password123');
+    console.log('   Admin: admin@gmail.com / password123');
+    console.log('   Resource manager: manager@gmail.com / password123');
     console.log('   Engineers: alice@gmail.com, bob@gmail.com, engineer@gmail.com etc. / password123');
 
     process.exit(0);
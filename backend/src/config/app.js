@@ -0,0 +1,35 @@
+/**
+ * Public addresses
+ * Links sent to users, such as invitations and password resets, point at the
+ * frontend; calendar feed links point at the API. They are built from
+ * configuration only and never from request headers, so a caller cannot make
+ * a link point at a host they control.
+ */
+
+// Where the browser app is served from; the API only accepts cross-origin requests from these
+export const CLIENT_ORIGINS = ['http://localhost:5173', 'https://erms-app-ruddy.vercel.app'];
+
+// The frontend's public address: APP_URL, or the local dev server outside production
+export const appUrl = () => {
+  const base = process.env.APP_URL || (process.env.NODE_ENV === 'production' ? null : CLIENT_ORIGINS[0]);
+  if (!base) {
+    throw new Error('APP_URL must be set in production to build links to the app');
+  }
+  return base.replace(/\/$/, '');
+};
+
+// The API's public address including its /api prefix: PUBLIC_API_URL, or this server outside production
+export const apiUrl = () => {
+  const base = process.env.PUBLIC_API_URL ||
+    (process.env.NODE_ENV === 'production' ? null : `http://localhost:${process.env.PORT || 3300}/api`);
+  if (!base) {
+    throw new Error('PUBLIC_API_URL must be set in production to build links to the API');
+  }
+  return base.replace(/\/$/, '');
+};
+
+export default {
+  CLIENT_ORIGINS,
+  appUrl,
+  apiUrl
+};
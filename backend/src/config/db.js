@@ -4,6 +4,12 @@ const configDb = async () => {
     try{
        await mongoose.connect(process.env.DATABASE_URL)
        console.log("Database connection successful!")
+
+       // Transactions need a replica set member or mongos; a standalone server refuses them
+       const { setName, msg } = await mongoose.connection.db.admin().command({ hello: 1 })
+       if (!setName && msg !== "isdbgrid") {
+           console.warn("MongoDB is not running as a replica set: archiving, imports and other multi-document changes will fail. See 'MongoDB Replica Set' in the README.")
+       }
     }catch(error){
         console.error(error.message);
         process.exit(1);
@@ -0,0 +1,71 @@
+/**
+ * Roles and permissions
+ * Every route that is not plain self-service checks a permission rather than a
+ * role, so what each role can do is decided here in one place. Permissions
+ * ending in `-own` or `-team` are scoped to the projects the user manages.
+ */
+
+export const ROLES = ['admin', 'resource-manager', 'project-manager', 'engineer', 'viewer'];
+
+export const ROLE_LABELS = {
+  admin: 'Admin',
+  'resource-manager': 'Resource Manager',
+  'project-manager': 'Project Manager',
+  engineer: 'Engineer',
+  viewer: 'Viewer'
+};
+
+// Roles that can be set as the manager of a project
+export const PROJECT_MANAGER_ROLES = ['admin', 'resource-manager', 'project-manager'];
+
+export const PERMISSIONS = {
+  'engineers:read': 'See every engineer\'s profile and assignments',
+  'engineers:read-team': 'See the profiles of engineers on your projects',
+  'engineers:manage': 'Add, edit, archive and restore engineers',
+  'users:manage-roles': 'Add managers, viewers and admins, and change anyone\'s role',
+  'analytics:read': 'See the team directory, capacity, forecasts, timesheets and reports, and export them',
+  'projects:manage': 'Create, edit, archive and change the status of any project',
+  'projects:manage-own': 'Create projects, and edit the ones you manage',
+  'assignments:manage': 'Assign engineers to any project',
+  'assignments:manage-own': 'Assign engineers to the projects you manage',
+  'assignments:rebalance': 'Move work between engineers across projects',
+  'timeoff:review': 'Approve and reject time off',
+  'holidays:manage': 'Manage public holidays',
+  'skills:manage': 'Manage the skill taxonomy',
+  'audit:read': 'See the change history',
+  'import:run': 'Import engineers, projects and assignments from spreadsheets',
+  'webhooks:manage': 'Manage outbound webhooks'
+};
+
+const ALL_PERMISSIONS = Object.keys(PERMISSIONS);
+
+export const ROLE_PERMISSIONS = {
+  admin: ALL_PERMISSIONS,
+  'resource-manager': ALL_PERMISSIONS.filter(permission => permission !== 'users:manage-roles'),
+  'project-manager': [
+    'engineers:read-team',
+    'analytics:read',
+    'projects:manage-own',
+    'assignments:manage-own'
+  ],
+  viewer: [
+    'engineers:read',
+    'analytics:read'
+  ],
+  // Engineers only see and edit their own profile, assignments, time off and timesheets
+  engineer: []
+};
+
+export const permissionsFor = (role) => ROLE_PERMISSIONS[role] || [];
+
+export const hasPermission = (user, permission) => permissionsFor(user?.role).includes(permission);
+
+export default {
+  ROLES,
+  ROLE_LABELS,
+  PROJECT_MANAGER_ROLES,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  permissionsFor,
+  hasPermission
+};
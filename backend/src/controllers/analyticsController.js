@@ -1,31 +1,34 @@
-import { User, Project, Assignment } from '../models/index.js';
+import { User } from '../models/index.js';
+import { validateForecastQuery, validateProjectHealthQuery } from '../utils/validation.js';
+import { analyzeSkillGaps } from '../utils/skillGapAnalyzer.js';
+import { getPortfolioHealth } from '../utils/projectHealth.js';
+import { getCurrentCapacity } from '../utils/capacityEngine.js';
 
 export const getTeamUtilization = async (req, res) => {
   try {
     const { department } = req.query;
     
-    const query = { isActive: true };
+    const query = {};
     if (department) query.department = department;
 
     const engineers = await User.find(query).select('-password');
-    
-    const utilizationData = await Promise.all(
-      engineers.map(async (engineer) => {
-        const allocations = await Assignment.getUserCurrentAllocation(engineer._id);
-        const currentUtilization = allocations.length > 0 ? allocations[0].totalAllocation : 0;
-        
-        return {
-          engineerId: engineer._id,
-          name: engineer.name,
-          department: engineer.department,
-          seniority: engineer.seniority,
-          maxCapacity: engineer.maxCapacity,
-          currentUtilization,
-          availableCapacity: Math.max(0, engineer.maxCapacity - currentUtilization),
-          utilizationRate: (currentUtilization / engineer.maxCapacity) * 100
-        };
-      })
-    );
+
+    // Load and free capacity over the coming week, as the capacity check measures them
+    const currentCapacity = await getCurrentCapacity(engineers);
+    const utilizationData = engineers.map(engineer => {
+      const { currentUtilization, availableCapacity } = currentCapacity.get(engineer._id.toString());
+
+      return {
+        engineerId: engineer._id,
+        name: engineer.name,
+        department: engineer.department,
+        seniority: engineer.seniority,
+        maxCapacity: engineer.maxCapacity,
+        currentUtilization,
+        availableCapacity,
+        utilizationRate: (currentUtilization / engineer.maxCapacity) * 100
+      };
+    });
 
     const totalCapacity = utilizationData.reduce((sum, eng) => sum + eng.maxCapacity, 0);
     const totalUtilized = utilizationData.reduce((sum, eng) => sum + eng.currentUtilization, 0);
@@ -50,113 +53,40 @@ export const getTeamUtilization = async (req, res) => {
 
 export const getSkillGaps = async (req, res) => {
   try {
-    const projects = await Project.find({ 
-      isActive: true, 
-      status: { $in: ['planning', 'active'] } 
-    });
+    const { error } = validateForecastQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
 
-    const engineers = await User.find({ isActive: true }).select('-password');
-
-    const skillAnalysis = {};
-
-    projects.forEach(project => {
-      project.requiredSkills.forEach(requirement => {
-        const key = `${requirement.skill}-${requirement.level}`;
-        if (!skillAnalysis[key]) {
-          skillAnalysis[key] = {
-            skill: requirement.skill,
-            level: requirement.level,
-            demand: 0,
-            supply: 0,
-            gap: 0
-          };
-        }
-        skillAnalysis[key].demand += requirement.count;
-      });
-    });
-
-    engineers.forEach(engineer => {
-      engineer.skills.forEach(skill => {
-        const skillLevels = ['beginner', 'intermediate', 'advanced', 'expert'];
-        const engineerLevelIndex = skillLevels.indexOf(skill.level);
-        
-        for (let i = 0; i <= engineerLevelIndex; i++) {
-          const key = `${skill.skill}-${skillLevels[i]}`;
-          if (skillAnalysis[key]) {
-            skillAnalysis[key].supply += 1;
-          }
-        }
-      });
-    });
-
-    Object.values(skillAnalysis).forEach(analysis => {
-      analysis.gap = analysis.demand - analysis.supply;
-    });
+    const { weeks = 12, department } = req.query;
 
-    const skillGaps = Object.values(skillAnalysis)
-      .filter(analysis => analysis.gap > 0)
-      .sort((a, b) => b.gap - a.gap);
+    const analysis = await analyzeSkillGaps(parseInt(weeks), { department });
 
     res.json({
       success: true,
-      data: {
-        skillGaps,
-        totalGaps: skillGaps.length
-      }
+      data: analysis
     });
   } catch (error) {
+    console.error('Error analyzing skill gaps:', error);
     res.status(500).json({ error: error.message });
   }
 };
 
 export const getProjectHealth = async (req, res) => {
   try {
-    const projects = await Project.find({ isActive: true })
-      .populate('managerId', 'name email');
-
-    const projectHealthData = await Promise.all(
-      projects.map(async (project) => {
-        const assignments = await Assignment.find({
-          projectId: project._id,
-          isActive: true
-        });
-
-        const activeAssignments = assignments.filter(a => a.status === 'active').length;
-
-        let healthScore = 100;
-
-        if (activeAssignments < project.teamSize) {
-          healthScore -= ((project.teamSize - activeAssignments) / project.teamSize) * 30;
-        }
-
-        if (project.isOverdue) {
-          healthScore -= 25;
-        }
+    const { error } = validateProjectHealthQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
 
-        healthScore = Math.max(0, Math.min(100, healthScore));
-
-        return {
-          projectId: project._id,
-          name: project.name,
-          status: project.status,
-          priority: project.priority,
-          manager: project.managerId?.name,
-          isOverdue: project.isOverdue,
-          requiredTeamSize: project.teamSize,
-          currentTeamSize: activeAssignments,
-          healthScore: Math.round(healthScore),
-          healthStatus: healthScore >= 80 ? 'healthy' : healthScore >= 60 ? 'warning' : 'critical'
-        };
-      })
-    );
+    const health = await getPortfolioHealth({ status: req.query.status });
 
     res.json({
       success: true,
-      data: {
-        projects: projectHealthData.sort((a, b) => a.healthScore - b.healthScore)
-      }
+      data: health
     });
   } catch (error) {
+    console.error('Error scoring project health:', error);
     res.status(500).json({ error: error.message });
   }
 };
\ No newline at end of file
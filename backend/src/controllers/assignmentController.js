@@ -1,10 +1,19 @@
-import { Assignment, User, Project } from '../models/index.js';
-import { validateAssignment, validateAssignmentUpdate, validateQueryParams } from '../utils/validation.js';
+import mongoose from 'mongoose';
+import { Assignment, User, Project, ProgressUpdate } from '../models/index.js';
+import { validateAssignment, validateAssignmentUpdate, validateQueryParams, validateRebalanceQuery, validateRebalanceApply, validateStaffingAccept, validateForecastQuery, validateProgressUpdate, validateBulkAssignmentOperation, validateConflictCheckQuery, validateSuggestionQuery } from '../utils/validation.js';
 import { 
   suggestOptimalAssignments, 
   detectAssignmentConflicts, 
   generateCapacityForecast 
 } from '../utils/resourceOptimizer.js';
+import { checkCapacityForRange, formatCapacityError } from '../utils/capacityEngine.js';
+import { generateRebalancePlan, applyRebalanceMoves } from '../utils/workloadRebalancer.js';
+import AppError from '../utils/AppError.js';
+import { auditContext, recordAudit } from '../utils/auditLog.js';
+import { archiveAssignment, populateArchived, restoreAssignment as restoreArchivedAssignment } from '../utils/archive.js';
+import { runBulkOperation, addsLoad } from '../utils/bulkAssignments.js';
+import { STAFFABLE_STATUSES } from '../utils/projectLifecycle.js';
+import { canManageProjects, assertCanManageProjects } from '../utils/teamScope.js';
 
 export const getAllAssignments = async (req, res) => {
   try {
@@ -20,10 +29,17 @@ export const getAllAssignments = async (req, res) => {
       search,
       status,
       engineerId,
-      projectId
+      projectId,
+      startDate,
+      endDate,
+      archived
     } = req.query;
 
     const query = {};
+    const showArchived = archived === 'true';
+
+    // Archived assignments are hidden unless asked for explicitly
+    if (showArchived) query.archivedAt = { $ne: null };
 
     // Engineers can only see their own assignments
     if (req.user.role === 'engineer') {
@@ -34,13 +50,22 @@ export const getAllAssignments = async (req, res) => {
     if (engineerId && req.user.role !== 'engineer') query.engineerId = engineerId;
     if (projectId) query.projectId = projectId;
 
+    // Only assignments overlapping the given window, as the timeline shows
+    if (startDate) query.endDate = { $gte: new Date(startDate) };
+    if (endDate) query.startDate = { $lte: new Date(endDate) };
+
     const skip = (page - 1) * limit;
     const sortObj = {};
     sortObj[sort] = sort === 'startDate' || sort === 'endDate' ? -1 : 1;
 
     let assignments = await Assignment.find(query)
-      .populate('engineerId', 'name email seniority department department')
-      .populate('projectId', 'name status priority')
+      .populate(showArchived
+        ? populateArchived('engineerId', 'name email seniority department archivedAt')
+        : { path: 'engineerId', select: 'name email seniority department' })
+      .populate(showArchived
+        ? populateArchived('projectId', 'name status priority managerId archivedAt')
+        : { path: 'projectId', select: 'name status priority managerId' })
+      .populate('archivedBy', 'name')
       .sort(sortObj)
       .skip(skip)
       .limit(parseInt(limit));
@@ -111,7 +136,7 @@ export const createAssignment = async (req, res) => {
 
     const { engineerId, projectId } = req.body;
 
-    const engineer = await User.findOne({ _id: engineerId, role: 'engineer', isActive: true });
+    const engineer = await User.findOne({ _id: engineerId, role: 'engineer' });
     if (!engineer) {
       console.log('Engineer not found:', engineerId);
       return res.status(404).json({ error: 'Engineer not found' });
@@ -123,6 +148,10 @@ export const createAssignment = async (req, res) => {
       return res.status(404).json({ error: 'Project not found' });
     }
 
+    if (!STAFFABLE_STATUSES.includes(project.status)) {
+      return res.status(400).json({ error: `Cannot add assignments to a project that is ${project.status}` });
+    }
+
     // Check if project team is already full
     const currentAssignments = await Assignment.countDocuments({
       projectId: projectId,
@@ -148,14 +177,17 @@ export const createAssignment = async (req, res) => {
       });
     }
 
-    // Check engineer's capacity
-    const currentAllocations = await Assignment.getUserCurrentAllocation(engineerId);
-    const currentUtilization = currentAllocations.length > 0 ? currentAllocations[0].totalAllocation : 0;
-    const newTotal = currentUtilization + req.body.allocationPercentage;
+    // Check engineer's capacity on every day of the assignment
+    const capacityCheck = await checkCapacityForRange(engineer, {
+      startDate: req.body.startDate,
+      endDate: req.body.endDate,
+      allocationPercentage: req.body.allocationPercentage
+    });
 
-    if (newTotal > engineer.maxCapacity) {
+    if (!capacityCheck.fits) {
       return res.status(400).json({ 
-        error: `Engineer capacity exceeded. Current: ${currentUtilization}%, Requested: ${req.body.allocationPercentage}%, Maximum: ${engineer.maxCapacity}%` 
+        error: formatCapacityError(capacityCheck),
+        capacity: capacityCheck
       });
     }
 
@@ -166,7 +198,14 @@ export const createAssignment = async (req, res) => {
     await assignment.save();
 
     await assignment.populate('engineerId', 'name email seniority department');
-    await assignment.populate('projectId', 'name status priority');
+    await assignment.populate('projectId', 'name status priority managerId');
+
+    await recordAudit({
+      entityType: 'Assignment',
+      action: 'create',
+      after: assignment,
+      context: auditContext(req)
+    });
 
     res.status(201).json({
       success: true,
@@ -199,9 +238,19 @@ export const updateAssignment = async (req, res) => {
       projectId = projectId._id;
     }
 
+    const existingAssignment = await Assignment.findById(req.params.id);
+    if (!existingAssignment) {
+      return res.status(404).json({ error: 'Assignment not found' });
+    }
+
+    if (existingAssignment.status === 'paused' && req.body.status === 'active') {
+      return res.status(400).json({ error: 'Paused assignments resume when their project is reactivated' });
+    }
+
     // Validate engineer if being updated
+    let engineer;
     if (engineerId) {
-      const engineer = await User.findOne({ _id: engineerId, role: 'engineer', isActive: true });
+      engineer = await User.findOne({ _id: engineerId, role: 'engineer' });
       if (!engineer) {
         return res.status(404).json({ error: 'Engineer not found' });
       }
@@ -215,6 +264,43 @@ export const updateAssignment = async (req, res) => {
       }
     }
 
+    // Re-check capacity over the whole resulting date range when the change adds load
+    const effective = {
+      engineerId: engineerId || existingAssignment.engineerId,
+      startDate: new Date(req.body.startDate || existingAssignment.startDate),
+      endDate: new Date(req.body.endDate || existingAssignment.endDate),
+      allocationPercentage: req.body.allocationPercentage ?? existingAssignment.allocationPercentage,
+      status: req.body.status || existingAssignment.status
+    };
+
+    if (effective.endDate <= effective.startDate) {
+      return res.status(400).json({ error: 'End date must be after start date' });
+    }
+
+    // Notes, a lower allocation or shorter dates never need a check, even for an engineer already over capacity
+    const changesEngineer = Boolean(engineerId) && engineerId.toString() !== existingAssignment.engineerId.toString();
+    if (addsLoad(existingAssignment, effective) || (changesEngineer && effective.status === 'active')) {
+      if (!engineer) {
+        engineer = await User.findById(effective.engineerId);
+      }
+
+      if (engineer) {
+        const capacityCheck = await checkCapacityForRange(engineer, {
+          startDate: effective.startDate,
+          endDate: effective.endDate,
+          allocationPercentage: effective.allocationPercentage,
+          excludeAssignmentId: existingAssignment._id
+        });
+
+        if (!capacityCheck.fits) {
+          return res.status(400).json({ 
+            error: formatCapacityError(capacityCheck),
+            capacity: capacityCheck
+          });
+        }
+      }
+    }
+
     // Prepare update data with extracted IDs
     const updateData = {
       ...req.body,
@@ -228,12 +314,20 @@ export const updateAssignment = async (req, res) => {
       { new: true, runValidators: true }
     )
     .populate('engineerId', 'name email seniority department')
-    .populate('projectId', 'name status priority');
+    .populate('projectId', 'name status priority managerId');
 
     if (!assignment) {
       return res.status(404).json({ error: 'Assignment not found' });
     }
 
+    await recordAudit({
+      entityType: 'Assignment',
+      action: 'update',
+      before: existingAssignment,
+      after: assignment,
+      context: auditContext(req)
+    });
+
     res.json({
       success: true,
       message: 'Assignment updated successfully',
@@ -246,32 +340,65 @@ export const updateAssignment = async (req, res) => {
 
 export const updateAssignmentProgress = async (req, res) => {
   try {
-    const { completionPercentage } = req.body;
-    
-    if (completionPercentage < 0 || completionPercentage > 100) {
-      return res.status(400).json({ error: 'Completion percentage must be between 0 and 100' });
+    const { error } = validateProgressUpdate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
     }
 
+    const { completionPercentage, note } = req.body;
+
     const assignment = await Assignment.findById(req.params.id);
     if (!assignment) {
       return res.status(404).json({ error: 'Assignment not found' });
     }
 
-    // Engineers can only update their own assignments
-    if (req.user.role === 'engineer' && assignment.engineerId.toString() !== req.user._id.toString()) {
+    // Engineers update their own assignments; managers the ones on projects they can staff
+    const isOwn = assignment.engineerId.toString() === req.user._id.toString();
+    if (!isOwn && !await canManageProjects(req.user, [assignment.projectId], 'assignments')) {
       return res.status(403).json({ error: 'You can only update your own assignments' });
     }
 
+    const before = assignment.toObject();
+    const previousPercentage = assignment.completionPercentage || 0;
     assignment.completionPercentage = completionPercentage;
     await assignment.save();
 
+    const context = auditContext(req, note);
+    await recordAudit({
+      entityType: 'Assignment',
+      action: 'update',
+      before,
+      after: assignment,
+      context
+    });
+
+    // Keep a history of progress changes alongside the current value
+    await ProgressUpdate.create({
+      assignmentId: assignment._id,
+      projectId: assignment.projectId,
+      previousPercentage,
+      completionPercentage,
+      note,
+      updatedBy: req.user._id
+    });
+
     // Auto-update project progress based on all assignment completions
     const progressData = await Assignment.calculateProjectProgress(assignment.projectId);
     if (progressData.length > 0) {
       const newProjectProgress = Math.round(progressData[0].projectProgress);
-      await Project.findByIdAndUpdate(assignment.projectId, {
+      const previousProject = await Project.findByIdAndUpdate(assignment.projectId, {
         completionPercentage: newProjectProgress
       });
+
+      if (previousProject) {
+        await recordAudit({
+          entityType: 'Project',
+          action: 'update',
+          before: previousProject,
+          after: { ...previousProject.toObject(), completionPercentage: newProjectProgress },
+          context: { ...context, reason: 'Recalculated from assignment progress' }
+        });
+      }
     }
 
     await assignment.populate('engineerId', 'name email');
@@ -287,35 +414,118 @@ export const updateAssignmentProgress = async (req, res) => {
   }
 };
 
-export const deleteAssignment = async (req, res) => {
+export const getAssignmentProgressHistory = async (req, res) => {
   try {
-    console.log('Deleting assignment:', req.params.id);
-
-    // Check if assignment exists
-    const existingAssignment = await Assignment.findById(req.params.id);
-    if (!existingAssignment) {
+    // History stays readable after the assignment is archived
+    const assignment = await Assignment.findById(req.params.id).setOptions({ includeArchived: true });
+    if (!assignment) {
       return res.status(404).json({ error: 'Assignment not found' });
     }
 
-    // Actually delete the assignment (hard delete)
-    const assignment = await Assignment.findByIdAndDelete(req.params.id);
+    // Engineers can only see the history of their own assignments
+    if (req.user.role === 'engineer' && assignment.engineerId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ error: 'You can only view your own assignments' });
+    }
+
+    const updates = await ProgressUpdate.find({ assignmentId: assignment._id })
+      .populate('updatedBy', 'name role')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { updates }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
 
+export const deleteAssignment = async (req, res) => {
+  try {
+    const assignment = await Assignment.findById(req.params.id)
+      .populate('engineerId', 'name')
+      .populate('projectId', 'name');
     if (!assignment) {
       return res.status(404).json({ error: 'Assignment not found' });
     }
 
-    console.log('Assignment deleted successfully:', assignment._id);
+    // Archive rather than delete so logged hours, progress and audit history stay attached
+    await archiveAssignment(assignment, auditContext(req));
+
+    res.json({
+      success: true,
+      message: 'Assignment archived successfully',
+      data: { assignment }
+    });
+  } catch (error) {
+    console.error('Archive assignment error:', error);
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const restoreAssignment = async (req, res) => {
+  try {
+    const assignment = await Assignment.findOne({ _id: req.params.id, archivedAt: { $ne: null } })
+      .populate(populateArchived('engineerId', 'name email seniority department'))
+      .populate(populateArchived('projectId', 'name status priority managerId'));
+    if (!assignment) {
+      return res.status(404).json({ error: 'Archived assignment not found' });
+    }
+
+    const { problem } = await restoreArchivedAssignment(assignment, auditContext(req));
+    if (problem) {
+      return res.status(400).json(problem);
+    }
 
     res.json({
       success: true,
-      message: 'Assignment deleted successfully'
+      message: 'Assignment restored successfully',
+      data: { assignment }
     });
   } catch (error) {
-    console.error('Delete assignment error:', error);
     res.status(500).json({ error: error.message });
   }
 };
 
+export const bulkUpdateAssignments = async (req, res) => {
+  try {
+    const { error, value } = validateBulkAssignmentOperation(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { assignmentIds, preview = false, ...operation } = value;
+
+    const projectIds = await Assignment.find({ _id: { $in: assignmentIds } })
+      .setOptions({ includeArchived: true })
+      .distinct('projectId');
+    await assertCanManageProjects(req.user, projectIds, 'assignments');
+
+    const result = await runBulkOperation(assignmentIds, operation, {
+      preview,
+      context: auditContext(req)
+    });
+
+    if (!preview && !result.applied) {
+      return res.status(400).json({
+        error: `${result.failed} of ${result.total} assignments failed validation. No changes were made.`,
+        result
+      });
+    }
+
+    res.json({
+      success: true,
+      message: preview
+        ? `${result.total - result.failed} of ${result.total} assignments can be updated`
+        : `${result.total} assignment${result.total === 1 ? '' : 's'} updated`,
+      data: { result }
+    });
+  } catch (error) {
+    console.error('Bulk assignment error:', error);
+    res.status(error.statusCode || 500).json({ error: error.message });
+  }
+};
+
 export const getActiveAssignments = async (req, res) => {
   try {
     const query = { status: 'active' };
@@ -327,7 +537,7 @@ export const getActiveAssignments = async (req, res) => {
 
     const assignments = await Assignment.find(query)
       .populate('engineerId', 'name email seniority department')
-      .populate('projectId', 'name status priority');
+      .populate('projectId', 'name status priority managerId');
 
     res.json({
       success: true,
@@ -347,7 +557,7 @@ export const getCurrentAssignments = async (req, res) => {
       status: 'active'
     })
       .populate('engineerId', 'name email seniority department')
-      .populate('projectId', 'name status priority');
+      .populate('projectId', 'name status priority managerId');
 
     res.json({
       success: true,
@@ -367,7 +577,16 @@ export const getSuggestedAssignments = async (req, res) => {
       return res.status(400).json({ error: 'Project ID is required' });
     }
 
-    const suggestions = await suggestOptimalAssignments(projectId);
+    const { error } = validateSuggestionQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    // Availability is judged over the dates the team would be staffed, the project's by default
+    const suggestions = await suggestOptimalAssignments(projectId, {
+      startDate: req.query.startDate,
+      endDate: req.query.endDate
+    });
     
     res.json({
       success: true,
@@ -379,6 +598,99 @@ export const getSuggestedAssignments = async (req, res) => {
   }
 };
 
+// Create assignments for several suggested engineers at once; either all are created or none are
+export const acceptSuggestedTeam = async (req, res) => {
+  const session = await mongoose.startSession();
+  try {
+    const { error } = validateStaffingAccept(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { projectId } = req.params;
+    const { startDate, endDate, members } = req.body;
+    let created = [];
+
+    await session.withTransaction(async () => {
+      created = [];
+
+      const project = await Project.findById(projectId).session(session);
+      if (!project) throw new AppError('Project not found', 404);
+      if (!STAFFABLE_STATUSES.includes(project.status)) {
+        throw new AppError(`Cannot add assignments to a project that is ${project.status}`, 400);
+      }
+
+      const currentAssignments = await Assignment.countDocuments({
+        projectId,
+        status: 'active'
+      }).session(session);
+
+      if (currentAssignments + members.length > project.teamSize) {
+        throw new AppError(
+          `Project team is full. Maximum team size is ${project.teamSize}, currently has ${currentAssignments} members, ${members.length} requested.`,
+          400
+        );
+      }
+
+      for (const member of members) {
+        const engineer = await User.findOne({ _id: member.engineerId, role: 'engineer' }).session(session);
+        if (!engineer) throw new AppError(`Engineer ${member.engineerId} not found`, 404);
+
+        const existingAssignment = await Assignment.exists({
+          engineerId: engineer._id,
+          projectId,
+          status: 'active'
+        }).session(session);
+        if (existingAssignment) {
+          throw new AppError(`${engineer.name} is already assigned to this project`, 400);
+        }
+
+        const capacityCheck = await checkCapacityForRange(engineer, {
+          startDate,
+          endDate,
+          allocationPercentage: member.allocationPercentage,
+          session
+        });
+        if (!capacityCheck.fits) {
+          throw new AppError(`${engineer.name}: ${formatCapacityError(capacityCheck)}`, 400);
+        }
+
+        const assignment = new Assignment({
+          ...member,
+          projectId,
+          startDate,
+          endDate,
+          createdBy: req.user._id
+        });
+        await assignment.save({ session });
+        await recordAudit({
+          entityType: 'Assignment',
+          action: 'create',
+          after: assignment,
+          context: auditContext(req, `Accepted staffing suggestion for ${project.name}`),
+          session
+        });
+        created.push(assignment);
+      }
+    });
+
+    const assignments = await Assignment.find({ _id: { $in: created.map(assignment => assignment._id) } })
+      .populate('engineerId', 'name email seniority department')
+      .populate('projectId', 'name status priority managerId');
+
+    res.status(201).json({
+      success: true,
+      message: `${assignments.length} assignment${assignments.length === 1 ? '' : 's'} created successfully`,
+      data: { assignments }
+    });
+  } catch (error) {
+    console.error('Error accepting suggested team:', error);
+    res.status(error.statusCode || 500).json({ error: error.message });
+  } finally {
+    await session.endSession();
+  }
+};
+
 export const checkAssignmentConflicts = async (req, res) => {
   try {
     const { engineerId, startDate, endDate, excludeAssignmentId } = req.query;
@@ -389,6 +701,11 @@ export const checkAssignmentConflicts = async (req, res) => {
       });
     }
 
+    const { error } = validateConflictCheckQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
     const conflicts = await detectAssignmentConflicts(
       engineerId, 
       startDate, 
@@ -408,9 +725,14 @@ export const checkAssignmentConflicts = async (req, res) => {
 
 export const getCapacityForecast = async (req, res) => {
   try {
-    const { weeks = 12 } = req.query;
+    const { error } = validateForecastQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { weeks = 12, department } = req.query;
     
-    const forecast = await generateCapacityForecast(parseInt(weeks));
+    const forecast = await generateCapacityForecast(parseInt(weeks), { department });
     
     res.json({
       success: true,
@@ -420,4 +742,44 @@ export const getCapacityForecast = async (req, res) => {
     console.error('Error generating capacity forecast:', error);
     res.status(500).json({ error: error.message });
   }
-};
\ No newline at end of file
+};
+export const getRebalancePlan = async (req, res) => {
+  try {
+    const { error, value } = validateRebalanceQuery({ ...req.query, engineerId: req.params.engineerId });
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const plan = await generateRebalancePlan(value.engineerId, value.targetUtilization);
+
+    res.json({
+      success: true,
+      data: { plan }
+    });
+  } catch (error) {
+    console.error('Error generating rebalance plan:', error);
+    res.status(error.statusCode || 500).json({ error: error.message });
+  }
+};
+
+export const applyRebalancePlan = async (req, res) => {
+  try {
+    const { error } = validateRebalanceApply(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { engineerId } = req.params;
+    const applied = await applyRebalanceMoves(engineerId, req.body.moves, auditContext(req));
+    const plan = await generateRebalancePlan(engineerId);
+
+    res.json({
+      success: true,
+      message: `${applied.length} rebalance move${applied.length === 1 ? '' : 's'} applied`,
+      data: { applied, plan }
+    });
+  } catch (error) {
+    console.error('Error applying rebalance plan:', error);
+    res.status(error.statusCode || 500).json({ error: error.message });
+  }
+};
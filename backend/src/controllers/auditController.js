@@ -0,0 +1,70 @@
+import { AuditLog } from '../models/index.js';
+import { validateAuditQuery } from '../utils/validation.js';
+import { startOfDay } from '../utils/capacityEngine.js';
+import { populateArchived } from '../utils/archive.js';
+
+export const getAuditLogs = async (req, res) => {
+  try {
+    const { error } = validateAuditQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const {
+      page = 1,
+      limit = 20,
+      entityType,
+      entityId,
+      projectId,
+      engineerId,
+      actor,
+      action,
+      startDate,
+      endDate
+    } = req.query;
+
+    const query = {};
+
+    if (entityType) query.entityType = entityType;
+    if (entityId) query.entityId = entityId;
+    // A project's or engineer's history includes changes to their assignments
+    if (projectId) query.projectId = projectId;
+    if (engineerId) query.engineerId = engineerId;
+    if (actor) query.actor = actor;
+    if (action) query.action = action;
+
+    if (startDate || endDate) {
+      query.createdAt = {};
+      if (startDate) query.createdAt.$gte = startOfDay(startDate);
+      if (endDate) query.createdAt.$lte = new Date(endDate);
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [logs, total] = await Promise.all([
+      AuditLog.find(query)
+        .populate(populateArchived('actor', 'name email role'))
+        .populate(populateArchived('projectId', 'name'))
+        .populate(populateArchived('engineerId', 'name'))
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit)),
+      AuditLog.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        logs,
+        pagination: {
+          page: parseInt(page),
+          limit: parseInt(limit),
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
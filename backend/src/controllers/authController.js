@@ -1,19 +1,62 @@
 import bcrypt from 'bcryptjs';
-import { User } from '../models/index.js';
-import { generateTokens, verifyRefreshToken } from '../middleware/auth.js';
-import { validateLogin, validateRegister } from '../utils/validation.js';
-
+import mongoose from 'mongoose';
+import { User, Invitation } from '../models/index.js';
+import {
+  validateLogin,
+  validateRegister,
+  validateAcceptInvitation,
+  validateChangePassword,
+  validateForgotPassword,
+  validateResetPassword,
+  PASSWORD_POLICY,
+  passwordProblem,
+  passwordHint
+} from '../utils/validation.js';
+import { canonicalizeSkillEntries } from '../utils/skillTaxonomy.js';
+import { auditContext, recordAudit } from '../utils/auditLog.js';
+import { resolveInviteToken, selfRegistrationEnabled } from '../utils/invitations.js';
+import { REFRESH_COOKIE, wantsCookies, readCookie, issueTokens, clearAuthCookies } from '../utils/authCookies.js';
+import { startSession, rotateSession, endSession, activeSessions, revokeSession, revokeUserSessions } from '../utils/sessions.js';
+import {
+  PASSWORD_RESET_EXPIRY_MINUTES,
+  checkPassword,
+  isLocked,
+  recordFailedLogin,
+  clearFailedLogins,
+  issueResetToken,
+  resolveResetToken,
+  resetUrl
+} from '../utils/passwords.js';
+import { sendMail } from '../utils/mailer.js';
+import { permissionsFor } from '../config/permissions.js';
+
+// Signed-in user with the permissions of their role, so the client can hide what they cannot use
+const sessionUser = (user) => ({
+  ...user.toJSON(),
+  permissions: permissionsFor(user.role)
+});
+
+// Public sign-up as an engineer, only when ALLOW_SELF_REGISTRATION is on; everyone else is invited
 export const register = async (req, res) => {
   try {
+    if (!selfRegistrationEnabled()) {
+      return res.status(403).json({ error: 'Registration is by invitation only. Ask a manager to invite you.' });
+    }
+
     const { error } = validateRegister(req.body);
     if (error) {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const { name, email, password, department, seniority, maxCapacity, skills, role } = req.body;
+    const { name, email, password, department, location, seniority, maxCapacity, hourlyRate, skills, role = 'engineer' } = req.body;
 
-    // Check if user already exists
-    const existingUser = await User.findOne({ email: email.toLowerCase() });
+    // Other roles are granted by an admin, through an invitation or a role change
+    if (role !== 'engineer') {
+      return res.status(403).json({ error: 'Access denied. Only an admin can create accounts with this role.' });
+    }
+
+    // Check if user already exists, archived accounts included since emails are unique
+    const existingUser = await User.findOne({ email: email.toLowerCase() }).setOptions({ includeArchived: true });
     if (existingUser) {
       return res.status(400).json({ error: 'Email already registered' });
     }
@@ -23,25 +66,146 @@ export const register = async (req, res) => {
       name,
       email: email.toLowerCase(),
       password: password,
-      role: role || 'engineer',
+      role,
       department: role === 'engineer' ? department : undefined,
+      location: role === 'engineer' ? location : undefined,
       seniority: role === 'engineer' ? (seniority || 'junior') : undefined,
       maxCapacity: role === 'engineer' ? (maxCapacity || 100) : undefined,
-      skills: role === 'engineer' ? (skills || []) : undefined
+      hourlyRate: role === 'engineer' ? hourlyRate : undefined,
+      skills: role === 'engineer' ? await canonicalizeSkillEntries(skills || []) : undefined
     });
 
     await user.save();
 
+    // Self sign-ups have no signed-in actor, so they are attributed to the new user
+    await recordAudit({
+      entityType: 'User',
+      action: 'create',
+      after: user,
+      context: { ...auditContext(req), actor: user._id, actorName: user.name }
+    });
+
     // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user);
+    const tokens = issueTokens(req, res, await startSession(user, req));
 
     res.status(201).json({
       success: true,
       message: 'User registered successfully',
       data: {
-        engineer: user.toJSON(),
-        accessToken,
-        refreshToken
+        engineer: sessionUser(user),
+        ...tokens
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+const INVALID_INVITATION = 'This invitation link is invalid or has expired. Ask for a new one.';
+
+// Who an invite link is for, so the accept page can greet them
+export const getInvitation = async (req, res) => {
+  try {
+    const invitation = await resolveInviteToken(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ error: INVALID_INVITATION });
+    }
+    await invitation.populate('invitedBy', 'name');
+
+    res.json({
+      success: true,
+      data: {
+        invitation: {
+          email: invitation.email,
+          name: invitation.name,
+          role: invitation.role,
+          invitedBy: invitation.invitedBy?.name,
+          expiresAt: invitation.expiresAt
+        }
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Create the invited account with the password the invitee chose, and sign them in
+export const acceptInvitation = async (req, res) => {
+  try {
+    const { error } = validateAcceptInvitation(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const invitation = await resolveInviteToken(req.body.token);
+    if (!invitation) {
+      return res.status(404).json({ error: INVALID_INVITATION });
+    }
+
+    const weakPassword = passwordProblem(req.body.password, { email: invitation.email });
+    if (weakPassword) {
+      return res.status(400).json({ error: weakPassword });
+    }
+
+    const existingUser = await User.findOne({ email: invitation.email }).setOptions({ includeArchived: true });
+    if (existingUser) {
+      return res.status(400).json({ error: 'An account with this email already exists. Sign in instead.' });
+    }
+
+    // Claim the invitation first so the same link cannot create two accounts
+    const claimed = await Invitation.findOneAndUpdate(
+      { _id: invitation._id, status: 'pending', inviteKey: invitation.inviteKey },
+      { status: 'accepted', acceptedAt: new Date() },
+      { new: true }
+    ).populate('invitedBy', 'name');
+    if (!claimed) {
+      return res.status(404).json({ error: INVALID_INVITATION });
+    }
+
+    const isEngineer = claimed.role === 'engineer';
+    const user = new User({
+      name: req.body.name || claimed.name,
+      email: claimed.email,
+      password: req.body.password,
+      role: claimed.role,
+      department: claimed.profile?.department,
+      location: isEngineer ? claimed.profile.location : undefined,
+      seniority: isEngineer ? claimed.profile.seniority : undefined,
+      maxCapacity: isEngineer ? claimed.profile.maxCapacity : undefined,
+      hourlyRate: isEngineer ? claimed.profile.hourlyRate : undefined,
+      skills: isEngineer ? claimed.profile.skills : undefined
+    });
+
+    try {
+      await user.save();
+    } catch (saveError) {
+      // Reopen the invitation so the invitee can try again
+      await Invitation.updateOne({ _id: claimed._id }, { status: 'pending', $unset: { acceptedAt: 1 } });
+      throw saveError;
+    }
+
+    await Invitation.updateOne({ _id: claimed._id }, { acceptedUser: user._id });
+
+    const inviter = claimed.invitedBy?.name;
+    await recordAudit({
+      entityType: 'User',
+      action: 'create',
+      after: user,
+      context: {
+        ...auditContext(req, inviter ? `Accepted an invitation from ${inviter}` : 'Accepted an invitation'),
+        actor: user._id,
+        actorName: user.name
+      }
+    });
+
+    const tokens = issueTokens(req, res, await startSession(user, req));
+
+    res.status(201).json({
+      success: true,
+      message: 'Welcome aboard! Your account is ready.',
+      data: {
+        engineer: sessionUser(user),
+        ...tokens
       }
     });
   } catch (error) {
@@ -49,6 +213,9 @@ export const register = async (req, res) => {
   }
 };
 
+// One answer for unknown emails, wrong passwords and locked accounts, so none of them reveals that an account exists
+const INVALID_CREDENTIALS = 'Invalid credentials';
+
 export const login = async (req, res) => {
   try {
     const { error } = validateLogin(req.body);
@@ -63,26 +230,30 @@ export const login = async (req, res) => {
       email: email.toLowerCase()
     });
 
-    if (!user) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+    // The password is checked even when there is no account or it is locked, so every refusal takes as long
+    const isValidPassword = await checkPassword(user, password);
+
+    // Locked accounts are refused even with the right password
+    if (!user || isLocked(user)) {
+      return res.status(401).json({ error: INVALID_CREDENTIALS });
     }
 
-    // Check password
-    const isValidPassword = await bcrypt.compare(password, user.password);
     if (!isValidPassword) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+      await recordFailedLogin(user);
+      return res.status(401).json({ error: INVALID_CREDENTIALS });
     }
 
+    await clearFailedLogins(user);
+
     // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user);
+    const tokens = issueTokens(req, res, await startSession(user, req));
 
     res.json({
       success: true,
       message: 'Login successful',
       data: {
-        engineer: user.toJSON(),
-        accessToken,
-        refreshToken
+        engineer: sessionUser(user),
+        ...tokens
       }
     });
   } catch (error) {
@@ -90,32 +261,32 @@ export const login = async (req, res) => {
   }
 };
 
+// The refresh token from the body, or from its cookie for browsers in cookie mode
+const refreshTokenOf = (req) => req.body?.refreshToken || (wantsCookies(req) ? readCookie(req, REFRESH_COOKIE) : null);
+
+// Refresh tokens are single use: each refresh returns a new pair for the same session
 export const refreshToken = async (req, res) => {
   try {
-    const { refreshToken } = req.body;
+    const refreshToken = refreshTokenOf(req);
 
     if (!refreshToken) {
       return res.status(401).json({ error: 'Refresh token required' });
     }
 
-    const decoded = verifyRefreshToken(refreshToken);
-    const user = await User.findById(decoded.id).select('-password');
-
-    if (!user) {
-      return res.status(401).json({ error: 'Invalid refresh token' });
-    }
-
-    // Generate new tokens
-    const tokens = generateTokens(user);
+    const { tokens } = await rotateSession(refreshToken, req);
 
     res.json({
       success: true,
-      data: {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken
-      }
+      data: issueTokens(req, res, tokens)
     });
   } catch (error) {
+    // A rotation by another tab already set fresh cookies, so only clear them for ended sessions
+    if (wantsCookies(req) && error.code !== 'SESSION_ROTATED') {
+      clearAuthCookies(res);
+    }
+    if (error.name === 'AppError') {
+      return res.status(error.statusCode).json({ error: error.message, code: error.code });
+    }
     if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
       return res.status(401).json({ error: 'Invalid or expired refresh token' });
     }
@@ -128,7 +299,7 @@ export const getProfile = async (req, res) => {
     res.json({
       success: true,
       data: {
-        engineer: req.user
+        engineer: sessionUser(req.user)
       }
     });
   } catch (error) {
@@ -138,7 +309,7 @@ export const getProfile = async (req, res) => {
 
 export const updateProfile = async (req, res) => {
   try {
-    const allowedUpdates = ['name', 'skills', 'maxCapacity', 'hourlyRate'];
+    const allowedUpdates = ['name', 'skills', 'maxCapacity', 'hourlyRate', 'location'];
     const updates = {};
 
     // Only allow certain fields to be updated
@@ -148,17 +319,29 @@ export const updateProfile = async (req, res) => {
       }
     });
 
+    if (updates.skills) {
+      updates.skills = await canonicalizeSkillEntries(updates.skills);
+    }
+
     const user = await User.findByIdAndUpdate(
       req.user._id,
       updates,
       { new: true, runValidators: true }
     ).select('-password');
 
+    await recordAudit({
+      entityType: 'User',
+      action: 'update',
+      before: req.user,
+      after: user,
+      context: auditContext(req)
+    });
+
     res.json({
       success: true,
       message: 'Profile updated successfully',
       data: {
-        engineer: user
+        engineer: sessionUser(user)
       }
     });
   } catch (error) {
@@ -168,45 +351,262 @@ export const updateProfile = async (req, res) => {
 
 export const changePassword = async (req, res) => {
   try {
-    const { currentPassword, newPassword } = req.body;
-
-    if (!currentPassword || !newPassword) {
-      return res.status(400).json({ error: 'Current password and new password are required' });
+    const { error } = validateChangePassword(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
     }
 
-    if (newPassword.length < 6) {
-      return res.status(400).json({ error: 'New password must be at least 6 characters' });
-    }
+    const { currentPassword, newPassword } = req.body;
 
     // Get user with password
     const user = await User.findById(req.user._id);
 
+    const weakPassword = passwordProblem(newPassword, { email: user.email });
+    if (weakPassword) {
+      return res.status(400).json({ error: weakPassword });
+    }
+
     // Verify current password
     const isValidPassword = await bcrypt.compare(currentPassword, user.password);
     if (!isValidPassword) {
       return res.status(401).json({ error: 'Current password is incorrect' });
     }
 
-    // Hash new password
-    const salt = await bcrypt.genSalt(12);
-    const hashedPassword = await bcrypt.hash(newPassword, salt);
-
-    // Update password
-    user.password = hashedPassword;
+    // Update password (hashed by the pre-save hook)
+    user.password = newPassword;
     await user.save();
 
+    // Anyone holding the old password may be signed in elsewhere; this device stays signed in
+    const signedOutSessions = await revokeUserSessions(user._id, 'password-changed', req.sessionId);
+
+    await recordAudit({
+      entityType: 'User',
+      action: 'update',
+      after: user,
+      changes: [{ field: 'password', before: null, after: null }],
+      context: auditContext(req)
+    });
+
     res.json({
       success: true,
-      message: 'Password changed successfully'
+      message: signedOutSessions > 0
+        ? `Password changed successfully. Signed out ${signedOutSessions} other session${signedOutSessions === 1 ? '' : 's'}.`
+        : 'Password changed successfully',
+      data: { signedOutSessions }
     });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 };
 
-export const logout = async (req, res) => {
+// The rules new passwords must meet, so forms can check them before submitting
+export const getPasswordPolicy = (req, res) => {
   res.json({
     success: true,
-    message: 'Logged out successfully'
+    data: {
+      policy: {
+        ...PASSWORD_POLICY,
+        hint: passwordHint()
+      }
+    }
   });
-};
\ No newline at end of file
+};
+
+const RESET_REQUESTED = 'If an account exists for that email, a link to reset the password is on its way.';
+const INVALID_RESET = 'This password reset link is invalid or has expired. Ask for a new one.';
+
+// Email a reset link; the response is the same whether or not the account exists
+export const forgotPassword = async (req, res) => {
+  try {
+    const { error } = validateForgotPassword(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = await User.findOne({ email: req.body.email.toLowerCase() });
+    if (user) {
+      const token = issueResetToken(user);
+      await user.save();
+
+      try {
+        await sendMail({
+          to: user.email,
+          subject: 'Reset your password',
+          text: [
+            `Hi ${user.name},`,
+            '',
+            'Someone asked to reset the password for your Engineering Resource Manager account.',
+            `Choose a new password here within ${PASSWORD_RESET_EXPIRY_MINUTES} minutes:`,
+            '',
+            resetUrl(token),
+            '',
+            'If it was not you, ignore this email and your password stays the same.'
+          ].join('\n')
+        });
+      } catch (mailError) {
+        // A failed send must not reveal that the account exists
+        console.error('Failed to send password reset email:', mailError.message);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: RESET_REQUESTED
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Whose password a reset link changes, so the reset page can show it
+export const getPasswordReset = async (req, res) => {
+  try {
+    const user = await resolveResetToken(req.params.token);
+    if (!user) {
+      return res.status(404).json({ error: INVALID_RESET });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        reset: {
+          email: user.email,
+          expiresAt: user.passwordResetExpiresAt
+        }
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Set a new password through a reset link, signing out every device and lifting any lockout
+export const resetPassword = async (req, res) => {
+  try {
+    const { error } = validateResetPassword(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = await resolveResetToken(req.body.token);
+    if (!user) {
+      return res.status(404).json({ error: INVALID_RESET });
+    }
+
+    const weakPassword = passwordProblem(req.body.password, { email: user.email });
+    if (weakPassword) {
+      return res.status(400).json({ error: weakPassword });
+    }
+
+    // Use up the link first so it cannot set the password twice
+    const claimed = await User.updateOne(
+      { _id: user._id, passwordResetKey: user.passwordResetKey },
+      { $unset: { passwordResetKey: 1, passwordResetExpiresAt: 1 } }
+    );
+    if (!claimed.modifiedCount) {
+      return res.status(404).json({ error: INVALID_RESET });
+    }
+
+    user.password = req.body.password;
+    user.passwordResetKey = undefined;
+    user.passwordResetExpiresAt = undefined;
+    user.failedLoginAttempts = 0;
+    user.lockedUntil = undefined;
+    await user.save();
+
+    await revokeUserSessions(user._id, 'password-changed');
+
+    await recordAudit({
+      entityType: 'User',
+      action: 'update',
+      after: user,
+      changes: [{ field: 'password', before: null, after: null }],
+      context: {
+        ...auditContext(req, 'Reset a forgotten password'),
+        actor: user._id,
+        actorName: user.name
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Your password has been reset. Sign in with the new one.'
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Ends the session the refresh token belongs to, so neither token can be used again
+export const logout = async (req, res) => {
+  try {
+    const refreshToken = refreshTokenOf(req);
+    if (refreshToken) {
+      await endSession(refreshToken, 'logout');
+    }
+    if (wantsCookies(req)) {
+      clearAuthCookies(res);
+    }
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Devices the user is signed in on; the one making the request is marked current
+export const getSessions = async (req, res) => {
+  try {
+    const sessions = await activeSessions(req.user._id);
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          ...session.toJSON(),
+          current: String(session._id) === req.sessionId
+        }))
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const deleteSession = async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const revoked = await revokeSession(req.user._id, req.params.id, 'signed-out');
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({
+      success: true,
+      message: req.params.id === req.sessionId ? 'Signed out' : 'Signed out of that device'
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Sign out every device except this one
+export const deleteOtherSessions = async (req, res) => {
+  try {
+    const count = await revokeUserSessions(req.user._id, 'signed-out', req.sessionId);
+
+    res.json({
+      success: true,
+      message: count > 0 ? `Signed out ${count} other session${count === 1 ? '' : 's'}` : 'No other sessions were signed in',
+      data: { signedOutSessions: count }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
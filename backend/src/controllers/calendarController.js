@@ -0,0 +1,55 @@
+import { getFeedToken, rotateFeedToken, resolveFeedToken, buildUserCalendar } from '../utils/calendarFeed.js';
+import { apiUrl } from '../config/app.js';
+
+// Absolute feed links at the API's configured public address
+const feedLinks = (token) => {
+  const url = `${apiUrl()}/calendar/feed/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+};
+
+export const getCalendarFeed = async (req, res) => {
+  try {
+    const user = await resolveFeedToken(req.params.token);
+    if (!user) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    const calendar = await buildUserCalendar(user);
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="erms.ics"',
+      'Cache-Control': 'private, max-age=300'
+    });
+    res.send(calendar);
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const getCalendarSubscription = async (req, res) => {
+  try {
+    const token = await getFeedToken(req.user._id);
+
+    res.json({
+      success: true,
+      data: { feed: feedLinks(token) }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const rotateCalendarSubscription = async (req, res) => {
+  try {
+    const token = await rotateFeedToken(req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Calendar link rotated. Calendars subscribed to the old link will stop updating.',
+      data: { feed: feedLinks(token) }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
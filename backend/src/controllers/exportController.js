@@ -0,0 +1,46 @@
+import { validateExportQuery } from '../utils/validation.js';
+import { buildReport } from '../utils/reports.js';
+import { renderReport } from '../utils/exporters.js';
+import { MAX_TIMELINE_DAYS } from '../utils/capacityEngine.js';
+
+// The calendar month of a date, used to fill in a missing end of the range
+const monthOf = (date) => ({
+  startDate: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+  endDate: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0))
+});
+
+export const exportReport = async (req, res) => {
+  try {
+    const { error, value } = validateExportQuery({ ...req.query, report: req.params.report });
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { report: type, format, department, status, weeks } = value;
+    const month = monthOf(value.startDate || value.endDate || new Date());
+    const startDate = value.startDate || month.startDate;
+    const endDate = value.endDate || month.endDate;
+
+    // Capped like the capacity timelines the utilization report is built from; the forecast takes weeks instead
+    const windowDays = Math.ceil((endDate - startDate) / (1000 * 60 * 60 * 24));
+    if (type !== 'forecast' && windowDays > MAX_TIMELINE_DAYS) {
+      return res.status(400).json({
+        error: `Export period cannot exceed ${MAX_TIMELINE_DAYS} days`
+      });
+    }
+
+    const report = await buildReport(type, { startDate, endDate, department: department || undefined, status, weeks });
+    const { body, contentType, extension } = await renderReport(report, format);
+
+    const period = [report.startDate, report.endDate].map(date => date.toISOString().split('T')[0]).join('_');
+    res.set({
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${type}-${period}.${extension}"`,
+      'Content-Length': body.length
+    });
+    res.send(body);
+  } catch (error) {
+    console.error('Export error:', error);
+    res.status(500).json({ error: error.message });
+  }
+};
@@ -0,0 +1,203 @@
+import { Holiday } from '../models/index.js';
+import { validateHoliday, validateHolidayUpdate, validateHolidayImport } from '../utils/validation.js';
+import { startOfDay, addDays } from '../utils/capacityEngine.js';
+import { parseCalendar } from '../utils/icalendar.js';
+
+// Multi-day events are imported as one holiday per day, up to this many days
+const MAX_HOLIDAY_DAYS = 14;
+
+const MAX_IMPORTED_HOLIDAYS = 1000;
+
+export const getHolidays = async (req, res) => {
+  try {
+    const { startDate, endDate, department, location, includeInactive } = req.query;
+
+    const query = {};
+
+    if (includeInactive !== 'true') {
+      query.isActive = true;
+    }
+
+    if (startDate || endDate) {
+      query.date = {};
+      if (startDate) query.date.$gte = startOfDay(startDate);
+      if (endDate) query.date.$lte = new Date(endDate);
+    }
+
+    let holidays = await Holiday.find(query).sort({ date: 1 });
+
+    // Narrow to the calendar of a department or location
+    if (department || location) {
+      holidays = holidays.filter(holiday => holiday.appliesTo({ department, location }));
+    }
+
+    res.json({
+      success: true,
+      data: { holidays }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const createHoliday = async (req, res) => {
+  try {
+    const { error } = validateHoliday(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const holiday = new Holiday({
+      ...req.body,
+      date: startOfDay(req.body.date)
+    });
+    await holiday.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Holiday created successfully',
+      data: { holiday }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Read an ICS calendar of public holidays; dryRun reports what would be created
+export const importHolidays = async (req, res) => {
+  try {
+    const { error, value } = validateHolidayImport(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { ics, departments = [], locations = [], dryRun = false } = value;
+    const events = parseCalendar(ics);
+    if (events.length === 0) {
+      return res.status(400).json({ error: 'No events found in the calendar file' });
+    }
+
+    // One candidate per day of each event, with the reason when it cannot be imported
+    const holidays = events.flatMap(event => {
+      const days = Math.round((event.endDate - event.startDate) / (24 * 60 * 60 * 1000)) + 1;
+      const base = { name: event.summary, recurring: event.recurring };
+
+      if (!event.summary) {
+        return [{ ...base, date: event.startDate, status: 'skipped', reason: 'Event has no name' }];
+      }
+      if (event.cancelled) {
+        return [{ ...base, date: event.startDate, status: 'skipped', reason: 'Event is cancelled' }];
+      }
+      if (days > MAX_HOLIDAY_DAYS) {
+        return [{ ...base, date: event.startDate, status: 'skipped', reason: `Spans ${days} days; holidays can span at most ${MAX_HOLIDAY_DAYS}` }];
+      }
+      return Array.from({ length: days }, (_, index) => ({
+        ...base,
+        name: event.summary.slice(0, 100),
+        date: addDays(event.startDate, index),
+        status: 'new'
+      }));
+    });
+
+    if (holidays.length > MAX_IMPORTED_HOLIDAYS) {
+      return res.status(400).json({ error: `The calendar has ${holidays.length} holiday days; import at most ${MAX_IMPORTED_HOLIDAYS} at a time` });
+    }
+
+    // Same name on the same day, whether already saved or earlier in the file
+    const dates = holidays.map(holiday => holiday.date.getTime());
+    const existing = await Holiday.find({
+      date: { $gte: new Date(Math.min(...dates)), $lte: new Date(Math.max(...dates)) }
+    });
+    const seen = new Set(existing.map(holiday => `${holiday.date.getTime()}:${holiday.name.toLowerCase()}`));
+
+    holidays.forEach(holiday => {
+      if (holiday.status !== 'new') return;
+      const key = `${holiday.date.getTime()}:${holiday.name.toLowerCase()}`;
+      if (seen.has(key)) {
+        holiday.status = 'duplicate';
+        holiday.reason = 'A holiday with this name already exists on this day';
+      }
+      seen.add(key);
+    });
+
+    const toCreate = holidays.filter(holiday => holiday.status === 'new');
+    if (!dryRun && toCreate.length > 0) {
+      await Holiday.insertMany(toCreate.map(holiday => ({
+        name: holiday.name,
+        date: holiday.date,
+        departments,
+        locations
+      })));
+    }
+
+    const count = (status) => holidays.filter(holiday => holiday.status === status).length;
+
+    res.status(dryRun || toCreate.length === 0 ? 200 : 201).json({
+      success: true,
+      message: dryRun
+        ? `${toCreate.length} of ${holidays.length} holidays can be imported`
+        : `Imported ${toCreate.length} of ${holidays.length} holidays`,
+      data: {
+        result: {
+          dryRun,
+          total: holidays.length,
+          created: dryRun ? 0 : toCreate.length,
+          new: toCreate.length,
+          duplicates: count('duplicate'),
+          skipped: count('skipped'),
+          holidays
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Holiday import error:', error);
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const updateHoliday = async (req, res) => {
+  try {
+    const { error } = validateHolidayUpdate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const holiday = await Holiday.findByIdAndUpdate(
+      req.params.id,
+      {
+        ...req.body,
+        ...(req.body.date && { date: startOfDay(req.body.date) })
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!holiday) {
+      return res.status(404).json({ error: 'Holiday not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Holiday updated successfully',
+      data: { holiday }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const deleteHoliday = async (req, res) => {
+  try {
+    const holiday = await Holiday.findByIdAndDelete(req.params.id);
+
+    if (!holiday) {
+      return res.status(404).json({ error: 'Holiday not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Holiday deleted successfully'
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
@@ -0,0 +1,29 @@
+import { validateImportRequest } from '../utils/validation.js';
+import { auditContext } from '../utils/auditLog.js';
+import { runImport } from '../utils/importer.js';
+
+export const importRecords = async (req, res) => {
+  try {
+    const { error, value } = validateImportRequest({ ...req.body, entity: req.params.entity });
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { entity, rows, dryRun = false } = value;
+    const result = await runImport(entity, rows, {
+      dryRun,
+      context: auditContext(req)
+    });
+
+    res.status(dryRun || result.created === 0 ? 200 : 201).json({
+      success: true,
+      message: dryRun
+        ? `${result.valid} of ${result.total} rows can be imported`
+        : `${entity === 'engineers' ? 'Invited' : 'Imported'} ${result.created} of ${result.total} rows`,
+      data: { result }
+    });
+  } catch (error) {
+    console.error('Import error:', error);
+    res.status(error.statusCode || 500).json({ error: error.message });
+  }
+};
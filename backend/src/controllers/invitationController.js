@@ -0,0 +1,139 @@
+import { Invitation, User } from '../models/index.js';
+import { validateInvitation, validateInvitationQuery } from '../utils/validation.js';
+import { issueInviteToken, openInvitation, inviteUrl } from '../utils/invitations.js';
+import { hasPermission } from '../config/permissions.js';
+
+export const getInvitations = async (req, res) => {
+  try {
+    const { error } = validateInvitationQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { status, page = 1, limit = 20 } = req.query;
+    const now = new Date();
+
+    const query = {};
+    if (status === 'expired') {
+      Object.assign(query, { status: 'pending', expiresAt: { $lte: now } });
+    } else if (status === 'pending') {
+      Object.assign(query, { status: 'pending', expiresAt: { $gt: now } });
+    } else if (status) {
+      query.status = status;
+    }
+
+    const [invitations, total] = await Promise.all([
+      Invitation.find(query)
+        .populate('invitedBy', 'name')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(parseInt(limit)),
+      Invitation.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        invitations,
+        pagination: {
+          page: parseInt(page),
+          limit: parseInt(limit),
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// The invite link is only returned here and on resend
+export const createInvitation = async (req, res) => {
+  try {
+    const { error, value } = validateInvitation(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { name, email, role, ...profile } = value;
+
+    if (role !== 'engineer' && !hasPermission(req.user, 'users:manage-roles')) {
+      return res.status(403).json({ error: 'Access denied. Only an admin can invite users with this role.' });
+    }
+
+    // Archived accounts included, since emails are unique
+    const existingUser = await User.findOne({ email: email.toLowerCase() }).setOptions({ includeArchived: true });
+    if (existingUser) {
+      return res.status(400).json({ error: 'An account with this email already exists' });
+    }
+
+    // Inviting the same email again replaces the open invitation and its link
+    const { invitation, token } = await openInvitation({ name, email, role, profile }, req.user._id);
+    await invitation.populate('invitedBy', 'name');
+
+    res.status(201).json({
+      success: true,
+      message: `Invitation created for ${invitation.email}`,
+      data: { invitation, inviteUrl: inviteUrl(token) }
+    });
+  } catch (error) {
+    // Another invitation for the same email was created at the same time
+    if (error.code === 11000) {
+      return res.status(400).json({ error: 'An invitation for this email is already open' });
+    }
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// A new link with a fresh expiry; links sent before stop working
+export const resendInvitation = async (req, res) => {
+  try {
+    const invitation = await Invitation.findOne({ _id: req.params.id, status: 'pending' });
+    if (!invitation) {
+      return res.status(404).json({ error: 'Open invitation not found' });
+    }
+
+    if (invitation.role !== 'engineer' && !hasPermission(req.user, 'users:manage-roles')) {
+      return res.status(403).json({ error: 'Access denied. Only an admin can invite users with this role.' });
+    }
+
+    const token = issueInviteToken(invitation);
+    await invitation.save();
+    await invitation.populate('invitedBy', 'name');
+
+    res.json({
+      success: true,
+      message: `New invite link created for ${invitation.email}`,
+      data: { invitation, inviteUrl: inviteUrl(token) }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const revokeInvitation = async (req, res) => {
+  try {
+    const invitation = await Invitation.findOne({ _id: req.params.id, status: 'pending' });
+    if (!invitation) {
+      return res.status(404).json({ error: 'Open invitation not found' });
+    }
+
+    if (invitation.role !== 'engineer' && !hasPermission(req.user, 'users:manage-roles')) {
+      return res.status(403).json({ error: 'Access denied. Only an admin can manage invitations for this role.' });
+    }
+
+    invitation.status = 'revoked';
+    invitation.revokedAt = new Date();
+    await invitation.save();
+    await invitation.populate('invitedBy', 'name');
+
+    res.json({
+      success: true,
+      message: `Invitation for ${invitation.email} revoked`,
+      data: { invitation }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
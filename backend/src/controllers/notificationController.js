@@ -0,0 +1,137 @@
+import { User, Notification } from '../models/index.js';
+import { validateNotificationQuery, validateNotificationPreferences } from '../utils/validation.js';
+import { checkScheduledNotifications, describePreferences } from '../utils/notifications.js';
+
+export const getNotifications = async (req, res) => {
+  try {
+    const { error, value } = validateNotificationQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { unread = false, page = 1, limit = 20 } = value;
+    await checkScheduledNotifications(req.user);
+
+    const query = { userId: req.user._id };
+    if (unread) query.readAt = null;
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Notification.countDocuments(query),
+      Notification.countDocuments({ userId: req.user._id, readAt: null })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        notifications,
+        unreadCount,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const getUnreadCount = async (req, res) => {
+  try {
+    await checkScheduledNotifications(req.user);
+    const unreadCount = await Notification.countDocuments({ userId: req.user._id, readAt: null });
+
+    res.json({
+      success: true,
+      data: { unreadCount }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const markNotificationRead = async (req, res) => {
+  try {
+    const notification = await Notification.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!notification) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    res.json({
+      success: true,
+      data: { notification }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const markAllNotificationsRead = async (req, res) => {
+  try {
+    const result = await Notification.updateMany(
+      { userId: req.user._id, readAt: null },
+      { readAt: new Date() }
+    );
+
+    res.json({
+      success: true,
+      message: `${result.modifiedCount} notification${result.modifiedCount === 1 ? '' : 's'} marked as read`,
+      data: { updated: result.modifiedCount }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const getNotificationPreferences = async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: { preferences: describePreferences(req.user) }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const updateNotificationPreferences = async (req, res) => {
+  try {
+    const { error, value } = validateNotificationPreferences(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    // Types left out of the request keep their current setting
+    const muted = new Set(req.user.mutedNotifications || []);
+    Object.entries(value.preferences).forEach(([type, enabled]) => {
+      if (enabled) muted.delete(type);
+      else muted.add(type);
+    });
+
+    const user = await User.findByIdAndUpdate(
+      req.user._id,
+      { mutedNotifications: [...muted] },
+      { new: true, runValidators: true }
+    );
+
+    res.json({
+      success: true,
+      message: 'Notification preferences saved',
+      data: { preferences: describePreferences(user) }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
@@ -1,5 +1,27 @@
 import { Project, Assignment, User } from '../models/index.js';
-import { validateProject, validateProjectUpdate, validateQueryParams } from '../utils/validation.js';
+import { validateProject, validateProjectUpdate, validateProjectStatusChange, validateQueryParams } from '../utils/validation.js';
+import { canonicalizeSkillEntries } from '../utils/skillTaxonomy.js';
+import { auditContext, recordAudit } from '../utils/auditLog.js';
+import { archiveWithAssignments, populateArchived, restoreWithAssignments } from '../utils/archive.js';
+import { changeProjectStatus } from '../utils/projectLifecycle.js';
+import { hasPermission, PROJECT_MANAGER_ROLES } from '../config/permissions.js';
+
+// Why the requested manager cannot run the project, if they cannot
+const checkProjectManager = async (req, managerId) => {
+  // Project managers can only create and keep projects they run themselves
+  if (!hasPermission(req.user, 'projects:manage') && managerId !== req.user._id.toString()) {
+    return 'You can only manage your own projects';
+  }
+
+  const manager = await User.findById(managerId);
+  if (!manager) {
+    return 'Manager not found';
+  }
+  if (!PROJECT_MANAGER_ROLES.includes(manager.role)) {
+    return 'User does not have a role that can manage projects';
+  }
+  return null;
+};
 
 export const getAllProjects = async (req, res) => {
   try {
@@ -11,8 +33,7 @@ export const getAllProjects = async (req, res) => {
     // Engineers can only see projects they are assigned to
     if (req.user.role === 'engineer') {
       const engineerAssignments = await Assignment.find({
-        engineerId: req.user._id,
-        isActive: true
+        engineerId: req.user._id
       }).select('projectId');
       
       const projectIds = engineerAssignments.map(assignment => assignment.projectId);
@@ -33,8 +54,7 @@ export const getAllProjects = async (req, res) => {
       }
 
       const projects = await Project.find({
-        _id: { $in: projectIds },
-        isActive: true
+        _id: { $in: projectIds }
       }).populate('managerId', 'name email');
 
       const projectsWithStats = await Promise.all(
@@ -87,11 +107,15 @@ export const getAllProjects = async (req, res) => {
       search,
       status,
       priority,
-      managerId
+      managerId,
+      archived
     } = req.query;
 
     const query = {};
 
+    // Archived projects are hidden unless asked for explicitly
+    if (archived === 'true') query.archivedAt = { $ne: null };
+
     if (search) {
       query.$or = [
         { name: { $regex: search, $options: 'i' } },
@@ -109,6 +133,7 @@ export const getAllProjects = async (req, res) => {
 
     const projects = await Project.find(query)
       .populate('managerId', 'name email')
+      .populate('archivedBy', 'name')
       .sort(sortObj)
       .skip(skip)
       .limit(parseInt(limit));
@@ -117,10 +142,12 @@ export const getAllProjects = async (req, res) => {
 
     const projectsWithStats = await Promise.all(
       projects.map(async (project) => {
+        // An archived project lists the team that was archived with it
         const assignments = await Assignment.find({
           projectId: project._id,
-          status: 'active'
-        }).populate('engineerId', 'name email seniority');
+          status: 'active',
+          archivedAt: project.archivedAt
+        }).populate(populateArchived('engineerId', 'name email seniority'));
 
         // Calculate auto-progress based on assignment completion
         const progressData = await Assignment.calculateProjectProgress(project._id);
@@ -163,16 +190,14 @@ export const getAllProjects = async (req, res) => {
 export const getProjectById = async (req, res) => {
   try {
     const projectQuery = {
-      _id: req.params.id,
-      isActive: true
+      _id: req.params.id
     };
 
     // Engineers can only see projects they are assigned to
     if (req.user.role === 'engineer') {
       const engineerAssignment = await Assignment.findOne({
         engineerId: req.user._id,
-        projectId: req.params.id,
-        isActive: true
+        projectId: req.params.id
       });
 
       if (!engineerAssignment) {
@@ -236,26 +261,31 @@ export const createProject = async (req, res) => {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    // Temporarily skip manager validation for debugging
+    if (!hasPermission(req.user, 'projects:manage')) {
+      req.body.managerId = req.body.managerId || req.user._id.toString();
+    }
+
     if (req.body.managerId) {
-      const manager = await User.findById(req.body.managerId);
-      if (!manager) {
-        console.log('Manager not found:', req.body.managerId);
-        return res.status(400).json({ error: 'Manager not found' });
+      const managerError = await checkProjectManager(req, req.body.managerId);
+      if (managerError) {
+        return res.status(400).json({ error: managerError });
       }
-      
-      if (!['manager', 'admin'].includes(manager.role)) {
-        console.log('Insufficient permissions for manager:', manager.role);
-        return res.status(400).json({ error: 'User does not have manager or admin permissions' });
-      }
-    } else {
-      console.log('No managerId provided, creating project without manager validation');
     }
 
-    const project = new Project(req.body);
+    const project = new Project({
+      ...req.body,
+      requiredSkills: await canonicalizeSkillEntries(req.body.requiredSkills || [])
+    });
     await project.save();
     await project.populate('managerId', 'name email');
 
+    await recordAudit({
+      entityType: 'Project',
+      action: 'create',
+      after: project,
+      context: auditContext(req)
+    });
+
     res.status(201).json({
       success: true,
       message: 'Project created successfully',
@@ -292,9 +322,30 @@ export const updateProject = async (req, res) => {
       }
     }
 
+    if (req.body.managerId) {
+      const managerError = await checkProjectManager(req, req.body.managerId);
+      if (managerError) {
+        return res.status(400).json({ error: managerError });
+      }
+    }
+
+    const updateData = req.body.requiredSkills
+      ? { ...req.body, requiredSkills: await canonicalizeSkillEntries(req.body.requiredSkills) }
+      : req.body;
+
+    const previous = await Project.findById(req.params.id);
+    if (!previous) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    // Status changes cascade to assignments, so they go through the status endpoint
+    if (updateData.status && updateData.status !== previous.status) {
+      return res.status(400).json({ error: 'Use POST /api/projects/:id/status to change the project status' });
+    }
+
     const project = await Project.findByIdAndUpdate(
       req.params.id,
-      req.body,
+      updateData,
       { new: true, runValidators: true }
     ).populate('managerId', 'name email');
 
@@ -302,6 +353,14 @@ export const updateProject = async (req, res) => {
       return res.status(404).json({ error: 'Project not found' });
     }
 
+    await recordAudit({
+      entityType: 'Project',
+      action: 'update',
+      before: previous,
+      after: project,
+      context: auditContext(req)
+    });
+
     res.json({
       success: true,
       message: 'Project updated successfully',
@@ -324,6 +383,11 @@ export const updateProjectProgress = async (req, res) => {
       return res.status(400).json({ error: 'Completion percentage must be between 0 and 100' });
     }
 
+    const previous = await Project.findById(req.params.id);
+    if (!previous) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
     const project = await Project.findByIdAndUpdate(
       req.params.id,
       { completionPercentage },
@@ -334,6 +398,14 @@ export const updateProjectProgress = async (req, res) => {
       return res.status(404).json({ error: 'Project not found' });
     }
 
+    await recordAudit({
+      entityType: 'Project',
+      action: 'update',
+      before: previous,
+      after: project,
+      context: auditContext(req)
+    });
+
     res.json({
       success: true,
       message: 'Project progress updated successfully',
@@ -344,28 +416,76 @@ export const updateProjectProgress = async (req, res) => {
   }
 };
 
-export const deleteProject = async (req, res) => {
+export const updateProjectStatus = async (req, res) => {
   try {
-    const project = await Project.findByIdAndUpdate(
-      req.params.id,
-      { isActive: false },
-      { new: true }
-    );
+    const { error, value } = validateProjectStatusChange(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
 
+    const project = await Project.findById(req.params.id);
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    await Assignment.updateMany(
-      { projectId: req.params.id },
-      { isActive: false }
-    );
+    const { status, preview = false } = value;
+    const result = await changeProjectStatus(project, status, {
+      preview,
+      context: auditContext(req)
+    });
+
+    await project.populate('managerId', 'name email');
 
     res.json({
       success: true,
-      message: 'Project deactivated successfully'
+      message: preview
+        ? `Moving the project to ${status} affects ${result.effects.length} assignment(s)`
+        : result.skipped > 0
+          ? `Project moved to ${status}. ${result.skipped} assignment(s) could not be resumed.`
+          : `Project moved to ${status}`,
+      data: { project, result }
+    });
+  } catch (error) {
+    res.status(error.statusCode || 500).json({ error: error.message });
+  }
+};
+
+export const deleteProject = async (req, res) => {
+  try {
+    const project = await Project.findById(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const { archivedAssignments } = await archiveWithAssignments('Project', project, auditContext(req));
+
+    res.json({
+      success: true,
+      message: 'Project archived successfully',
+      data: { project, archivedAssignments }
     });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
-};
\ No newline at end of file
+};
+
+export const restoreProject = async (req, res) => {
+  try {
+    const project = await Project.findOne({ _id: req.params.id, archivedAt: { $ne: null } });
+    if (!project) {
+      return res.status(404).json({ error: 'Archived project not found' });
+    }
+
+    const { restoredAssignments, skippedAssignments } = await restoreWithAssignments('Project', project, auditContext(req));
+
+    res.json({
+      success: true,
+      message: skippedAssignments.length > 0
+        ? `Project restored. ${skippedAssignments.length} assignment(s) could not be reinstated.`
+        : 'Project restored successfully',
+      data: { project, restoredAssignments, skippedAssignments }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
@@ -0,0 +1,195 @@
+import { Skill, User, Project } from '../models/index.js';
+import { normalizeSkillName } from '../models/Skill.js';
+import { validateSkill, validateSkillUpdate } from '../utils/validation.js';
+import { escapeRegex } from '../utils/skillTaxonomy.js';
+
+// Find a different skill that already uses one of the given names as its name or alias
+const findNameConflict = async (names, excludeSkillId = null) => {
+  const normalized = names.map(normalizeSkillName).filter(Boolean);
+  const query = {
+    $or: [
+      { normalizedName: { $in: normalized } },
+      { normalizedAliases: { $in: normalized } }
+    ]
+  };
+
+  if (excludeSkillId) {
+    query._id = { $ne: excludeSkillId };
+  }
+
+  return Skill.findOne(query);
+};
+
+export const getAllSkills = async (req, res) => {
+  try {
+    const { search, category, includeInactive, limit } = req.query;
+
+    const query = {};
+
+    if (includeInactive !== 'true') {
+      query.isActive = true;
+    }
+
+    if (category) {
+      query.category = category;
+    }
+
+    // Autocomplete matches canonical names and aliases
+    if (search) {
+      const pattern = new RegExp(escapeRegex(normalizeSkillName(search)));
+      query.$or = [
+        { normalizedName: pattern },
+        { normalizedAliases: pattern }
+      ];
+    }
+
+    let skillsQuery = Skill.find(query)
+      .populate('relatedSkills', 'name category')
+      .sort({ name: 1 });
+
+    if (limit) {
+      skillsQuery = skillsQuery.limit(Math.min(parseInt(limit) || 20, 100));
+    }
+
+    const skills = await skillsQuery;
+
+    res.json({
+      success: true,
+      data: { skills }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const getSkillById = async (req, res) => {
+  try {
+    const skill = await Skill.findById(req.params.id)
+      .populate('relatedSkills', 'name category');
+
+    if (!skill) {
+      return res.status(404).json({ error: 'Skill not found' });
+    }
+
+    const [engineerCount, projectCount] = await Promise.all([
+      User.countDocuments({ 'skills.skillId': skill._id }),
+      Project.countDocuments({ 'requiredSkills.skillId': skill._id })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        skill,
+        usage: { engineerCount, projectCount }
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const createSkill = async (req, res) => {
+  try {
+    const { error } = validateSkill(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const conflict = await findNameConflict([req.body.name, ...(req.body.aliases || [])]);
+    if (conflict) {
+      return res.status(409).json({
+        error: `"${conflict.name}" already uses this name or one of these aliases`
+      });
+    }
+
+    const skill = new Skill(req.body);
+    await skill.save();
+    await skill.populate('relatedSkills', 'name category');
+
+    res.status(201).json({
+      success: true,
+      message: 'Skill created successfully',
+      data: { skill }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const updateSkill = async (req, res) => {
+  try {
+    const { error } = validateSkillUpdate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const skill = await Skill.findById(req.params.id);
+    if (!skill) {
+      return res.status(404).json({ error: 'Skill not found' });
+    }
+
+    const names = [req.body.name, ...(req.body.aliases || [])].filter(Boolean);
+    const conflict = names.length ? await findNameConflict(names, skill._id) : null;
+    if (conflict) {
+      return res.status(409).json({
+        error: `"${conflict.name}" already uses this name or one of these aliases`
+      });
+    }
+
+    if (req.body.relatedSkills?.includes(skill._id.toString())) {
+      return res.status(400).json({ error: 'A skill cannot be related to itself' });
+    }
+
+    const previousName = skill.name;
+    skill.set(req.body);
+    await skill.save();
+
+    // Keep the display names on engineers and projects in step with a renamed skill
+    if (skill.name !== previousName) {
+      await Promise.all([
+        User.updateMany(
+          { 'skills.skillId': skill._id },
+          { $set: { 'skills.$[entry].skill': skill.name } },
+          { arrayFilters: [{ 'entry.skillId': skill._id }] }
+        ),
+        Project.updateMany(
+          { 'requiredSkills.skillId': skill._id },
+          { $set: { 'requiredSkills.$[entry].skill': skill.name } },
+          { arrayFilters: [{ 'entry.skillId': skill._id }] }
+        )
+      ]);
+    }
+
+    await skill.populate('relatedSkills', 'name category');
+
+    res.json({
+      success: true,
+      message: 'Skill updated successfully',
+      data: { skill }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const deleteSkill = async (req, res) => {
+  try {
+    // Skills stay resolvable for existing engineers and projects; they just stop being suggested
+    const skill = await Skill.findByIdAndUpdate(
+      req.params.id,
+      { isActive: false },
+      { new: true }
+    );
+
+    if (!skill) {
+      return res.status(404).json({ error: 'Skill not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Skill deactivated successfully'
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
@@ -0,0 +1,182 @@
+import { TimeOff, User } from '../models/index.js';
+import { validateTimeOff, validateTimeOffReview, validateTimeOffQuery } from '../utils/validation.js';
+import { findOverlappingAssignments, startOfDay } from '../utils/capacityEngine.js';
+import { flagCapacityChange } from '../utils/webhooks.js';
+
+const populateTimeOff = (query) => query
+  .populate('engineerId', 'name email department location')
+  .populate('reviewedBy', 'name');
+
+export const getTimeOff = async (req, res) => {
+  try {
+    const { error } = validateTimeOffQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { engineerId, status, startDate, endDate } = req.query;
+
+    const query = {};
+
+    // Engineers can only see their own time off
+    if (req.user.role === 'engineer') {
+      query.engineerId = req.user._id;
+    } else if (engineerId) {
+      query.engineerId = engineerId;
+    }
+
+    if (status) query.status = status;
+    if (startDate) query.endDate = { $gte: startOfDay(startDate) };
+    if (endDate) query.startDate = { $lte: new Date(endDate) };
+
+    const timeOff = await populateTimeOff(TimeOff.find(query).sort({ startDate: 1 }));
+
+    res.json({
+      success: true,
+      data: { timeOff }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const requestTimeOff = async (req, res) => {
+  try {
+    const { error } = validateTimeOff(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const isEngineer = req.user.role === 'engineer';
+    const engineerId = isEngineer ? req.user._id : req.body.engineerId;
+
+    if (!engineerId) {
+      return res.status(400).json({ error: 'Engineer ID is required' });
+    }
+
+    const engineer = await User.findOne({ _id: engineerId, role: 'engineer' });
+    if (!engineer) {
+      return res.status(404).json({ error: 'Engineer not found' });
+    }
+
+    const overlapping = await TimeOff.findOne({
+      engineerId,
+      status: { $in: ['pending', 'approved'] },
+      startDate: { $lte: new Date(req.body.endDate) },
+      endDate: { $gte: startOfDay(req.body.startDate) }
+    });
+
+    if (overlapping) {
+      return res.status(409).json({
+        error: `Overlaps ${overlapping.status} ${overlapping.type} from ${overlapping.startDate.toISOString().split('T')[0]} ` +
+          `to ${overlapping.endDate.toISOString().split('T')[0]}`
+      });
+    }
+
+    // Time off recorded by a manager does not need a second approval
+    const timeOff = new TimeOff({
+      ...req.body,
+      engineerId,
+      ...(!isEngineer && {
+        status: 'approved',
+        reviewedBy: req.user._id,
+        reviewedAt: new Date()
+      })
+    });
+    await timeOff.save();
+    await populateTimeOff(timeOff);
+
+    res.status(201).json({
+      success: true,
+      message: isEngineer ? 'Time off requested successfully' : 'Time off recorded successfully',
+      data: { timeOff }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const reviewTimeOff = async (req, res) => {
+  try {
+    const { error } = validateTimeOffReview(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const timeOff = await TimeOff.findById(req.params.id);
+    if (!timeOff) {
+      return res.status(404).json({ error: 'Time off request not found' });
+    }
+
+    if (timeOff.status !== 'pending') {
+      return res.status(400).json({ error: `Time off request has already been ${timeOff.status}` });
+    }
+
+    timeOff.status = req.body.status;
+    timeOff.reviewNote = req.body.reviewNote;
+    timeOff.reviewedBy = req.user._id;
+    timeOff.reviewedAt = new Date();
+    await timeOff.save();
+    await populateTimeOff(timeOff);
+
+    if (timeOff.status === 'approved') flagCapacityChange();
+
+    // Approved leave takes capacity away from these assignments
+    const affectedAssignments = timeOff.status === 'approved'
+      ? await findOverlappingAssignments(timeOff.engineerId._id, timeOff.startDate, timeOff.endDate)
+      : [];
+
+    res.json({
+      success: true,
+      message: `Time off ${timeOff.status}`,
+      data: {
+        timeOff,
+        affectedAssignments: affectedAssignments.map(assignment => ({
+          assignmentId: assignment._id,
+          projectName: assignment.projectId?.name || 'Unknown Project',
+          allocation: assignment.allocationPercentage,
+          startDate: assignment.startDate,
+          endDate: assignment.endDate
+        }))
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const cancelTimeOff = async (req, res) => {
+  try {
+    const query = { _id: req.params.id };
+
+    // Engineers can only cancel their own time off
+    if (req.user.role === 'engineer') {
+      query.engineerId = req.user._id;
+    }
+
+    const timeOff = await TimeOff.findOne(query);
+    if (!timeOff) {
+      return res.status(404).json({ error: 'Time off request not found or access denied' });
+    }
+
+    if (!['pending', 'approved'].includes(timeOff.status)) {
+      return res.status(400).json({ error: `Time off request is already ${timeOff.status}` });
+    }
+
+    if (startOfDay(timeOff.endDate) < startOfDay(new Date())) {
+      return res.status(400).json({ error: 'Time off in the past cannot be cancelled' });
+    }
+
+    timeOff.status = 'cancelled';
+    await timeOff.save();
+    await populateTimeOff(timeOff);
+
+    res.json({
+      success: true,
+      message: 'Time off cancelled successfully',
+      data: { timeOff }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
@@ -0,0 +1,133 @@
+import { TimeEntry, User } from '../models/index.js';
+import { validateTimesheet, validateTimesheetQuery, validateTimesheetSummaryQuery } from '../utils/validation.js';
+import { addDays, startOfWeek, MAX_TIMELINE_DAYS } from '../utils/capacityEngine.js';
+import { buildWeeklyTimesheet, buildTimesheetSummary, findAssignmentsForWeek } from '../utils/timesheets.js';
+
+// Engineers work on their own timesheet; managers pick an engineer
+const resolveEngineer = (req, engineerId) => {
+  if (req.user.role === 'engineer') {
+    return req.user;
+  }
+  if (!engineerId) {
+    return null;
+  }
+  return User.findOne({ _id: engineerId, role: 'engineer' });
+};
+
+export const getTimesheet = async (req, res) => {
+  try {
+    const { error } = validateTimesheetQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const engineer = await resolveEngineer(req, req.query.engineerId);
+    if (!engineer) {
+      return res.status(req.query.engineerId ? 404 : 400).json({
+        error: req.query.engineerId ? 'Engineer not found' : 'Engineer ID is required'
+      });
+    }
+
+    const timesheet = await buildWeeklyTimesheet(engineer, startOfWeek(req.query.weekStart || new Date()));
+
+    res.json({
+      success: true,
+      data: { timesheet }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const saveTimesheet = async (req, res) => {
+  try {
+    const { error } = validateTimesheet(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const engineer = await resolveEngineer(req, req.body.engineerId);
+    if (!engineer) {
+      return res.status(req.body.engineerId ? 404 : 400).json({
+        error: req.body.engineerId ? 'Engineer not found' : 'Engineer ID is required'
+      });
+    }
+
+    const weekStart = startOfWeek(req.body.weekStart);
+    if (weekStart > startOfWeek(new Date())) {
+      return res.status(400).json({ error: 'Cannot log hours for a future week' });
+    }
+
+    // Hours can only be logged against assignments that ran that week
+    const assignments = await findAssignmentsForWeek(engineer._id, weekStart);
+    const assignmentsById = new Map(assignments.map(assignment => [assignment._id.toString(), assignment]));
+
+    const unknown = req.body.entries.find(entry => !assignmentsById.has(entry.assignmentId));
+    if (unknown) {
+      return res.status(400).json({
+        error: `Assignment ${unknown.assignmentId} is not active for this engineer in the week of ${weekStart.toISOString().split('T')[0]}`
+      });
+    }
+
+    const weeklyHours = req.body.entries.reduce((sum, entry) => sum + entry.hours, 0);
+    if (weeklyHours > 168) {
+      return res.status(400).json({ error: 'Logged hours cannot exceed the hours in a week' });
+    }
+
+    await Promise.all(req.body.entries.map(entry => {
+      const assignment = assignmentsById.get(entry.assignmentId);
+
+      return TimeEntry.findOneAndUpdate(
+        { assignmentId: assignment._id, weekStart },
+        {
+          engineerId: engineer._id,
+          projectId: assignment.projectId._id,
+          hours: entry.hours,
+          note: entry.note
+        },
+        { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+      );
+    }));
+
+    const timesheet = await buildWeeklyTimesheet(engineer, weekStart);
+
+    res.json({
+      success: true,
+      message: 'Timesheet saved successfully',
+      data: { timesheet }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const getTimesheetSummary = async (req, res) => {
+  try {
+    const { error } = validateTimesheetSummaryQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { projectId, engineerId } = req.query;
+
+    // Default to the last four weeks, including the current one
+    const endDate = req.query.endDate ? new Date(req.query.endDate) : new Date();
+    const startDate = req.query.startDate ? new Date(req.query.startDate) : addDays(startOfWeek(endDate), -21);
+
+    const windowDays = Math.ceil((endDate - startDate) / (1000 * 60 * 60 * 24));
+    if (windowDays > MAX_TIMELINE_DAYS) {
+      return res.status(400).json({
+        error: `Timesheet window cannot exceed ${MAX_TIMELINE_DAYS} days`
+      });
+    }
+
+    const summary = await buildTimesheetSummary({ projectId, engineerId, startDate, endDate });
+
+    res.json({
+      success: true,
+      data: { summary }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
@@ -1,5 +1,24 @@
-import { User, Assignment } from '../models/index.js';
-import { validateEngineerUpdate, validateQueryParams } from '../utils/validation.js';
+import { User, Assignment, Project } from '../models/index.js';
+import {
+  validateEngineerUpdate,
+  validateQueryParams,
+  validateCapacityTimelineQuery,
+  validateRoleChange,
+  validateAccountQuery
+} from '../utils/validation.js';
+import { getEngineerCapacityTimeline, getCurrentCapacity, MAX_TIMELINE_DAYS } from '../utils/capacityEngine.js';
+import { buildRelatedSkillLookup, canonicalizeSkillEntries, escapeRegex, exactSkillNameRegex, resolveSkillName } from '../utils/skillTaxonomy.js';
+import { calculateSkillMatch } from '../utils/resourceOptimizer.js';
+import { auditContext, recordAudit } from '../utils/auditLog.js';
+import { archiveWithAssignments, restoreWithAssignments } from '../utils/archive.js';
+import {
+  ROLES,
+  ROLE_LABELS,
+  PERMISSIONS,
+  PROJECT_MANAGER_ROLES,
+  hasPermission,
+  permissionsFor
+} from '../config/permissions.js';
 
 export const getAllUsers = async (req, res) => {
   try {
@@ -8,29 +27,26 @@ export const getAllUsers = async (req, res) => {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    // Engineers can only see their own data
-    if (req.user.role === 'engineer') {
+    // Users who cannot see the team directory only get their own data
+    if (!hasPermission(req.user, 'analytics:read')) {
       const engineer = await User.findOne({
         _id: req.user._id,
-        role: 'engineer',
-        isActive: true
+        role: 'engineer'
       }).select('-password');
 
       if (!engineer) {
         return res.status(404).json({ error: 'Engineer not found' });
       }
 
-      // Get current allocations
-      const allocations = await Assignment.getUserCurrentAllocation(engineer._id);
-      const currentUtilization = allocations.length > 0 ? allocations[0].totalAllocation : 0;
+      // Load and free capacity over the coming week
+      const current = (await getCurrentCapacity([engineer])).get(engineer._id.toString());
 
       // Get current assignments with project details
       const assignments = await Assignment.findByUser(engineer._id, 'active');
 
       const engineerData = {
         ...engineer.toJSON(),
-        currentUtilization,
-        availableCapacity: Math.max(0, engineer.maxCapacity - currentUtilization),
+        ...current,
         assignments: assignments
       };
 
@@ -48,7 +64,7 @@ export const getAllUsers = async (req, res) => {
       });
     }
 
-    // Manager/Admin can see all engineers
+    // Managers, admins and viewers can see all engineers
     const {
       page = 1,
       limit = 10,
@@ -56,10 +72,14 @@ export const getAllUsers = async (req, res) => {
       search,
       department,
       seniority,
-      skill
+      skill,
+      archived
     } = req.query;
 
-    const query = { role: 'engineer', isActive: true };
+    const query = { role: 'engineer' };
+
+    // Archived engineers are hidden unless asked for explicitly
+    if (archived === 'true') query.archivedAt = { $ne: null };
 
     // Search filter
     if (search) {
@@ -79,9 +99,9 @@ export const getAllUsers = async (req, res) => {
       query.seniority = seniority;
     }
 
-    // Skill filter - updated for new skills structure
+    // Skill filter - exact match on the canonical skill name
     if (skill) {
-      query['skills.skill'] = { $regex: skill, $options: 'i' };
+      query['skills.skill'] = exactSkillNameRegex(await resolveSkillName(skill));
     }
 
     const skip = (page - 1) * limit;
@@ -90,25 +110,23 @@ export const getAllUsers = async (req, res) => {
 
     const engineers = await User.find(query)
       .select('-password')
+      .populate('archivedBy', 'name')
       .sort(sortObj)
       .skip(skip)
       .limit(parseInt(limit));
 
     const total = await User.countDocuments(query);
 
-    // Get current allocations for each engineer
+    // Load and free capacity over the coming week for each engineer
+    const currentCapacity = await getCurrentCapacity(engineers);
     const engineersWithAllocation = await Promise.all(
       engineers.map(async (engineer) => {
-        const allocations = await Assignment.getUserCurrentAllocation(engineer._id);
-        const currentUtilization = allocations.length > 0 ? allocations[0].totalAllocation : 0;
-        
         // Get current assignments with project details
         const assignments = await Assignment.findByUser(engineer._id, 'active');
         
         return {
           ...engineer.toJSON(),
-          currentUtilization,
-          availableCapacity: Math.max(0, engineer.maxCapacity - currentUtilization),
+          ...currentCapacity.get(engineer._id.toString()),
           assignments: assignments
         };
       })
@@ -135,25 +153,22 @@ export const getUserById = async (req, res) => {
   try {
     const engineer = await User.findOne({
       _id: req.params.id,
-      role: 'engineer',
-      isActive: true
+      role: 'engineer'
     }).select('-password');
 
     if (!engineer) {
       return res.status(404).json({ error: 'Engineer not found' });
     }
 
-    // Get current allocations
-    const allocations = await Assignment.getUserCurrentAllocation(engineer._id);
-    const currentUtilization = allocations.length > 0 ? allocations[0].totalAllocation : 0;
+    // Load and free capacity over the coming week
+    const current = (await getCurrentCapacity([engineer])).get(engineer._id.toString());
 
     // Get current assignments
     const assignments = await Assignment.findByUser(engineer._id, 'active');
 
     const engineerData = {
       ...engineer.toJSON(),
-      currentUtilization,
-      availableCapacity: Math.max(0, engineer.maxCapacity - currentUtilization),
+      ...current,
       currentAssignments: assignments
     };
 
@@ -176,32 +191,48 @@ export const updateUser = async (req, res) => {
     }
 
     const targetUserId = req.params.id;
-    
-    // Engineers can only update their own profile
-    if (req.user.role === 'engineer' && req.user._id.toString() !== targetUserId) {
-      return res.status(403).json({ 
-        error: 'Access denied. Engineers can only update their own profile.' 
-      });
-    }
 
-    // For engineers, restrict what fields they can update
+    // Users who do not manage engineers can only update their own profile fields
     let updateData = req.body;
-    if (req.user.role === 'engineer') {
-      // Engineers can update their profile fields including capacity
-      const allowedFields = ['name', 'skills', 'seniority', 'department', 'maxCapacity'];
+    if (!hasPermission(req.user, 'engineers:manage')) {
+      const allowedFields = ['name', 'skills', 'seniority', 'department', 'location', 'maxCapacity'];
       updateData = {};
       allowedFields.forEach(field => {
         if (req.body[field] !== undefined) {
           updateData[field] = req.body[field];
         }
       });
-      
-      // Engineers cannot change role or isActive
-      if (req.body.role !== undefined || req.body.isActive !== undefined) {
-        return res.status(403).json({ 
-          error: 'Engineers cannot modify role or active status.' 
-        });
-      }
+    }
+
+    if (updateData.skills) {
+      updateData = { ...updateData, skills: await canonicalizeSkillEntries(updateData.skills) };
+    }
+
+    const previous = await User.findById(targetUserId).select('-password');
+    if (!previous) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Roles are changed by admins through PUT /:id/role
+    if (req.body.role !== undefined && req.body.role !== previous.role) {
+      return res.status(403).json({
+        error: 'Access denied. Roles can only be changed by an admin.'
+      });
+    }
+
+    // Managing engineers covers engineer accounts and your own; other accounts, and the
+    // email addresses password resets are sent to, are left to admins
+    const isSelf = previous._id.toString() === req.user._id.toString();
+    const canManageAccounts = hasPermission(req.user, 'users:manage-roles');
+    if (!isSelf && previous.role !== 'engineer' && !canManageAccounts) {
+      return res.status(403).json({
+        error: 'Access denied. Only an admin can edit accounts that are not engineers.'
+      });
+    }
+    if (updateData.email !== undefined && updateData.email.toLowerCase() !== previous.email && !canManageAccounts) {
+      return res.status(403).json({
+        error: 'Access denied. Only an admin can change an email address.'
+      });
     }
 
     const engineer = await User.findByIdAndUpdate(
@@ -214,6 +245,14 @@ export const updateUser = async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    await recordAudit({
+      entityType: 'User',
+      action: 'update',
+      before: previous,
+      after: engineer,
+      context: auditContext(req)
+    });
+
     res.json({
       success: true,
       message: 'User updated successfully',
@@ -228,19 +267,42 @@ export const updateUser = async (req, res) => {
 
 export const deleteUser = async (req, res) => {
   try {
-    const engineer = await User.findByIdAndUpdate(
-      req.params.id,
-      { isActive: false },
-      { new: true }
-    ).select('-password');
-
+    const engineer = await User.findById(req.params.id).select('-password');
     if (!engineer) {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    if (engineer._id.toString() === req.user._id.toString()) {
+      return res.status(400).json({ error: 'You cannot archive your own account' });
+    }
+
+    const { archivedAssignments } = await archiveWithAssignments('User', engineer, auditContext(req));
+
+    res.json({
+      success: true,
+      message: 'User archived successfully',
+      data: { engineer, archivedAssignments }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const restoreUser = async (req, res) => {
+  try {
+    const engineer = await User.findOne({ _id: req.params.id, archivedAt: { $ne: null } }).select('-password');
+    if (!engineer) {
+      return res.status(404).json({ error: 'Archived user not found' });
+    }
+
+    const { restoredAssignments, skippedAssignments } = await restoreWithAssignments('User', engineer, auditContext(req));
+
     res.json({
       success: true,
-      message: 'User deactivated successfully'
+      message: skippedAssignments.length > 0
+        ? `User restored. ${skippedAssignments.length} assignment(s) could not be reinstated.`
+        : 'User restored successfully',
+      data: { engineer, restoredAssignments, skippedAssignments }
     });
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -249,17 +311,13 @@ export const deleteUser = async (req, res) => {
 
 export const getUserCapacity = async (req, res) => {
   try {
-    const engineer = await User.findOne({
-      _id: req.params.id,
-      isActive: true
-    }).select('-password');
+    const engineer = await User.findById(req.params.id).select('-password');
 
     if (!engineer) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const allocations = await Assignment.getUserCurrentAllocation(engineer._id);
-    const currentUtilization = allocations.length > 0 ? allocations[0].totalAllocation : 0;
+    const { currentUtilization, availableCapacity } = (await getCurrentCapacity([engineer])).get(engineer._id.toString());
 
     // Get assignments for timeline
     const assignments = await Assignment.findByUser(engineer._id)
@@ -272,7 +330,7 @@ export const getUserCapacity = async (req, res) => {
         name: engineer.name,
         maxCapacity: engineer.maxCapacity,
         currentUtilization,
-        availableCapacity: Math.max(0, engineer.maxCapacity - currentUtilization),
+        availableCapacity,
         utilizationRate: (currentUtilization / engineer.maxCapacity) * 100,
         assignments
       }
@@ -282,6 +340,50 @@ export const getUserCapacity = async (req, res) => {
   }
 };
 
+export const getUserCapacityTimeline = async (req, res) => {
+  try {
+    const { error } = validateCapacityTimelineQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { granularity = 'week', excludeAssignmentId } = req.query;
+
+    // Default window: today plus the next 12 weeks
+    const startDate = req.query.startDate ? new Date(req.query.startDate) : new Date();
+    const endDate = req.query.endDate
+      ? new Date(req.query.endDate)
+      : new Date(startDate.getTime() + 12 * 7 * 24 * 60 * 60 * 1000);
+
+    const windowDays = Math.ceil((endDate - startDate) / (1000 * 60 * 60 * 24));
+    if (windowDays > MAX_TIMELINE_DAYS) {
+      return res.status(400).json({ 
+        error: `Timeline window cannot exceed ${MAX_TIMELINE_DAYS} days` 
+      });
+    }
+
+    const timeline = await getEngineerCapacityTimeline(req.params.id, {
+      startDate,
+      endDate,
+      granularity,
+      excludeAssignmentId
+    });
+
+    if (!timeline) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        timeline
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
 export const getUserAssignments = async (req, res) => {
   try {
     const { status } = req.query;
@@ -302,7 +404,7 @@ export const getUserAssignments = async (req, res) => {
 export const searchUsersBySkill = async (req, res) => {
   try {
     // Engineers cannot search for other engineers
-    if (req.user.role === 'engineer') {
+    if (!hasPermission(req.user, 'analytics:read')) {
       return res.status(403).json({ 
         error: 'Access denied. Engineers cannot search for other users.' 
       });
@@ -314,23 +416,15 @@ export const searchUsersBySkill = async (req, res) => {
       return res.status(400).json({ error: 'Skill parameter is required' });
     }
 
-    let engineers = await User.findBySkill(skill, level);
+    let engineers = await User.findBySkill(await resolveSkillName(skill), level);
 
     if (available === 'true') {
       // Filter engineers with available capacity
-      const engineersWithCapacity = await Promise.all(
-        engineers.map(async (engineer) => {
-          const allocations = await Assignment.getUserCurrentAllocation(engineer._id);
-          const currentUtilization = allocations.length > 0 ? allocations[0].totalAllocation : 0;
-          const availableCapacity = Math.max(0, engineer.maxCapacity - currentUtilization);
-          
-          return {
-            ...engineer.toJSON(),
-            currentUtilization,
-            availableCapacity
-          };
-        })
-      );
+      const currentCapacity = await getCurrentCapacity(engineers);
+      const engineersWithCapacity = engineers.map(engineer => ({
+        ...engineer.toJSON(),
+        ...currentCapacity.get(engineer._id.toString())
+      }));
 
       engineers = engineersWithCapacity.filter(eng => eng.availableCapacity > 0);
     }
@@ -350,7 +444,7 @@ export const searchUsersBySkill = async (req, res) => {
 export const findSuitableUsersForProject = async (req, res) => {
   try {
     // Engineers cannot search for suitable engineers for projects
-    if (req.user.role === 'engineer') {
+    if (!hasPermission(req.user, 'analytics:read')) {
       return res.status(403).json({ 
         error: 'Access denied. Engineers cannot search for suitable engineers for projects.' 
       });
@@ -362,36 +456,40 @@ export const findSuitableUsersForProject = async (req, res) => {
       return res.status(400).json({ error: 'Required skills array is required' });
     }
 
-    // Find engineers with any of the required skills
-    const skillNames = requiredSkills.map(rs => typeof rs === 'string' ? rs : rs.skill);
+    // Find engineers with any of the required skills, or a skill related to one
+    const requirements = await canonicalizeSkillEntries(
+      requiredSkills.map(rs => typeof rs === 'string' ? { skill: rs } : rs)
+    );
+    const relatedSkills = await buildRelatedSkillLookup();
+    const relatedIds = requirements.flatMap(rs =>
+      rs.skillId ? [...(relatedSkills.get(rs.skillId.toString()) || [])] : []
+    );
     const engineers = await User.find({
       role: 'engineer',
-      isActive: true,
-      'skills.skill': { $in: skillNames.map(skill => new RegExp(skill, 'i')) }
+      $or: [
+        { 'skills.skill': { $in: requirements.map(rs => exactSkillNameRegex(rs.skill)) } },
+        { 'skills.skillId': { $in: relatedIds } }
+      ]
     }).select('-password');
 
     // Get capacity info for each engineer and calculate skill match
+    const currentCapacity = await getCurrentCapacity(engineers);
     const suitableUsers = await Promise.all(
       engineers.map(async (engineer) => {
-        const allocations = await Assignment.getUserCurrentAllocation(engineer._id);
-        const currentUtilization = allocations.length > 0 ? allocations[0].totalAllocation : 0;
-        const availableCapacity = Math.max(0, engineer.maxCapacity - currentUtilization);
+        const { currentUtilization, availableCapacity } = currentCapacity.get(engineer._id.toString());
         
-        // Calculate skill match percentage
-        const engineerSkills = engineer.skills.map(s => s.skill);
-        const matchingSkills = skillNames.filter(reqSkill =>
-          engineerSkills.some(engSkill => 
-            engSkill.toLowerCase().includes(reqSkill.toLowerCase()) ||
-            reqSkill.toLowerCase().includes(engSkill.toLowerCase())
-          )
-        );
-        const skillMatchPercentage = (matchingSkills.length / skillNames.length) * 100;
+        // Level-aware, weighted skill match
+        const match = calculateSkillMatch(engineer.skills, requirements, relatedSkills);
+        const matchingSkills = match.breakdown
+          .filter(item => item.matchType !== 'missing')
+          .map(item => item.skill);
         
         return {
           ...engineer.toJSON(),
           currentUtilization,
           availableCapacity,
-          skillMatchPercentage,
+          skillMatchPercentage: match.score,
+          skillBreakdown: match.breakdown,
           matchingSkills,
           isAvailable: availableCapacity >= minimumCapacity
         };
@@ -414,4 +512,150 @@ export const findSuitableUsersForProject = async (req, res) => {
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
-};
\ No newline at end of file
+};
+
+// Every account regardless of role, for admins assigning roles
+export const getAccounts = async (req, res) => {
+  try {
+    const { error } = validateAccountQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { role, search, page = 1, limit = 20 } = req.query;
+
+    const query = {};
+    if (role) query.role = role;
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search.trim()), 'i');
+      query.$or = [{ name: pattern }, { email: pattern }];
+    }
+
+    const [users, total] = await Promise.all([
+      User.find(query)
+        .select('name email role department seniority createdAt')
+        .sort({ name: 1 })
+        .skip((page - 1) * limit)
+        .limit(parseInt(limit)),
+      User.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        users,
+        pagination: {
+          page: parseInt(page),
+          limit: parseInt(limit),
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const getRoles = async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        roles: ROLES.map(role => ({
+          role,
+          label: ROLE_LABELS[role],
+          permissions: permissionsFor(role)
+        })),
+        permissions: PERMISSIONS
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const updateUserRole = async (req, res) => {
+  try {
+    const { error } = validateRoleChange(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { role, department } = req.body;
+
+    if (req.params.id === req.user._id.toString()) {
+      return res.status(400).json({ error: 'You cannot change your own role' });
+    }
+
+    const previous = await User.findById(req.params.id).select('-password');
+    if (!previous) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (previous.role === role) {
+      return res.status(400).json({ error: `${previous.name} is already a ${ROLE_LABELS[role]}` });
+    }
+
+    const updateData = { role };
+
+    if (role === 'engineer') {
+      // Engineers need the profile fields the capacity views rely on
+      if (!department && !previous.department) {
+        return res.status(400).json({ error: 'A department is required to make someone an engineer' });
+      }
+      if (department) updateData.department = department;
+      if (!previous.seniority) updateData.seniority = 'junior';
+      if (!previous.maxCapacity) updateData.maxCapacity = 100;
+    }
+
+    // Work has to be handed over before someone stops being an engineer or a project manager
+    if (previous.role === 'engineer') {
+      const activeAssignments = await Assignment.countDocuments({
+        engineerId: previous._id,
+        status: { $in: ['active', 'paused'] }
+      });
+      if (activeAssignments > 0) {
+        return res.status(400).json({
+          error: `${previous.name} still has ${activeAssignments} active assignment(s). Reassign or complete them first.`
+        });
+      }
+    }
+
+    if (PROJECT_MANAGER_ROLES.includes(previous.role) && !PROJECT_MANAGER_ROLES.includes(role)) {
+      const managedProjects = await Project.countDocuments({
+        managerId: previous._id,
+        status: { $nin: ['completed', 'cancelled'] }
+      });
+      if (managedProjects > 0) {
+        return res.status(400).json({
+          error: `${previous.name} still manages ${managedProjects} open project(s). Choose a new manager for them first.`
+        });
+      }
+    }
+
+    const user = await User.findByIdAndUpdate(
+      previous._id,
+      updateData,
+      { new: true, runValidators: true }
+    ).select('-password');
+
+    await recordAudit({
+      entityType: 'User',
+      action: 'update',
+      before: previous,
+      after: user,
+      context: auditContext(req)
+    });
+
+    res.json({
+      success: true,
+      message: `${user.name} is now a ${ROLE_LABELS[role]}`,
+      data: {
+        user
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
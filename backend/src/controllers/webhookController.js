@@ -0,0 +1,226 @@
+import { Webhook, WebhookDelivery } from '../models/index.js';
+import { validateWebhook, validateWebhookUpdate, validateWebhookDeliveryQuery } from '../utils/validation.js';
+import { generateSecret, checkWebhookUrl, redeliver, sendTestEvent, dispatchScheduledWebhooks } from '../utils/webhooks.js';
+
+export const getWebhooks = async (req, res) => {
+  try {
+    const webhooks = await Webhook.find()
+      .populate('createdBy', 'name')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { webhooks }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// The secret is only returned here and when it is rotated
+export const createWebhook = async (req, res) => {
+  try {
+    const { error, value } = validateWebhook(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const urlProblem = await checkWebhookUrl(value.url);
+    if (urlProblem) {
+      return res.status(400).json({ error: urlProblem });
+    }
+
+    const secret = generateSecret();
+    const webhook = await Webhook.create({
+      ...value,
+      secret,
+      createdBy: req.user._id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Webhook created successfully',
+      data: { webhook, secret }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const updateWebhook = async (req, res) => {
+  try {
+    const { error, value } = validateWebhookUpdate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const urlProblem = value.url && await checkWebhookUrl(value.url);
+    if (urlProblem) {
+      return res.status(400).json({ error: urlProblem });
+    }
+
+    const webhook = await Webhook.findByIdAndUpdate(
+      req.params.id,
+      value,
+      { new: true, runValidators: true }
+    ).populate('createdBy', 'name');
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Webhook updated successfully',
+      data: { webhook }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Deleting a webhook drops its delivery log and any retries still pending
+export const deleteWebhook = async (req, res) => {
+  try {
+    const webhook = await Webhook.findByIdAndDelete(req.params.id);
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    await WebhookDelivery.deleteMany({ webhookId: webhook._id });
+
+    res.json({
+      success: true,
+      message: 'Webhook deleted successfully'
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Deliveries still waiting to be retried are signed with the new secret
+export const rotateWebhookSecret = async (req, res) => {
+  try {
+    const secret = generateSecret();
+    const webhook = await Webhook.findByIdAndUpdate(req.params.id, { secret }, { new: true });
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Webhook secret rotated. Update your receiver to use the new secret.',
+      data: { webhook, secret }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Send a ping event now and report how the receiver answered
+export const testWebhook = async (req, res) => {
+  try {
+    const webhook = await Webhook.findById(req.params.id);
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const delivery = await sendTestEvent(webhook, req.user);
+
+    res.json({
+      success: true,
+      message: delivery.status === 'succeeded'
+        ? `Test event delivered (${delivery.responseStatus})`
+        : `Test event failed: ${delivery.error}`,
+      data: { delivery }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+export const getWebhookDeliveries = async (req, res) => {
+  try {
+    const { error, value } = validateWebhookDeliveryQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { status, page = 1, limit = 20 } = value;
+
+    const webhook = await Webhook.exists({ _id: req.params.id });
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const query = { webhookId: req.params.id };
+    if (status) query.status = status;
+
+    const [deliveries, total] = await Promise.all([
+      WebhookDelivery.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      WebhookDelivery.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        deliveries,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Send a delivery again now, whether it is waiting for a retry or has failed for good
+export const retryWebhookDelivery = async (req, res) => {
+  try {
+    const delivery = await WebhookDelivery.findById(req.params.deliveryId);
+
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    if (delivery.status === 'succeeded') {
+      return res.status(400).json({ error: 'Delivery has already succeeded' });
+    }
+
+    await redeliver(delivery);
+
+    res.json({
+      success: true,
+      message: delivery.status === 'succeeded'
+        ? `Delivery succeeded (${delivery.responseStatus})`
+        : `Delivery failed: ${delivery.error}`,
+      data: { delivery }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
+
+// Send due deliveries and retries; called on a schedule where no server keeps running
+export const dispatchDueWebhooks = async (req, res) => {
+  try {
+    const sent = await dispatchScheduledWebhooks();
+
+    res.json({
+      success: true,
+      data: { sent }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+};
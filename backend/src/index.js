@@ -12,19 +12,38 @@ import userRoutes from './routes/users.js';
 import projectRoutes from './routes/projects.js';
 import assignmentRoutes from './routes/assignments.js';
 import analyticsRoutes from './routes/analytics.js';
+import skillRoutes from './routes/skills.js';
+import timeOffRoutes from './routes/timeOff.js';
+import holidayRoutes from './routes/holidays.js';
+import timesheetRoutes from './routes/timesheets.js';
+import auditRoutes from './routes/audit.js';
+import importRoutes from './routes/imports.js';
+import exportRoutes from './routes/exports.js';
+import calendarRoutes from './routes/calendar.js';
+import notificationRoutes from './routes/notifications.js';
+import webhookRoutes from './routes/webhooks.js';
+import invitationRoutes from './routes/invitations.js';
 import errorHandler from './middleware/errorHandler.js';
+import { dispatchWebhooksAfterChange } from './middleware/webhookDispatch.js';
+import { startWebhookRetries } from './utils/webhooks.js';
 import configDb from './config/db.js';
+import { CLIENT_ORIGINS } from './config/app.js';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3300;
 
+// Production runs as a serverless function, which may be frozen as soon as it has responded
+const isLongRunning = process.env.NODE_ENV !== 'production';
+
 // Security middleware
 app.use(helmet());
 app.use(cors({
-  origin: ["http://localhost:5173", "https://erms-app-ruddy.vercel.app"],
-  credentials: true
+  origin: CLIENT_ORIGINS,
+  credentials: true,
+  // Lets the client name downloaded exports
+  exposedHeaders: ['Content-Disposition']
 }));
 
 // Rate limiting
@@ -41,6 +60,11 @@ app.use(morgan('combined'));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
+// Outbound webhooks; serverless deployments send them from the scheduled GET /api/webhooks/dispatch
+if (isLongRunning) {
+  app.use('/api/', dispatchWebhooksAfterChange);
+}
+
 app.get('/', (_, res) => {
   res.status(200).json({ status: 'Welcome to the Engineering Resource Management System Backend', timestamp: new Date().toISOString() });
 });
@@ -57,6 +81,17 @@ app.use('/api/engineers', userRoutes);
 app.use('/api/projects', projectRoutes);
 app.use('/api/assignments', assignmentRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/skills', skillRoutes);
+app.use('/api/time-off', timeOffRoutes);
+app.use('/api/holidays', holidayRoutes);
+app.use('/api/timesheets', timesheetRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/import', importRoutes);
+app.use('/api/exports', exportRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/invitations', invitationRoutes);
 
 // 404 handler
 app.use('*', (_, res) => {
@@ -67,12 +102,13 @@ app.use('*', (_, res) => {
 app.use(errorHandler);
 
 // For local development
-if (process.env.NODE_ENV !== 'production') {
+if (isLongRunning) {
   configDb().then(() => {
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
       console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
     });
+    startWebhookRetries();
   }).catch(err => {
     console.error('Failed to start server:', err);
     process.exit(1);
@@ -1,13 +1,19 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import mongoose from 'mongoose';
-import { User } from '../models/index.js';
+import { User, Assignment, Session } from '../models/index.js';
 import AppError from '../utils/AppError.js';
+import { hasPermission } from '../config/permissions.js';
+import { isOnTeam, assertCanManageProjects } from '../utils/teamScope.js';
+import { ACCESS_COOKIE, SAFE_METHODS, readCookie, isValidCsrfToken } from '../utils/authCookies.js';
 
-// Middleware to verify JWT token
+// Middleware to verify JWT token, from the Authorization header or the browser's session cookie
 export const authenticateToken = async (req, res, next) => {
   try {
     const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+    const bearerToken = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+    const cookieToken = !bearerToken && readCookie(req, ACCESS_COOKIE);
+    const token = bearerToken || cookieToken;
 
     if (!token) {
       return next(new AppError('Access token required', 401));
@@ -24,22 +30,47 @@ export const authenticateToken = async (req, res, next) => {
       return next(new AppError('Invalid token format', 401));
     }
     
-    const user = await User.findOne({ 
-      _id: userId, 
-      isActive: true 
-    }).select('-password');
+    // Signing out or a password change ends the session before its access token expires
+    const activeSession = decoded.sid && mongoose.Types.ObjectId.isValid(decoded.sid)
+      && await Session.exists({ _id: decoded.sid, user: userId, revokedAt: null });
+    if (!activeSession) {
+      return next(new AppError('Your session has ended. Please sign in again.', 401, 'SESSION_REVOKED'));
+    }
+
+    const user = await User.findById(userId).select('-password');
     
     if (!user) {
-      return next(new AppError('User no longer exists or has been deactivated', 401));
+      return next(new AppError('User no longer exists or has been archived', 401));
+    }
+
+    // Browsers send cookies on their own, so changes must also carry the session's CSRF token
+    if (cookieToken && !SAFE_METHODS.includes(req.method) && !isValidCsrfToken(req, decoded.sid)) {
+      return next(new AppError('Missing or invalid CSRF token. Reload the page and try again.', 403, 'CSRF_INVALID'));
     }
 
     req.user = user;
+    req.sessionId = String(decoded.sid);
     next();
   } catch (error) {
     next(error);
   }
 };
 
+// Middleware for scheduled jobs: the caller sends CRON_SECRET as a bearer token, as Vercel Cron does
+export const requireCronSecret = (req, res, next) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return next(new AppError('Scheduled jobs are disabled until CRON_SECRET is set', 503));
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(req.headers['authorization'] || '');
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    return next(new AppError('Invalid cron secret', 401));
+  }
+  next();
+};
+
 // Middleware to check if user has required role
 export const requireRole = (...roles) => {
   return (req, res, next) => {
@@ -58,32 +89,42 @@ export const requireRole = (...roles) => {
   };
 };
 
-// Middleware to check if user is manager or admin
-export const requireManagerOrAdmin = requireRole('manager', 'admin');
-
 // Middleware to check if user is admin
 export const requireAdmin = requireRole('admin');
 
-// Middleware to check if user can access engineer data (self, manager, or admin)
+// Middleware to check if user has at least one of the permissions
+export const requirePermission = (...permissions) => {
+  return (req, res, next) => {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (!permissions.some(permission => hasPermission(req.user, permission))) {
+      return next(new AppError('Access denied. Your role does not allow this.', 403));
+    }
+
+    next();
+  };
+};
+
+// Middleware to check if user can access engineer data (self, anyone who can read every
+// engineer, or a project manager the engineer works for)
 export const canAccessEngineer = async (req, res, next) => {
   try {
     const targetEngineerId = req.params.id || req.params.engineerId;
     const currentUser = req.user;
 
-    // Admin can access anyone
-    if (currentUser.role === 'admin') {
+    // User can access their own data
+    if (currentUser._id.toString() === targetEngineerId) {
       return next();
     }
 
-    // User can access their own data
-    if (currentUser._id.toString() === targetEngineerId) {
+    if (hasPermission(currentUser, 'engineers:read')) {
       return next();
     }
 
-    // Manager can access engineers in their projects
-    if (currentUser.role === 'manager') {
-      // This would need project-specific logic
-      // For now, allow managers to access any engineer
+    // Project managers can access engineers on their projects
+    if (hasPermission(currentUser, 'engineers:read-team') && await isOnTeam(currentUser, targetEngineerId)) {
       return next();
     }
 
@@ -93,12 +134,68 @@ export const canAccessEngineer = async (req, res, next) => {
   }
 };
 
-// Generate JWT tokens
-export const generateTokens = (user) => {
+// Middleware to check if user can see an engineer's capacity (self, or anyone staffing projects)
+export const canAccessEngineerCapacity = (req, res, next) => {
+  const targetEngineerId = req.params.id || req.params.engineerId;
+
+  if (req.user._id.toString() === targetEngineerId || hasPermission(req.user, 'analytics:read')) {
+    return next();
+  }
+
+  return res.status(403).json({ error: 'Access denied' });
+};
+
+// Middleware to check if user can edit an engineer (self, or anyone managing engineers)
+export const canEditEngineer = (req, res, next) => {
+  const targetEngineerId = req.params.id || req.params.engineerId;
+
+  if (req.user._id.toString() === targetEngineerId || hasPermission(req.user, 'engineers:manage')) {
+    return next();
+  }
+
+  return res.status(403).json({ error: 'Access denied' });
+};
+
+// Middleware to check if user can change the project in the route
+export const canManageProject = async (req, res, next) => {
+  try {
+    await assertCanManageProjects(req.user, [req.params.projectId || req.params.id]);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Middleware to check if user can change the assignment in the route, or create one on
+// the project in the body. Moving an assignment needs access to both projects.
+export const canManageAssignment = async (req, res, next) => {
+  try {
+    const projectIds = [req.params.projectId, req.body?.projectId];
+
+    if (req.params.id) {
+      const assignment = await Assignment.findById(req.params.id)
+        .select('projectId')
+        .setOptions({ includeArchived: true });
+      if (!assignment) {
+        return next(new AppError('Assignment not found', 404));
+      }
+      projectIds.push(assignment.projectId);
+    }
+
+    await assertCanManageProjects(req.user, projectIds, 'assignments');
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Generate JWT tokens; both name their session, and the refresh token's ID changes on every refresh
+export const generateTokens = (user, { sessionId, tokenId }) => {
   const payload = {
     id: user._id,
     email: user.email,
-    role: user.role
+    role: user.role,
+    sid: sessionId
   };
 
   const accessToken = jwt.sign(
@@ -110,13 +207,13 @@ export const generateTokens = (user) => {
   const refreshToken = jwt.sign(
     payload,
     process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET,
-    { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d' }
+    { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d', jwtid: tokenId }
   );
 
   return { accessToken, refreshToken };
 };
 
 // Verify refresh token
-export const verifyRefreshToken = (token) => {
-  return jwt.verify(token, process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET);
+export const verifyRefreshToken = (token, options = {}) => {
+  return jwt.verify(token, process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET, options);
 };
\ No newline at end of file
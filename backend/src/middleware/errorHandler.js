@@ -60,6 +60,7 @@ const errorHandler = (err, req, res, _) => {
   res.status(statusCode).json({
     success: false,
     error: message,
+    ...(err.name === 'AppError' && err.code && { code: err.code }),
     timestamp: new Date().toISOString(),
     path: req.originalUrl,
     ...(process.env.NODE_ENV === 'development' && { 
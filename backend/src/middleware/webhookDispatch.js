@@ -0,0 +1,11 @@
+import { dispatchWebhooks } from '../utils/webhooks.js';
+
+// Send webhook deliveries queued by a change once its response has gone out
+export const dispatchWebhooksAfterChange = (req, res, next) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD' && req.method !== 'OPTIONS') {
+    res.on('finish', () => {
+      dispatchWebhooks();
+    });
+  }
+  next();
+};
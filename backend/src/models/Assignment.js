@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import archivable from './plugins/archivable.js';
 
 const assignmentSchema = new mongoose.Schema({
   engineerId: {
@@ -41,7 +42,8 @@ const assignmentSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['active', 'completed', 'cancelled'],
+    // 'paused' is set while the project is on hold and holds no capacity
+    enum: ['active', 'paused', 'completed', 'cancelled'],
     default: 'active'
   },
   completionPercentage: {
@@ -82,26 +84,6 @@ assignmentSchema.statics.findByProject = function(projectId, status = null) {
   return this.find(query).populate('engineerId', 'name email skills seniority');
 };
 
-assignmentSchema.statics.getUserCurrentAllocation = function(userId) {
-  const now = new Date();
-  return this.aggregate([
-    {
-      $match: {
-        engineerId: new mongoose.Types.ObjectId(userId),
-        status: 'active',
-        startDate: { $lte: now },
-        endDate: { $gt: now }
-      }
-    },
-    {
-      $group: {
-        _id: '$engineerId',
-        totalAllocation: { $sum: '$allocationPercentage' }
-      }
-    }
-  ]);
-};
-
 assignmentSchema.statics.getProjectResourceAllocation = function(projectId) {
   return this.aggregate([
     {
@@ -142,7 +124,7 @@ assignmentSchema.statics.calculateProjectProgress = function(projectId) {
     {
       $match: {
         projectId: new mongoose.Types.ObjectId(projectId),
-        status: { $in: ['active', 'completed'] }
+        status: { $in: ['active', 'paused', 'completed'] }
       }
     },
     {
@@ -180,4 +162,6 @@ assignmentSchema.index({ engineerId: 1, startDate: 1, endDate: 1 });
 // Ensure JSON output includes virtuals
 assignmentSchema.set('toJSON', { virtuals: true });
 
+assignmentSchema.plugin(archivable);
+
 export default mongoose.model('Assignment', assignmentSchema);
\ No newline at end of file
@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+
+export const AUDITED_ENTITIES = ['User', 'Project', 'Assignment'];
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'archive', 'restore'];
+
+const changeSchema = new mongoose.Schema({
+  field: {
+    type: String,
+    required: true
+  },
+  before: mongoose.Schema.Types.Mixed,
+  after: mongoose.Schema.Types.Mixed
+}, { _id: false });
+
+// Who changed which record, when, why and what the fields were before and after
+const auditLogSchema = new mongoose.Schema({
+  entityType: {
+    type: String,
+    enum: AUDITED_ENTITIES,
+    required: [true, 'Entity type is required']
+  },
+  entityId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: [true, 'Entity ID is required']
+  },
+  // Name of the record at the time of the change, so deleted records stay readable
+  entityName: {
+    type: String,
+    trim: true
+  },
+  action: {
+    type: String,
+    enum: AUDIT_ACTIONS,
+    required: [true, 'Action is required']
+  },
+  changes: [changeSchema],
+  // Project and engineer the change belongs to, so their history includes assignment changes
+  projectId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Project'
+  },
+  engineerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Kept alongside the reference in case the actor is later removed
+  actorName: {
+    type: String,
+    trim: true
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for better performance
+auditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+auditLogSchema.index({ projectId: 1, createdAt: -1 });
+auditLogSchema.index({ engineerId: 1, createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+
+export default mongoose.model('AuditLog', auditLogSchema);
@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+
+const holidaySchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Holiday name is required'],
+    trim: true
+  },
+  date: {
+    type: Date,
+    required: [true, 'Date is required']
+  },
+  // Empty lists mean the holiday applies to every department or location
+  departments: [{
+    type: String,
+    trim: true
+  }],
+  locations: [{
+    type: String,
+    trim: true
+  }],
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Whether the holiday falls on this engineer's calendar
+holidaySchema.methods.appliesTo = function(engineer) {
+  const matches = (list, value) =>
+    !list.length || (!!value && list.some(item => item.toLowerCase() === value.toLowerCase()));
+  return matches(this.departments, engineer.department) && matches(this.locations, engineer.location);
+};
+
+// Indexes for better performance
+holidaySchema.index({ date: 1 });
+
+export default mongoose.model('Holiday', holidaySchema);
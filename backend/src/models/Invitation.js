@@ -0,0 +1,97 @@
+import mongoose from 'mongoose';
+import { ROLES } from '../config/permissions.js';
+
+export const INVITATION_STATUSES = ['pending', 'accepted', 'revoked'];
+
+const invitationSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    lowercase: true,
+    trim: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true
+  },
+  role: {
+    type: String,
+    enum: ROLES,
+    default: 'engineer'
+  },
+  // Engineer profile the account is created with; the invitee only chooses a password
+  profile: {
+    department: String,
+    location: String,
+    seniority: {
+      type: String,
+      enum: ['junior', 'mid', 'senior']
+    },
+    maxCapacity: Number,
+    hourlyRate: Number,
+    skills: [{
+      _id: false,
+      skill: String,
+      skillId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Skill'
+      },
+      level: {
+        type: String,
+        enum: ['beginner', 'intermediate', 'advanced', 'expert']
+      }
+    }]
+  },
+  status: {
+    type: String,
+    enum: INVITATION_STATUSES,
+    default: 'pending'
+  },
+  // Signs the invite token; replaced on resend so earlier links stop working
+  inviteKey: {
+    type: String,
+    required: true,
+    select: false
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  acceptedAt: {
+    type: Date
+  },
+  acceptedUser: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  revokedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: function(doc, ret) {
+      delete ret.inviteKey;
+      delete ret.id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Pending invitations past their expiry are reported as expired
+invitationSchema.virtual('isExpired').get(function() {
+  return this.status === 'pending' && this.expiresAt <= new Date();
+});
+
+// Indexes for better performance; one open invitation per email
+invitationSchema.index({ email: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } });
+invitationSchema.index({ status: 1, createdAt: -1 });
+
+export default mongoose.model('Invitation', invitationSchema);
@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+
+export const NOTIFICATION_TYPES = [
+  'assignment-created',
+  'assignment-updated',
+  'assignment-removed',
+  'project-status',
+  'capacity-overload',
+  'assignment-ending'
+];
+
+// Notifications are dropped this long after they are created
+const RETENTION_DAYS = 90;
+
+const notificationSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Recipient is required']
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: [true, 'Notification type is required']
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+  // App route the notification opens
+  link: {
+    type: String,
+    trim: true
+  },
+  entityType: {
+    type: String,
+    enum: ['User', 'Project', 'Assignment']
+  },
+  entityId: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  // Identifies a reminder so scheduled checks raise it only once
+  dedupeKey: {
+    type: String
+  },
+  readAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better performance
+notificationSchema.index({ userId: 1, readAt: 1, createdAt: -1 });
+notificationSchema.index(
+  { userId: 1, dedupeKey: 1 },
+  { unique: true, partialFilterExpression: { dedupeKey: { $type: 'string' } } }
+);
+notificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 });
+
+export default mongoose.model('Notification', notificationSchema);
@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+
+// One change to an assignment's completion percentage
+const progressUpdateSchema = new mongoose.Schema({
+  assignmentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Assignment',
+    required: [true, 'Assignment ID is required']
+  },
+  projectId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Project',
+    required: [true, 'Project ID is required']
+  },
+  previousPercentage: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: 0
+  },
+  completionPercentage: {
+    type: Number,
+    required: [true, 'Completion percentage is required'],
+    min: [0, 'Completion percentage cannot be negative'],
+    max: [100, 'Completion percentage cannot exceed 100']
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better performance
+progressUpdateSchema.index({ assignmentId: 1, createdAt: -1 });
+progressUpdateSchema.index({ projectId: 1, createdAt: -1 });
+
+export default mongoose.model('ProgressUpdate', progressUpdateSchema);
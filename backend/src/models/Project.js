@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import archivable from './plugins/archivable.js';
 
 const projectSchema = new mongoose.Schema({
   name: {
@@ -25,6 +26,10 @@ const projectSchema = new mongoose.Schema({
       required: true,
       trim: true
     },
+    skillId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Skill'
+    },
     level: {
       type: String,
       enum: ['beginner', 'intermediate', 'advanced', 'expert'],
@@ -154,9 +159,12 @@ projectSchema.index({ managerId: 1 });
 projectSchema.index({ priority: 1 });
 projectSchema.index({ startDate: 1, endDate: 1 });
 projectSchema.index({ 'requiredSkills.skill': 1 });
+projectSchema.index({ 'requiredSkills.skillId': 1 });
 projectSchema.index({ tags: 1 });
 
 // Ensure JSON output includes virtuals  
 projectSchema.set('toJSON', { virtuals: true });
 
+projectSchema.plugin(archivable);
+
 export default mongoose.model('Project', projectSchema);
\ No newline at end of file
@@ -0,0 +1,64 @@
+import mongoose from 'mongoose';
+
+export const SESSION_REVOKE_REASONS = ['logout', 'signed-out', 'password-changed', 'reuse-detected'];
+
+// One signed-in device; its refresh token is replaced on every refresh
+const sessionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // ID of the only refresh token that may be used next
+  tokenId: {
+    type: String,
+    required: true,
+    select: false
+  },
+  // The token it replaced, still accepted for a moment in case two tabs refresh at once
+  previousTokenId: {
+    type: String,
+    select: false
+  },
+  rotatedAt: {
+    type: Date
+  },
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  ip: {
+    type: String
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedReason: {
+    type: String,
+    enum: SESSION_REVOKE_REASONS
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.tokenId;
+      delete ret.previousTokenId;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better performance; sessions are removed a day after they expire
+sessionSchema.index({ user: 1, revokedAt: 1, lastUsedAt: -1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export default mongoose.model('Session', sessionSchema);
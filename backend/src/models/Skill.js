@@ -0,0 +1,99 @@
+import mongoose from 'mongoose';
+
+export const SKILL_CATEGORIES = [
+  'frontend',
+  'backend',
+  'mobile',
+  'database',
+  'cloud',
+  'devops',
+  'data',
+  'testing',
+  'design',
+  'management',
+  'other'
+];
+
+// Lowercase and collapse whitespace so lookups ignore formatting differences
+export const normalizeSkillName = (name = '') =>
+  name.toString().trim().toLowerCase().replace(/\s+/g, ' ');
+
+const skillSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Skill name is required'],
+    trim: true
+  },
+  normalizedName: {
+    type: String,
+    unique: true
+  },
+  aliases: [{
+    type: String,
+    trim: true
+  }],
+  normalizedAliases: [{
+    type: String
+  }],
+  category: {
+    type: String,
+    enum: SKILL_CATEGORIES,
+    default: 'other'
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  relatedSkills: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Skill'
+  }],
+  // What each proficiency level means for this skill
+  rubric: {
+    beginner: { type: String, trim: true },
+    intermediate: { type: String, trim: true },
+    advanced: { type: String, trim: true },
+    expert: { type: String, trim: true }
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.normalizedName;
+      delete ret.normalizedAliases;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+skillSchema.pre('validate', function(next) {
+  this.normalizedName = normalizeSkillName(this.name);
+  this.aliases = [...new Set((this.aliases || []).map(alias => alias.trim()).filter(Boolean))]
+    .filter(alias => normalizeSkillName(alias) !== this.normalizedName);
+  this.normalizedAliases = this.aliases.map(normalizeSkillName);
+  next();
+});
+
+// Static methods
+skillSchema.statics.findByNameOrAlias = function(name) {
+  const normalized = normalizeSkillName(name);
+  return this.findOne({
+    $or: [
+      { normalizedName: normalized },
+      { normalizedAliases: normalized }
+    ]
+  });
+};
+
+// Indexes for better performance
+skillSchema.index({ normalizedAliases: 1 });
+skillSchema.index({ category: 1 });
+skillSchema.index({ isActive: 1 });
+
+export default mongoose.model('Skill', skillSchema);
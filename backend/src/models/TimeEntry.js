@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+
+// Hours an engineer logged against one assignment in one week
+const timeEntrySchema = new mongoose.Schema({
+  engineerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Engineer ID is required']
+  },
+  assignmentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Assignment',
+    required: [true, 'Assignment ID is required']
+  },
+  // Copied from the assignment so project totals do not need a join
+  projectId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Project',
+    required: [true, 'Project ID is required']
+  },
+  // Monday of the week, at midnight UTC
+  weekStart: {
+    type: Date,
+    required: [true, 'Week start is required']
+  },
+  hours: {
+    type: Number,
+    required: [true, 'Hours are required'],
+    min: [0, 'Hours cannot be negative'],
+    max: [168, 'Hours cannot exceed the hours in a week']
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better performance
+timeEntrySchema.index({ assignmentId: 1, weekStart: 1 }, { unique: true });
+timeEntrySchema.index({ engineerId: 1, weekStart: 1 });
+timeEntrySchema.index({ projectId: 1, weekStart: 1 });
+
+export default mongoose.model('TimeEntry', timeEntrySchema);
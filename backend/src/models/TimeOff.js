@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+
+export const TIME_OFF_TYPES = ['vacation', 'sick', 'personal', 'training', 'other'];
+
+const timeOffSchema = new mongoose.Schema({
+  engineerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Engineer ID is required']
+  },
+  type: {
+    type: String,
+    enum: TIME_OFF_TYPES,
+    required: [true, 'Time off type is required']
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required'],
+    validate: [
+      {
+        validator: function(value) {
+          return value >= this.startDate;
+        },
+        message: 'End date cannot be before start date'
+      }
+    ]
+  },
+  // Share of each working day that is off; below 100 for partial-day availability
+  percentage: {
+    type: Number,
+    min: [1, 'Time off must cover at least 1% of the day'],
+    max: [100, 'Time off cannot exceed 100% of the day'],
+    default: 100
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected', 'cancelled'],
+    default: 'pending'
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  reviewNote: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Review note cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true
+});
+
+// Approved time off overlapping a window, for one or more engineers
+timeOffSchema.statics.findApproved = function(engineerIds, startDate, endDate) {
+  return this.find({
+    engineerId: { $in: engineerIds },
+    status: 'approved',
+    startDate: { $lte: new Date(endDate) },
+    endDate: { $gte: new Date(startDate) }
+  });
+};
+
+// Indexes for better performance
+timeOffSchema.index({ engineerId: 1, status: 1, startDate: 1, endDate: 1 });
+timeOffSchema.index({ status: 1 });
+
+export default mongoose.model('TimeOff', timeOffSchema);
@@ -1,5 +1,8 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
+import archivable from './plugins/archivable.js';
+import { NOTIFICATION_TYPES } from './Notification.js';
+import { ROLES } from '../config/permissions.js';
 
 const userSchema = new mongoose.Schema({
   email: {
@@ -20,9 +23,10 @@ const userSchema = new mongoose.Schema({
     required: [true, 'Password is required'],
     minlength: [6, 'Password must be at least 6 characters']
   },
+  // What the user can do is set per role in config/permissions.js
   role: {
     type: String,
-    enum: ['engineer', 'manager'],
+    enum: ROLES,
     required: true
   },
   skills: [{
@@ -31,6 +35,10 @@ const userSchema = new mongoose.Schema({
       required: true,
       trim: true
     },
+    skillId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Skill'
+    },
     level: {
       type: String,
       enum: ['beginner', 'intermediate', 'advanced', 'expert'],
@@ -52,6 +60,11 @@ const userSchema = new mongoose.Schema({
     min: [1, 'Max capacity must be at least 1'],
     max: [100, 'Max capacity cannot exceed 100']
   },
+  // Used to estimate project spend; falls back to a seniority default when unset
+  hourlyRate: {
+    type: Number,
+    min: [0, 'Hourly rate cannot be negative']
+  },
   department: {
     type: String,
     required: function() {
@@ -59,15 +72,51 @@ const userSchema = new mongoose.Schema({
     },
     trim: true
   },
-  isActive: {
-    type: Boolean,
-    default: true
+  // Selects which regional public holiday calendars apply
+  location: {
+    type: String,
+    trim: true
+  },
+  // Signs the calendar feed link; replaced to revoke it
+  calendarFeedKey: {
+    type: String,
+    select: false
+  },
+  // Wrong passwords since the last successful sign-in; enough of them lock the account for a while
+  failedLoginAttempts: {
+    type: Number,
+    default: 0
+  },
+  lockedUntil: {
+    type: Date
+  },
+  // Signs the password reset link; cleared once it is used
+  passwordResetKey: {
+    type: String,
+    select: false
+  },
+  passwordResetExpiresAt: {
+    type: Date
+  },
+  // Notification types the user has turned off
+  mutedNotifications: [{
+    type: String,
+    enum: NOTIFICATION_TYPES
+  }],
+  // Last time the ending-soon and overload reminders were checked for this user
+  notificationsCheckedAt: {
+    type: Date
   }
 }, {
   timestamps: true,
   toJSON: {
     transform: function(doc, ret) {
       delete ret.password;
+      delete ret.calendarFeedKey;
+      delete ret.passwordResetKey;
+      delete ret.passwordResetExpiresAt;
+      delete ret.failedLoginAttempts;
+      delete ret.lockedUntil;
       delete ret.__v;
       return ret;
     }
@@ -93,25 +142,26 @@ userSchema.methods.matchPassword = async function (enteredPassword) {
 userSchema.statics.findBySkill = function(skill, level = 'beginner') {
   return this.find({
     role: 'engineer',
-    isActive: true,
-    'skills.skill': { $regex: skill, $options: 'i' },
+    // Exact, case-insensitive name match so "Java" does not return "JavaScript" engineers
+    'skills.skill': { $regex: `^${skill.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, $options: 'i' },
     'skills.level': { $in: ['beginner', 'intermediate', 'advanced', 'expert'].slice(['beginner', 'intermediate', 'advanced', 'expert'].indexOf(level)) }
   }).select('-password');
 };
 
 userSchema.statics.findAvailableEngineers = function() {
   return this.find({
-    role: 'engineer',
-    isActive: true
+    role: 'engineer'
   }).select('-password');
 };
 
 // Indexes for better performance
 userSchema.index({ email: 1 });
 userSchema.index({ role: 1 });
-userSchema.index({ isActive: 1 });
 userSchema.index({ 'skills.skill': 1 });
+userSchema.index({ 'skills.skillId': 1 });
 userSchema.index({ department: 1 });
 userSchema.index({ seniority: 1 });
 
+userSchema.plugin(archivable);
+
 export default mongoose.model('User', userSchema);
\ No newline at end of file
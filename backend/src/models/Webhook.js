@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+
+export const WEBHOOK_EVENTS = [
+  'assignment.created',
+  'assignment.updated',
+  'assignment.deleted',
+  'project.status_changed',
+  'engineer.overloaded'
+];
+
+const webhookSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Webhook name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  url: {
+    type: String,
+    required: [true, 'URL is required'],
+    trim: true
+  },
+  events: {
+    type: [{
+      type: String,
+      enum: WEBHOOK_EVENTS
+    }],
+    validate: {
+      validator: (events) => events.length > 0,
+      message: 'Subscribe to at least one event'
+    }
+  },
+  // Signs each payload so receivers can verify it came from this app
+  secret: {
+    type: String,
+    required: true,
+    select: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  lastDeliveryAt: {
+    type: Date
+  },
+  lastDeliveryStatus: {
+    type: String,
+    enum: ['succeeded', 'failed']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.secret;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better performance
+webhookSchema.index({ isActive: 1, events: 1 });
+
+export default mongoose.model('Webhook', webhookSchema);
@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+
+export const DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'];
+
+// Deliveries are dropped this long after they are created
+const RETENTION_DAYS = 30;
+
+// One event sent, or waiting to be sent, to one webhook
+const webhookDeliverySchema = new mongoose.Schema({
+  webhookId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Webhook',
+    required: [true, 'Webhook is required']
+  },
+  event: {
+    type: String,
+    required: [true, 'Event is required']
+  },
+  // The exact body that is signed and posted
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: DELIVERY_STATUSES,
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  // When a pending delivery is next tried
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastAttemptAt: {
+    type: Date
+  },
+  responseStatus: {
+    type: Number
+  },
+  // Start of the receiver's response, for troubleshooting
+  responseBody: {
+    type: String
+  },
+  error: {
+    type: String
+  },
+  durationMs: {
+    type: Number
+  },
+  // Keeps an event that is detected repeatedly, such as an overload, to one delivery
+  dedupeKey: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better performance
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+webhookDeliverySchema.index(
+  { webhookId: 1, dedupeKey: 1 },
+  { unique: true, partialFilterExpression: { dedupeKey: { $type: 'string' } } }
+);
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 });
+
+export default mongoose.model('WebhookDelivery', webhookDeliverySchema);
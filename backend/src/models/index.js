@@ -1,9 +1,31 @@
 import User from './User.js';
 import Project from './Project.js';
 import Assignment from './Assignment.js';
+import Skill from './Skill.js';
+import TimeOff from './TimeOff.js';
+import Holiday from './Holiday.js';
+import TimeEntry from './TimeEntry.js';
+import ProgressUpdate from './ProgressUpdate.js';
+import AuditLog from './AuditLog.js';
+import Notification from './Notification.js';
+import Webhook from './Webhook.js';
+import WebhookDelivery from './WebhookDelivery.js';
+import Invitation from './Invitation.js';
+import Session from './Session.js';
 
 export {
   User,
   Project,
-  Assignment
+  Assignment,
+  Skill,
+  TimeOff,
+  Holiday,
+  TimeEntry,
+  ProgressUpdate,
+  AuditLog,
+  Notification,
+  Webhook,
+  WebhookDelivery,
+  Invitation,
+  Session
 };
\ No newline at end of file
@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+
+/**
+ * Archivable
+ * Schema plugin for records that are archived instead of deleted. Queries and
+ * aggregations hide archived documents unless the filter mentions `archivedAt`
+ * or the query is run with the `includeArchived` option.
+ */
+
+const SCOPED_QUERIES = [
+  'find',
+  'findOne',
+  'countDocuments',
+  'distinct',
+  'findOneAndUpdate',
+  'updateOne',
+  'updateMany'
+];
+
+const archivable = (schema) => {
+  schema.add({
+    archivedAt: {
+      type: Date,
+      default: null
+    },
+    archivedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    }
+  });
+
+  schema.pre(SCOPED_QUERIES, function() {
+    const { includeArchived } = this.getOptions();
+    delete this.options.includeArchived;
+
+    if (includeArchived || Object.prototype.hasOwnProperty.call(this.getFilter(), 'archivedAt')) {
+      return;
+    }
+    this.where({ archivedAt: null });
+  });
+
+  schema.pre('aggregate', function() {
+    const { includeArchived } = this.options;
+    delete this.options.includeArchived;
+
+    if (includeArchived) return;
+    this.pipeline().unshift({ $match: { archivedAt: null } });
+  });
+
+  schema.index({ archivedAt: 1 });
+};
+
+export default archivable;
@@ -1,5 +1,5 @@
 import express from 'express';
-import { authenticateToken, requireManagerOrAdmin } from '../middleware/auth.js';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
 import {
   getTeamUtilization,
   getSkillGaps,
@@ -9,8 +9,8 @@ import {
 const router = express.Router();
 
 // Analytics routes (manager/admin only)
-router.get('/team-utilization', authenticateToken, requireManagerOrAdmin, getTeamUtilization);
-router.get('/skill-gaps', authenticateToken, requireManagerOrAdmin, getSkillGaps);
-router.get('/project-health', authenticateToken, requireManagerOrAdmin, getProjectHealth);
+router.get('/team-utilization', authenticateToken, requirePermission('analytics:read'), getTeamUtilization);
+router.get('/skill-gaps', authenticateToken, requirePermission('analytics:read'), getSkillGaps);
+router.get('/project-health', authenticateToken, requirePermission('analytics:read'), getProjectHealth);
 
 export default router;
\ No newline at end of file
@@ -1,17 +1,23 @@
 import express from 'express';
-import { authenticateToken, requireManagerOrAdmin } from '../middleware/auth.js';
+import { authenticateToken, requirePermission, canManageAssignment } from '../middleware/auth.js';
 import {
   getAllAssignments,
   getAssignmentById,
   createAssignment,
   updateAssignment,
   updateAssignmentProgress,
+  getAssignmentProgressHistory,
   deleteAssignment,
+  restoreAssignment,
+  bulkUpdateAssignments,
   getActiveAssignments,
   getCurrentAssignments,
   getSuggestedAssignments,
+  acceptSuggestedTeam,
   checkAssignmentConflicts,
-  getCapacityForecast
+  getCapacityForecast,
+  getRebalancePlan,
+  applyRebalancePlan
 } from '../controllers/assignmentController.js';
 
 const router = express.Router();
@@ -24,19 +30,31 @@ router.get('/current', authenticateToken, getCurrentAssignments);
 
 router.get('/:id', authenticateToken, getAssignmentById);
 
-router.post('/', authenticateToken, requireManagerOrAdmin, createAssignment);
+router.post('/', authenticateToken, requirePermission('assignments:manage', 'assignments:manage-own'), canManageAssignment, createAssignment);
 
-router.put('/:id', authenticateToken, requireManagerOrAdmin, updateAssignment);
+router.post('/bulk', authenticateToken, requirePermission('assignments:manage', 'assignments:manage-own'), bulkUpdateAssignments);
+
+router.put('/:id', authenticateToken, requirePermission('assignments:manage', 'assignments:manage-own'), canManageAssignment, updateAssignment);
+
+router.get('/:id/progress', authenticateToken, getAssignmentProgressHistory);
 
 router.patch('/:id/progress', authenticateToken, updateAssignmentProgress);
 
-router.delete('/:id', authenticateToken, requireManagerOrAdmin, deleteAssignment);
+router.delete('/:id', authenticateToken, requirePermission('assignments:manage', 'assignments:manage-own'), canManageAssignment, deleteAssignment);
+
+router.post('/:id/restore', authenticateToken, requirePermission('assignments:manage', 'assignments:manage-own'), canManageAssignment, restoreAssignment);
 
 // Resource optimization routes
-router.get('/suggestions/:projectId', authenticateToken, requireManagerOrAdmin, getSuggestedAssignments);
+router.get('/suggestions/:projectId', authenticateToken, requirePermission('assignments:manage', 'assignments:manage-own'), canManageAssignment, getSuggestedAssignments);
+
+router.post('/suggestions/:projectId/accept', authenticateToken, requirePermission('assignments:manage', 'assignments:manage-own'), canManageAssignment, acceptSuggestedTeam);
+
+router.get('/conflicts/check', authenticateToken, requirePermission('analytics:read'), checkAssignmentConflicts);
+
+router.get('/forecast/capacity', authenticateToken, requirePermission('analytics:read'), getCapacityForecast);
 
-router.get('/conflicts/check', authenticateToken, requireManagerOrAdmin, checkAssignmentConflicts);
+router.get('/rebalance/:engineerId', authenticateToken, requirePermission('assignments:rebalance'), getRebalancePlan);
 
-router.get('/forecast/capacity', authenticateToken, requireManagerOrAdmin, getCapacityForecast);
+router.post('/rebalance/:engineerId/apply', authenticateToken, requirePermission('assignments:rebalance'), applyRebalancePlan);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,9 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getAuditLogs } from '../controllers/auditController.js';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, requirePermission('audit:read'), getAuditLogs);
+
+export default router;
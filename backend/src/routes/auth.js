@@ -1,24 +1,49 @@
 import express from 'express';
+import rateLimit from 'express-rate-limit';
 import { authenticateToken } from '../middleware/auth.js';
 import {
   register,
+  getInvitation,
+  acceptInvitation,
   login,
   refreshToken,
   getProfile,
   updateProfile,
   changePassword,
-  logout
+  getPasswordPolicy,
+  forgotPassword,
+  getPasswordReset,
+  resetPassword,
+  logout,
+  getSessions,
+  deleteSession,
+  deleteOtherSessions
 } from '../controllers/authController.js';
 
 const router = express.Router();
 
+// Reset links are emailed, so requests for them are limited well below the global limit
+const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10
+});
+
 router.post("/register", register);
 router.post("/login", login);
+router.get("/invitations/:token", getInvitation);
+router.post("/accept-invite", acceptInvitation);
 router.post("/refresh-token", refreshToken);
 router.get("/profile", authenticateToken, getProfile);
 router.put("/profile", authenticateToken, updateProfile);
 router.put("/change-password", authenticateToken, changePassword);
+router.get("/password-policy", getPasswordPolicy);
+router.post("/forgot-password", passwordResetLimiter, forgotPassword);
+router.get("/password-reset/:token", getPasswordReset);
+router.post("/reset-password", passwordResetLimiter, resetPassword);
 router.post("/logout", logout);
+router.get("/sessions", authenticateToken, getSessions);
+router.delete("/sessions", authenticateToken, deleteOtherSessions);
+router.delete("/sessions/:id", authenticateToken, deleteSession);
 
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,18 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth.js';
+import {
+  getCalendarFeed,
+  getCalendarSubscription,
+  rotateCalendarSubscription
+} from '../controllers/calendarController.js';
+
+const router = express.Router();
+
+// Calendar apps cannot send a bearer token, so the feed is authorized by its signed token
+router.get('/feed/:token.ics', getCalendarFeed);
+
+router.get('/subscription', authenticateToken, getCalendarSubscription);
+
+router.post('/subscription/rotate', authenticateToken, rotateCalendarSubscription);
+
+export default router;
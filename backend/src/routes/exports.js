@@ -0,0 +1,9 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { exportReport } from '../controllers/exportController.js';
+
+const router = express.Router();
+
+router.get('/:report', authenticateToken, requirePermission('analytics:read'), exportReport);
+
+export default router;
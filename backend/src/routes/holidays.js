@@ -0,0 +1,23 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  getHolidays,
+  createHoliday,
+  importHolidays,
+  updateHoliday,
+  deleteHoliday
+} from '../controllers/holidayController.js';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, getHolidays);
+
+router.post('/', authenticateToken, requirePermission('holidays:manage'), createHoliday);
+
+router.post('/import', authenticateToken, requirePermission('holidays:manage'), importHolidays);
+
+router.put('/:id', authenticateToken, requirePermission('holidays:manage'), updateHoliday);
+
+router.delete('/:id', authenticateToken, requirePermission('holidays:manage'), deleteHoliday);
+
+export default router;
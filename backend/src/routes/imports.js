@@ -0,0 +1,9 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { importRecords } from '../controllers/importController.js';
+
+const router = express.Router();
+
+router.post('/:entity', authenticateToken, requirePermission('import:run'), importRecords);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  getInvitations,
+  createInvitation,
+  resendInvitation,
+  revokeInvitation
+} from '../controllers/invitationController.js';
+
+const router = express.Router();
+
+// Accepting an invitation is public and lives under /api/auth
+
+router.get('/', authenticateToken, requirePermission('engineers:manage'), getInvitations);
+
+router.post('/', authenticateToken, requirePermission('engineers:manage'), createInvitation);
+
+router.post('/:id/resend', authenticateToken, requirePermission('engineers:manage'), resendInvitation);
+
+router.delete('/:id', authenticateToken, requirePermission('engineers:manage'), revokeInvitation);
+
+export default router;
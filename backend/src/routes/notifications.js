@@ -0,0 +1,26 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth.js';
+import {
+  getNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreferences
+} from '../controllers/notificationController.js';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, getNotifications);
+
+router.get('/unread-count', authenticateToken, getUnreadCount);
+
+router.get('/preferences', authenticateToken, getNotificationPreferences);
+
+router.put('/preferences', authenticateToken, updateNotificationPreferences);
+
+router.put('/read-all', authenticateToken, markAllNotificationsRead);
+
+router.put('/:id/read', authenticateToken, markNotificationRead);
+
+export default router;
@@ -1,12 +1,14 @@
 import express from 'express';
-import { authenticateToken, requireManagerOrAdmin } from '../middleware/auth.js';
+import { authenticateToken, requirePermission, canManageProject } from '../middleware/auth.js';
 import {
   getAllProjects,
   getProjectById,
   createProject,
   updateProject,
   updateProjectProgress,
-  deleteProject
+  updateProjectStatus,
+  deleteProject,
+  restoreProject
 } from '../controllers/projectController.js';
 
 const router = express.Router();
@@ -15,12 +17,16 @@ router.get('/', authenticateToken, getAllProjects);
 
 router.get('/:id', authenticateToken, getProjectById);
 
-router.post('/', authenticateToken, requireManagerOrAdmin, createProject);
+router.post('/', authenticateToken, requirePermission('projects:manage', 'projects:manage-own'), createProject);
 
-router.put('/:id', authenticateToken, requireManagerOrAdmin, updateProject);
+router.put('/:id', authenticateToken, requirePermission('projects:manage', 'projects:manage-own'), canManageProject, updateProject);
 
-router.patch('/:id/progress', authenticateToken, requireManagerOrAdmin, updateProjectProgress);
+router.patch('/:id/progress', authenticateToken, requirePermission('projects:manage', 'projects:manage-own'), canManageProject, updateProjectProgress);
 
-router.delete('/:id', authenticateToken, requireManagerOrAdmin, deleteProject);
+router.post('/:id/status', authenticateToken, requirePermission('projects:manage', 'projects:manage-own'), canManageProject, updateProjectStatus);
+
+router.delete('/:id', authenticateToken, requirePermission('projects:manage', 'projects:manage-own'), canManageProject, deleteProject);
+
+router.post('/:id/restore', authenticateToken, requirePermission('projects:manage', 'projects:manage-own'), canManageProject, restoreProject);
 
 export default router;
\ No newline at end of file
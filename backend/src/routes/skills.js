@@ -0,0 +1,23 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  getAllSkills,
+  getSkillById,
+  createSkill,
+  updateSkill,
+  deleteSkill
+} from '../controllers/skillController.js';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, getAllSkills);
+
+router.get('/:id', authenticateToken, getSkillById);
+
+router.post('/', authenticateToken, requirePermission('skills:manage'), createSkill);
+
+router.put('/:id', authenticateToken, requirePermission('skills:manage'), updateSkill);
+
+router.delete('/:id', authenticateToken, requirePermission('skills:manage'), deleteSkill);
+
+export default router;
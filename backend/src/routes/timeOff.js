@@ -0,0 +1,20 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  getTimeOff,
+  requestTimeOff,
+  reviewTimeOff,
+  cancelTimeOff
+} from '../controllers/timeOffController.js';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, getTimeOff);
+
+router.post('/', authenticateToken, requestTimeOff);
+
+router.put('/:id/review', authenticateToken, requirePermission('timeoff:review'), reviewTimeOff);
+
+router.put('/:id/cancel', authenticateToken, cancelTimeOff);
+
+export default router;
@@ -0,0 +1,17 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  getTimesheet,
+  saveTimesheet,
+  getTimesheetSummary
+} from '../controllers/timesheetController.js';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, getTimesheet);
+
+router.put('/', authenticateToken, saveTimesheet);
+
+router.get('/summary', authenticateToken, requirePermission('analytics:read'), getTimesheetSummary);
+
+export default router;
@@ -1,14 +1,25 @@
 import express from 'express';
-import { authenticateToken, requireManagerOrAdmin, canAccessEngineer } from '../middleware/auth.js';
+import {
+  authenticateToken,
+  requirePermission,
+  canAccessEngineer,
+  canAccessEngineerCapacity,
+  canEditEngineer
+} from '../middleware/auth.js';
 import {
   getAllUsers as getAllEngineers,
   getUserById as getEngineerById,
   updateUser as updateEngineer,
   deleteUser as deleteEngineer,
+  restoreUser as restoreEngineer,
   getUserCapacity as getEngineerCapacity,
+  getUserCapacityTimeline as getEngineerCapacityTimeline,
   getUserAssignments as getEngineerAssignments,
   searchUsersBySkill as searchEngineersBySkill,
-  findSuitableUsersForProject as findSuitableEngineersForProject
+  findSuitableUsersForProject as findSuitableEngineersForProject,
+  getAccounts,
+  getRoles,
+  updateUserRole
 } from '../controllers/userController.js';
 
 const router = express.Router();
@@ -27,15 +38,20 @@ router.param('id', (_, res, next, id) => {
 // Public routes (with authentication)
 router.get('/', authenticateToken, getAllEngineers);
 router.get('/search/skill', authenticateToken, searchEngineersBySkill);
-router.post('/find-suitable', authenticateToken, requireManagerOrAdmin, findSuitableEngineersForProject);
+router.get('/roles', authenticateToken, getRoles);
+router.get('/accounts', authenticateToken, requirePermission('users:manage-roles'), getAccounts);
+router.post('/find-suitable', authenticateToken, requirePermission('analytics:read'), findSuitableEngineersForProject);
 
 // Individual engineer routes
 router.get('/:id', authenticateToken, canAccessEngineer, getEngineerById);
-router.get('/:id/capacity', authenticateToken, canAccessEngineer, getEngineerCapacity);
+router.get('/:id/capacity', authenticateToken, canAccessEngineerCapacity, getEngineerCapacity);
+router.get('/:id/capacity/timeline', authenticateToken, canAccessEngineerCapacity, getEngineerCapacityTimeline);
 router.get('/:id/assignments', authenticateToken, canAccessEngineer, getEngineerAssignments);
 
 // Protected routes
-router.put('/:id', authenticateToken, canAccessEngineer, updateEngineer);
-router.delete('/:id', authenticateToken, requireManagerOrAdmin, deleteEngineer);
+router.put('/:id', authenticateToken, canEditEngineer, updateEngineer);
+router.put('/:id/role', authenticateToken, requirePermission('users:manage-roles'), updateUserRole);
+router.delete('/:id', authenticateToken, requirePermission('engineers:manage'), deleteEngineer);
+router.post('/:id/restore', authenticateToken, requirePermission('engineers:manage'), restoreEngineer);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,36 @@
+import express from 'express';
+import { authenticateToken, requirePermission, requireCronSecret } from '../middleware/auth.js';
+import {
+  getWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  rotateWebhookSecret,
+  testWebhook,
+  getWebhookDeliveries,
+  retryWebhookDelivery,
+  dispatchDueWebhooks
+} from '../controllers/webhookController.js';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, requirePermission('webhooks:manage'), getWebhooks);
+
+router.post('/', authenticateToken, requirePermission('webhooks:manage'), createWebhook);
+
+// A GET, since that is what Vercel Cron sends
+router.get('/dispatch', requireCronSecret, dispatchDueWebhooks);
+
+router.post('/deliveries/:deliveryId/retry', authenticateToken, requirePermission('webhooks:manage'), retryWebhookDelivery);
+
+router.put('/:id', authenticateToken, requirePermission('webhooks:manage'), updateWebhook);
+
+router.delete('/:id', authenticateToken, requirePermission('webhooks:manage'), deleteWebhook);
+
+router.post('/:id/rotate-secret', authenticateToken, requirePermission('webhooks:manage'), rotateWebhookSecret);
+
+router.post('/:id/test', authenticateToken, requirePermission('webhooks:manage'), testWebhook);
+
+router.get('/:id/deliveries', authenticateToken, requirePermission('webhooks:manage'), getWebhookDeliveries);
+
+export default router;
@@ -1,8 +1,10 @@
 class AppError extends Error {
-  constructor(message, statusCode = 500) {
+  constructor(message, statusCode = 500, code) {
     super(message);
     this.name = 'AppError';
     this.statusCode = statusCode;
+    // Machine-readable reason, e.g. SESSION_REVOKED, for clients that react to it
+    this.code = code;
     this.isOperational = true;
 
     Error.captureStackTrace(this, this.constructor);
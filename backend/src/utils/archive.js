@@ -0,0 +1,179 @@
+import mongoose from 'mongoose';
+import { User, Project, Assignment } from '../models/index.js';
+import { checkCapacityForRange, formatCapacityError } from './capacityEngine.js';
+import { recordAudit } from './auditLog.js';
+
+/**
+ * Archive
+ * Users, projects and assignments are archived instead of deleted. Archiving an
+ * engineer or a project archives their assignments with the same timestamp, so a
+ * restore brings back exactly the assignments that went with it, after checking
+ * each one still fits.
+ */
+
+const idOf = (value) => value?._id || value;
+
+// Populate options that also resolve references to archived records
+export const populateArchived = (path, select) => ({
+  path,
+  select,
+  options: { includeArchived: true }
+});
+
+// Mark one record archived (or restored when archivedAt is null) and audit it
+const setArchived = async (entityType, doc, archivedAt, { context = {}, session = null }) => {
+  const before = doc.toObject({ depopulate: true });
+
+  doc.archivedAt = archivedAt;
+  doc.archivedBy = archivedAt ? context.actor || null : null;
+  await doc.save({ session });
+
+  await recordAudit({
+    entityType,
+    action: archivedAt ? 'archive' : 'restore',
+    before,
+    after: doc,
+    context,
+    session
+  });
+
+  return doc;
+};
+
+const loadAssignments = (filter, session) =>
+  Assignment.find(filter)
+    .populate(populateArchived('engineerId', 'name'))
+    .populate(populateArchived('projectId', 'name'))
+    .session(session);
+
+// Why an archived assignment cannot be reinstated right now, or null when it can
+export const checkAssignmentRestore = async (assignment, session = null) => {
+  const engineerId = idOf(assignment.engineerId);
+  const projectId = idOf(assignment.projectId);
+
+  const [engineer, project] = await Promise.all([
+    User.findOne({ _id: engineerId, role: 'engineer' }).session(session),
+    Project.findById(projectId).session(session)
+  ]);
+
+  if (!engineer) {
+    return { error: 'The engineer on this assignment is archived. Restore the engineer first.' };
+  }
+  if (!project) {
+    return { error: 'The project of this assignment is archived. Restore the project first.' };
+  }
+
+  // Completed and cancelled assignments hold no capacity
+  if (assignment.status !== 'active') {
+    return null;
+  }
+
+  const [duplicate, teamCount] = await Promise.all([
+    Assignment.exists({ engineerId, projectId, status: 'active' }).session(session),
+    Assignment.countDocuments({ projectId, status: 'active' }).session(session)
+  ]);
+
+  if (duplicate) {
+    return { error: 'Engineer is already assigned to this project' };
+  }
+  if (teamCount >= project.teamSize) {
+    return { error: `Project team is full. Maximum team size is ${project.teamSize}, currently has ${teamCount} members.` };
+  }
+
+  const capacity = await checkCapacityForRange(engineer, {
+    startDate: assignment.startDate,
+    endDate: assignment.endDate,
+    allocationPercentage: assignment.allocationPercentage,
+    session
+  });
+
+  if (!capacity.fits) {
+    return { error: formatCapacityError(capacity), capacity };
+  }
+
+  return null;
+};
+
+// Archive a project or engineer together with their live assignments
+export const archiveWithAssignments = async (entityType, doc, context = {}) => {
+  const archivedAt = new Date();
+  const assignmentFilter = entityType === 'Project' ? { projectId: doc._id } : { engineerId: doc._id };
+  const session = await mongoose.startSession();
+  let assignments = [];
+
+  try {
+    await session.withTransaction(async () => {
+      assignments = await loadAssignments(assignmentFilter, session);
+      for (const assignment of assignments) {
+        await setArchived('Assignment', assignment, archivedAt, { context, session });
+      }
+      await setArchived(entityType, doc, archivedAt, { context, session });
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return { record: doc, archivedAssignments: assignments.length };
+};
+
+// Restore a project or engineer and the assignments archived with them. Assignments
+// that no longer fit stay archived and are reported back as skipped.
+export const restoreWithAssignments = async (entityType, doc, context = {}) => {
+  const assignmentFilter = {
+    ...(entityType === 'Project' ? { projectId: doc._id } : { engineerId: doc._id }),
+    archivedAt: doc.archivedAt
+  };
+  const session = await mongoose.startSession();
+  let restored = [];
+  let skipped = [];
+
+  try {
+    await session.withTransaction(async () => {
+      restored = [];
+      skipped = [];
+      await setArchived(entityType, doc, null, { context, session });
+
+      const assignments = await loadAssignments(assignmentFilter, session);
+      for (const assignment of assignments) {
+        const problem = await checkAssignmentRestore(assignment, session);
+        if (problem) {
+          skipped.push({
+            assignmentId: assignment._id,
+            engineer: assignment.engineerId?.name,
+            project: assignment.projectId?.name,
+            reason: problem.error
+          });
+          continue;
+        }
+        await setArchived('Assignment', assignment, null, { context, session });
+        restored.push(assignment._id);
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return { record: doc, restoredAssignments: restored.length, skippedAssignments: skipped };
+};
+
+// Archive a single assignment
+export const archiveAssignment = (assignment, context = {}, session = null) =>
+  setArchived('Assignment', assignment, new Date(), { context, session });
+
+// Restore a single assignment if it passes the same checks as a new one
+export const restoreAssignment = async (assignment, context = {}) => {
+  const problem = await checkAssignmentRestore(assignment);
+  if (problem) {
+    return { problem };
+  }
+  return { assignment: await setArchived('Assignment', assignment, null, { context }) };
+};
+
+export default {
+  populateArchived,
+  checkAssignmentRestore,
+  archiveWithAssignments,
+  restoreWithAssignments,
+  archiveAssignment,
+  restoreAssignment
+};
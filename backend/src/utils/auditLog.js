@@ -0,0 +1,113 @@
+import { AuditLog } from '../models/index.js';
+import { notifyAuditedChange } from './notifications.js';
+import { queueAuditedChange } from './webhooks.js';
+
+/**
+ * Audit Log
+ * Records who created, changed, archived or restored users, projects and assignments,
+ * with a field-by-field diff of the record before and after the change.
+ */
+
+// Bookkeeping and secret fields that never appear in a diff
+const IGNORED_FIELDS = [
+  '_id', '__v', 'createdAt', 'updatedAt', 'password',
+  'passwordResetKey', 'passwordResetExpiresAt', 'failedLoginAttempts', 'lockedUntil'
+];
+
+export const AUDIT_REASON_HEADER = 'X-Audit-Reason';
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+// Plain JSON copy of a document: populated references collapse to IDs, dates to ISO strings
+const snapshot = (doc) => {
+  if (!doc) return {};
+  const plain = typeof doc.toObject === 'function' ? doc.toObject({ depopulate: true }) : doc;
+  const copy = JSON.parse(JSON.stringify(plain));
+  IGNORED_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+};
+
+// Fields whose values differ between two snapshots
+export const diffSnapshots = (before, after) => {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null
+    }));
+};
+
+// Readable label for the audited record
+const describeEntity = (entityType, doc) => {
+  if (!doc) return undefined;
+  if (entityType !== 'Assignment') return doc.name;
+
+  const engineer = doc.engineerId?.name;
+  const project = doc.projectId?.name;
+  return engineer && project ? `${engineer} on ${project}` : undefined;
+};
+
+// Project and engineer a record belongs to
+const relatedIds = (entityType, doc) => {
+  if (entityType === 'Project') return { projectId: doc._id };
+  if (entityType === 'User') return { engineerId: doc._id };
+  return { projectId: idOf(doc.projectId), engineerId: idOf(doc.engineerId) };
+};
+
+// Actor and optional reason of the request making the change
+export const auditContext = (req, reason) => {
+  let headerReason = req.get?.(AUDIT_REASON_HEADER);
+  if (headerReason) {
+    try {
+      headerReason = decodeURIComponent(headerReason);
+    } catch {
+      // Not URI encoded; keep the raw header value
+    }
+  }
+
+  return {
+    actor: req.user?._id,
+    actorName: req.user?.name,
+    reason: (reason || headerReason || '').trim().slice(0, 500) || undefined
+  };
+};
+
+// Write one audit entry, notify the people the change affects and queue its webhook events.
+// Updates that change nothing are skipped. Pass `changes` to describe a change the diff cannot
+// show, such as a new password, and `notify: false` when a broader notification covers the
+// change; webhooks still receive every change.
+export const recordAudit = async ({ entityType, action, before = null, after = null, changes = null, context = {}, session = null, notify = true }) => {
+  const doc = after || before;
+  const diff = changes || diffSnapshots(snapshot(before), snapshot(after));
+
+  if (action === 'update' && diff.length === 0) {
+    return null;
+  }
+
+  const [entry] = await AuditLog.create([{
+    entityType,
+    entityId: doc._id,
+    entityName: describeEntity(entityType, doc) || describeEntity(entityType, before),
+    action,
+    changes: diff,
+    ...relatedIds(entityType, doc),
+    ...context
+  }], { session });
+
+  if (notify) {
+    await notifyAuditedChange(entry, doc, session);
+  }
+  await queueAuditedChange(entry, doc, session);
+
+  return entry;
+};
+
+export default {
+  AUDIT_REASON_HEADER,
+  diffSnapshots,
+  auditContext,
+  recordAudit
+};
@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Cookie sessions
+ * Browsers sign in with `X-Auth-Mode: cookie` and never see their tokens: the
+ * access and refresh tokens are set as httpOnly cookies, and the response
+ * carries a CSRF token instead, which must be sent back in `X-CSRF-Token` on
+ * every request that changes something. The CSRF token is an HMAC of the
+ * session ID, so it needs no storage and changes with every sign-in. API
+ * clients that send no such header keep receiving bearer tokens.
+ */
+
+export const ACCESS_COOKIE = 'erms_access';
+export const REFRESH_COOKIE = 'erms_refresh';
+export const CSRF_HEADER = 'x-csrf-token';
+
+// Methods that never change anything and so need no CSRF token
+export const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const csrfSecret = () => process.env.CSRF_SECRET || process.env.JWT_SECRET;
+
+// Set AUTH_COOKIE_SAMESITE=none (which also forces Secure) when the frontend is on another site
+const cookieOptions = (path) => {
+  const sameSite = process.env.AUTH_COOKIE_SAMESITE || 'lax';
+  return {
+    httpOnly: true,
+    secure: sameSite === 'none' || process.env.AUTH_COOKIE_SECURE === 'true' || process.env.NODE_ENV === 'production',
+    sameSite,
+    path
+  };
+};
+
+const expiryOf = (token) => new Date(jwt.decode(token).exp * 1000);
+
+// The client asked for cookies rather than tokens in the response body
+export const wantsCookies = (req) => req.get('x-auth-mode') === 'cookie';
+
+// A cookie from the request; Express only parses them with an extra dependency
+export const readCookie = (req, name) => {
+  const header = req.headers.cookie;
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index > -1 && part.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+};
+
+export const csrfTokenFor = (sessionId) =>
+  crypto.createHmac('sha256', csrfSecret()).update(`csrf:${sessionId}`).digest('base64url');
+
+export const isValidCsrfToken = (req, sessionId) => {
+  const given = Buffer.from(String(req.get(CSRF_HEADER) || ''));
+  const expected = Buffer.from(csrfTokenFor(sessionId));
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+// The refresh token is only sent to the auth routes that use it
+export const setAuthCookies = (res, { accessToken, refreshToken }) => {
+  res.cookie(ACCESS_COOKIE, accessToken, { ...cookieOptions('/api'), expires: expiryOf(accessToken) });
+  res.cookie(REFRESH_COOKIE, refreshToken, { ...cookieOptions('/api/auth'), expires: expiryOf(refreshToken) });
+};
+
+export const clearAuthCookies = (res) => {
+  res.clearCookie(ACCESS_COOKIE, cookieOptions('/api'));
+  res.clearCookie(REFRESH_COOKIE, cookieOptions('/api/auth'));
+};
+
+// What a sign-in or refresh returns: cookies and a CSRF token for browsers, the tokens otherwise
+export const issueTokens = (req, res, tokens) => {
+  if (!wantsCookies(req)) {
+    return tokens;
+  }
+
+  setAuthCookies(res, tokens);
+  return {
+    csrfToken: csrfTokenFor(jwt.decode(tokens.accessToken).sid),
+    accessTokenExpiresAt: expiryOf(tokens.accessToken)
+  };
+};
+
+export default {
+  ACCESS_COOKIE,
+  REFRESH_COOKIE,
+  CSRF_HEADER,
+  SAFE_METHODS,
+  wantsCookies,
+  readCookie,
+  csrfTokenFor,
+  isValidCsrfToken,
+  setAuthCookies,
+  clearAuthCookies,
+  issueTokens
+};
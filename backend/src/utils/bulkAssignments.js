@@ -0,0 +1,212 @@
+import mongoose from 'mongoose';
+import { User, Project, Assignment } from '../models/index.js';
+import { addDays, checkCapacityForRange, formatCapacityError } from './capacityEngine.js';
+import { recordAudit } from './auditLog.js';
+import { archiveAssignment } from './archive.js';
+import AppError from './AppError.js';
+
+/**
+ * Bulk Assignment Operations
+ * Applies one change (a date shift, an allocation change, a status change or
+ * archiving) to many assignments at once. The batch is written inside a
+ * transaction and each row is then checked against the batch's final state, so
+ * rows that free capacity are counted before rows that need it. Nothing is kept
+ * unless every row passes, and a preview runs the same checks then rolls back.
+ */
+
+export const BULK_OPERATIONS = ['shift-dates', 'change-allocation', 'change-status', 'archive'];
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+const summarize = (assignment) => ({
+  startDate: assignment.startDate,
+  endDate: assignment.endDate,
+  allocationPercentage: assignment.allocationPercentage,
+  status: assignment.status
+});
+
+// Fields the operation changes on one assignment
+const proposedChanges = (assignment, operation) => {
+  switch (operation.operation) {
+    case 'shift-dates': {
+      const { days, dateField = 'both' } = operation;
+      return {
+        ...(dateField !== 'end' && { startDate: addDays(assignment.startDate, days) }),
+        ...(dateField !== 'start' && { endDate: addDays(assignment.endDate, days) })
+      };
+    }
+    case 'change-allocation':
+      return {
+        allocationPercentage: operation.allocationPercentage ?? assignment.allocationPercentage + operation.allocationChange
+      };
+    case 'change-status':
+      return { status: operation.status };
+    default:
+      return {};
+  }
+};
+
+// Problems visible from the row alone, before anything is written
+const validateRow = (before, after) => {
+  const errors = [];
+  if (before.status === 'paused' && after.status === 'active') {
+    errors.push('Paused assignments resume when their project is reactivated');
+  }
+  if (after.endDate <= after.startDate) {
+    errors.push('End date must be after start date');
+  }
+  if (after.allocationPercentage < 1 || after.allocationPercentage > 100) {
+    errors.push(`Allocation would be ${after.allocationPercentage}%, it must be between 1% and 100%`);
+  }
+  return errors;
+};
+
+// Whether a change could push an engineer over capacity. Lowering an allocation,
+// shortening an assignment or ending it never needs a capacity check.
+export const addsLoad = (before, after) =>
+  after.status === 'active' && (
+    before.status !== 'active' ||
+    after.allocationPercentage > before.allocationPercentage ||
+    after.startDate < before.startDate ||
+    after.endDate > before.endDate
+  );
+
+// Checks that depend on the rest of the batch, run once every row is written
+const validateAgainstBatch = async (row, assignment, engineer, project, session) => {
+  const errors = [];
+
+  if (row.before.status !== 'active') {
+    const [duplicate, teamCount] = await Promise.all([
+      Assignment.exists({
+        _id: { $ne: assignment._id },
+        engineerId: assignment.engineerId,
+        projectId: assignment.projectId,
+        status: 'active'
+      }).session(session),
+      Assignment.countDocuments({ projectId: assignment.projectId, status: 'active' }).session(session)
+    ]);
+
+    if (duplicate) {
+      errors.push('Engineer already has an active assignment on this project');
+    }
+    if (project && teamCount > project.teamSize) {
+      errors.push(`Project team would exceed its size of ${project.teamSize}`);
+    }
+  }
+
+  const capacity = await checkCapacityForRange(engineer, {
+    startDate: assignment.startDate,
+    endDate: assignment.endDate,
+    allocationPercentage: assignment.allocationPercentage,
+    excludeAssignmentId: assignment._id,
+    session
+  });
+  if (!capacity.fits) {
+    errors.push(formatCapacityError(capacity));
+  }
+
+  return errors;
+};
+
+// Write the batch inside the session and report every row with its problems
+const stageBatch = async (assignmentIds, operation, context, session) => {
+  const assignments = await Assignment.find({ _id: { $in: assignmentIds } })
+    .populate('engineerId', 'name maxCapacity')
+    .populate('projectId', 'name teamSize')
+    .session(session);
+
+  const found = new Set(assignments.map(assignment => assignment._id.toString()));
+  const missing = assignmentIds.filter(id => !found.has(id.toString()));
+  if (missing.length > 0) {
+    throw new AppError(`Assignments not found: ${missing.join(', ')}`, 404);
+  }
+
+  const rows = assignments.map(assignment => {
+    const before = summarize(assignment);
+    const after = { ...before, ...proposedChanges(assignment, operation) };
+    return {
+      assignmentId: assignment._id,
+      engineer: assignment.engineerId?.name,
+      project: assignment.projectId?.name,
+      before,
+      after,
+      errors: operation.operation === 'archive' ? [] : validateRow(before, after)
+    };
+  });
+
+  if (rows.some(row => row.errors.length > 0)) {
+    return rows;
+  }
+
+  const projects = new Map();
+
+  for (const [index, assignment] of assignments.entries()) {
+    projects.set(idOf(assignment.projectId), assignment.projectId);
+
+    if (operation.operation === 'archive') {
+      await archiveAssignment(assignment, context, session);
+      continue;
+    }
+
+    const previous = assignment.toObject({ depopulate: true });
+    assignment.set(rows[index].after);
+    await assignment.save({ session });
+    await recordAudit({
+      entityType: 'Assignment',
+      action: 'update',
+      before: previous,
+      after: assignment,
+      context: { ...context, reason: context.reason || `Bulk ${operation.operation.replace('-', ' ')}` },
+      session
+    });
+  }
+
+  for (const [index, assignment] of assignments.entries()) {
+    const row = rows[index];
+    if (operation.operation === 'archive' || !addsLoad(row.before, row.after)) continue;
+
+    const engineer = await User.findById(idOf(assignment.engineerId)).session(session);
+    const project = projects.get(idOf(assignment.projectId));
+    row.errors = engineer
+      ? await validateAgainstBatch(row, assignment, engineer, project, session)
+      : ['Engineer not found'];
+  }
+
+  return rows;
+};
+
+// Apply (or preview) one operation across many assignments, all-or-nothing
+export const runBulkOperation = async (assignmentIds, operation, { preview = false, context = {} } = {}) => {
+  const uniqueIds = [...new Set(assignmentIds.map(id => id.toString()))];
+  const session = await mongoose.startSession();
+  let rows = [];
+
+  try {
+    await session.withTransaction(async () => {
+      rows = await stageBatch(uniqueIds, operation, context, session);
+
+      if (preview || rows.some(row => row.errors.length > 0)) {
+        await session.abortTransaction();
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  const failed = rows.filter(row => row.errors.length > 0).length;
+
+  return {
+    operation: operation.operation,
+    preview,
+    applied: !preview && failed === 0,
+    total: rows.length,
+    failed,
+    rows
+  };
+};
+
+export default {
+  BULK_OPERATIONS,
+  addsLoad,
+  runBulkOperation
+};
@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { User, Assignment, TimeOff } from '../models/index.js';
+import { buildCalendar } from './icalendar.js';
+import { addDays, startOfDay } from './capacityEngine.js';
+
+/**
+ * Calendar Feed
+ * Each user has a secret feed key; the feed token is their ID signed with it,
+ * so calendar apps can subscribe without a session. Rotating the key
+ * invalidates every copy of the old link.
+ */
+
+// Past events older than this drop out of the feed
+const HISTORY_DAYS = 90;
+
+const feedSecret = () => process.env.CALENDAR_FEED_SECRET || process.env.JWT_SECRET;
+
+const sign = (userId, feedKey) =>
+  crypto.createHmac('sha256', feedSecret()).update(`${userId}:${feedKey}`).digest('base64url');
+
+// Token for the user's current feed key, creating the key on first use
+export const getFeedToken = async (userId) => {
+  const user = await User.findById(userId).select('+calendarFeedKey');
+  if (!user.calendarFeedKey) {
+    return rotateFeedToken(userId);
+  }
+  return `${user._id}.${sign(user._id, user.calendarFeedKey)}`;
+};
+
+// Replace the feed key, so links handed out before stop working
+export const rotateFeedToken = async (userId) => {
+  const feedKey = crypto.randomBytes(24).toString('hex');
+  await User.updateOne({ _id: userId }, { calendarFeedKey: feedKey });
+  return `${userId}.${sign(userId, feedKey)}`;
+};
+
+// The user a feed token was issued to, or null when it is unknown, forged or rotated out
+export const resolveFeedToken = async (token) => {
+  const [userId, signature] = String(token).split('.');
+  if (!signature || !mongoose.Types.ObjectId.isValid(userId)) return null;
+
+  const user = await User.findById(userId).select('+calendarFeedKey');
+  if (!user?.calendarFeedKey) return null;
+
+  const expected = Buffer.from(sign(user._id, user.calendarFeedKey));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given) ? user : null;
+};
+
+const TIME_OFF_LABELS = {
+  vacation: 'Vacation',
+  sick: 'Sick leave',
+  personal: 'Personal leave',
+  training: 'Training',
+  other: 'Time off'
+};
+
+// Assignments and approved leave of one engineer as an iCalendar document
+export const buildUserCalendar = async (user) => {
+  const since = addDays(startOfDay(new Date()), -HISTORY_DAYS);
+
+  const [assignments, timeOff] = await Promise.all([
+    Assignment.find({
+      engineerId: user._id,
+      status: { $in: ['active', 'paused', 'completed'] },
+      endDate: { $gte: since }
+    }).populate('projectId', 'name status').sort({ startDate: 1 }),
+    TimeOff.find({
+      engineerId: user._id,
+      status: 'approved',
+      endDate: { $gte: since }
+    }).sort({ startDate: 1 })
+  ]);
+
+  const assignmentEvents = assignments.map(assignment => {
+    const project = assignment.projectId?.name || 'Project';
+    const paused = assignment.status === 'paused';
+    return {
+      uid: `assignment-${assignment._id}@erms`,
+      summary: `${project} (${assignment.role}, ${assignment.allocationPercentage}%)${paused ? ' - paused' : ''}`,
+      description: [
+        `Project: ${project}`,
+        `Role: ${assignment.role}`,
+        `Allocation: ${assignment.allocationPercentage}%`,
+        `Status: ${assignment.status}`,
+        ...(assignment.notes ? [`Notes: ${assignment.notes}`] : [])
+      ].join('\n'),
+      startDate: assignment.startDate,
+      endDate: assignment.endDate,
+      categories: ['Assignment'],
+      status: paused ? 'TENTATIVE' : 'CONFIRMED',
+      lastModified: assignment.updatedAt
+    };
+  });
+
+  const timeOffEvents = timeOff.map(entry => {
+    const label = TIME_OFF_LABELS[entry.type] || TIME_OFF_LABELS.other;
+    return {
+      uid: `timeoff-${entry._id}@erms`,
+      summary: entry.percentage < 100 ? `${label} (${entry.percentage}% of the day)` : label,
+      description: entry.reason || undefined,
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+      categories: ['Time Off'],
+      busy: entry.percentage === 100,
+      lastModified: entry.updatedAt
+    };
+  });
+
+  return buildCalendar({
+    name: `${user.name} - ERMS`,
+    description: 'Project assignments and approved time off',
+    events: [...assignmentEvents, ...timeOffEvents]
+  });
+};
+
+export default {
+  getFeedToken,
+  rotateFeedToken,
+  resolveFeedToken,
+  buildUserCalendar
+};
@@ -0,0 +1,360 @@
+import { User, Assignment, TimeOff, Holiday } from '../models/index.js';
+
+/**
+ * Time-phased Capacity Engine
+ * Computes day-by-day and week-by-week allocation for engineers so that
+ * capacity decisions account for when assignments actually run. Load is
+ * compared on each working day against what the engineer can give that day:
+ * max capacity, less any partial time off. Weekends, public holidays and whole
+ * days off are skipped, so they never block work or count as overallocation.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const MAX_TIMELINE_DAYS = 731;
+
+// Days, today included, that an engineer's current utilization and free capacity cover
+export const CURRENT_WINDOW_DAYS = 7;
+
+// Normalize a date to midnight UTC so that day comparisons ignore time of day
+export const startOfDay = (date) => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+export const addDays = (date, days) => new Date(date.getTime() + days * DAY_MS);
+
+// Monday of the ISO week containing the given day
+export const startOfWeek = (date) => {
+  const day = startOfDay(date);
+  const offset = (day.getUTCDay() + 6) % 7;
+  return addDays(day, -offset);
+};
+
+// An assignment occupies a day when the day falls within its start and end dates (inclusive)
+const isActiveOn = (assignment, day) =>
+  startOfDay(assignment.startDate) <= day && startOfDay(assignment.endDate) >= day;
+
+const allocationOn = (assignments, day) =>
+  assignments
+    .filter(assignment => isActiveOn(assignment, day))
+    .reduce((sum, assignment) => sum + (assignment.allocationPercentage || 0), 0);
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+export const isWorkingDay = (day) => day.getUTCDay() !== 0 && day.getUTCDay() !== 6;
+
+// Percentage of a day an engineer is away; overlapping entries never add up to more than the whole day
+export const timeOffOn = (absences, day) =>
+  Math.min(100, absences
+    .filter(absence => isActiveOn(absence, day))
+    .reduce((sum, absence) => sum + absence.percentage, 0));
+
+// Capacity available in a period once time off is taken out, spread over its working
+// days so a day of leave removes a fifth of a week. This is what the engineer can
+// actually deliver; it is never the limit assignments are checked against.
+export const capacityForPeriod = (maxCapacity, absences, periodStart, periodEnd) => {
+  let workingDays = 0;
+  let daysOff = 0;
+
+  for (let day = startOfDay(periodStart); day <= periodEnd; day = addDays(day, 1)) {
+    if (!isWorkingDay(day)) continue;
+    workingDays++;
+    daysOff += timeOffOn(absences, day) / 100;
+  }
+
+  if (!workingDays || !daysOff) return { capacity: maxCapacity, daysOff: 0 };
+
+  return {
+    capacity: Math.round(maxCapacity * (1 - daysOff / workingDays)),
+    daysOff: Math.round(daysOff * 10) / 10
+  };
+};
+
+// Approved time off and applicable holidays in a window, keyed by engineer ID
+export const loadAbsences = async (engineers, startDate, endDate, session = null) => {
+  const [timeOff, holidays] = await Promise.all([
+    TimeOff.findApproved(engineers.map(engineer => engineer._id), startOfDay(startDate), endDate).session(session),
+    Holiday.find({
+      isActive: true,
+      date: { $gte: startOfDay(startDate), $lte: new Date(endDate) }
+    }).session(session)
+  ]);
+
+  return new Map(engineers.map(engineer => [
+    engineer._id.toString(),
+    [
+      ...timeOff
+        .filter(entry => idOf(entry.engineerId) === engineer._id.toString())
+        .map(entry => ({
+          startDate: entry.startDate,
+          endDate: entry.endDate,
+          percentage: entry.percentage,
+          type: entry.type,
+          label: entry.percentage < 100 ? `${entry.type} (${entry.percentage}% of day)` : entry.type
+        })),
+      ...holidays
+        .filter(holiday => holiday.appliesTo(engineer))
+        .map(holiday => ({
+          startDate: holiday.date,
+          endDate: holiday.date,
+          percentage: 100,
+          type: 'holiday',
+          label: holiday.name
+        }))
+    ]
+  ]));
+};
+
+// Find active assignments for an engineer that overlap the given window
+export const findOverlappingAssignments = (engineerId, startDate, endDate, excludeAssignmentId = null, session = null) => {
+  const query = {
+    engineerId,
+    status: 'active',
+    startDate: { $lte: new Date(endDate) },
+    endDate: { $gte: startOfDay(startDate) }
+  };
+
+  if (excludeAssignmentId) {
+    query._id = { $ne: excludeAssignmentId };
+  }
+
+  return Assignment.find(query).session(session).populate('projectId', 'name status priority managerId');
+};
+
+// Highest total allocation on a working day of the window the engineer is not fully away.
+// Weekends, holidays and whole days off carry no load, so they can never overflow.
+export const calculateWorkingPeakAllocation = (assignments, absences, startDate, endDate) => {
+  const windowStart = startOfDay(startDate);
+  const windowEnd = startOfDay(endDate);
+
+  let peak = { allocation: 0, date: windowStart };
+  for (let day = windowStart; day <= windowEnd; day = addDays(day, 1)) {
+    if (!isWorkingDay(day) || timeOffOn(absences, day) >= 100) continue;
+
+    const allocation = allocationOn(assignments, day);
+    if (allocation > peak.allocation) {
+      peak = { allocation, date: day };
+    }
+  }
+  return peak;
+};
+
+// The working day of a window with the least room left, comparing each day's load with the
+// capacity left after that day's partial time off. Weekends and whole days off are skipped.
+// `available` is negative when the engineer is overallocated.
+export const calculateWorkingHeadroom = (assignments, absences, startDate, endDate, maxCapacity) => {
+  const windowStart = startOfDay(startDate);
+  const windowEnd = startOfDay(endDate);
+
+  let tightest = { date: windowStart, allocation: 0, capacity: maxCapacity, available: maxCapacity };
+  for (let day = windowStart; day <= windowEnd; day = addDays(day, 1)) {
+    const timeOff = timeOffOn(absences, day);
+    if (!isWorkingDay(day) || timeOff >= 100) continue;
+
+    const capacity = Math.round(maxCapacity * (1 - timeOff / 100));
+    const allocation = allocationOn(assignments, day);
+    if (capacity - allocation < tightest.available) {
+      tightest = { date: day, allocation, capacity, available: capacity - allocation };
+    }
+  }
+  return tightest;
+};
+
+// Build per-day or per-week capacity periods for a single engineer
+export const buildCapacityTimeline = (engineer, assignments, { startDate, endDate, granularity = 'week' }, absences = []) => {
+  const windowStart = startOfDay(startDate);
+  const windowEnd = startOfDay(endDate);
+  const maxCapacity = engineer.maxCapacity || 100;
+
+  const engineerAssignments = assignments.filter(assignment =>
+    idOf(assignment.engineerId) === engineer._id.toString()
+  );
+
+  const days = [];
+  for (let day = windowStart; day <= windowEnd; day = addDays(day, 1)) {
+    const activeAssignments = engineerAssignments.filter(assignment => isActiveOn(assignment, day));
+    days.push({
+      day,
+      allocated: activeAssignments.reduce((sum, a) => sum + (a.allocationPercentage || 0), 0),
+      assignments: activeAssignments
+    });
+  }
+
+  const buckets = [];
+  days.forEach(entry => {
+    const key = granularity === 'day' ? entry.day.getTime() : startOfWeek(entry.day).getTime();
+    const current = buckets[buckets.length - 1];
+    if (current && current.key === key) {
+      current.days.push(entry);
+    } else {
+      buckets.push({ key, days: [entry] });
+    }
+  });
+
+  const periods = buckets.map(({ days: bucketDays }) => {
+    const periodStart = bucketDays[0].day;
+    const periodEnd = bucketDays[bucketDays.length - 1].day;
+    const allocated = Math.max(...bucketDays.map(d => d.allocated));
+    const headroom = calculateWorkingHeadroom(engineerAssignments, absences, periodStart, periodEnd, maxCapacity);
+    const { capacity, daysOff } = capacityForPeriod(maxCapacity, absences, periodStart, periodEnd);
+    const averageAllocation = bucketDays.reduce((sum, d) => sum + d.allocated, 0) / bucketDays.length;
+
+    const periodAssignments = new Map();
+    bucketDays.forEach(d => d.assignments.forEach(assignment => {
+      periodAssignments.set(assignment._id.toString(), {
+        assignmentId: assignment._id,
+        projectId: idOf(assignment.projectId),
+        projectName: assignment.projectId?.name || 'Unknown Project',
+        role: assignment.role,
+        allocation: assignment.allocationPercentage
+      });
+    }));
+
+    return {
+      periodStart,
+      periodEnd,
+      allocated,
+      averageAllocation: Math.round(averageAllocation * 10) / 10,
+      capacity,
+      available: Math.max(0, headroom.available),
+      utilizationRate: Math.round((allocated / maxCapacity) * 100),
+      isOverallocated: headroom.available < 0,
+      timeOffDays: daysOff,
+      timeOff: absences
+        .filter(absence => startOfDay(absence.startDate) <= periodEnd && startOfDay(absence.endDate) >= periodStart)
+        .map(({ type, label, percentage }) => ({ type, label, percentage })),
+      assignments: [...periodAssignments.values()]
+    };
+  });
+
+  const peak = calculateWorkingPeakAllocation(engineerAssignments, absences, windowStart, windowEnd);
+  const headroom = calculateWorkingHeadroom(engineerAssignments, absences, windowStart, windowEnd, maxCapacity);
+
+  return {
+    engineerId: engineer._id,
+    name: engineer.name,
+    maxCapacity,
+    startDate: windowStart,
+    endDate: windowEnd,
+    granularity,
+    periods,
+    summary: {
+      peakAllocation: peak.allocation,
+      peakDate: peak.date,
+      minimumAvailable: Math.max(0, headroom.available),
+      averageAllocation: days.length
+        ? Math.round(days.reduce((sum, d) => sum + d.allocated, 0) / days.length * 10) / 10
+        : 0,
+      overallocatedPeriods: periods.filter(period => period.isOverallocated).length,
+      timeOffDays: Math.round(periods.reduce((sum, period) => sum + period.timeOffDays, 0) * 10) / 10
+    }
+  };
+};
+
+// Build capacity timelines for several engineers from one assignment query
+export const getCapacityTimelines = async (engineers, { startDate, endDate, granularity = 'week', excludeAssignmentId = null }) => {
+  const query = {
+    engineerId: { $in: engineers.map(engineer => engineer._id) },
+    status: 'active',
+    startDate: { $lte: new Date(endDate) },
+    endDate: { $gte: startOfDay(startDate) }
+  };
+
+  if (excludeAssignmentId) {
+    query._id = { $ne: excludeAssignmentId };
+  }
+
+  const [assignments, absences] = await Promise.all([
+    Assignment.find(query).populate('projectId', 'name status priority managerId'),
+    loadAbsences(engineers, startDate, endDate)
+  ]);
+
+  return engineers.map(engineer =>
+    buildCapacityTimeline(
+      engineer,
+      assignments,
+      { startDate, endDate, granularity },
+      absences.get(engineer._id.toString())
+    )
+  );
+};
+
+// Capacity timeline for a single engineer
+export const getEngineerCapacityTimeline = async (engineerId, options) => {
+  const engineer = await User.findById(engineerId);
+  if (!engineer) return null;
+
+  const [timeline] = await getCapacityTimelines([engineer], options);
+  return timeline;
+};
+
+// Each engineer's current load, keyed by engineer ID: the busiest working day of the coming week
+// and the least room left on any of its working days, the figure a new assignment is checked against
+export const getCurrentCapacity = async (engineers) => {
+  const startDate = startOfDay(new Date());
+  const timelines = await getCapacityTimelines(engineers, {
+    startDate,
+    endDate: addDays(startDate, CURRENT_WINDOW_DAYS - 1)
+  });
+
+  return new Map(timelines.map(({ engineerId, summary }) => [
+    engineerId.toString(),
+    { currentUtilization: summary.peakAllocation, availableCapacity: summary.minimumAvailable }
+  ]));
+};
+
+// Check whether an extra allocation fits within an engineer's capacity on every working day of a range.
+// Partial days off lower that day's capacity; whole days off are skipped, so leave or a holiday
+// inside the range never blocks the assignment. The peak is the day with the least room left,
+// and `timeOffDays` tells the caller how much of the range the engineer is away.
+export const checkCapacityForRange = async (engineer, { startDate, endDate, allocationPercentage, excludeAssignmentId = null, session = null }) => {
+  const rangeStart = startOfDay(startDate);
+  const rangeEnd = startOfDay(endDate);
+  const maxCapacity = engineer.maxCapacity || 100;
+
+  const [overlapping, absencesByEngineer] = await Promise.all([
+    findOverlappingAssignments(engineer._id, startDate, endDate, excludeAssignmentId, session),
+    loadAbsences([engineer], rangeStart, rangeEnd, session)
+  ]);
+  const absences = absencesByEngineer.get(engineer._id.toString());
+
+  const tightest = calculateWorkingHeadroom(overlapping, absences, rangeStart, rangeEnd, maxCapacity);
+  const { daysOff } = capacityForPeriod(maxCapacity, absences, rangeStart, rangeEnd);
+
+  return {
+    fits: allocationPercentage <= tightest.available,
+    peakAllocation: tightest.allocation,
+    peakDate: tightest.date,
+    capacityOnPeakDate: tightest.capacity,
+    requested: allocationPercentage,
+    maxCapacity,
+    timeOffDays: daysOff,
+    available: Math.max(0, tightest.available)
+  };
+};
+
+// Human readable explanation for a failed capacity check
+export const formatCapacityError = (check) =>
+  `Engineer capacity exceeded. Peak allocation in this period: ${check.peakAllocation}% ` +
+  `(on ${check.peakDate.toISOString().split('T')[0]}), Requested: ${check.requested}%, Maximum: ${check.capacityOnPeakDate}%` +
+  (check.capacityOnPeakDate < check.maxCapacity ? ` that day after time off (${check.maxCapacity}% normally)` : '');
+
+export default {
+  startOfDay,
+  startOfWeek,
+  isWorkingDay,
+  timeOffOn,
+  capacityForPeriod,
+  loadAbsences,
+  findOverlappingAssignments,
+  calculateWorkingPeakAllocation,
+  calculateWorkingHeadroom,
+  buildCapacityTimeline,
+  getCapacityTimelines,
+  getEngineerCapacityTimeline,
+  getCurrentCapacity,
+  checkCapacityForRange,
+  formatCapacityError
+};
@@ -0,0 +1,203 @@
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+
+/**
+ * Exporters
+ * Render a report built by reports.js as CSV, an Excel workbook with one sheet
+ * per section, or a formatted PDF with a table per section.
+ */
+
+export const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+  pdf: { contentType: 'application/pdf', extension: 'pdf' }
+};
+
+const formatDate = (date) => (date ? new Date(date).toISOString().split('T')[0] : '');
+
+// Cell value as text, for CSV and PDF
+const formatCell = (column, value) => {
+  if (value === null || value === undefined) return '';
+  if (column.type === 'date') return formatDate(value);
+  return String(value);
+};
+
+const describePeriod = (report) => [
+  `${formatDate(report.startDate)} to ${formatDate(report.endDate)}`,
+  report.department ? `Department: ${report.department}` : 'All departments',
+  `Generated ${report.generatedAt.toISOString().replace('T', ' ').slice(0, 16)} UTC`
+];
+
+// Text that spreadsheets would run as a formula (names, notes and the like are user input)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// CSV cell text; formula-like text gets a leading apostrophe, numbers (even negative ones) are left alone
+const csvCell = (column, value) => {
+  const text = formatCell(column, value);
+  return column.type !== 'number' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+};
+
+const csvEscape = (value) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const csvLine = (values) => values.map(value => csvEscape(String(value))).join(',');
+
+// Sections follow each other, each with a title line, separated by a blank line
+const toCsv = (report) => {
+  const lines = [];
+  const titled = report.sections.length > 1;
+
+  report.sections.forEach((section, index) => {
+    if (index > 0) lines.push('');
+    if (titled) lines.push(csvLine([section.name]));
+    lines.push(csvLine(section.columns.map(column => column.header)));
+    section.rows.forEach(row => {
+      lines.push(csvLine(section.columns.map(column => csvCell(column, row[column.key]))));
+    });
+  });
+
+  // The byte order mark makes Excel open the file as UTF-8
+  return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf8');
+};
+
+const toXlsx = async (report) => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = report.generatedAt;
+
+  report.sections.forEach(section => {
+    const sheet = workbook.addWorksheet(section.name.slice(0, 31), {
+      views: [{ state: 'frozen', ySplit: 1 }]
+    });
+
+    sheet.columns = section.columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.width || 14,
+      ...(column.type === 'date' && { style: { numFmt: 'yyyy-mm-dd' } })
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    section.rows.forEach(row => {
+      sheet.addRow(Object.fromEntries(section.columns.map(column => {
+        const value = row[column.key];
+        return [column.key, column.type === 'date' && value ? new Date(value) : value ?? ''];
+      })));
+    });
+
+    if (section.summary?.length) {
+      sheet.addRow([]);
+      section.summary.forEach(([label, value]) => {
+        sheet.addRow([label, value]).getCell(1).font = { bold: true };
+      });
+    }
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+const PDF_MARGIN = 40;
+const ROW_HEIGHT = 16;
+
+// Draw one section as a table, scaling column widths to the page and breaking pages as needed
+const drawPdfTable = (doc, section) => {
+  const pageWidth = doc.page.width - PDF_MARGIN * 2;
+  const totalWidth = section.columns.reduce((sum, column) => sum + (column.width || 14), 0);
+  const widths = section.columns.map(column => ((column.width || 14) / totalWidth) * pageWidth);
+  const bottom = doc.page.height - PDF_MARGIN;
+
+  const drawRow = (values, { bold = false, shaded = false } = {}) => {
+    if (doc.y + ROW_HEIGHT > bottom) {
+      doc.addPage();
+    }
+    const top = doc.y;
+    if (shaded) {
+      doc.rect(PDF_MARGIN, top, pageWidth, ROW_HEIGHT).fill('#f1f5f9');
+    }
+    doc.fillColor('#111827').font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+
+    let x = PDF_MARGIN;
+    values.forEach((value, index) => {
+      const column = section.columns[index];
+      doc.text(value, x + 3, top + 4, {
+        width: widths[index] - 6,
+        height: ROW_HEIGHT - 4,
+        ellipsis: true,
+        lineBreak: false,
+        align: column.type === 'number' ? 'right' : 'left'
+      });
+      x += widths[index];
+    });
+    doc.x = PDF_MARGIN;
+    doc.y = top + ROW_HEIGHT;
+  };
+
+  const header = section.columns.map(column => column.header);
+  drawRow(header, { bold: true, shaded: true });
+
+  if (section.rows.length === 0) {
+    doc.font('Helvetica-Oblique').fontSize(9).fillColor('#6b7280').text('Nothing to report for this period.', PDF_MARGIN, doc.y + 4);
+    return;
+  }
+
+  section.rows.forEach((row, index) => {
+    // Repeat the header at the top of each new page
+    if (doc.y + ROW_HEIGHT > bottom) {
+      doc.addPage();
+      drawRow(header, { bold: true, shaded: true });
+    }
+    drawRow(section.columns.map(column => formatCell(column, row[column.key])), { shaded: index % 2 === 1 });
+  });
+};
+
+const toPdf = (report) => new Promise((resolve, reject) => {
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: PDF_MARGIN, bufferPages: true });
+  const chunks = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  doc.font('Helvetica-Bold').fontSize(18).fillColor('#111827').text(report.title);
+  doc.font('Helvetica').fontSize(10).fillColor('#4b5563').text(describePeriod(report).join('  |  '));
+
+  report.sections.forEach((section, index) => {
+    if (index > 0 && doc.y > doc.page.height - PDF_MARGIN - 120) {
+      doc.addPage();
+    }
+    doc.moveDown(1.5);
+    doc.font('Helvetica-Bold').fontSize(13).fillColor('#111827').text(section.name, PDF_MARGIN);
+
+    if (section.summary?.length) {
+      doc.font('Helvetica').fontSize(9).fillColor('#374151')
+        .text(section.summary.map(([label, value]) => `${label}: ${value}`).join('    '));
+    }
+    doc.moveDown(0.5);
+    drawPdfTable(doc, section);
+  });
+
+  // Page numbers once the page count is known
+  const { start, count } = doc.bufferedPageRange();
+  for (let page = start; page < start + count; page++) {
+    doc.switchToPage(page);
+    // Writing inside the bottom margin would otherwise start a new page
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(8).fillColor('#6b7280').text(
+      `${report.title}  ·  Page ${page + 1} of ${count}`,
+      PDF_MARGIN,
+      doc.page.height - PDF_MARGIN + 12,
+      { width: doc.page.width - PDF_MARGIN * 2, align: 'right', lineBreak: false }
+    );
+  }
+
+  doc.end();
+});
+
+// Render a report to a file in the given format
+export const renderReport = async (report, format) => {
+  const renderers = { csv: toCsv, xlsx: toXlsx, pdf: toPdf };
+  const body = await renderers[format](report);
+  return { body, ...EXPORT_FORMATS[format] };
+};
+
+export default {
+  EXPORT_FORMATS,
+  renderReport
+};
@@ -0,0 +1,177 @@
+/**
+ * iCalendar
+ * Writes and reads the subset of RFC 5545 the app needs: all-day VEVENTs in a
+ * published VCALENDAR. Dates are treated as UTC days, like the rest of the
+ * capacity model.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lines longer than this many octets are folded onto continuation lines
+const MAX_LINE_OCTETS = 75;
+
+const PRODUCT_ID = '-//ERMS//Engineering Resource Management//EN';
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// 2026-03-09 -> 20260309
+export const formatDateValue = (date) => {
+  const day = new Date(date);
+  return `${day.getUTCFullYear()}${pad(day.getUTCMonth() + 1)}${pad(day.getUTCDate())}`;
+};
+
+// 2026-03-09T14:05:00Z -> 20260309T140500Z
+const formatDateTimeValue = (date) => {
+  const time = new Date(date);
+  return `${formatDateValue(time)}T${pad(time.getUTCHours())}${pad(time.getUTCMinutes())}${pad(time.getUTCSeconds())}Z`;
+};
+
+const escapeText = (value) => String(value)
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value) => value.replace(/\\([\\;,nN])/g, (match, char) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+// Split a content line so no physical line exceeds 75 octets, without breaking a character
+const foldLine = (line) => {
+  const parts = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    if (octets + size > MAX_LINE_OCTETS - (parts.length > 0 ? 1 : 0)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+// Build a calendar of all-day events; each event's end day is inclusive
+export const buildCalendar = ({ name, description, events }) => {
+  const stamp = formatDateTimeValue(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...(description ? [`X-WR-CALDESC:${escapeText(description)}`] : []),
+    // Ask subscribed clients to check for changes every hour
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H'
+  ];
+
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDateValue(event.startDate)}`,
+      // DTEND is exclusive for all-day events
+      `DTEND;VALUE=DATE:${formatDateValue(new Date(new Date(event.endDate).getTime() + DAY_MS))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.categories?.length ? [`CATEGORIES:${event.categories.map(escapeText).join(',')}`] : []),
+      ...(event.lastModified ? [`LAST-MODIFIED:${formatDateTimeValue(event.lastModified)}`] : []),
+      `STATUS:${event.status || 'CONFIRMED'}`,
+      // Events mark allocation and leave, not meetings, so they should not block the calendar
+      `TRANSP:${event.busy ? 'OPAQUE' : 'TRANSPARENT'}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+// "DTSTART;VALUE=DATE:20260309" -> { name: 'DTSTART', params: { VALUE: 'DATE' }, value: '20260309' }
+const parseContentLine = (line) => {
+  // The value starts after the first colon that is not inside a quoted parameter
+  let quoted = false;
+  let colon = -1;
+  for (let index = 0; index < line.length && colon === -1; index++) {
+    if (line[index] === '"') quoted = !quoted;
+    else if (line[index] === ':' && !quoted) colon = index;
+  }
+  if (colon === -1) return null;
+
+  const [name, ...params] = line.slice(0, colon).split(';');
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map(param => {
+      const [key, value = ''] = param.split('=');
+      return [key.toUpperCase(), value.replace(/"/g, '')];
+    })),
+    value: line.slice(colon + 1)
+  };
+};
+
+// The UTC day of a DATE or DATE-TIME value
+const parseDateValue = (value) => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value || '');
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+// Read the VEVENTs of a calendar as { uid, summary, startDate, endDate, recurring } with inclusive UTC days
+export const parseCalendar = (text) => {
+  // Continuation lines start with a space or tab and belong to the line above
+  const lines = String(text).replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events = [];
+  let current = null;
+
+  lines.forEach(line => {
+    const property = parseContentLine(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = {};
+    } else if (property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      if (current) events.push(current);
+      current = null;
+    } else if (current) {
+      current[property.name] = property;
+    }
+  });
+
+  return events
+    .map(event => {
+      const startDate = parseDateValue(event.DTSTART?.value);
+      if (!startDate) return null;
+
+      const allDay = event.DTSTART.params.VALUE === 'DATE' || /^\d{8}$/.test(event.DTSTART.value);
+      const end = parseDateValue(event.DTEND?.value);
+      // An all-day DTEND is the day after the last one; timed events end on the day they finish
+      const endDate = end && end > startDate
+        ? new Date(end.getTime() - (allDay ? DAY_MS : 0))
+        : startDate;
+
+      return {
+        uid: event.UID?.value || null,
+        summary: event.SUMMARY ? unescapeText(event.SUMMARY.value).trim() : '',
+        startDate,
+        endDate,
+        recurring: !!event.RRULE,
+        cancelled: event.STATUS?.value.toUpperCase() === 'CANCELLED'
+      };
+    })
+    .filter(Boolean);
+};
+
+export default {
+  buildCalendar,
+  parseCalendar,
+  formatDateValue
+};
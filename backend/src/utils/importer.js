@@ -0,0 +1,312 @@
+import mongoose from 'mongoose';
+import { User, Project, Assignment } from '../models/index.js';
+import { validateInvitation, validateProject, validateAssignment } from './validation.js';
+import { canonicalizeSkillEntries, escapeRegex } from './skillTaxonomy.js';
+import { checkCapacityForRange, formatCapacityError } from './capacityEngine.js';
+import { recordAudit } from './auditLog.js';
+import { STAFFABLE_STATUSES } from './projectLifecycle.js';
+import { openInvitation, inviteUrl } from './invitations.js';
+
+/**
+ * Importer
+ * Invites engineers, or creates projects or assignments, from spreadsheet rows
+ * that the client has already mapped onto field names. Engineers get an
+ * invitation like one sent by hand and set their own password from its link. Each row is converted, checked
+ * with the same Joi schema as the single-record endpoint and looked up for
+ * duplicates. Valid rows are written in one transaction so later rows see the
+ * capacity and team places taken by earlier ones; a dry run rolls it all back.
+ */
+
+export const IMPORT_ENTITIES = ['engineers', 'projects', 'assignments'];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+const blank = (value) => value === undefined || value === null || String(value).trim() === '';
+
+const text = (value) => (blank(value) ? undefined : String(value).trim());
+
+const lower = (value) => text(value)?.toLowerCase();
+
+// Numeric cells arrive as numbers from XLSX and as strings from CSV
+const number = (value) => {
+  if (blank(value)) return undefined;
+  const parsed = Number(String(value).replace(/[%,\s]/g, ''));
+  return Number.isNaN(parsed) ? value : parsed;
+};
+
+const list = (value, separator = /[;\n]/) =>
+  blank(value) ? [] : String(value).split(separator).map(item => item.trim()).filter(Boolean);
+
+// "React:advanced; Node.js" -> [{ skill: 'React', level: 'advanced' }, { skill: 'Node.js', level: 'intermediate' }]
+const parseSkills = (value) => list(value).map(entry => {
+  const [skill, level] = entry.split(':').map(part => part.trim());
+  return { skill, level: level?.toLowerCase() || 'intermediate' };
+});
+
+// "React:advanced:nice-to-have" adds a priority to the skill format above
+const parseRequiredSkills = (value) => list(value).map(entry => {
+  const [skill, level, priority] = entry.split(':').map(part => part.trim());
+  return {
+    skill,
+    level: level?.toLowerCase() || 'intermediate',
+    priority: priority?.toLowerCase() || 'must-have'
+  };
+});
+
+// Drop unset fields so optional Joi keys stay optional
+const compact = (data) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+// Project names match case-insensitively, as a whole
+const nameRegex = (name) => new RegExp(`^${escapeRegex(name)}$`, 'i');
+
+const ENTITIES = {
+  engineers: {
+    label: (row) => text(row.email) || text(row.name),
+
+    convert: (row) => ({
+      data: compact({
+        name: text(row.name),
+        email: lower(row.email),
+        department: text(row.department),
+        seniority: lower(row.seniority),
+        maxCapacity: number(row.maxCapacity),
+        hourlyRate: number(row.hourlyRate),
+        location: text(row.location),
+        skills: blank(row.skills) ? undefined : parseSkills(row.skills)
+      }),
+      errors: []
+    }),
+
+    validate: validateInvitation,
+
+    exists: (data, session) =>
+      User.exists({ email: data.email }).setOptions({ includeArchived: true }).session(session),
+
+    duplicateKey: (data) => data.email,
+
+    duplicateMessage: 'An account with this email already exists',
+
+    create: ({ name, email, role, ...profile }, context, session) =>
+      openInvitation({ name, email, role, profile }, context.actor, session),
+
+    // The link is only shown once, in the import report
+    created: ({ token }) => ({ inviteUrl: inviteUrl(token) })
+  },
+
+  projects: {
+    label: (row) => text(row.name),
+
+    convert: (row) => ({
+      data: compact({
+        name: text(row.name),
+        description: text(row.description),
+        startDate: text(row.startDate),
+        endDate: text(row.endDate),
+        teamSize: number(row.teamSize),
+        status: lower(row.status),
+        priority: lower(row.priority),
+        budget: number(row.budget),
+        requiredSkills: blank(row.requiredSkills) ? undefined : parseRequiredSkills(row.requiredSkills),
+        tags: blank(row.tags) ? undefined : list(row.tags, /[;,\n]/)
+      }),
+      errors: []
+    }),
+
+    validate: validateProject,
+
+    exists: (data, session) =>
+      Project.exists({ name: nameRegex(data.name) }).session(session),
+
+    duplicateKey: (data) => data.name.toLowerCase(),
+
+    duplicateMessage: 'A project with this name already exists',
+
+    create: async (data, context, session) => {
+      const [project] = await Project.create([{
+        ...data,
+        managerId: context.actor,
+        requiredSkills: await canonicalizeSkillEntries(data.requiredSkills || [])
+      }], { session });
+      return project;
+    }
+  },
+
+  assignments: {
+    label: (row) => [text(row.engineerEmail), text(row.projectName)].filter(Boolean).join(' → '),
+
+    // Engineers and projects are referenced by email and name and resolved to IDs
+    convert: async (row, session) => {
+      const engineer = blank(row.engineerEmail)
+        ? null
+        : await User.findOne({ email: lower(row.engineerEmail), role: 'engineer' }).session(session);
+      const project = blank(row.projectName)
+        ? null
+        : await Project.findOne({ name: nameRegex(text(row.projectName)) }).session(session);
+
+      return {
+        data: compact({
+          engineerId: engineer?._id.toString(),
+          projectId: project?._id.toString(),
+          allocationPercentage: number(row.allocationPercentage),
+          startDate: text(row.startDate),
+          endDate: text(row.endDate),
+          role: lower(row.role),
+          notes: text(row.notes)
+        }),
+        errors: [
+          ...(blank(row.engineerEmail) ? ['Engineer email is required'] : []),
+          ...(!blank(row.engineerEmail) && !engineer ? [`No engineer with email ${text(row.engineerEmail)}`] : []),
+          ...(blank(row.projectName) ? ['Project name is required'] : []),
+          ...(!blank(row.projectName) && !project ? [`No project named ${text(row.projectName)}`] : [])
+        ],
+        engineer,
+        project
+      };
+    },
+
+    validate: validateAssignment,
+
+    exists: (data, session) =>
+      Assignment.exists({
+        engineerId: data.engineerId,
+        projectId: data.projectId,
+        status: 'active'
+      }).session(session),
+
+    duplicateKey: (data) => `${data.engineerId}:${data.projectId}`,
+
+    duplicateMessage: 'Engineer already has an active assignment on this project',
+
+    // Team size and capacity, counting the rows already written in this batch
+    check: async (data, { engineer, project }, session) => {
+      if (!STAFFABLE_STATUSES.includes(project.status)) {
+        return [`Cannot add assignments to a project that is ${project.status}`];
+      }
+
+      const teamCount = await Assignment.countDocuments({ projectId: project._id, status: 'active' }).session(session);
+      if (teamCount >= project.teamSize) {
+        return [`Project team is full. Maximum team size is ${project.teamSize}`];
+      }
+
+      const capacity = await checkCapacityForRange(engineer, {
+        startDate: data.startDate,
+        endDate: data.endDate,
+        allocationPercentage: data.allocationPercentage,
+        session
+      });
+      return capacity.fits ? [] : [formatCapacityError(capacity)];
+    },
+
+    create: async (data, context, session) => {
+      const [assignment] = await Assignment.create([{
+        ...data,
+        createdBy: context.actor
+      }], { session });
+      return assignment;
+    }
+  }
+};
+
+// Invitations are not audited; the account is, once the invitation is accepted
+const AUDIT_ENTITY_TYPES = {
+  projects: 'Project',
+  assignments: 'Assignment'
+};
+
+// Convert, validate and (inside the session) create one row
+const importRow = async (entity, row, seen, { context, dryRun }, session) => {
+  const definition = ENTITIES[entity];
+  const converted = await definition.convert(row, session);
+
+  if (converted.errors.length > 0) {
+    return { status: 'invalid', errors: converted.errors };
+  }
+
+  const { error, value } = definition.validate(converted.data);
+  if (error) {
+    return { status: 'invalid', errors: [error.details[0].message] };
+  }
+
+  const key = definition.duplicateKey(value);
+  if (seen.has(key)) {
+    return { status: 'duplicate', errors: ['Duplicates an earlier row in this file'] };
+  }
+  if (await definition.exists(value, session)) {
+    return { status: 'duplicate', errors: [definition.duplicateMessage] };
+  }
+
+  if (definition.check) {
+    const errors = await definition.check(value, converted, session);
+    if (errors.length > 0) {
+      return { status: 'invalid', errors };
+    }
+  }
+
+  const record = await definition.create(value, context, session);
+  seen.add(key);
+
+  if (AUDIT_ENTITY_TYPES[entity]) {
+    await recordAudit({
+      entityType: AUDIT_ENTITY_TYPES[entity],
+      action: 'create',
+      after: record,
+      context: { ...context, reason: context.reason || 'Import' },
+      session
+    });
+  }
+
+  return {
+    status: 'valid',
+    errors: [],
+    ...(definition.created && !dryRun ? definition.created(record) : {})
+  };
+};
+
+// Check (dryRun) or import mapped spreadsheet rows, writing every valid row in one batch
+export const runImport = async (entity, rows, { dryRun = false, context = {} } = {}) => {
+  const session = await mongoose.startSession();
+  let results = [];
+
+  try {
+    await session.withTransaction(async () => {
+      const seen = new Set();
+      results = [];
+
+      for (const [index, row] of rows.entries()) {
+        const outcome = await importRow(entity, row, seen, { context, dryRun }, session);
+        results.push({
+          row: index + 1,
+          label: ENTITIES[entity].label(row) || null,
+          ...outcome
+        });
+      }
+
+      if (dryRun) {
+        await session.abortTransaction();
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  const count = (status) => results.filter(result => result.status === status).length;
+  const valid = count('valid');
+
+  return {
+    entity,
+    dryRun,
+    total: results.length,
+    valid,
+    invalid: count('invalid'),
+    duplicates: count('duplicate'),
+    created: dryRun ? 0 : valid,
+    rows: results
+  };
+};
+
+export default {
+  IMPORT_ENTITIES,
+  MAX_IMPORT_ROWS,
+  runImport
+};
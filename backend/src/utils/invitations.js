@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Invitation } from '../models/index.js';
+import { appUrl } from '../config/app.js';
+import { canonicalizeSkillEntries } from './skillTaxonomy.js';
+
+/**
+ * Invitations
+ * Accounts are created by invitation: a manager sets up the profile and the
+ * invitee chooses a password through a link. The link carries the invitation
+ * ID signed with a per-invitation key, which is replaced on resend, and an
+ * invitation can be accepted once.
+ */
+
+// How long an invite link stays valid
+export const INVITE_EXPIRY_DAYS = 7;
+
+const inviteSecret = () => process.env.INVITE_SECRET || process.env.JWT_SECRET;
+
+const sign = (invitationId, inviteKey) =>
+  crypto.createHmac('sha256', inviteSecret()).update(`invite:${invitationId}:${inviteKey}`).digest('base64url');
+
+// Public sign-up without an invitation, off unless ALLOW_SELF_REGISTRATION=true
+export const selfRegistrationEnabled = () => process.env.ALLOW_SELF_REGISTRATION === 'true';
+
+// New key and expiry for an invitation, returning the token for its link
+export const issueInviteToken = (invitation) => {
+  invitation.inviteKey = crypto.randomBytes(24).toString('hex');
+  invitation.expiresAt = new Date(Date.now() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+  return `${invitation._id}.${sign(invitation._id, invitation.inviteKey)}`;
+};
+
+// Invite someone, replacing any open invitation for the same email and its link.
+// Engineers get the profile their account starts with. Returns the invitation and its token.
+export const openInvitation = async ({ name, email, role = 'engineer', profile = {} }, invitedBy, session = null) => {
+  await Invitation.updateMany(
+    { email: email.toLowerCase(), status: 'pending' },
+    { status: 'revoked', revokedAt: new Date() }
+  ).session(session);
+
+  const invitation = new Invitation({
+    name,
+    email,
+    role,
+    profile: role === 'engineer'
+      ? {
+          ...profile,
+          seniority: profile.seniority || 'junior',
+          maxCapacity: profile.maxCapacity || 100,
+          skills: await canonicalizeSkillEntries(profile.skills || [])
+        }
+      : {},
+    invitedBy
+  });
+  const token = issueInviteToken(invitation);
+  await invitation.save({ session });
+
+  return { invitation, token };
+};
+
+// The pending invitation a token was issued for, or null when it is unknown, forged,
+// replaced by a resend, used, revoked or expired
+export const resolveInviteToken = async (token, session = null) => {
+  const [invitationId, signature] = String(token).split('.');
+  if (!signature || !mongoose.Types.ObjectId.isValid(invitationId)) return null;
+
+  const invitation = await Invitation.findById(invitationId).select('+inviteKey').session(session);
+  if (!invitation || invitation.status !== 'pending' || invitation.expiresAt <= new Date()) return null;
+
+  const expected = Buffer.from(sign(invitation._id, invitation.inviteKey));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given) ? invitation : null;
+};
+
+// Absolute link to the accept page
+export const inviteUrl = (token) => `${appUrl()}/accept-invite?token=${encodeURIComponent(token)}`;
+
+export default {
+  INVITE_EXPIRY_DAYS,
+  selfRegistrationEnabled,
+  issueInviteToken,
+  openInvitation,
+  resolveInviteToken,
+  inviteUrl
+};
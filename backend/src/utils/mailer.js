@@ -0,0 +1,57 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Mailer
+ * Outgoing email goes through a named transport chosen with MAIL_TRANSPORT.
+ * The built-in ones are for development: `console` prints each message and
+ * `file` appends it to MAIL_LOG_FILE. A real provider is added with
+ * registerMailTransport and selected the same way. Production refuses to send
+ * until it is, so reset links never end up in server logs.
+ */
+
+const transports = {
+  console: async (message) => {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}\n`);
+  },
+  file: async (message) => {
+    const file = process.env.MAIL_LOG_FILE || 'logs/mail.log';
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(
+      file,
+      `--- ${new Date().toISOString()}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n\n`
+    );
+  }
+};
+
+// The built-in transports write whole messages, live links included, where anyone who reads the logs sees them
+const DEVELOPMENT_TRANSPORTS = ['console', 'file'];
+
+const isProduction = () => process.env.NODE_ENV === 'production';
+
+// Add or replace a transport; `send` receives { to, subject, text }
+export const registerMailTransport = (name, send) => {
+  transports[name] = send;
+};
+
+export const sendMail = async ({ to, subject, text }) => {
+  const name = process.env.MAIL_TRANSPORT || (isProduction() ? null : 'console');
+  if (!name) {
+    throw new Error('MAIL_TRANSPORT must name a registered mail provider in production');
+  }
+  if (isProduction() && DEVELOPMENT_TRANSPORTS.includes(name)) {
+    throw new Error(`The ${name} mail transport is for development and cannot be used in production`);
+  }
+
+  const send = transports[name];
+  if (!send) {
+    throw new Error(`Unknown mail transport "${name}"`);
+  }
+
+  await send({ to, subject, text });
+};
+
+export default {
+  registerMailTransport,
+  sendMail
+};
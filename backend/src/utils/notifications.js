@@ -0,0 +1,330 @@
+import { User, Project, Assignment, Notification } from '../models/index.js';
+import { NOTIFICATION_TYPES } from '../models/Notification.js';
+import { startOfDay, addDays, getCapacityTimelines } from './capacityEngine.js';
+import { PROJECT_MANAGER_ROLES } from '../config/permissions.js';
+
+/**
+ * Notifications
+ * In-app notices for assignment and project changes, raised from the audit log
+ * entry of each change so every path that edits a record (forms, bulk updates,
+ * imports, rebalancing) notifies the same way. Reminders that depend on the
+ * calendar, such as assignments ending soon and capacity overload, are checked
+ * when a user looks at their notifications instead of on a schedule.
+ */
+
+// What each type is about and who can receive it, shown on the preferences screen
+export const NOTIFICATION_TYPE_DETAILS = {
+  'assignment-created': {
+    label: 'New assignments',
+    description: 'You are assigned to a project or an assignment is restored',
+    roles: ['engineer']
+  },
+  'assignment-updated': {
+    label: 'Assignment changes',
+    description: 'The allocation, dates, role or status of one of your assignments changes',
+    roles: ['engineer']
+  },
+  'assignment-removed': {
+    label: 'Removed assignments',
+    description: 'One of your assignments is removed',
+    roles: ['engineer']
+  },
+  'project-status': {
+    label: 'Project status',
+    description: 'A project you manage or work on is put on hold, resumed, completed or cancelled',
+    roles: ['engineer', ...PROJECT_MANAGER_ROLES]
+  },
+  'capacity-overload': {
+    label: 'Capacity overload',
+    description: 'You, or an engineer on your projects, are allocated beyond capacity in the coming weeks',
+    roles: ['engineer', ...PROJECT_MANAGER_ROLES]
+  },
+  'assignment-ending': {
+    label: 'Assignments ending soon',
+    description: 'An assignment ends within a week',
+    roles: ['engineer', ...PROJECT_MANAGER_ROLES]
+  }
+};
+
+// The page a notification opens, by type and whether the recipient is an engineer or manages projects
+const LINKS = {
+  'assignment-created': { engineer: '/dashboard', manager: '/assignments' },
+  'assignment-updated': { engineer: '/dashboard', manager: '/assignments' },
+  'assignment-removed': { engineer: '/dashboard', manager: '/assignments' },
+  'project-status': { engineer: '/dashboard', manager: '/projects' },
+  'capacity-overload': { engineer: '/timeline', manager: '/timeline' },
+  'assignment-ending': { engineer: '/dashboard', manager: '/assignments' }
+};
+
+// Whether reminders cover the engineers on the user's projects rather than the user's own work
+const managesProjects = (user) => PROJECT_MANAGER_ROLES.includes(user.role);
+
+// Days before an assignment ends that its engineer and project manager are reminded
+const ENDING_SOON_DAYS = 7;
+
+// Weeks ahead checked for overallocation
+const OVERLOAD_WEEKS = 4;
+
+// Reminders are checked at most this often per user
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Assignment fields an engineer is told about when they change
+const NOTIFIED_FIELDS = {
+  allocationPercentage: 'allocation',
+  role: 'role',
+  startDate: 'start date',
+  endDate: 'end date',
+  status: 'status'
+};
+
+const PROJECT_STATUS_EFFECTS = {
+  'on-hold': 'Its assignments are paused and no longer count against capacity.',
+  active: 'Paused assignments resume where capacity allows.',
+  completed: 'Its assignments have been completed.',
+  cancelled: 'Its assignments have been cancelled.',
+  planning: ''
+};
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+const formatDate = (date) => new Date(date).toISOString().split('T')[0];
+
+const formatValue = (field, value) => {
+  if (value === null || value === undefined) return 'none';
+  if (field === 'allocationPercentage') return `${value}%`;
+  if (field === 'startDate' || field === 'endDate') return formatDate(value);
+  return String(value);
+};
+
+// Save notifications for the recipients that have not muted their type; the actor is never notified
+export const createNotifications = async (notifications, { actor = null, session = null } = {}) => {
+  const wanted = notifications.filter(notification => idOf(notification.userId) !== idOf(actor));
+  if (wanted.length === 0) return [];
+
+  const recipients = await User.find({ _id: { $in: [...new Set(wanted.map(n => idOf(n.userId)))] } })
+    .select('role mutedNotifications')
+    .session(session);
+  const byId = new Map(recipients.map(user => [user._id.toString(), user]));
+
+  const allowed = wanted
+    .filter(notification => {
+      const user = byId.get(idOf(notification.userId));
+      return user && !(user.mutedNotifications || []).includes(notification.type);
+    })
+    .map(notification => ({
+      ...notification,
+      link: notification.link || LINKS[notification.type][
+        managesProjects(byId.get(idOf(notification.userId))) ? 'manager' : 'engineer'
+      ]
+    }));
+
+  if (allowed.length === 0) return [];
+  return Notification.insertMany(allowed, { session, ordered: false });
+};
+
+// Project of an assignment, whether or not it was populated
+const loadProject = (assignment, session) => {
+  if (assignment.projectId?.name) return assignment.projectId;
+  return Project.findById(idOf(assignment.projectId))
+    .select('name')
+    .setOptions({ includeArchived: true })
+    .session(session);
+};
+
+const assignmentNotifications = async (entry, doc, session) => {
+  const project = await loadProject(doc, session);
+  const projectName = project?.name || 'a project';
+  const base = { entityType: 'Assignment', entityId: doc._id };
+  const assigned = (userId, title) => ({
+    ...base,
+    userId,
+    type: 'assignment-created',
+    title,
+    message: `You are assigned to ${projectName} as ${doc.role} at ${doc.allocationPercentage}% ` +
+      `from ${formatDate(doc.startDate)} to ${formatDate(doc.endDate)}.`
+  });
+  const removed = (userId) => ({
+    ...base,
+    userId,
+    type: 'assignment-removed',
+    title: 'Assignment removed',
+    message: `Your assignment to ${projectName} has been removed.`
+  });
+
+  if (entry.action === 'create') return [assigned(doc.engineerId, `New assignment: ${projectName}`)];
+  if (entry.action === 'restore') return [assigned(doc.engineerId, `Assignment restored: ${projectName}`)];
+  if (entry.action === 'archive' || entry.action === 'delete') return [removed(doc.engineerId)];
+
+  // Moving an assignment to another engineer reads as removed for one and new for the other
+  const reassigned = entry.changes.find(change => change.field === 'engineerId');
+  if (reassigned) {
+    return [
+      ...(reassigned.before ? [removed(reassigned.before)] : []),
+      assigned(reassigned.after, `New assignment: ${projectName}`)
+    ];
+  }
+
+  const changed = entry.changes.filter(change => NOTIFIED_FIELDS[change.field]);
+  if (changed.length === 0) return [];
+
+  return [{
+    ...base,
+    userId: doc.engineerId,
+    type: 'assignment-updated',
+    title: `Assignment changed: ${projectName}`,
+    message: `Your assignment to ${projectName} changed: ` + changed.map(change =>
+      `${NOTIFIED_FIELDS[change.field]} ${formatValue(change.field, change.before)} → ${formatValue(change.field, change.after)}`
+    ).join(', ') + '.'
+  }];
+};
+
+const projectNotifications = async (entry, doc, session) => {
+  const status = entry.changes.find(change => change.field === 'status');
+  if (entry.action !== 'update' || !status) return [];
+
+  // Engineers still on the project when it changes, and its manager
+  const assignments = await Assignment.find({
+    projectId: doc._id,
+    status: { $in: ['active', 'paused'] }
+  }).select('engineerId').session(session);
+  const recipients = [...new Set([
+    ...assignments.map(assignment => idOf(assignment.engineerId)),
+    ...(doc.managerId ? [idOf(doc.managerId)] : [])
+  ])];
+
+  return recipients.map(userId => ({
+    userId,
+    type: 'project-status',
+    title: `${doc.name} is now ${status.after}`,
+    message: `${doc.name} moved from ${status.before} to ${status.after}. ${PROJECT_STATUS_EFFECTS[status.after] || ''}`.trim(),
+    entityType: 'Project',
+    entityId: doc._id
+  }));
+};
+
+// Notify the people affected by an audited change. Failures are logged and never undo the change itself.
+export const notifyAuditedChange = async (entry, doc, session = null) => {
+  try {
+    const builders = {
+      Assignment: assignmentNotifications,
+      Project: projectNotifications
+    };
+    if (!builders[entry.entityType]) return;
+
+    const notifications = await builders[entry.entityType](entry, doc, session);
+    await createNotifications(notifications, { actor: entry.actor, session });
+  } catch (error) {
+    console.error('Notification error:', error);
+  }
+};
+
+// Reminders for assignments ending within a week, for their engineers and project managers
+const endingSoonReminders = async (user, today) => {
+  const scope = managesProjects(user)
+    ? { projectId: { $in: (await Project.find({ managerId: user._id }).select('_id')).map(project => project._id) } }
+    : { engineerId: user._id };
+
+  const assignments = await Assignment.find({
+    ...scope,
+    status: 'active',
+    endDate: { $gte: today, $lt: addDays(today, ENDING_SOON_DAYS + 1) }
+  }).populate('projectId', 'name').populate('engineerId', 'name');
+
+  return assignments.map(assignment => {
+    const projectName = assignment.projectId?.name || 'a project';
+    const endDate = formatDate(assignment.endDate);
+    return {
+      userId: user._id,
+      type: 'assignment-ending',
+      title: `Assignment ending ${endDate}`,
+      message: managesProjects(user)
+        ? `${assignment.engineerId?.name || 'An engineer'}'s assignment to ${projectName} ends on ${endDate}.`
+        : `Your assignment to ${projectName} ends on ${endDate}.`,
+      entityType: 'Assignment',
+      entityId: assignment._id,
+      // A new end date gets a new reminder
+      dedupeKey: `assignment-ending:${assignment._id}:${endDate}`
+    };
+  });
+};
+
+// The first overallocated week in the coming weeks, for the user or the engineers on their projects
+const overloadReminders = async (user, today) => {
+  let engineers = [user];
+  if (managesProjects(user)) {
+    const projectIds = (await Project.find({ managerId: user._id }).select('_id')).map(project => project._id);
+    const engineerIds = await Assignment.distinct('engineerId', { projectId: { $in: projectIds }, status: 'active' });
+    engineers = await User.find({ _id: { $in: engineerIds }, role: 'engineer' });
+  }
+  if (engineers.length === 0) return [];
+
+  const timelines = await getCapacityTimelines(engineers, {
+    startDate: today,
+    endDate: addDays(today, OVERLOAD_WEEKS * 7 - 1)
+  });
+
+  return timelines.flatMap(timeline => {
+    const period = timeline.periods.find(candidate => candidate.isOverallocated);
+    if (!period) return [];
+
+    const week = formatDate(period.periodStart);
+    const who = managesProjects(user) ? `${timeline.name} is` : 'You are';
+    return [{
+      userId: user._id,
+      type: 'capacity-overload',
+      title: managesProjects(user) ? `${timeline.name} is overallocated` : 'You are overallocated',
+      message: `${who} allocated ${period.allocated}% in the week of ${week}, above a capacity of ${period.capacity}%.`,
+      entityType: 'User',
+      entityId: timeline.engineerId,
+      dedupeKey: `capacity-overload:${timeline.engineerId}:${week}`
+    }];
+  });
+};
+
+// Raise any due reminders for a user, at most once per check interval
+export const checkScheduledNotifications = async (user) => {
+  const now = new Date();
+  if (user.notificationsCheckedAt && now - user.notificationsCheckedAt < CHECK_INTERVAL_MS) return;
+
+  await User.updateOne({ _id: user._id }, { notificationsCheckedAt: now });
+  user.notificationsCheckedAt = now;
+
+  const today = startOfDay(now);
+  const reminders = [
+    ...await endingSoonReminders(user, today),
+    ...await overloadReminders(user, today)
+  ];
+  if (reminders.length === 0) return;
+
+  // Skip reminders already raised, including ones the user has since read
+  const existing = new Set(await Notification.distinct('dedupeKey', {
+    userId: user._id,
+    dedupeKey: { $in: reminders.map(reminder => reminder.dedupeKey) }
+  }));
+
+  try {
+    await createNotifications(reminders.filter(reminder => !existing.has(reminder.dedupeKey)));
+  } catch (error) {
+    // A concurrent check may have raised the same reminder first
+    if (error.code !== 11000) throw error;
+  }
+};
+
+// Whether each notification type is on, for the types the user's role can receive
+export const describePreferences = (user) =>
+  NOTIFICATION_TYPES
+    .filter(type => NOTIFICATION_TYPE_DETAILS[type].roles.includes(user.role))
+    .map(type => ({
+      type,
+      label: NOTIFICATION_TYPE_DETAILS[type].label,
+      description: NOTIFICATION_TYPE_DETAILS[type].description,
+      enabled: !(user.mutedNotifications || []).includes(type)
+    }));
+
+export default {
+  NOTIFICATION_TYPE_DETAILS,
+  createNotifications,
+  notifyAuditedChange,
+  checkScheduledNotifications,
+  describePreferences
+};
@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import mongoose from 'mongoose';
+import { User } from '../models/index.js';
+import { appUrl } from '../config/app.js';
+
+/**
+ * Passwords
+ * Failed sign-ins are counted per account, and too many in a row lock it for a
+ * while, whichever address they come from. Unknown emails, wrong passwords and
+ * locked accounts are answered alike, in about the same time. A forgotten password is replaced
+ * through an emailed link carrying the user ID signed with a per-request key;
+ * the key is cleared once the link is used and replaced when another is sent.
+ */
+
+// Wrong passwords in a row before the account is locked
+export const MAX_FAILED_LOGINS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+// How long a password reset link stays valid
+export const PASSWORD_RESET_EXPIRY_MINUTES = 60;
+
+const resetSecret = () => process.env.PASSWORD_RESET_SECRET || process.env.JWT_SECRET;
+
+const sign = (userId, resetKey) =>
+  crypto.createHmac('sha256', resetSecret()).update(`password-reset:${userId}:${resetKey}`).digest('base64url');
+
+// Hash of a password nobody has, at the cost new passwords are hashed with, checked for unknown emails
+const UNKNOWN_ACCOUNT_HASH = '$2a$12$zXSEY63bz5SY8SF3JkclE.QbsME3WCns.qVJHyoEtHQ2SAWRwyGW.';
+
+// Whether the password is the user's; without a user it spends as long on a hash that never matches
+export const checkPassword = async (user, password) => {
+  const matches = await bcrypt.compare(password, user?.password || UNKNOWN_ACCOUNT_HASH);
+  return Boolean(user) && matches;
+};
+
+// Still locked out after too many wrong passwords
+export const isLocked = (user) => Boolean(user.lockedUntil && user.lockedUntil > new Date());
+
+// Count a wrong password, returning when the account is now locked until, or null
+export const recordFailedLogin = async (user) => {
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id },
+    { $inc: { failedLoginAttempts: 1 } },
+    { new: true }
+  );
+  if (!updated || updated.failedLoginAttempts < MAX_FAILED_LOGINS) return null;
+
+  // The count starts over once the lock has passed
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+  await User.updateOne({ _id: user._id }, { failedLoginAttempts: 0, lockedUntil });
+  return lockedUntil;
+};
+
+export const clearFailedLogins = async (user) => {
+  if (!user.failedLoginAttempts && !user.lockedUntil) return;
+  await User.updateOne({ _id: user._id }, { failedLoginAttempts: 0, $unset: { lockedUntil: 1 } });
+};
+
+// New key and expiry for a user's password reset, returning the token for its link
+export const issueResetToken = (user) => {
+  user.passwordResetKey = crypto.randomBytes(24).toString('hex');
+  user.passwordResetExpiresAt = new Date(Date.now() + PASSWORD_RESET_EXPIRY_MINUTES * 60 * 1000);
+  return `${user._id}.${sign(user._id, user.passwordResetKey)}`;
+};
+
+// The user a reset token was issued for, or null when it is unknown, forged,
+// replaced by a newer one, already used or expired
+export const resolveResetToken = async (token) => {
+  const [userId, signature] = String(token).split('.');
+  if (!signature || !mongoose.Types.ObjectId.isValid(userId)) return null;
+
+  const user = await User.findById(userId).select('+passwordResetKey');
+  if (!user || !user.passwordResetKey || !(user.passwordResetExpiresAt > new Date())) return null;
+
+  const expected = Buffer.from(sign(user._id, user.passwordResetKey));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given) ? user : null;
+};
+
+// Absolute link to the reset page; the request is unauthenticated, so nothing of it goes into the link
+export const resetUrl = (token) => `${appUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+export default {
+  MAX_FAILED_LOGINS,
+  LOCKOUT_MINUTES,
+  PASSWORD_RESET_EXPIRY_MINUTES,
+  checkPassword,
+  isLocked,
+  recordFailedLogin,
+  clearFailedLogins,
+  issueResetToken,
+  resolveResetToken,
+  resetUrl
+};
@@ -0,0 +1,286 @@
+import { Project, Assignment } from '../models/index.js';
+import { startOfDay, addDays } from './capacityEngine.js';
+import { calculateSkillMatch, calculateSkillCoverage } from './resourceOptimizer.js';
+import { buildRelatedSkillLookup } from './skillTaxonomy.js';
+
+/**
+ * Project Health
+ * Scores each project on schedule, skill coverage, allocation and budget burn,
+ * and keeps every factor's inputs so managers can see why a project is red.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const FACTOR_WEIGHTS = {
+  schedule: 0.35,
+  skillCoverage: 0.25,
+  allocation: 0.25,
+  budget: 0.15
+};
+
+const HOURS_PER_DAY = 8;
+
+// Used when an engineer has no hourly rate on file
+const DEFAULT_HOURLY_RATES = { junior: 50, mid: 75, senior: 100, lead: 120 };
+
+// Each percentage point behind plan costs two points of score
+const VARIANCE_PENALTY = 2;
+
+export const OPEN_PROJECT_STATUSES = ['planning', 'active', 'on-hold'];
+
+export const getRagStatus = (score) => {
+  if (score >= 80) return 'green';
+  if (score >= 60) return 'amber';
+  return 'red';
+};
+
+const clamp = (value, min, max) => Math.min(max, Math.max(min, value));
+
+const round = (value) => Math.round(value * 10) / 10;
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+// Monday to Friday days in the inclusive range
+const countWorkingDays = (start, end) => {
+  let count = 0;
+  for (let day = startOfDay(start); day <= end; day = addDays(day, 1)) {
+    const weekday = day.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) count++;
+  }
+  return count;
+};
+
+const buildFactor = (key, label, score, summary, details) => ({
+  key,
+  label,
+  score: Math.round(score),
+  rag: getRagStatus(score),
+  weight: FACTOR_WEIGHTS[key],
+  summary,
+  details
+});
+
+// Completion against the share of the schedule that has elapsed
+const scoreSchedule = (project, today) => {
+  const start = startOfDay(project.startDate);
+  const end = startOfDay(project.endDate);
+  const totalDays = Math.max(1, (end - start) / DAY_MS);
+  const elapsedPercentage = round(clamp(((today - start) / DAY_MS / totalDays) * 100, 0, 100));
+  const completionPercentage = project.completionPercentage || 0;
+  const scheduleVariance = round(completionPercentage - elapsedPercentage);
+  const daysRemaining = Math.ceil((end - today) / DAY_MS);
+  const isOverdue = daysRemaining < 0 && completionPercentage < 100;
+
+  let score;
+  let summary;
+  if (isOverdue) {
+    score = 0;
+    summary = `${-daysRemaining} days past its end date at ${completionPercentage}% complete`;
+  } else if (scheduleVariance < 0) {
+    score = Math.max(0, 100 + scheduleVariance * VARIANCE_PENALTY);
+    summary = `${-scheduleVariance} points behind plan: ${completionPercentage}% complete with ${elapsedPercentage}% of the schedule elapsed`;
+  } else {
+    score = 100;
+    summary = `On or ahead of plan: ${completionPercentage}% complete with ${elapsedPercentage}% of the schedule elapsed`;
+  }
+
+  return buildFactor('schedule', 'Schedule', score, summary, {
+    elapsedPercentage,
+    completionPercentage,
+    scheduleVariance,
+    daysRemaining,
+    isOverdue
+  });
+};
+
+// How well the engineers assigned now cover each requirement, using the optimizer's level-aware scoring
+const scoreSkillCoverage = (project, teamMembers, relatedSkills) => {
+  const requiredSkills = project.requiredSkills || [];
+
+  if (!requiredSkills.length) {
+    return buildFactor('skillCoverage', 'Skill Coverage', 100, 'No skill requirements set', {
+      requirements: []
+    });
+  }
+
+  const breakdowns = teamMembers.map(engineer => ({
+    engineerName: engineer.name,
+    skillBreakdown: calculateSkillMatch(engineer.skills, requiredSkills, relatedSkills).breakdown
+  }));
+  const score = calculateSkillCoverage(requiredSkills, breakdowns);
+
+  const requirements = requiredSkills.map((requirement, index) => {
+    const best = breakdowns.reduce((current, member) =>
+      !current || member.skillBreakdown[index].score > current.item.score
+        ? { engineerName: member.engineerName, item: member.skillBreakdown[index] }
+        : current,
+    null);
+
+    return {
+      skill: requirement.skill,
+      level: requirement.level,
+      priority: requirement.priority,
+      score: best?.item.score || 0,
+      coveredBy: best?.item.score ? best.engineerName : null,
+      matchType: best?.item.matchType || 'missing'
+    };
+  });
+
+  const gaps = requirements.filter(requirement => requirement.score < 100);
+  const summary = !teamMembers.length
+    ? 'Nobody is assigned yet'
+    : gaps.length
+      ? `${gaps.length} of ${requirements.length} requirements not fully covered: ${gaps.map(gap => gap.skill).join(', ')}`
+      : 'Every requirement is covered at the required level';
+
+  return buildFactor('skillCoverage', 'Skill Coverage', score, summary, { requirements });
+};
+
+// Allocated FTE on the project today (or at kickoff if it has not started) against its team size
+const scoreAllocation = (project, assignments, today) => {
+  const checkDay = startOfDay(project.startDate) > today ? startOfDay(project.startDate) : today;
+  const current = assignments.filter(assignment =>
+    assignment.status === 'active' &&
+    startOfDay(assignment.startDate) <= checkDay &&
+    startOfDay(assignment.endDate) >= checkDay
+  );
+
+  const allocatedFte = round(current.reduce((sum, assignment) => sum + assignment.allocationPercentage, 0) / 100);
+  const headcount = new Set(current.map(assignment => idOf(assignment.engineerId))).size;
+  const teamSize = project.teamSize || 1;
+  const score = clamp((allocatedFte / teamSize) * 100, 0, 100);
+
+  const summary = allocatedFte >= teamSize
+    ? `Fully staffed: ${allocatedFte} FTE across ${headcount} engineers for a team of ${teamSize}`
+    : `${round(teamSize - allocatedFte)} FTE short: ${allocatedFte} FTE across ${headcount} engineers for a team of ${teamSize}`;
+
+  return buildFactor('allocation', 'Allocation', score, summary, {
+    teamSize,
+    headcount,
+    allocatedFte,
+    asOf: checkDay
+  });
+};
+
+// Spend to date (allocation x working hours x rate) against budget, compared with completion
+const scoreBudget = (project, assignments, today) => {
+  if (!project.budget) return null;
+
+  let spent = 0;
+  let remaining = 0;
+  assignments
+    .filter(assignment => assignment.status !== 'cancelled')
+    .forEach(assignment => {
+      const engineer = assignment.engineerId;
+      const rate = engineer?.hourlyRate ?? DEFAULT_HOURLY_RATES[engineer?.seniority] ?? DEFAULT_HOURLY_RATES.mid;
+      const dailyCost = HOURS_PER_DAY * (assignment.allocationPercentage / 100) * rate;
+      const start = startOfDay(assignment.startDate);
+      const end = startOfDay(assignment.endDate);
+      const yesterday = addDays(today, -1);
+
+      if (start <= yesterday) {
+        spent += countWorkingDays(start, end < yesterday ? end : yesterday) * dailyCost;
+      }
+      if (assignment.status === 'active' && end >= today) {
+        remaining += countWorkingDays(start > today ? start : today, end) * dailyCost;
+      }
+    });
+
+  const burnPercentage = round((spent / project.budget) * 100);
+  const projectedSpend = Math.round(spent + remaining);
+  const completionPercentage = project.completionPercentage || 0;
+  const burnVariance = round(burnPercentage - completionPercentage);
+
+  let score = burnVariance <= 0 ? 100 : Math.max(0, 100 - burnVariance * VARIANCE_PENALTY);
+  if (burnPercentage > 100) score = 0;
+
+  const summary = projectedSpend > project.budget
+    ? `${burnPercentage}% of budget spent at ${completionPercentage}% complete; current staffing projects ${Math.round((projectedSpend / project.budget) * 100)}% of budget`
+    : `${burnPercentage}% of budget spent at ${completionPercentage}% complete`;
+
+  return buildFactor('budget', 'Budget Burn', score, summary, {
+    budget: project.budget,
+    spent: Math.round(spent),
+    burnPercentage,
+    completionPercentage,
+    projectedSpend
+  });
+};
+
+// Health of a single project from its assignments
+export const assessProjectHealth = (project, assignments, relatedSkills, today = startOfDay(new Date())) => {
+  const teamMembers = [...new Map(
+    assignments
+      .filter(assignment => assignment.status === 'active' && assignment.engineerId)
+      .map(assignment => [idOf(assignment.engineerId), assignment.engineerId])
+  ).values()];
+
+  const factors = [
+    scoreSchedule(project, today),
+    scoreSkillCoverage(project, teamMembers, relatedSkills),
+    scoreAllocation(project, assignments, today),
+    scoreBudget(project, assignments, today)
+  ].filter(Boolean);
+
+  const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0);
+  const healthScore = Math.round(factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0) / totalWeight);
+  const schedule = factors.find(factor => factor.key === 'schedule');
+  const allocation = factors.find(factor => factor.key === 'allocation');
+
+  return {
+    projectId: project._id,
+    name: project.name,
+    status: project.status,
+    priority: project.priority,
+    manager: project.managerId?.name,
+    startDate: project.startDate,
+    endDate: project.endDate,
+    isOverdue: schedule.details.isOverdue,
+    requiredTeamSize: project.teamSize,
+    currentTeamSize: allocation.details.headcount,
+    healthScore,
+    rag: getRagStatus(healthScore),
+    factors
+  };
+};
+
+// Health for every open project, worst first
+export const getPortfolioHealth = async ({ status } = {}) => {
+  const projects = await Project.find({ status: status ? status : { $in: OPEN_PROJECT_STATUSES } })
+    .populate('managerId', 'name email');
+
+  const [assignments, relatedSkills] = await Promise.all([
+    Assignment.find({ projectId: { $in: projects.map(project => project._id) } })
+      .populate('engineerId', 'name skills seniority hourlyRate'),
+    buildRelatedSkillLookup()
+  ]);
+
+  const today = startOfDay(new Date());
+  const health = projects
+    .map(project => assessProjectHealth(
+      project,
+      assignments.filter(assignment => idOf(assignment.projectId) === project._id.toString()),
+      relatedSkills,
+      today
+    ))
+    .sort((a, b) => a.healthScore - b.healthScore);
+
+  return {
+    projects: health,
+    summary: {
+      total: health.length,
+      green: health.filter(project => project.rag === 'green').length,
+      amber: health.filter(project => project.rag === 'amber').length,
+      red: health.filter(project => project.rag === 'red').length,
+      averageScore: health.length
+        ? Math.round(health.reduce((sum, project) => sum + project.healthScore, 0) / health.length)
+        : 0
+    }
+  };
+};
+
+export default {
+  getRagStatus,
+  assessProjectHealth,
+  getPortfolioHealth
+};
@@ -0,0 +1,215 @@
+import mongoose from 'mongoose';
+import { User, Assignment } from '../models/index.js';
+import { startOfDay, checkCapacityForRange, formatCapacityError } from './capacityEngine.js';
+import { recordAudit } from './auditLog.js';
+import AppError from './AppError.js';
+
+/**
+ * Project Lifecycle
+ * Moves a project between statuses along the allowed transitions and carries the
+ * change through to its assignments: putting a project on hold pauses them,
+ * completing or cancelling it ends them on the day it happens, and resuming it
+ * reactivates paused assignments that still fit. Everything is written in one
+ * transaction, and a preview runs the same steps then rolls back.
+ */
+
+export const PROJECT_TRANSITIONS = {
+  planning: ['active', 'cancelled'],
+  active: ['on-hold', 'completed', 'cancelled'],
+  'on-hold': ['active', 'completed', 'cancelled'],
+  completed: [],
+  cancelled: ['planning']
+};
+
+// What happens to each assignment status when a project enters a status
+const ASSIGNMENT_EFFECTS = {
+  'on-hold': { active: 'pause' },
+  active: { paused: 'resume' },
+  completed: { active: 'complete', paused: 'complete' },
+  cancelled: { active: 'cancel', paused: 'cancel' }
+};
+
+const RESULTING_STATUS = {
+  pause: 'paused',
+  resume: 'active',
+  complete: 'completed',
+  cancel: 'cancelled'
+};
+
+// Project statuses that new assignments can be added to
+export const STAFFABLE_STATUSES = ['planning', 'active'];
+
+// Statuses a project can move to from its current status
+export const allowedTransitions = (status) => PROJECT_TRANSITIONS[status] || [];
+
+// Assignment fields an action changes. Ending an assignment early brings its end
+// date forward to today; one that has not started yet keeps its dates.
+const proposedChanges = (assignment, action, today) => {
+  const changes = { status: RESULTING_STATUS[action] };
+  const ending = action === 'complete' || action === 'cancel';
+
+  if (ending && assignment.startDate < today && assignment.endDate > today) {
+    changes.endDate = today;
+  }
+  if (action === 'complete') {
+    changes.completionPercentage = 100;
+  }
+  return changes;
+};
+
+// Why a paused assignment cannot be reactivated, or null when it can
+const checkResume = async (assignment, project, session) => {
+  const engineer = await User.findById(assignment.engineerId._id).session(session);
+  if (!engineer) {
+    return 'Engineer not found';
+  }
+
+  const [duplicate, teamCount] = await Promise.all([
+    Assignment.exists({
+      engineerId: engineer._id,
+      projectId: project._id,
+      status: 'active'
+    }).session(session),
+    Assignment.countDocuments({ projectId: project._id, status: 'active' }).session(session)
+  ]);
+
+  if (duplicate) {
+    return 'Engineer already has an active assignment on this project';
+  }
+  if (teamCount >= project.teamSize) {
+    return `Project team is full. Maximum team size is ${project.teamSize}`;
+  }
+
+  const capacity = await checkCapacityForRange(engineer, {
+    startDate: assignment.startDate,
+    endDate: assignment.endDate,
+    allocationPercentage: assignment.allocationPercentage,
+    session
+  });
+  return capacity.fits ? null : formatCapacityError(capacity);
+};
+
+// Apply the assignment side of a transition inside the session
+const applyEffects = async (project, to, context, session) => {
+  const effects = ASSIGNMENT_EFFECTS[to] || {};
+  const statuses = Object.keys(effects);
+  if (statuses.length === 0) return [];
+
+  const today = startOfDay(new Date());
+  const assignments = await Assignment.find({ projectId: project._id, status: { $in: statuses } })
+    .populate('engineerId', 'name')
+    .sort({ startDate: 1 })
+    .session(session);
+
+  const rows = [];
+  for (const assignment of assignments) {
+    const action = effects[assignment.status];
+    const changes = proposedChanges(assignment, action, today);
+    const row = {
+      assignmentId: assignment._id,
+      engineer: assignment.engineerId?.name,
+      allocationPercentage: assignment.allocationPercentage,
+      action,
+      before: { status: assignment.status, endDate: assignment.endDate },
+      after: { status: changes.status, endDate: changes.endDate || assignment.endDate },
+      skipped: null
+    };
+    rows.push(row);
+
+    if (action === 'resume') {
+      row.skipped = await checkResume(assignment, project, session);
+      if (row.skipped) {
+        row.after = row.before;
+        continue;
+      }
+    }
+
+    const previous = assignment.toObject({ depopulate: true });
+    assignment.set(changes);
+    await assignment.save({ session });
+    await recordAudit({
+      entityType: 'Assignment',
+      action: 'update',
+      before: previous,
+      after: assignment,
+      context: { ...context, reason: context.reason || `Project ${to}` },
+      session,
+      // Engineers hear about this through the project status notification
+      notify: false
+    });
+  }
+
+  return rows;
+};
+
+// Move a project to a new status and pause, resume or end its assignments to match
+export const changeProjectStatus = async (project, to, { preview = false, context = {} } = {}) => {
+  const from = project.status;
+  if (from === to) {
+    throw new AppError(`Project is already ${to}`, 400);
+  }
+  if (!allowedTransitions(from).includes(to)) {
+    throw new AppError(`Cannot move a project from ${from} to ${to}`, 400);
+  }
+
+  // Fields the pre-save hook may set, put back after a preview
+  const original = {
+    status: from,
+    actualStartDate: project.actualStartDate,
+    actualEndDate: project.actualEndDate,
+    completionPercentage: project.completionPercentage
+  };
+  const session = await mongoose.startSession();
+  let effects = [];
+
+  try {
+    await session.withTransaction(async () => {
+      project.set(original);
+      const previous = project.toObject({ depopulate: true });
+      project.status = to;
+      await project.save({ session });
+      await recordAudit({
+        entityType: 'Project',
+        action: 'update',
+        before: previous,
+        after: project,
+        context,
+        session
+      });
+
+      effects = await applyEffects(project, to, context, session);
+
+      if (preview) {
+        await session.abortTransaction();
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  if (preview) {
+    project.set(original);
+  }
+
+  const applied = effects.filter(effect => !effect.skipped);
+  const freedAllocation = applied
+    .filter(effect => effect.before.status === 'active')
+    .reduce((total, effect) => total + effect.allocationPercentage, 0);
+
+  return {
+    from,
+    to,
+    preview,
+    allowedTransitions: allowedTransitions(to),
+    effects,
+    skipped: effects.length - applied.length,
+    freedAllocation
+  };
+};
+
+export default {
+  PROJECT_TRANSITIONS,
+  STAFFABLE_STATUSES,
+  allowedTransitions,
+  changeProjectStatus
+};
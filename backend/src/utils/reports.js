@@ -0,0 +1,282 @@
+import { User, Project, Assignment } from '../models/index.js';
+import { startOfDay, addDays, getCapacityTimelines } from './capacityEngine.js';
+import { generateCapacityForecast } from './resourceOptimizer.js';
+
+/**
+ * Reports
+ * Builds the data behind exported reports as titled sections of rows with
+ * typed columns, independent of the file format they are rendered to.
+ */
+
+export const REPORT_TYPES = ['utilization', 'assignments', 'forecast'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+const percent = (value, total) => (total > 0 ? Math.round((value / total) * 100) : 0);
+
+// Records running on any day of the range, the last day included
+const overlapsRange = (startDate, endDate) => ({
+  startDate: { $lt: addDays(endDate, 1) },
+  endDate: { $gte: startDate }
+});
+
+const loadEngineers = (department) =>
+  User.find({ role: 'engineer', ...(department && { department }) }).sort({ name: 1 });
+
+// Average and peak allocation per engineer over the range, against their capacity
+const teamUtilizationSection = (timelines, engineers) => {
+  const rows = timelines.map((timeline, index) => {
+    const engineer = engineers[index];
+    return {
+      name: timeline.name,
+      department: engineer.department,
+      seniority: engineer.seniority,
+      maxCapacity: timeline.maxCapacity,
+      averageAllocation: timeline.summary.averageAllocation,
+      peakAllocation: timeline.summary.peakAllocation,
+      utilization: percent(timeline.summary.averageAllocation, timeline.maxCapacity),
+      overallocatedWeeks: timeline.summary.overallocatedPeriods,
+      timeOffDays: timeline.summary.timeOffDays
+    };
+  });
+
+  const totalCapacity = rows.reduce((sum, row) => sum + row.maxCapacity, 0);
+  const totalAllocation = rows.reduce((sum, row) => sum + row.averageAllocation, 0);
+
+  return {
+    name: 'Team Utilization',
+    columns: [
+      { key: 'name', header: 'Engineer', width: 22 },
+      { key: 'department', header: 'Department', width: 16 },
+      { key: 'seniority', header: 'Seniority', width: 10 },
+      { key: 'maxCapacity', header: 'Capacity (%)', type: 'number', width: 11 },
+      { key: 'averageAllocation', header: 'Avg Allocation (%)', type: 'number', width: 14 },
+      { key: 'peakAllocation', header: 'Peak Allocation (%)', type: 'number', width: 14 },
+      { key: 'utilization', header: 'Utilization (%)', type: 'number', width: 12 },
+      { key: 'overallocatedWeeks', header: 'Overallocated Weeks', type: 'number', width: 14 },
+      { key: 'timeOffDays', header: 'Time Off (days)', type: 'number', width: 12 }
+    ],
+    rows,
+    summary: [
+      ['Engineers', rows.length],
+      ['Team utilization', `${percent(totalAllocation, totalCapacity)}%`],
+      ['Overallocated engineers', rows.filter(row => row.overallocatedWeeks > 0).length]
+    ]
+  };
+};
+
+// Staffing of every project running in the range, from the assignments of the engineers in scope
+const projectStaffingSection = (projects, assignments) => {
+  const rows = projects.map(project => {
+    const team = assignments.filter(assignment => idOf(assignment.projectId) === project._id.toString());
+    return {
+      name: project.name,
+      status: project.status,
+      priority: project.priority,
+      startDate: project.startDate,
+      endDate: project.endDate,
+      teamSize: project.teamSize,
+      staffed: new Set(team.map(assignment => idOf(assignment.engineerId))).size,
+      totalAllocation: team.reduce((sum, assignment) => sum + assignment.allocationPercentage, 0),
+      completion: project.completionPercentage || 0
+    };
+  });
+
+  return {
+    name: 'Project Staffing',
+    columns: [
+      { key: 'name', header: 'Project', width: 24 },
+      { key: 'status', header: 'Status', width: 10 },
+      { key: 'priority', header: 'Priority', width: 9 },
+      { key: 'startDate', header: 'Start', type: 'date', width: 11 },
+      { key: 'endDate', header: 'End', type: 'date', width: 11 },
+      { key: 'teamSize', header: 'Team Size', type: 'number', width: 9 },
+      { key: 'staffed', header: 'Staffed', type: 'number', width: 8 },
+      { key: 'totalAllocation', header: 'Total Allocation (%)', type: 'number', width: 15 },
+      { key: 'completion', header: 'Completion (%)', type: 'number', width: 12 }
+    ],
+    rows,
+    summary: [
+      ['Projects', rows.length],
+      ['Understaffed', rows.filter(row => row.staffed < row.teamSize).length]
+    ]
+  };
+};
+
+const overdueProjectsSection = (projects, assignments, today) => {
+  const rows = projects.map(project => ({
+    name: project.name,
+    manager: project.managerId?.name || '',
+    endDate: project.endDate,
+    daysOverdue: Math.floor((today - startOfDay(project.endDate)) / DAY_MS),
+    completion: project.completionPercentage || 0,
+    engineers: assignments.filter(assignment => idOf(assignment.projectId) === project._id.toString()).length
+  }));
+
+  return {
+    name: 'Overdue Projects',
+    columns: [
+      { key: 'name', header: 'Project', width: 24 },
+      { key: 'manager', header: 'Manager', width: 18 },
+      { key: 'endDate', header: 'Due', type: 'date', width: 11 },
+      { key: 'daysOverdue', header: 'Days Overdue', type: 'number', width: 12 },
+      { key: 'completion', header: 'Completion (%)', type: 'number', width: 12 },
+      { key: 'engineers', header: 'Engineers Assigned', type: 'number', width: 14 }
+    ],
+    rows: rows.sort((a, b) => b.daysOverdue - a.daysOverdue)
+  };
+};
+
+// Team utilization, project staffing and overdue projects for a date range
+const buildUtilizationReport = async ({ startDate, endDate, department }) => {
+  const today = startOfDay(new Date());
+  const engineers = await loadEngineers(department);
+  const engineerIds = engineers.map(engineer => engineer._id);
+
+  const [timelines, assignments, overdueCandidates] = await Promise.all([
+    getCapacityTimelines(engineers, { startDate, endDate, granularity: 'week' }),
+    Assignment.find({ engineerId: { $in: engineerIds }, status: 'active', ...overlapsRange(startDate, endDate) }),
+    Project.find({ status: 'active', endDate: { $lt: today } }).populate('managerId', 'name').sort({ endDate: 1 })
+  ]);
+
+  // With a department, only projects that department works on are reported
+  const staffedProjectIds = new Set(assignments.map(assignment => idOf(assignment.projectId)));
+  const inScope = (project) => !department || staffedProjectIds.has(project._id.toString());
+
+  const projects = await Project.find({
+    ...overlapsRange(startDate, endDate),
+    status: { $ne: 'cancelled' }
+  }).sort({ startDate: 1 });
+
+  return {
+    sections: [
+      teamUtilizationSection(timelines, engineers),
+      projectStaffingSection(projects.filter(inScope), assignments),
+      overdueProjectsSection(overdueCandidates.filter(inScope), assignments, today)
+    ]
+  };
+};
+
+// Every assignment running in the range
+const buildAssignmentsReport = async ({ startDate, endDate, department, status }) => {
+  const query = { ...overlapsRange(startDate, endDate) };
+  if (status) query.status = status;
+  if (department) {
+    const engineers = await loadEngineers(department);
+    query.engineerId = { $in: engineers.map(engineer => engineer._id) };
+  }
+
+  const assignments = await Assignment.find(query)
+    .populate('engineerId', 'name department')
+    .populate('projectId', 'name')
+    .sort({ startDate: 1 });
+
+  return {
+    sections: [{
+      name: 'Assignments',
+      columns: [
+        { key: 'engineer', header: 'Engineer', width: 20 },
+        { key: 'department', header: 'Department', width: 15 },
+        { key: 'project', header: 'Project', width: 22 },
+        { key: 'role', header: 'Role', width: 10 },
+        { key: 'allocationPercentage', header: 'Allocation (%)', type: 'number', width: 11 },
+        { key: 'startDate', header: 'Start', type: 'date', width: 11 },
+        { key: 'endDate', header: 'End', type: 'date', width: 11 },
+        { key: 'status', header: 'Status', width: 10 },
+        { key: 'completionPercentage', header: 'Completion (%)', type: 'number', width: 12 }
+      ],
+      rows: assignments.map(assignment => ({
+        engineer: assignment.engineerId?.name || '',
+        department: assignment.engineerId?.department || '',
+        project: assignment.projectId?.name || '',
+        role: assignment.role,
+        allocationPercentage: assignment.allocationPercentage,
+        startDate: assignment.startDate,
+        endDate: assignment.endDate,
+        status: assignment.status,
+        completionPercentage: assignment.completionPercentage || 0
+      })),
+      summary: [
+        ['Assignments', assignments.length],
+        ['Engineers', new Set(assignments.map(assignment => idOf(assignment.engineerId))).size]
+      ]
+    }]
+  };
+};
+
+// Weekly team supply and demand, then the same weeks per engineer
+const buildForecastReport = async ({ weeks, department }) => {
+  const { forecast, summary } = await generateCapacityForecast(weeks, { department });
+
+  return {
+    sections: [
+      {
+        name: 'Weekly Forecast',
+        columns: [
+          { key: 'week', header: 'Week', type: 'number', width: 6 },
+          { key: 'weekStart', header: 'Week Starting', type: 'date', width: 12 },
+          { key: 'totalCapacity', header: 'Capacity (%)', type: 'number', width: 11 },
+          { key: 'totalAllocated', header: 'Allocated (%)', type: 'number', width: 11 },
+          { key: 'totalAvailable', header: 'Available (%)', type: 'number', width: 11 },
+          { key: 'utilizationRate', header: 'Utilization (%)', type: 'number', width: 12 },
+          { key: 'overallocatedEngineers', header: 'Overallocated Engineers', type: 'number', width: 16 }
+        ],
+        rows: forecast,
+        summary: [
+          ['Average utilization', `${summary.averageUtilization}%`],
+          ['Peak utilization', `${summary.peakUtilization}%`],
+          ['Weeks with overallocation', summary.overallocatedWeeks]
+        ]
+      },
+      {
+        name: 'Engineer Forecast',
+        columns: [
+          { key: 'engineerName', header: 'Engineer', width: 20 },
+          { key: 'department', header: 'Department', width: 15 },
+          { key: 'weekStart', header: 'Week Starting', type: 'date', width: 12 },
+          { key: 'capacity', header: 'Capacity (%)', type: 'number', width: 11 },
+          { key: 'allocated', header: 'Allocated (%)', type: 'number', width: 11 },
+          { key: 'available', header: 'Available (%)', type: 'number', width: 11 },
+          { key: 'utilizationRate', header: 'Utilization (%)', type: 'number', width: 12 }
+        ],
+        rows: forecast.flatMap(week => week.engineers.map(engineer => ({ ...engineer, weekStart: week.weekStart })))
+      }
+    ]
+  };
+};
+
+const REPORT_TITLES = {
+  utilization: 'Team Utilization Report',
+  assignments: 'Assignments Report',
+  forecast: 'Capacity Forecast'
+};
+
+// Build a report with its title and the period it covers
+export const buildReport = async (type, { startDate, endDate, department, status, weeks = 12 } = {}) => {
+  const builders = {
+    utilization: buildUtilizationReport,
+    assignments: buildAssignmentsReport,
+    forecast: buildForecastReport
+  };
+
+  const from = type === 'forecast' ? startOfDay(new Date()) : startOfDay(startDate);
+  const to = type === 'forecast' ? addDays(from, weeks * 7 - 1) : startOfDay(endDate);
+  const { sections } = await builders[type]({ startDate: from, endDate: to, department, status, weeks });
+
+  return {
+    type,
+    title: REPORT_TITLES[type],
+    startDate: from,
+    endDate: to,
+    department: department || null,
+    generatedAt: new Date(),
+    sections
+  };
+};
+
+export default {
+  REPORT_TYPES,
+  buildReport
+};
@@ -1,100 +1,155 @@
 import { User, Project, Assignment } from '../models/index.js';
+import {
+  startOfDay,
+  addDays,
+  calculateWorkingPeakAllocation,
+  calculateWorkingHeadroom,
+  capacityForPeriod,
+  checkCapacityForRange,
+  getCurrentCapacity,
+  loadAbsences
+} from './capacityEngine.js';
+import { skillsMatch, buildRelatedSkillLookup } from './skillTaxonomy.js';
 
 /**
  * Advanced Resource Allocation Optimizer
  * Provides intelligent suggestions for optimal resource allocation
  */
 
-// Calculate skill match percentage between engineer and project requirements
-export const calculateSkillMatch = (engineerSkills = [], requiredSkills = []) => {
-  if (!requiredSkills.length) return 100;
-  
-  const engineerSkillNames = engineerSkills.map(skill => 
-    skill.skill?.toLowerCase() || skill.toLowerCase()
-  );
-  
-  const matches = requiredSkills.filter(required => {
-    const requiredSkillName = required.skill?.toLowerCase() || required.toLowerCase();
-    return engineerSkillNames.some(engineerSkill => 
-      engineerSkill.includes(requiredSkillName) || 
-      requiredSkillName.includes(engineerSkill)
-    );
-  });
-  
-  return (matches.length / requiredSkills.length) * 100;
-};
+const LEVEL_RANK = { beginner: 1, intermediate: 2, advanced: 3, expert: 4 };
 
-// Calculate current workload balance score
-export const calculateWorkloadBalance = async (engineerId) => {
-  try {
-    const assignments = await Assignment.find({
-      engineerId,
-      status: 'active'
-    }).populate('projectId');
+// Must-have requirements count twice as much as nice-to-have ones
+const PRIORITY_WEIGHTS = { 'must-have': 2, 'nice-to-have': 1 };
 
-    if (!assignments.length) return 100; // Fully available
+// Credit lost per level the engineer is below the requirement
+const LEVEL_GAP_PENALTY = 0.25;
 
-    const totalAllocation = assignments.reduce((sum, assignment) => 
-      sum + (assignment.allocationPercentage || 0), 0
-    );
+// Share of full credit given for a related skill (e.g. Vue for a React requirement)
+const RELATED_SKILL_CREDIT = 0.5;
 
-    // Return balance score (lower is more balanced)
-    return Math.max(0, 100 - totalAllocation);
-  } catch (error) {
-    console.error('Error calculating workload balance:', error);
-    return 0;
-  }
+const getSkillId = (entry) => (entry?.skillId?._id || entry?.skillId)?.toString();
+
+// Full credit at or above the required level, minus a penalty for each level short
+const calculateLevelCredit = (engineerLevel, requiredLevel) => {
+  const levelGap = Math.max(0, (LEVEL_RANK[requiredLevel] || 1) - (LEVEL_RANK[engineerLevel] || 1));
+  return { levelGap, credit: Math.max(0, 1 - levelGap * LEVEL_GAP_PENALTY) };
 };
 
-// Get available capacity for an engineer
-export const getAvailableCapacity = async (engineerId) => {
-  try {
-    const engineer = await User.findById(engineerId);
-    if (!engineer) return 0;
+// Score a single requirement against an engineer's skills, keeping the best exact or related match
+export const scoreSkillRequirement = (engineerSkills = [], required, relatedSkills = new Map()) => {
+  const requirement = typeof required === 'string' ? { skill: required } : required;
+  const requiredLevel = requirement.level || 'beginner';
+  const priority = requirement.priority || 'must-have';
+  const relatedIds = relatedSkills.get(getSkillId(requirement)) || new Set();
+
+  let best = null;
+  engineerSkills.forEach(engineerSkill => {
+    let matchType = null;
+    if (skillsMatch(engineerSkill, requirement)) {
+      matchType = 'exact';
+    } else if (relatedIds.has(getSkillId(engineerSkill))) {
+      matchType = 'related';
+    }
+    if (!matchType) return;
+
+    const { levelGap, credit } = calculateLevelCredit(engineerSkill.level, requiredLevel);
+    const weightedCredit = matchType === 'exact' ? credit : credit * RELATED_SKILL_CREDIT;
+
+    if (!best || weightedCredit > best.credit || (weightedCredit === best.credit && matchType === 'exact')) {
+      best = {
+        matchType,
+        matchedSkill: engineerSkill.skill,
+        engineerLevel: engineerSkill.level,
+        levelGap,
+        credit: weightedCredit
+      };
+    }
+  });
 
-    const assignments = await Assignment.find({
-      engineerId,
-      status: 'active'
-    });
+  return {
+    skill: requirement.skill,
+    skillId: getSkillId(requirement) || null,
+    requiredLevel,
+    priority,
+    weight: PRIORITY_WEIGHTS[priority] || 1,
+    matchType: best?.matchType || 'missing',
+    matchedSkill: best?.matchedSkill || null,
+    engineerLevel: best?.engineerLevel || null,
+    levelGap: best?.levelGap ?? null,
+    score: Math.round((best?.credit || 0) * 100)
+  };
+};
 
-    const totalAllocated = assignments.reduce((sum, assignment) => 
-      sum + (assignment.allocationPercentage || 0), 0
-    );
+const weightedScore = (breakdown) => {
+  const totalWeight = breakdown.reduce((sum, item) => sum + item.weight, 0);
+  if (!totalWeight) return 100;
+  return breakdown.reduce((sum, item) => sum + item.score * item.weight, 0) / totalWeight;
+};
 
-    return Math.max(0, (engineer.maxCapacity || 100) - totalAllocated);
+// Level-aware, priority-weighted skill match with a per-requirement breakdown
+export const calculateSkillMatch = (engineerSkills = [], requiredSkills = [], relatedSkills = new Map()) => {
+  const breakdown = (requiredSkills || []).map(required =>
+    scoreSkillRequirement(engineerSkills || [], required, relatedSkills)
+  );
+
+  return {
+    score: Math.round(weightedScore(breakdown)),
+    mustHaveScore: Math.round(weightedScore(breakdown.filter(item => item.priority === 'must-have'))),
+    breakdown
+  };
+};
+
+// Capacity an engineer has free on the busiest working day of a date range,
+// the same figure the capacity check uses when the assignment is created
+export const getAvailableCapacity = async (engineer, { startDate, endDate }) => {
+  try {
+    const check = await checkCapacityForRange(engineer, { startDate, endDate, allocationPercentage: 0 });
+    return check.available;
   } catch (error) {
     console.error('Error getting available capacity:', error);
     return 0;
   }
 };
 
-// Find optimal engineer assignments for a project
-export const suggestOptimalAssignments = async (projectId) => {
+// Default staffing window: from today or the project start, whichever is later, to the project end
+export const staffingWindow = (project) => {
+  const today = startOfDay(new Date());
+  const startDate = project.startDate > today ? startOfDay(project.startDate) : today;
+  const endDate = startOfDay(project.endDate);
+  return { startDate, endDate: endDate < startDate ? startDate : endDate };
+};
+
+// Find optimal engineer assignments for a project, judging availability over the dates they would be staffed
+export const suggestOptimalAssignments = async (projectId, { startDate, endDate } = {}) => {
   try {
     const project = await Project.findById(projectId);
     if (!project) throw new Error('Project not found');
 
-    const engineers = await User.find({
-      role: 'engineer',
-      isActive: true
-    });
+    const staffingDates = startDate && endDate
+      ? { startDate: startOfDay(startDate), endDate: startOfDay(endDate) }
+      : staffingWindow(project);
+
+    const [engineers, relatedSkills] = await Promise.all([
+      User.find({
+        role: 'engineer'
+      }),
+      buildRelatedSkillLookup()
+    ]);
+    const currentCapacity = await getCurrentCapacity(engineers);
 
     const suggestions = await Promise.all(
       engineers.map(async (engineer) => {
-        const skillMatch = calculateSkillMatch(engineer.skills, project.requiredSkills);
-        const availableCapacity = await getAvailableCapacity(engineer._id);
-        const workloadBalance = await calculateWorkloadBalance(engineer._id);
+        const match = calculateSkillMatch(engineer.skills, project.requiredSkills, relatedSkills);
+        const skillMatch = match.score;
+        const mustHaveMatch = match.mustHaveScore;
+        const availableCapacity = await getAvailableCapacity(engineer, staffingDates);
+        // Room left over the coming week, so lightly loaded engineers rank higher
+        const workloadBalance = currentCapacity.get(engineer._id.toString()).availableCapacity;
         
-        // Calculate priority score for must-have skills
-        const mustHaveSkills = project.requiredSkills?.filter(skill => 
-          skill.priority === 'must-have'
-        ) || [];
-        const mustHaveMatch = calculateSkillMatch(engineer.skills, mustHaveSkills);
-        
-        // Composite scoring algorithm
+        // Composite scoring algorithm (0-1, all inputs are percentages)
         const score = (
-          skillMatch * 0.4 +           // 40% weight on skill match
-          mustHaveMatch * 0.3 +        // 30% weight on must-have skills
+          (skillMatch / 100) * 0.4 +         // 40% weight on skill match
+          (mustHaveMatch / 100) * 0.3 +      // 30% weight on must-have skills
           (availableCapacity / 100) * 0.2 +  // 20% weight on availability
           (workloadBalance / 100) * 0.1       // 10% weight on balance
         );
@@ -108,8 +163,9 @@ export const suggestOptimalAssignments = async (projectId) => {
             department: engineer.department,
             skills: engineer.skills
           },
-          skillMatch: Math.round(skillMatch),
-          mustHaveMatch: Math.round(mustHaveMatch),
+          skillMatch,
+          mustHaveMatch,
+          skillBreakdown: match.breakdown,
           availableCapacity,
           workloadBalance: Math.round(workloadBalance),
           score: Math.round(score * 100) / 100,
@@ -125,6 +181,8 @@ export const suggestOptimalAssignments = async (projectId) => {
 
     return {
       projectId,
+      startDate: staffingDates.startDate,
+      endDate: staffingDates.endDate,
       totalSuggestions: viableSuggestions.length,
       topSuggestions: viableSuggestions.slice(0, project.teamSize * 2), // Return extra options
       optimalTeam: viableSuggestions.slice(0, project.teamSize),
@@ -141,24 +199,16 @@ export const suggestOptimalAssignments = async (projectId) => {
   }
 };
 
-// Calculate skill coverage for a team
-const calculateSkillCoverage = (requiredSkills, teamSuggestions) => {
+// Calculate skill coverage for a team: each requirement counts as well as the team's strongest match for it
+export const calculateSkillCoverage = (requiredSkills, teamSuggestions) => {
   if (!requiredSkills?.length || !teamSuggestions.length) return 0;
 
-  const teamSkills = teamSuggestions.flatMap(suggestion => 
-    suggestion.engineer.skills || []
-  );
-
-  const coveredSkills = requiredSkills.filter(required => {
-    const requiredSkillName = required.skill?.toLowerCase() || required.toLowerCase();
-    return teamSkills.some(teamSkill => {
-      const teamSkillName = teamSkill.skill?.toLowerCase() || teamSkill.toLowerCase();
-      return teamSkillName.includes(requiredSkillName) || 
-             requiredSkillName.includes(teamSkillName);
-    });
+  const coverage = requiredSkills.map((_, index) => {
+    const scores = teamSuggestions.map(suggestion => suggestion.skillBreakdown[index]);
+    return scores.reduce((best, item) => (item && item.score > best.score ? item : best), scores[0]);
   });
 
-  return Math.round((coveredSkills.length / requiredSkills.length) * 100);
+  return Math.round(weightedScore(coverage));
 };
 
 // Generate recommendation text
@@ -189,12 +239,21 @@ export const detectAssignmentConflicts = async (engineerId, startDate, endDate,
       query._id = { $ne: excludeAssignmentId };
     }
 
-    const conflictingAssignments = await Assignment.find(query)
-      .populate('projectId', 'name priority')
-      .populate('engineerId', 'name');
+    const [conflictingAssignments, engineer] = await Promise.all([
+      Assignment.find(query)
+        .populate('projectId', 'name priority')
+        .populate('engineerId', 'name'),
+      User.findById(engineerId)
+    ]);
+
+    const absences = engineer
+      ? (await loadAbsences([engineer], startDate, endDate)).get(engineer._id.toString())
+      : [];
 
     return {
       hasConflicts: conflictingAssignments.length > 0,
+      hasTimeOff: absences.length > 0,
+      timeOff: absences,
       conflicts: conflictingAssignments.map(assignment => ({
         assignmentId: assignment._id,
         projectName: assignment.projectId?.name || 'Unknown Project',
@@ -211,47 +270,61 @@ export const detectAssignmentConflicts = async (engineerId, startDate, endDate,
 };
 
 // Generate capacity forecast for team planning
-export const generateCapacityForecast = async (weeks = 12) => {
+export const generateCapacityForecast = async (weeks = 12, { department } = {}) => {
   try {
-    const startDate = new Date();
-    const endDate = new Date();
-    endDate.setDate(endDate.getDate() + (weeks * 7));
-
-    const engineers = await User.find({ role: 'engineer', isActive: true });
-    const assignments = await Assignment.find({
-      status: 'active',
-      $or: [
-        { endDate: { $gte: startDate } },
-        { startDate: { $lte: endDate } }
-      ]
-    }).populate('projectId engineerId');
+    const startDate = startOfDay(new Date());
+    const endDate = addDays(startDate, weeks * 7 - 1);
+
+    const engineerQuery = { role: 'engineer' };
+    if (department) engineerQuery.department = department;
+
+    const engineers = await User.find(engineerQuery).sort({ name: 1 });
+    const [assignments, absences] = await Promise.all([
+      Assignment.find({
+        engineerId: { $in: engineers.map(engineer => engineer._id) },
+        status: 'active',
+        endDate: { $gte: startDate },
+        startDate: { $lte: endDate }
+      }).populate('projectId', 'name status priority'),
+      loadAbsences(engineers, startDate, endDate)
+    ]);
+
+    const utilization = (allocated, capacity) =>
+      capacity > 0 ? Math.round((allocated / capacity) * 100) : 0;
 
     const forecast = [];
     
     for (let week = 0; week < weeks; week++) {
-      const weekStart = new Date(startDate);
-      weekStart.setDate(weekStart.getDate() + (week * 7));
-      
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 6);
+      const weekStart = addDays(startDate, week * 7);
+      const weekEnd = addDays(weekStart, 6);
 
       const weeklyCapacity = engineers.map(engineer => {
         const engineerAssignments = assignments.filter(assignment => 
-          assignment.engineerId._id.toString() === engineer._id.toString() &&
-          assignment.startDate <= weekEnd &&
-          assignment.endDate >= weekStart
+          assignment.engineerId.toString() === engineer._id.toString() &&
+          startOfDay(assignment.startDate) <= weekEnd &&
+          startOfDay(assignment.endDate) >= weekStart
         );
 
-        const totalAllocation = engineerAssignments.reduce((sum, assignment) => 
-          sum + (assignment.allocationPercentage || 0), 0
-        );
+        const maxCapacity = engineer.maxCapacity || 100;
+        const engineerAbsences = absences.get(engineer._id.toString());
+        // Load and room left are both measured on working days, like the capacity check: the busiest
+        // one so back-to-back assignments are not double counted, and the one with the least room
+        // once partial time off is taken out. Weekends and whole days off carry no load.
+        const totalAllocation = calculateWorkingPeakAllocation(engineerAssignments, engineerAbsences, weekStart, weekEnd).allocation;
+        const headroom = calculateWorkingHeadroom(engineerAssignments, engineerAbsences, weekStart, weekEnd, maxCapacity);
+        const { capacity, daysOff } = capacityForPeriod(maxCapacity, engineerAbsences, weekStart, weekEnd);
 
         return {
           engineerId: engineer._id,
           engineerName: engineer.name,
-          maxCapacity: engineer.maxCapacity || 100,
+          department: engineer.department,
+          maxCapacity,
+          capacity,
+          timeOffDays: daysOff,
           allocated: totalAllocation,
-          available: Math.max(0, (engineer.maxCapacity || 100) - totalAllocation),
+          available: Math.max(0, headroom.available),
+          utilizationRate: utilization(totalAllocation, maxCapacity),
+          isOverallocated: headroom.available < 0,
           assignments: engineerAssignments.map(a => ({
             projectName: a.projectId?.name,
             allocation: a.allocationPercentage
@@ -259,32 +332,34 @@ export const generateCapacityForecast = async (weeks = 12) => {
         };
       });
 
+      const totalCapacity = weeklyCapacity.reduce((sum, e) => sum + e.capacity, 0);
+      const totalAllocated = weeklyCapacity.reduce((sum, e) => sum + e.allocated, 0);
+
       forecast.push({
         week: week + 1,
         weekStart,
         weekEnd,
-        totalCapacity: weeklyCapacity.reduce((sum, e) => sum + e.maxCapacity, 0),
-        totalAllocated: weeklyCapacity.reduce((sum, e) => sum + e.allocated, 0),
+        totalCapacity,
+        totalAllocated,
         totalAvailable: weeklyCapacity.reduce((sum, e) => sum + e.available, 0),
+        utilizationRate: utilization(totalAllocated, totalCapacity),
+        overallocatedEngineers: weeklyCapacity.filter(e => e.isOverallocated).length,
         engineers: weeklyCapacity
       });
     }
 
+    const weeklyUtilization = forecast.map(week => week.utilizationRate);
+
     return {
-      forecastPeriod: { startDate, endDate, weeks },
+      forecastPeriod: { startDate, endDate, weeks, department: department || null },
       forecast,
       summary: {
-        averageUtilization: Math.round(
-          forecast.reduce((sum, week) => 
-            sum + (week.totalAllocated / week.totalCapacity * 100), 0
-          ) / weeks
-        ),
-        peakUtilization: Math.max(...forecast.map(week => 
-          Math.round(week.totalAllocated / week.totalCapacity * 100)
-        )),
-        lowUtilization: Math.min(...forecast.map(week => 
-          Math.round(week.totalAllocated / week.totalCapacity * 100)
-        ))
+        averageUtilization: weeks ? Math.round(
+          weeklyUtilization.reduce((sum, rate) => sum + rate, 0) / weeks
+        ) : 0,
+        peakUtilization: Math.max(0, ...weeklyUtilization),
+        lowUtilization: weeks ? Math.min(...weeklyUtilization) : 0,
+        overallocatedWeeks: forecast.filter(week => week.overallocatedEngineers > 0).length
       }
     };
   } catch (error) {
@@ -295,8 +370,10 @@ export const generateCapacityForecast = async (weeks = 12) => {
 
 export default {
   calculateSkillMatch,
-  calculateWorkloadBalance,
+  scoreSkillRequirement,
+  calculateSkillCoverage,
   getAvailableCapacity,
+  staffingWindow,
   suggestOptimalAssignments,
   detectAssignmentConflicts,
   generateCapacityForecast
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { Session, User } from '../models/index.js';
+import { generateTokens, verifyRefreshToken } from '../middleware/auth.js';
+import AppError from './AppError.js';
+
+/**
+ * Sessions
+ * Every sign-in starts a session, stored so it can be listed and revoked. A
+ * refresh token is good for one refresh: it is exchanged for a new pair and the
+ * session remembers only the newest. Presenting an older one means the token
+ * was copied, so the session is revoked on every device that holds it.
+ */
+
+// How long the token a refresh replaced is still tolerated, for tabs that refresh together
+export const ROTATION_GRACE_MS = 30 * 1000;
+
+const newTokenId = () => crypto.randomBytes(16).toString('hex');
+
+const expiryOf = (token) => new Date(jwt.decode(token).exp * 1000);
+
+const deviceOf = (req) => ({
+  userAgent: (req.get('user-agent') || '').slice(0, 500),
+  ip: req.ip
+});
+
+const sessionEnded = (message = 'Your session has ended. Please sign in again.') =>
+  new AppError(message, 401, 'SESSION_REVOKED');
+
+// Start a session for a sign-in and return its first token pair
+export const startSession = async (user, req) => {
+  const session = new Session({ user: user._id, tokenId: newTokenId(), ...deviceOf(req) });
+  const tokens = generateTokens(user, { sessionId: session._id, tokenId: session.tokenId });
+  session.expiresAt = expiryOf(tokens.refreshToken);
+  await session.save();
+  return tokens;
+};
+
+// Exchange a refresh token for a new pair, ending the session when an old token is replayed
+export const rotateSession = async (refreshToken, req) => {
+  const decoded = verifyRefreshToken(refreshToken);
+  if (!decoded.sid || !mongoose.Types.ObjectId.isValid(decoded.sid)) {
+    throw sessionEnded();
+  }
+
+  const session = await Session.findById(decoded.sid).select('+tokenId +previousTokenId');
+  if (!session || session.revokedAt) {
+    throw sessionEnded();
+  }
+
+  if (decoded.jti !== session.tokenId) {
+    const justRotated = decoded.jti === session.previousTokenId
+      && Date.now() - session.rotatedAt < ROTATION_GRACE_MS;
+    if (justRotated) {
+      throw new AppError('This session was just refreshed. Use the newest tokens.', 401, 'SESSION_ROTATED');
+    }
+
+    await Session.updateOne(
+      { _id: session._id, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: 'reuse-detected' }
+    );
+    throw sessionEnded('This session was signed out because its refresh token was used twice. Please sign in again.');
+  }
+
+  const user = await User.findById(session.user).select('-password');
+  if (!user) {
+    throw sessionEnded('User no longer exists or has been archived');
+  }
+
+  const tokenId = newTokenId();
+  const tokens = generateTokens(user, { sessionId: session._id, tokenId });
+
+  // Only the first of two simultaneous refreshes wins
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, tokenId: session.tokenId, revokedAt: null },
+    {
+      tokenId,
+      previousTokenId: session.tokenId,
+      rotatedAt: new Date(),
+      lastUsedAt: new Date(),
+      expiresAt: expiryOf(tokens.refreshToken),
+      ...deviceOf(req)
+    }
+  );
+  if (!rotated) {
+    throw new AppError('This session was just refreshed. Use the newest tokens.', 401, 'SESSION_ROTATED');
+  }
+
+  return { user, tokens };
+};
+
+// End the session a refresh token belongs to; expired or unknown tokens are ignored
+export const endSession = async (refreshToken, reason = 'logout') => {
+  let decoded;
+  try {
+    decoded = verifyRefreshToken(refreshToken, { ignoreExpiration: true });
+  } catch {
+    return;
+  }
+  if (!decoded.sid || !mongoose.Types.ObjectId.isValid(decoded.sid)) return;
+
+  await Session.updateOne(
+    { _id: decoded.sid, user: decoded.id, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+};
+
+// Sessions still signed in, most recently used first
+export const activeSessions = (userId) =>
+  Session.find({ user: userId, revokedAt: null, expiresAt: { $gt: new Date() } }).sort({ lastUsedAt: -1 });
+
+// End one of a user's sessions; false when it was not active
+export const revokeSession = async (userId, sessionId, reason = 'signed-out') => {
+  const result = await Session.updateOne(
+    { _id: sessionId, user: userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  return result.modifiedCount > 0;
+};
+
+// End every session of a user, except the one making the request when given
+export const revokeUserSessions = async (userId, reason, exceptSessionId = null) => {
+  const query = { user: userId, revokedAt: null };
+  if (exceptSessionId) {
+    query._id = { $ne: exceptSessionId };
+  }
+
+  const result = await Session.updateMany(query, { revokedAt: new Date(), revokedReason: reason });
+  return result.modifiedCount;
+};
+
+export default {
+  ROTATION_GRACE_MS,
+  startSession,
+  rotateSession,
+  endSession,
+  activeSessions,
+  revokeSession,
+  revokeUserSessions
+};
@@ -0,0 +1,270 @@
+import { User, Project, Assignment } from '../models/index.js';
+import { startOfDay, addDays, calculateWorkingPeakAllocation, capacityForPeriod, loadAbsences } from './capacityEngine.js';
+import { buildSkillResolver, buildRelatedSkillLookup, normalizeSkillName } from './skillTaxonomy.js';
+
+/**
+ * Skill Gap Analyzer
+ * Compares week by week the skills that upcoming project work still needs
+ * (demand) with the free capacity of engineers who hold them (supply).
+ * Both sides are measured in full-time equivalents (1 FTE = 100% allocation).
+ */
+
+const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+// A nice-to-have requirement counts as half a must-have
+const PRIORITY_DEMAND_WEIGHTS = { 'must-have': 1, 'nice-to-have': 0.5 };
+
+// Gaps below this many FTE are rounding noise, not a staffing problem
+const MIN_GAP = 0.25;
+
+const TREND_SKILL_LIMIT = 5;
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const overlapDays = (start, end, windowStart, windowEnd) => {
+  const from = Math.max(startOfDay(start).getTime(), windowStart.getTime());
+  const to = Math.min(startOfDay(end).getTime(), windowEnd.getTime());
+  return to < from ? 0 : Math.round((to - from) / (1000 * 60 * 60 * 24)) + 1;
+};
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+// Hire for what training cannot cover: engineers one level below, or with a related skill, can be upskilled
+const buildRecommendations = (row, engineers, averageFree, resolveKey, relatedSkills) => {
+  const needed = Math.ceil(row.peakGap);
+  const levelIndex = SKILL_LEVELS.indexOf(row.level);
+  const relatedIds = row.skillId ? relatedSkills.get(row.skillId) || new Set() : new Set();
+
+  const candidates = engineers
+    .map(engineer => {
+      const ownSkill = engineer.skills.find(skill => resolveKey(skill) === row.skillKey);
+      if (ownSkill && SKILL_LEVELS.indexOf(ownSkill.level) === levelIndex - 1) {
+        return { engineer, fromSkill: ownSkill.skill, fromLevel: ownSkill.level };
+      }
+
+      const relatedSkill = !ownSkill && engineer.skills.find(skill =>
+        relatedIds.has(resolveKey(skill)) && SKILL_LEVELS.indexOf(skill.level) >= levelIndex
+      );
+      return relatedSkill ? { engineer, fromSkill: relatedSkill.skill, fromLevel: relatedSkill.level } : null;
+    })
+    .filter(Boolean)
+    .sort((a, b) => averageFree.get(b.engineer._id.toString()) - averageFree.get(a.engineer._id.toString()))
+    .slice(0, needed);
+
+  const recommendations = [];
+
+  if (candidates.length) {
+    recommendations.push({
+      type: 'train',
+      skill: row.skill,
+      level: row.level,
+      count: candidates.length,
+      reason: `Upskill ${candidates.length} engineer${candidates.length > 1 ? 's' : ''} to ${row.level} ${row.skill}`,
+      candidates: candidates.map(candidate => ({
+        engineerId: candidate.engineer._id,
+        name: candidate.engineer.name,
+        fromSkill: candidate.fromSkill,
+        fromLevel: candidate.fromLevel,
+        freeCapacity: Math.round(averageFree.get(candidate.engineer._id.toString()) * 100)
+      }))
+    });
+  }
+
+  if (needed > candidates.length) {
+    const count = needed - candidates.length;
+    recommendations.push({
+      type: 'hire',
+      skill: row.skill,
+      level: row.level,
+      count,
+      reason: `Hire ${count} ${row.level} ${row.skill} engineer${count > 1 ? 's' : ''}; demand peaks ${row.peakGap} FTE over supply in the week of ${row.peakWeekStart.toISOString().split('T')[0]}`,
+      candidates: []
+    });
+  }
+
+  return recommendations;
+};
+
+// Skill supply/demand by skill and level over the next `weeks` weeks
+export const analyzeSkillGaps = async (weeks = 12, { department } = {}) => {
+  const startDate = startOfDay(new Date());
+  const endDate = addDays(startDate, weeks * 7 - 1);
+
+  const engineerQuery = { role: 'engineer' };
+  if (department) engineerQuery.department = department;
+
+  const [projects, engineers, resolveSkill, relatedSkills] = await Promise.all([
+    Project.find({
+      status: { $in: ['planning', 'active'] },
+      startDate: { $lte: endDate },
+      endDate: { $gte: startDate },
+      'requiredSkills.0': { $exists: true }
+    }),
+    User.find(engineerQuery).select('-password'),
+    buildSkillResolver(),
+    buildRelatedSkillLookup()
+  ]);
+
+  const [assignments, absences] = await Promise.all([
+    Assignment.find({
+      status: 'active',
+      startDate: { $lte: endDate },
+      endDate: { $gte: startDate },
+      $or: [
+        { engineerId: { $in: engineers.map(engineer => engineer._id) } },
+        { projectId: { $in: projects.map(project => project._id) } }
+      ]
+    }),
+    loadAbsences(engineers, startDate, endDate)
+  ]);
+
+  // Canonical skill ID where the taxonomy knows the skill, normalized name otherwise
+  const resolveKey = (entry) => {
+    const skill = resolveSkill(entry);
+    return skill ? skill._id.toString() : normalizeSkillName(entry.skill);
+  };
+
+  const rows = new Map();
+  const getRow = (requirement) => {
+    const skillKey = resolveKey(requirement);
+    const key = `${skillKey}|${requirement.level}`;
+    if (!rows.has(key)) {
+      const canonical = resolveSkill(requirement);
+      rows.set(key, {
+        skillKey,
+        skill: canonical?.name || requirement.skill,
+        skillId: canonical?._id.toString() || null,
+        category: canonical?.category || 'other',
+        level: requirement.level,
+        weekly: Array.from({ length: weeks }, () => ({ demand: 0, supply: 0 })),
+        projects: new Set(),
+        engineersWithSkill: 0
+      });
+    }
+    return rows.get(key);
+  };
+
+  const weekWindows = Array.from({ length: weeks }, (_, week) => {
+    const weekStart = addDays(startDate, week * 7);
+    return { week: week + 1, weekStart, weekEnd: addDays(weekStart, 6) };
+  });
+
+  // Demand: unfilled team slots, weighted by requirement priority and how much of the week the project runs
+  projects.forEach(project => {
+    const projectAssignments = assignments.filter(assignment => idOf(assignment.projectId) === project._id.toString());
+
+    weekWindows.forEach(({ weekStart, weekEnd }, index) => {
+      const days = overlapDays(project.startDate, project.endDate, weekStart, weekEnd);
+      if (!days) return;
+
+      const staffed = new Set(
+        projectAssignments
+          .filter(assignment => overlapDays(assignment.startDate, assignment.endDate, weekStart, weekEnd) > 0)
+          .map(assignment => idOf(assignment.engineerId))
+      ).size;
+      const openSlots = Math.max(0, (project.teamSize || 1) - staffed);
+      if (!openSlots) return;
+
+      project.requiredSkills.forEach(requirement => {
+        const row = getRow(requirement);
+        row.weekly[index].demand += openSlots * (PRIORITY_DEMAND_WEIGHTS[requirement.priority] || 1) * (days / 7);
+        row.projects.add(project.name);
+      });
+    });
+  });
+
+  const averageFree = new Map();
+
+  // Supply: each engineer's free capacity in a week, after time off, counts toward every skill they hold at or below their level
+  engineers.forEach(engineer => {
+    const engineerAssignments = assignments.filter(assignment => idOf(assignment.engineerId) === engineer._id.toString());
+    const maxCapacity = engineer.maxCapacity || 100;
+
+    const engineerAbsences = absences.get(engineer._id.toString());
+
+    const freeByWeek = weekWindows.map(({ weekStart, weekEnd }) => {
+      const peak = calculateWorkingPeakAllocation(engineerAssignments, engineerAbsences, weekStart, weekEnd).allocation;
+      const { capacity } = capacityForPeriod(maxCapacity, engineerAbsences, weekStart, weekEnd);
+      return Math.max(0, capacity - peak) / 100;
+    });
+    averageFree.set(engineer._id.toString(), freeByWeek.reduce((sum, free) => sum + free, 0) / weeks);
+
+    engineer.skills.forEach(skill => {
+      const skillKey = resolveKey(skill);
+      const levelIndex = SKILL_LEVELS.indexOf(skill.level);
+
+      SKILL_LEVELS.slice(0, levelIndex + 1).forEach(level => {
+        const row = rows.get(`${skillKey}|${level}`);
+        if (!row) return;
+        row.engineersWithSkill += 1;
+        freeByWeek.forEach((free, index) => {
+          row.weekly[index].supply += free;
+        });
+      });
+    });
+  });
+
+  const skills = [...rows.values()].map(row => {
+    const gaps = row.weekly.map(({ demand, supply }) => demand - supply);
+    const peakIndex = gaps.reduce((best, gap, index) => (gap > gaps[best] ? index : best), 0);
+    const demand = row.weekly.reduce((sum, week) => sum + week.demand, 0) / weeks;
+    const supply = row.weekly.reduce((sum, week) => sum + week.supply, 0) / weeks;
+
+    return {
+      ...row,
+      demand: round(demand),
+      supply: round(supply),
+      gap: round(demand - supply),
+      peakGap: round(Math.max(0, gaps[peakIndex])),
+      peakWeekStart: weekWindows[peakIndex].weekStart,
+      projects: [...row.projects]
+    };
+  }).sort((a, b) => b.peakGap - a.peakGap || b.gap - a.gap);
+
+  const skillGaps = skills
+    .filter(row => row.peakGap >= MIN_GAP)
+    .map(row => ({
+      ...row,
+      recommendations: buildRecommendations(row, engineers, averageFree, resolveKey, relatedSkills)
+    }));
+
+  const trendSkills = skillGaps.slice(0, TREND_SKILL_LIMIT);
+  const label = (row) => `${row.skill} (${row.level})`;
+
+  const trend = weekWindows.map(({ week, weekStart, weekEnd }, index) => ({
+    week,
+    weekStart,
+    weekEnd,
+    totalDemand: round(skills.reduce((sum, row) => sum + row.weekly[index].demand, 0)),
+    totalSupply: round(skills.reduce((sum, row) => sum + row.weekly[index].supply, 0)),
+    gaps: Object.fromEntries(trendSkills.map(row => {
+      const { demand, supply } = row.weekly[index];
+      return [label(row), round(demand - supply)];
+    }))
+  }));
+
+  const strip = ({ weekly, skillKey, ...row }) => row;
+
+  return {
+    horizon: { weeks, startDate, endDate },
+    skills: skills.map(strip),
+    skillGaps: skillGaps.map(strip),
+    totalGaps: skillGaps.length,
+    trend,
+    trendSkills: trendSkills.map(label),
+    recommendations: skillGaps.flatMap(row => row.recommendations),
+    summary: {
+      trackedSkills: skills.length,
+      totalGaps: skillGaps.length,
+      hiringNeeds: skillGaps.reduce((sum, row) =>
+        sum + row.recommendations.filter(rec => rec.type === 'hire').reduce((total, rec) => total + rec.count, 0), 0),
+      trainingCandidates: new Set(skillGaps.flatMap(row =>
+        row.recommendations.flatMap(rec => rec.candidates.map(candidate => candidate.engineerId.toString()))
+      )).size
+    }
+  };
+};
+
+export default {
+  analyzeSkillGaps
+};
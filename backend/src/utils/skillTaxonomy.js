@@ -0,0 +1,114 @@
+import mongoose from 'mongoose';
+import { Skill } from '../models/index.js';
+import { normalizeSkillName } from '../models/Skill.js';
+
+/**
+ * Skill Taxonomy
+ * Resolves free-text skill names onto canonical skills so that matching is
+ * exact ("Java" never matches "JavaScript") and aliases ("React.js") resolve
+ * to the same skill as their canonical name ("React").
+ */
+
+export { normalizeSkillName };
+
+export const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive regex that only matches the whole name
+export const exactSkillNameRegex = (name) =>
+  new RegExp(`^${escapeRegex(name.trim())}$`, 'i');
+
+// Two skill entries match when they share a canonical skill, or have the same normalized name
+export const skillsMatch = (a, b) => {
+  const aId = a?.skillId?._id || a?.skillId;
+  const bId = b?.skillId?._id || b?.skillId;
+  if (aId && bId) return aId.toString() === bId.toString();
+
+  const aName = typeof a === 'string' ? a : a?.skill;
+  const bName = typeof b === 'string' ? b : b?.skill;
+  return !!aName && !!bName && normalizeSkillName(aName) === normalizeSkillName(bName);
+};
+
+// Load the taxonomy once and return a lookup by canonical name or alias
+export const buildSkillResolver = async () => {
+  const skills = await Skill.find({});
+  const byName = new Map();
+  const byId = new Map();
+
+  skills.forEach(skill => {
+    byId.set(skill._id.toString(), skill);
+    byName.set(skill.normalizedName, skill);
+  });
+  skills.forEach(skill => {
+    skill.normalizedAliases.forEach(alias => {
+      if (!byName.has(alias)) byName.set(alias, skill);
+    });
+  });
+
+  return (entry) => {
+    const skillId = entry?.skillId?.toString();
+    if (skillId && byId.has(skillId)) return byId.get(skillId);
+
+    const name = typeof entry === 'string' ? entry : entry?.skill;
+    return name ? byName.get(normalizeSkillName(name)) || null : null;
+  };
+};
+
+// Load related-skill links as a symmetric lookup of skill ID -> Set of related skill IDs
+export const buildRelatedSkillLookup = async () => {
+  const skills = await Skill.find({ 'relatedSkills.0': { $exists: true } }).select('relatedSkills');
+  const lookup = new Map();
+  const link = (from, to) => {
+    if (!lookup.has(from)) lookup.set(from, new Set());
+    lookup.get(from).add(to);
+  };
+
+  skills.forEach(skill => {
+    skill.relatedSkills.forEach(relatedId => {
+      link(skill._id.toString(), relatedId.toString());
+      link(relatedId.toString(), skill._id.toString());
+    });
+  });
+
+  return lookup;
+};
+
+// Attach canonical IDs and names to user skills or project required skills before saving
+export const canonicalizeSkillEntries = async (entries = []) => {
+  if (!entries.length) return entries;
+
+  const resolve = await buildSkillResolver();
+  const seen = new Set();
+
+  return entries.reduce((result, entry) => {
+    const { skillId, ...rest } = entry;
+    const canonical = resolve({ skill: entry.skill, skillId: mongoose.isValidObjectId(skillId) ? skillId : null });
+    const normalized = canonical
+      ? { ...rest, skill: canonical.name, skillId: canonical._id }
+      : { ...rest, skill: entry.skill.trim() };
+
+    // Aliases of the same skill collapse into a single entry
+    const key = canonical ? canonical._id.toString() : normalizeSkillName(normalized.skill);
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push(normalized);
+    }
+    return result;
+  }, []);
+};
+
+// Canonical name for a search term, falling back to the term itself
+export const resolveSkillName = async (name) => {
+  const skill = await Skill.findByNameOrAlias(name);
+  return skill ? skill.name : name.trim();
+};
+
+export default {
+  normalizeSkillName,
+  escapeRegex,
+  exactSkillNameRegex,
+  skillsMatch,
+  buildSkillResolver,
+  buildRelatedSkillLookup,
+  canonicalizeSkillEntries,
+  resolveSkillName
+};
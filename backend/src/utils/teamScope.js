@@ -0,0 +1,55 @@
+import { Project, Assignment } from '../models/index.js';
+import { hasPermission } from '../config/permissions.js';
+import AppError from './AppError.js';
+
+/**
+ * Team Scope
+ * Limits project managers to their own projects and the engineers on them.
+ * Users with the unscoped permission pass every check.
+ */
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+// IDs of the projects the user manages, archived ones included
+export const getManagedProjectIds = (user) =>
+  Project.find({ managerId: user._id }).setOptions({ includeArchived: true }).distinct('_id');
+
+// Whether the engineer has an assignment on any project the user manages
+export const isOnTeam = async (user, engineerId) => {
+  const projectIds = await getManagedProjectIds(user);
+  if (projectIds.length === 0) return false;
+
+  return !!await Assignment.exists({ projectId: { $in: projectIds }, engineerId })
+    .setOptions({ includeArchived: true });
+};
+
+// Whether the user can change these projects, or their assignments when `area` is 'assignments'
+export const canManageProjects = async (user, projectIds, area = 'projects') => {
+  if (hasPermission(user, `${area}:manage`)) return true;
+  if (!hasPermission(user, `${area}:manage-own`)) return false;
+
+  const wanted = [...new Set(projectIds.filter(Boolean).map(idOf))];
+  if (wanted.length === 0) return true;
+
+  const managed = new Set((await getManagedProjectIds(user)).map(idOf));
+  return wanted.every(id => managed.has(id));
+};
+
+// Throw a 403 unless the user can change every one of the projects
+export const assertCanManageProjects = async (user, projectIds, area = 'projects') => {
+  if (!await canManageProjects(user, projectIds, area)) {
+    throw new AppError(
+      area === 'assignments'
+        ? 'Access denied. You can only change assignments on projects you manage.'
+        : 'Access denied. You can only change projects you manage.',
+      403
+    );
+  }
+};
+
+export default {
+  getManagedProjectIds,
+  isOnTeam,
+  canManageProjects,
+  assertCanManageProjects
+};
@@ -0,0 +1,178 @@
+import { Assignment, TimeEntry } from '../models/index.js';
+import {
+  startOfDay,
+  startOfWeek,
+  addDays,
+  isWorkingDay,
+  timeOffOn,
+  loadAbsences
+} from './capacityEngine.js';
+
+/**
+ * Timesheets
+ * Compares the hours engineers log against what their allocation implies,
+ * per assignment and rolled up per project.
+ */
+
+const HOURS_PER_DAY = 8;
+
+// Assignment statuses that can still have hours logged against them
+export const LOGGABLE_STATUSES = ['active', 'completed'];
+
+const roundHours = (hours) => Math.round(hours * 10) / 10;
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+// Hours an assignment is planned to take between two days (inclusive), net of time off
+export const plannedHours = (assignment, from, to, absences = []) => {
+  const first = new Date(Math.max(startOfDay(from), startOfDay(assignment.startDate)));
+  const last = new Date(Math.min(startOfDay(to), startOfDay(assignment.endDate)));
+
+  let hours = 0;
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    if (!isWorkingDay(day)) continue;
+    const available = 1 - timeOffOn(absences, day) / 100;
+    hours += HOURS_PER_DAY * (assignment.allocationPercentage / 100) * available;
+  }
+
+  return roundHours(hours);
+};
+
+// Assignments of an engineer that run during the week starting on weekStart
+export const findAssignmentsForWeek = (engineerId, weekStart) =>
+  Assignment.find({
+    engineerId,
+    status: { $in: LOGGABLE_STATUSES },
+    startDate: { $lte: addDays(weekStart, 6) },
+    endDate: { $gte: weekStart }
+  })
+    .populate('projectId', 'name status')
+    .sort({ startDate: 1 });
+
+// One engineer's week: each assignment with its planned hours and logged entry
+export const buildWeeklyTimesheet = async (engineer, weekStart) => {
+  const weekEnd = addDays(weekStart, 6);
+
+  const [assignments, entries, absenceMap] = await Promise.all([
+    findAssignmentsForWeek(engineer._id, weekStart),
+    TimeEntry.find({ engineerId: engineer._id, weekStart }),
+    loadAbsences([engineer], weekStart, weekEnd)
+  ]);
+  const absences = absenceMap.get(engineer._id.toString()) || [];
+
+  const rows = assignments.map(assignment => {
+    const entry = entries.find(item => idOf(item.assignmentId) === assignment._id.toString());
+
+    return {
+      assignment,
+      plannedHours: plannedHours(assignment, weekStart, weekEnd, absences),
+      hours: entry ? entry.hours : 0,
+      note: entry?.note || '',
+      updatedAt: entry?.updatedAt || null
+    };
+  });
+
+  return {
+    weekStart,
+    weekEnd,
+    rows,
+    totals: {
+      plannedHours: roundHours(rows.reduce((sum, row) => sum + row.plannedHours, 0)),
+      loggedHours: roundHours(rows.reduce((sum, row) => sum + row.hours, 0))
+    }
+  };
+};
+
+// Logged vs. planned hours across whole weeks between startDate and endDate
+export const buildTimesheetSummary = async ({ projectId, engineerId, startDate, endDate }) => {
+  const from = startOfWeek(startDate);
+  const to = addDays(startOfWeek(endDate), 6);
+
+  const query = {
+    status: { $in: LOGGABLE_STATUSES },
+    startDate: { $lte: to },
+    endDate: { $gte: from }
+  };
+  if (projectId) query.projectId = projectId;
+  if (engineerId) query.engineerId = engineerId;
+
+  const assignments = await Assignment.find(query)
+    .populate('engineerId', 'name email department location')
+    .populate('projectId', 'name status');
+
+  const engineers = [...new Map(
+    assignments
+      .filter(assignment => assignment.engineerId)
+      .map(assignment => [assignment.engineerId._id.toString(), assignment.engineerId])
+  ).values()];
+
+  const [entries, absenceMap] = await Promise.all([
+    TimeEntry.find({
+      assignmentId: { $in: assignments.map(assignment => assignment._id) },
+      weekStart: { $gte: from, $lte: to }
+    }),
+    loadAbsences(engineers, from, to)
+  ]);
+
+  const assignmentRows = assignments.map(assignment => {
+    const assignmentEntries = entries.filter(entry => idOf(entry.assignmentId) === assignment._id.toString());
+    const planned = plannedHours(assignment, from, to, absenceMap.get(idOf(assignment.engineerId)) || []);
+    const logged = roundHours(assignmentEntries.reduce((sum, entry) => sum + entry.hours, 0));
+
+    return {
+      assignmentId: assignment._id,
+      engineer: assignment.engineerId,
+      project: assignment.projectId,
+      role: assignment.role,
+      allocationPercentage: assignment.allocationPercentage,
+      startDate: assignment.startDate,
+      endDate: assignment.endDate,
+      completionPercentage: assignment.completionPercentage || 0,
+      plannedHours: planned,
+      loggedHours: logged,
+      variance: roundHours(logged - planned),
+      weeksLogged: assignmentEntries.length
+    };
+  });
+
+  const projects = new Map();
+  assignmentRows.forEach(row => {
+    const key = idOf(row.project);
+    if (!projects.has(key)) {
+      projects.set(key, {
+        projectId: key,
+        name: row.project?.name || 'Unknown project',
+        status: row.project?.status,
+        plannedHours: 0,
+        loggedHours: 0,
+        assignments: []
+      });
+    }
+    const project = projects.get(key);
+    project.plannedHours = roundHours(project.plannedHours + row.plannedHours);
+    project.loggedHours = roundHours(project.loggedHours + row.loggedHours);
+    project.assignments.push(row);
+  });
+
+  const projectRows = [...projects.values()]
+    .map(project => ({ ...project, variance: roundHours(project.loggedHours - project.plannedHours) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    startDate: from,
+    endDate: to,
+    projects: projectRows,
+    totals: {
+      plannedHours: roundHours(projectRows.reduce((sum, project) => sum + project.plannedHours, 0)),
+      loggedHours: roundHours(projectRows.reduce((sum, project) => sum + project.loggedHours, 0))
+    }
+  };
+};
+
+export default {
+  LOGGABLE_STATUSES,
+  plannedHours,
+  findAssignmentsForWeek,
+  buildWeeklyTimesheet,
+  buildTimesheetSummary
+};
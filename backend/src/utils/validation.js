@@ -1,11 +1,68 @@
 import Joi from 'joi';
+import { SKILL_CATEGORIES } from '../models/Skill.js';
+import { TIME_OFF_TYPES } from '../models/TimeOff.js';
+import { NOTIFICATION_TYPES } from '../models/Notification.js';
+import { WEBHOOK_EVENTS } from '../models/Webhook.js';
+import { ROLES } from '../config/permissions.js';
+
+// Password policy; the only copy, the frontend loads it from GET /api/auth/password-policy
+export const PASSWORD_POLICY = {
+  minLength: 8,
+  maxLength: 128,
+  requireLetter: true,
+  requireNumber: true,
+  // The name part of the user's email is refused once it is at least this long
+  emailNameMinLength: 3,
+  commonPasswords: [
+    'password', 'password1', 'password12', 'password123', 'passw0rd', '12345678', '123456789',
+    '1234567890', 'qwerty123', 'qwertyuiop', '1q2w3e4r', 'abc12345', 'iloveyou1', 'letmein1',
+    'welcome1', 'welcome123', 'admin123', 'changeme1', 'trustno1', 'football1', 'baseball1'
+  ]
+};
+
+const COMMON_PASSWORDS = new Set(PASSWORD_POLICY.commonPasswords);
+
+// Why a password is too weak, or null; it may not contain the name part of the user's email
+export const passwordProblem = (password, { email } = {}) => {
+  const { minLength, maxLength, requireLetter, requireNumber, emailNameMinLength } = PASSWORD_POLICY;
+  if (typeof password !== 'string' || password.length < minLength) {
+    return `Password must be at least ${minLength} characters`;
+  }
+  if (password.length > maxLength) {
+    return `Password cannot be longer than ${maxLength} characters`;
+  }
+  if ((requireLetter && !/[A-Za-z]/.test(password)) || (requireNumber && !/\d/.test(password))) {
+    return 'Password must contain at least one letter and one number';
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    return 'This password is too common. Choose another one';
+  }
+  const emailName = email?.split('@')[0].toLowerCase();
+  if (emailName && emailName.length >= emailNameMinLength && password.toLowerCase().includes(emailName)) {
+    return 'Password cannot contain your email address';
+  }
+  return null;
+};
+
+// One-line summary of the policy for password fields
+export const passwordHint = () => {
+  const { minLength, requireLetter, requireNumber } = PASSWORD_POLICY;
+  const needs = [requireLetter && 'a letter', requireNumber && 'a number'].filter(Boolean);
+  return `At least ${minLength} characters${needs.length ? `, with ${needs.join(' and ')}` : ''}`;
+};
+
+// A new password, checked against the policy and the email sent alongside it
+const newPassword = () => Joi.string().required().custom((value, helpers) => {
+  const problem = passwordProblem(value, { email: helpers.state.ancestors[0]?.email });
+  return problem ? helpers.message(problem) : value;
+});
 
 // Engineer validation schemas
 export const validateRegister = (data) => {
   const schema = Joi.object({
     name: Joi.string().min(2).max(100).required(),
     email: Joi.string().email().required(),
-    password: Joi.string().min(6).required(),
+    password: newPassword(),
     department: Joi.string().min(2).max(50).when('role', {
       is: 'engineer',
       then: Joi.required(),
@@ -22,13 +79,15 @@ export const validateRegister = (data) => {
       otherwise: Joi.forbidden()
     }),
     hourlyRate: Joi.number().min(0).optional(),
+    location: Joi.string().max(100).allow('').optional(),
     skills: Joi.array().items(
       Joi.object({
         skill: Joi.string().required(),
+        skillId: Joi.string().optional(),
         level: Joi.string().valid('beginner', 'intermediate', 'advanced', 'expert').required()
       })
     ).optional(),
-    role: Joi.string().valid('engineer', 'manager', 'admin').optional()
+    role: Joi.string().valid(...ROLES).optional()
   });
 
   return schema.validate(data);
@@ -50,14 +109,16 @@ export const validateUserUpdate = (data) => {
     department: Joi.string().min(2).max(50).optional(),
     seniority: Joi.string().valid('junior', 'mid', 'senior').optional(),
     maxCapacity: Joi.number().min(1).max(100).optional(),
+    hourlyRate: Joi.number().min(0).optional(),
+    location: Joi.string().max(100).allow('').optional(),
     skills: Joi.array().items(
       Joi.object({
         skill: Joi.string().required(),
+        skillId: Joi.string().optional(),
         level: Joi.string().valid('beginner', 'intermediate', 'advanced', 'expert').required()
       })
     ).optional(),
-    role: Joi.string().valid('engineer', 'manager').optional(),
-    isActive: Joi.boolean().optional()
+    role: Joi.string().valid(...ROLES).optional()
   });
 
   return schema.validate(data);
@@ -66,6 +127,106 @@ export const validateUserUpdate = (data) => {
 // Keep backward compatibility
 export const validateEngineerUpdate = validateUserUpdate;
 
+// Role change validation; department is needed when someone becomes an engineer
+export const validateRoleChange = (data) => {
+  const schema = Joi.object({
+    role: Joi.string().valid(...ROLES).required(),
+    department: Joi.string().min(2).max(50).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// User account list query validation
+export const validateAccountQuery = (data) => {
+  const schema = Joi.object({
+    role: Joi.string().valid(...ROLES).optional(),
+    search: Joi.string().max(100).allow('').optional(),
+    page: Joi.number().min(1).optional(),
+    limit: Joi.number().min(1).max(100).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Invitation validation; engineers are invited with the profile they start with
+export const validateInvitation = (data) => {
+  const schema = Joi.object({
+    name: Joi.string().min(2).max(100).required(),
+    email: Joi.string().email().required(),
+    role: Joi.string().valid(...ROLES).default('engineer'),
+    department: Joi.string().min(2).max(50).when('role', {
+      is: 'engineer',
+      then: Joi.required(),
+      otherwise: Joi.optional()
+    }),
+    seniority: Joi.string().valid('junior', 'mid', 'senior').optional(),
+    maxCapacity: Joi.number().min(1).max(100).optional(),
+    hourlyRate: Joi.number().min(0).optional(),
+    location: Joi.string().max(100).allow('').optional(),
+    skills: Joi.array().items(
+      Joi.object({
+        skill: Joi.string().required(),
+        skillId: Joi.string().optional(),
+        level: Joi.string().valid('beginner', 'intermediate', 'advanced', 'expert').required()
+      })
+    ).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Invitation list query validation; expired covers pending invitations past their expiry
+export const validateInvitationQuery = (data) => {
+  const schema = Joi.object({
+    status: Joi.string().valid('pending', 'accepted', 'revoked', 'expired').optional(),
+    page: Joi.number().min(1).optional(),
+    limit: Joi.number().min(1).max(100).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Accept invitation validation
+export const validateAcceptInvitation = (data) => {
+  const schema = Joi.object({
+    token: Joi.string().required(),
+    name: Joi.string().min(2).max(100).optional(),
+    password: newPassword()
+  });
+
+  return schema.validate(data);
+};
+
+// Change password validation
+export const validateChangePassword = (data) => {
+  const schema = Joi.object({
+    currentPassword: Joi.string().required(),
+    newPassword: newPassword()
+  });
+
+  return schema.validate(data);
+};
+
+// Forgot password validation
+export const validateForgotPassword = (data) => {
+  const schema = Joi.object({
+    email: Joi.string().email().required()
+  });
+
+  return schema.validate(data);
+};
+
+// Password reset validation
+export const validateResetPassword = (data) => {
+  const schema = Joi.object({
+    token: Joi.string().required(),
+    password: newPassword()
+  });
+
+  return schema.validate(data);
+};
+
 // Project validation schemas
 export const validateProject = (data) => {
   const schema = Joi.object({
@@ -76,6 +237,7 @@ export const validateProject = (data) => {
     requiredSkills: Joi.array().items(
       Joi.object({
         skill: Joi.string().required(),
+        skillId: Joi.string().optional(),
         level: Joi.string().valid('beginner', 'intermediate', 'advanced', 'expert').required(),
         priority: Joi.string().valid('must-have', 'nice-to-have').required()
       }).unknown(false)
@@ -101,6 +263,7 @@ export const validateProjectUpdate = (data) => {
     requiredSkills: Joi.array().items(
       Joi.object({
         skill: Joi.string().required(),
+        skillId: Joi.string().optional(),
         level: Joi.string().valid('beginner', 'intermediate', 'advanced', 'expert').required(),
         priority: Joi.string().valid('must-have', 'nice-to-have').required()
       }).unknown(false)
@@ -111,8 +274,7 @@ export const validateProjectUpdate = (data) => {
     budget: Joi.number().min(0).optional(),
     estimatedHours: Joi.number().min(1).optional(),
     actualHours: Joi.number().min(0).optional(),
-    tags: Joi.array().items(Joi.string()).optional(),
-    isActive: Joi.boolean().optional()
+    tags: Joi.array().items(Joi.string()).optional()
   });
 
   return schema.validate(data);
@@ -158,13 +320,240 @@ export const validateAssignmentUpdate = (data) => {
     notes: Joi.string().max(500).allow('').optional(),
     estimatedHours: Joi.number().min(0).optional(),
     actualHours: Joi.number().min(0).optional(),
-    billableRate: Joi.number().min(0).optional(),
+    billableRate: Joi.number().min(0).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Skill taxonomy validation schemas
+const skillRubricSchema = Joi.object({
+  beginner: Joi.string().max(300).allow('').optional(),
+  intermediate: Joi.string().max(300).allow('').optional(),
+  advanced: Joi.string().max(300).allow('').optional(),
+  expert: Joi.string().max(300).allow('').optional()
+});
+
+export const validateSkill = (data) => {
+  const schema = Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    aliases: Joi.array().items(Joi.string().max(100)).optional(),
+    category: Joi.string().valid(...SKILL_CATEGORIES).optional(),
+    description: Joi.string().max(500).allow('').optional(),
+    relatedSkills: Joi.array().items(Joi.string()).optional(),
+    rubric: skillRubricSchema.optional(),
+    isActive: Joi.boolean().optional()
+  });
+
+  return schema.validate(data);
+};
+
+export const validateSkillUpdate = (data) => {
+  const schema = Joi.object({
+    name: Joi.string().min(1).max(100).optional(),
+    aliases: Joi.array().items(Joi.string().max(100)).optional(),
+    category: Joi.string().valid(...SKILL_CATEGORIES).optional(),
+    description: Joi.string().max(500).allow('').optional(),
+    relatedSkills: Joi.array().items(Joi.string()).optional(),
+    rubric: skillRubricSchema.optional(),
+    isActive: Joi.boolean().optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Time off validation schemas
+export const validateTimeOff = (data) => {
+  const schema = Joi.object({
+    engineerId: Joi.string().optional(),
+    type: Joi.string().valid(...TIME_OFF_TYPES).required(),
+    startDate: Joi.date().required(),
+    endDate: Joi.date().min(Joi.ref('startDate')).required(),
+    percentage: Joi.number().integer().min(1).max(100).optional(),
+    reason: Joi.string().max(500).allow('').optional()
+  });
+
+  return schema.validate(data);
+};
+
+export const validateTimeOffReview = (data) => {
+  const schema = Joi.object({
+    status: Joi.string().valid('approved', 'rejected').required(),
+    reviewNote: Joi.string().max(500).allow('').optional()
+  });
+
+  return schema.validate(data);
+};
+
+export const validateTimeOffQuery = (data) => {
+  const schema = Joi.object({
+    engineerId: Joi.string().optional(),
+    status: Joi.string().valid('pending', 'approved', 'rejected', 'cancelled').optional(),
+    startDate: Joi.date().optional(),
+    endDate: Joi.date().optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Holiday validation schemas
+export const validateHoliday = (data) => {
+  const schema = Joi.object({
+    name: Joi.string().min(2).max(100).required(),
+    date: Joi.date().required(),
+    departments: Joi.array().items(Joi.string().max(50)).optional(),
+    locations: Joi.array().items(Joi.string().max(100)).optional(),
     isActive: Joi.boolean().optional()
   });
 
   return schema.validate(data);
 };
 
+// Holiday calendar import validation
+export const validateHolidayImport = (data) => {
+  const schema = Joi.object({
+    ics: Joi.string().max(2 * 1024 * 1024).required(),
+    departments: Joi.array().items(Joi.string().max(50)).optional(),
+    locations: Joi.array().items(Joi.string().max(100)).optional(),
+    dryRun: Joi.boolean().optional()
+  });
+
+  return schema.validate(data);
+};
+
+export const validateHolidayUpdate = (data) => {
+  const schema = Joi.object({
+    name: Joi.string().min(2).max(100).optional(),
+    date: Joi.date().optional(),
+    departments: Joi.array().items(Joi.string().max(50)).optional(),
+    locations: Joi.array().items(Joi.string().max(100)).optional(),
+    isActive: Joi.boolean().optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Timesheet validation schemas
+export const validateTimesheetQuery = (data) => {
+  const schema = Joi.object({
+    weekStart: Joi.date().optional(),
+    engineerId: Joi.string().optional()
+  });
+
+  return schema.validate(data);
+};
+
+export const validateTimesheet = (data) => {
+  const schema = Joi.object({
+    weekStart: Joi.date().required(),
+    engineerId: Joi.string().optional(),
+    entries: Joi.array().items(Joi.object({
+      assignmentId: Joi.string().required(),
+      hours: Joi.number().min(0).max(168).required(),
+      note: Joi.string().max(500).allow('').optional()
+    })).min(1).required()
+  });
+
+  return schema.validate(data);
+};
+
+export const validateTimesheetSummaryQuery = (data) => {
+  const schema = Joi.object({
+    projectId: Joi.string().optional(),
+    engineerId: Joi.string().optional(),
+    startDate: Joi.date().optional(),
+    endDate: Joi.date().min(Joi.ref('startDate')).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Assignment progress validation
+export const validateProgressUpdate = (data) => {
+  const schema = Joi.object({
+    completionPercentage: Joi.number().min(0).max(100).required(),
+    note: Joi.string().max(500).allow('').optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Notification list query validation
+export const validateNotificationQuery = (data) => {
+  const schema = Joi.object({
+    unread: Joi.boolean().optional(),
+    page: Joi.number().min(1).optional(),
+    limit: Joi.number().min(1).max(50).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Notification preferences validation
+export const validateNotificationPreferences = (data) => {
+  const schema = Joi.object({
+    preferences: Joi.object()
+      .pattern(Joi.string().valid(...NOTIFICATION_TYPES), Joi.boolean())
+      .min(1)
+      .required()
+  });
+
+  return schema.validate(data);
+};
+
+// Webhook validation
+export const validateWebhook = (data) => {
+  const schema = Joi.object({
+    name: Joi.string().trim().max(100).required(),
+    url: Joi.string().trim().uri({ scheme: ['http', 'https'] }).required(),
+    events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique().required(),
+    isActive: Joi.boolean().optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Webhook update validation
+export const validateWebhookUpdate = (data) => {
+  const schema = Joi.object({
+    name: Joi.string().trim().max(100).optional(),
+    url: Joi.string().trim().uri({ scheme: ['http', 'https'] }).optional(),
+    events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique().optional(),
+    isActive: Joi.boolean().optional()
+  }).min(1);
+
+  return schema.validate(data);
+};
+
+// Webhook delivery log query validation
+export const validateWebhookDeliveryQuery = (data) => {
+  const schema = Joi.object({
+    status: Joi.string().valid('pending', 'succeeded', 'failed').optional(),
+    page: Joi.number().min(1).optional(),
+    limit: Joi.number().min(1).max(100).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Audit log query validation
+export const validateAuditQuery = (data) => {
+  const schema = Joi.object({
+    entityType: Joi.string().valid('User', 'Project', 'Assignment').optional(),
+    entityId: Joi.string().optional(),
+    projectId: Joi.string().optional(),
+    engineerId: Joi.string().optional(),
+    actor: Joi.string().optional(),
+    action: Joi.string().valid('create', 'update', 'delete', 'archive', 'restore').optional(),
+    startDate: Joi.date().optional(),
+    endDate: Joi.date().optional(),
+    page: Joi.number().min(1).optional(),
+    limit: Joi.number().min(1).max(100).optional()
+  });
+
+  return schema.validate(data);
+};
+
 // Query parameter validation
 export const validateQueryParams = (data) => {
   const schema = Joi.object({
@@ -181,8 +570,177 @@ export const validateQueryParams = (data) => {
     engineerId: Joi.string().optional(),
     projectId: Joi.string().optional(),
     startDate: Joi.date().optional(),
-    endDate: Joi.date().optional()
+    endDate: Joi.date().optional(),
+    archived: Joi.boolean().optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Capacity timeline query validation
+export const validateCapacityTimelineQuery = (data) => {
+  const schema = Joi.object({
+    startDate: Joi.date().optional(),
+    endDate: Joi.date().when('startDate', {
+      is: Joi.exist(),
+      then: Joi.date().min(Joi.ref('startDate'))
+    }).optional(),
+    granularity: Joi.string().valid('day', 'week').optional(),
+    excludeAssignmentId: Joi.string().hex().length(24).optional()
   });
 
   return schema.validate(data);
-};
\ No newline at end of file
+};
+
+// Assignment conflict check query validation
+export const validateConflictCheckQuery = (data) => {
+  const schema = Joi.object({
+    engineerId: Joi.string().hex().length(24).required(),
+    startDate: Joi.date().required(),
+    endDate: Joi.date().min(Joi.ref('startDate')).required(),
+    excludeAssignmentId: Joi.string().hex().length(24).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Staffing suggestion query validation
+export const validateSuggestionQuery = (data) => {
+  const schema = Joi.object({
+    startDate: Joi.date().optional(),
+    endDate: Joi.date().min(Joi.ref('startDate')).when('startDate', {
+      is: Joi.exist(),
+      then: Joi.required()
+    })
+  });
+
+  return schema.validate(data);
+};
+
+// Capacity forecast query validation
+export const validateForecastQuery = (data) => {
+  const schema = Joi.object({
+    weeks: Joi.number().integer().min(1).max(52).optional(),
+    department: Joi.string().optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Report export query validation
+export const validateExportQuery = (data) => {
+  const schema = Joi.object({
+    report: Joi.string().valid('utilization', 'assignments', 'forecast').required(),
+    format: Joi.string().valid('csv', 'xlsx', 'pdf').default('csv'),
+    startDate: Joi.date().optional(),
+    endDate: Joi.date().when('startDate', {
+      is: Joi.exist(),
+      then: Joi.date().min(Joi.ref('startDate'))
+    }).optional()
+      .messages({ 'date.min': 'endDate must be on or after startDate' }),
+    department: Joi.string().allow('').optional(),
+    status: Joi.string().valid('active', 'paused', 'completed', 'cancelled').optional(),
+    weeks: Joi.number().integer().min(1).max(52).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Project health query validation
+export const validateProjectHealthQuery = (data) => {
+  const schema = Joi.object({
+    status: Joi.string().valid('planning', 'active', 'on-hold', 'completed', 'cancelled').optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Workload rebalance plan query validation
+export const validateRebalanceQuery = (data) => {
+  const schema = Joi.object({
+    engineerId: Joi.string().hex().length(24).required(),
+    targetUtilization: Joi.number().integer().min(1).max(100).optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Workload rebalance validation
+export const validateRebalanceApply = (data) => {
+  const moveSchema = Joi.object({
+    id: Joi.string().optional(),
+    type: Joi.string().valid('reassign', 'reduce-allocation', 'shift-dates').required(),
+    assignmentId: Joi.string().hex().length(24).required(),
+    after: Joi.object({
+      engineerId: Joi.string().hex().length(24).when('...type', { is: 'reassign', then: Joi.required() }),
+      allocationPercentage: Joi.number().min(1).max(100).when('...type', { is: 'reduce-allocation', then: Joi.required() }),
+      startDate: Joi.date().when('...type', { is: 'shift-dates', then: Joi.required() }),
+      endDate: Joi.date().when('...type', { is: 'shift-dates', then: Joi.required() })
+    }).unknown(true).required()
+  }).unknown(true);
+
+  const schema = Joi.object({
+    moves: Joi.array().items(moveSchema).min(1).required()
+  });
+
+  return schema.validate(data);
+};
+
+// Bulk assignment operation validation
+export const validateBulkAssignmentOperation = (data) => {
+  const schema = Joi.object({
+    assignmentIds: Joi.array().items(Joi.string().hex().length(24)).min(1).max(200).required(),
+    operation: Joi.string().valid('shift-dates', 'change-allocation', 'change-status', 'archive').required(),
+    days: Joi.number().integer().min(-365).max(365).invalid(0).when('operation', { is: 'shift-dates', then: Joi.required(), otherwise: Joi.forbidden() }),
+    dateField: Joi.string().valid('both', 'start', 'end').when('operation', { is: 'shift-dates', otherwise: Joi.forbidden() }),
+    allocationPercentage: Joi.number().min(1).max(100).when('operation', { is: 'change-allocation', otherwise: Joi.forbidden() }),
+    allocationChange: Joi.number().min(-99).max(99).invalid(0).when('operation', { is: 'change-allocation', otherwise: Joi.forbidden() }),
+    status: Joi.string().valid('active', 'completed', 'cancelled').when('operation', { is: 'change-status', then: Joi.required(), otherwise: Joi.forbidden() }),
+    preview: Joi.boolean().optional()
+  }).when(Joi.object({ operation: Joi.valid('change-allocation') }).unknown(), {
+    then: Joi.object().xor('allocationPercentage', 'allocationChange').messages({
+      'object.missing': 'Provide either allocationPercentage or allocationChange',
+      'object.xor': 'Provide either allocationPercentage or allocationChange, not both'
+    })
+  });
+
+  return schema.validate(data);
+};
+
+// Project status change validation
+export const validateProjectStatusChange = (data) => {
+  const schema = Joi.object({
+    status: Joi.string().valid('planning', 'active', 'on-hold', 'completed', 'cancelled').required(),
+    preview: Joi.boolean().optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Spreadsheet import validation; row contents are checked per row by the importer
+export const validateImportRequest = (data) => {
+  const schema = Joi.object({
+    entity: Joi.string().valid('engineers', 'projects', 'assignments').required(),
+    rows: Joi.array().items(Joi.object().pattern(Joi.string(), Joi.alternatives().try(Joi.string().allow(''), Joi.number(), Joi.boolean()).allow(null))).min(1).max(1000).required(),
+    dryRun: Joi.boolean().optional()
+  });
+
+  return schema.validate(data);
+};
+
+// Staffing suggestion acceptance validation
+export const validateStaffingAccept = (data) => {
+  const memberSchema = Joi.object({
+    engineerId: Joi.string().hex().length(24).required(),
+    allocationPercentage: Joi.number().min(1).max(100).required(),
+    role: Joi.string().valid('developer', 'lead', 'architect', 'tester', 'devops', 'analyst', 'designer').required()
+  });
+
+  const schema = Joi.object({
+    startDate: Joi.date().required(),
+    endDate: Joi.date().greater(Joi.ref('startDate')).required(),
+    members: Joi.array().items(memberSchema).min(1).unique('engineerId').required()
+  });
+
+  return schema.validate(data);
+};
@@ -0,0 +1,462 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import mongoose from 'mongoose';
+import { User, Project, Webhook, WebhookDelivery } from '../models/index.js';
+import { startOfDay, addDays, getCapacityTimelines } from './capacityEngine.js';
+
+/**
+ * Webhooks
+ * Posts signed JSON events to the URLs managers register. Events are queued as
+ * pending deliveries from the audit log entry of each change, inside the same
+ * transaction, so a change that is rolled back (such as a preview) never fires.
+ * Deliveries are retried with backoff until the receiver answers with a 2xx
+ * status. A long-running server sends them after the response that queued them
+ * and polls for due retries; serverless functions may be frozen once they have
+ * answered, so there a scheduled request sends everything that is due.
+ * Receivers must be public https URLs. The address is checked again when each
+ * delivery connects, so a name that later resolves to an internal host is refused.
+ */
+
+export const SIGNATURE_HEADER = 'X-ERMS-Signature';
+export const EVENT_HEADER = 'X-ERMS-Event';
+export const DELIVERY_HEADER = 'X-ERMS-Delivery';
+
+// Wait before each retry; a delivery fails for good after the last one
+export const RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  6 * 60 * 60 * 1000
+];
+export const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// Receivers must answer within this long
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// A claimed delivery is not picked up by another dispatcher for this long
+const CLAIM_MS = 60 * 1000;
+
+// Deliveries sent per dispatch, so one run never holds up the process for long
+const BATCH_SIZE = 25;
+
+// Characters of the receiver's response kept on the delivery
+const RESPONSE_SNIPPET_LENGTH = 200;
+
+// Loopback, private, link-local (including cloud metadata), shared, multicast and reserved ranges
+const INTERNAL_NETWORKS = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([network, prefix]) => INTERNAL_NETWORKS.addSubnet(network, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([network, prefix]) => INTERNAL_NETWORKS.addSubnet(network, prefix, 'ipv6'));
+
+// Weeks ahead checked for overallocated engineers
+const OVERLOAD_WEEKS = 4;
+
+// Overload is rechecked at most this often unless capacity has changed
+const OVERLOAD_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
+// How often a long-running server retries due deliveries
+const RETRY_POLL_MS = 60 * 1000;
+
+// A scheduled dispatch starts no new delivery after this long, so the last one
+// still finishes within the function's time limit
+const SCHEDULED_DISPATCH_MS = 15 * 1000;
+
+const ASSIGNMENT_EVENTS = {
+  create: 'assignment.created',
+  restore: 'assignment.created',
+  update: 'assignment.updated',
+  archive: 'assignment.deleted',
+  delete: 'assignment.deleted'
+};
+
+let overloadCheckedAt = 0;
+let overloadCheckDue = false;
+let dispatching = null;
+
+const idOf = (value) => (value?._id || value)?.toString();
+
+// Local receivers (http, private addresses) for development, never in production
+const allowLocalUrls = () =>
+  process.env.NODE_ENV !== 'production' && process.env.WEBHOOK_ALLOW_LOCAL_URLS === 'true';
+
+const isInternalAddress = (address) =>
+  INTERNAL_NETWORKS.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+// Socket lookup that refuses internal addresses, so the address checked is the one connected to
+const lookupPublicAddress = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    const internal = addresses.find(({ address }) => isInternalAddress(address));
+    if (internal) {
+      return callback(new Error(`${hostname} resolves to ${internal.address}, which is not a public address`));
+    }
+    return options.all
+      ? callback(null, addresses)
+      : callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Why a URL cannot receive webhooks, or null when it can
+export const checkWebhookUrl = async (url) => {
+  if (allowLocalUrls()) return null;
+
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'https:') {
+    return 'Webhook URLs must use https';
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host)
+    ? [host]
+    : await dns.promises.lookup(host, { all: true }).then(
+      results => results.map(({ address }) => address),
+      () => null
+    );
+  if (!addresses) {
+    return `${host} could not be resolved`;
+  }
+  if (addresses.some(isInternalAddress)) {
+    return 'Webhook URLs must point at a public address, not a private, loopback or link-local one';
+  }
+  return null;
+};
+
+// POST a body and resolve with the status and the start of the response
+const postJson = (url, headers, body) => new Promise((resolve, reject) => {
+  const target = new URL(url);
+  const request = (target.protocol === 'https:' ? https : http).request(target, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+    lookup: allowLocalUrls() ? dns.lookup : lookupPublicAddress,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  }, (response) => {
+    let snippet = '';
+    response.setEncoding('utf8');
+    response.on('data', (chunk) => {
+      snippet += chunk;
+      // The rest is not needed, so it is not read
+      if (snippet.length >= RESPONSE_SNIPPET_LENGTH) response.destroy();
+    });
+    response.on('close', () => resolve({ status: response.statusCode, snippet: snippet.slice(0, RESPONSE_SNIPPET_LENGTH) }));
+  });
+  request.on('error', reject);
+  request.end(body);
+});
+
+const formatDate = (date) => new Date(date).toISOString().split('T')[0];
+
+export const generateSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+// Signature header value: the unix time and a hex HMAC-SHA256 of "<time>.<body>"
+export const signPayload = (secret, body, timestamp = Math.floor(Date.now() / 1000)) => {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+};
+
+// Recheck overload on the next dispatch instead of waiting for the interval
+export const flagCapacityChange = () => {
+  overloadCheckDue = true;
+};
+
+// Create one pending delivery per active webhook subscribed to the event
+const queueEvent = async (event, data, { session = null, dedupeKey } = {}) => {
+  let webhooks = await Webhook.find({ isActive: true, events: event }).select('_id').session(session);
+
+  // Skip webhooks that were already sent this event
+  if (dedupeKey && webhooks.length > 0) {
+    const sent = new Set((await WebhookDelivery.find({
+      webhookId: { $in: webhooks.map(webhook => webhook._id) },
+      dedupeKey
+    }).select('webhookId').session(session)).map(delivery => delivery.webhookId.toString()));
+    webhooks = webhooks.filter(webhook => !sent.has(webhook._id.toString()));
+  }
+  if (webhooks.length === 0) return [];
+
+  const createdAt = new Date().toISOString();
+  return WebhookDelivery.insertMany(webhooks.map(webhook => {
+    const _id = new mongoose.Types.ObjectId();
+    return {
+      _id,
+      webhookId: webhook._id,
+      event,
+      payload: { id: _id.toString(), event, createdAt, data },
+      dedupeKey
+    };
+  }), { session, ordered: false });
+};
+
+const hasSubscribers = (event, session) =>
+  Webhook.exists({ isActive: true, events: event }).session(session);
+
+const findIncludingArchived = (Model, id, fields, session) =>
+  Model.findById(idOf(id)).select(fields).setOptions({ includeArchived: true }).session(session);
+
+const assignmentData = async (doc, session) => {
+  const [engineer, project] = await Promise.all([
+    doc.engineerId?.name ? doc.engineerId : findIncludingArchived(User, doc.engineerId, 'name email department', session),
+    doc.projectId?.name ? doc.projectId : findIncludingArchived(Project, doc.projectId, 'name status', session)
+  ]);
+
+  return {
+    id: doc._id.toString(),
+    engineer: { id: idOf(doc.engineerId), name: engineer?.name, email: engineer?.email },
+    project: { id: idOf(doc.projectId), name: project?.name },
+    role: doc.role,
+    allocationPercentage: doc.allocationPercentage,
+    startDate: doc.startDate,
+    endDate: doc.endDate,
+    status: doc.status
+  };
+};
+
+const actorOf = (entry) => entry.actor ? { id: idOf(entry.actor), name: entry.actorName } : null;
+
+// Queue the webhook events an audited change raises. Failures are logged and never undo the change itself.
+export const queueAuditedChange = async (entry, doc, session = null) => {
+  try {
+    if (entry.entityType === 'Assignment' || entry.entityType === 'User') {
+      flagCapacityChange();
+    }
+
+    if (entry.entityType === 'Assignment') {
+      const event = ASSIGNMENT_EVENTS[entry.action];
+      if (!event || !await hasSubscribers(event, session)) return;
+
+      await queueEvent(event, {
+        assignment: await assignmentData(doc, session),
+        ...(entry.action === 'update' && { changes: entry.changes }),
+        action: entry.action,
+        actor: actorOf(entry),
+        reason: entry.reason
+      }, { session });
+    }
+
+    if (entry.entityType === 'Project') {
+      const status = entry.changes.find(change => change.field === 'status');
+      if (entry.action !== 'update' || !status) return;
+      if (!await hasSubscribers('project.status_changed', session)) return;
+
+      await queueEvent('project.status_changed', {
+        project: { id: doc._id.toString(), name: doc.name, status: doc.status },
+        from: status.before,
+        to: status.after,
+        actor: actorOf(entry),
+        reason: entry.reason
+      }, { session });
+    }
+  } catch (error) {
+    console.error('Webhook queue error:', error);
+  }
+};
+
+// Queue engineer.overloaded for each engineer's first overallocated week ahead, once per engineer and week
+const queueOverloadEvents = async () => {
+  if (!overloadCheckDue && Date.now() - overloadCheckedAt < OVERLOAD_CHECK_INTERVAL_MS) return;
+  overloadCheckDue = false;
+  overloadCheckedAt = Date.now();
+
+  if (!await hasSubscribers('engineer.overloaded', null)) return;
+
+  const engineers = await User.find({ role: 'engineer' });
+  if (engineers.length === 0) return;
+
+  const today = startOfDay(new Date());
+  const timelines = await getCapacityTimelines(engineers, {
+    startDate: today,
+    endDate: addDays(today, OVERLOAD_WEEKS * 7 - 1)
+  });
+  const byId = new Map(engineers.map(engineer => [engineer._id.toString(), engineer]));
+
+  for (const timeline of timelines) {
+    const period = timeline.periods.find(candidate => candidate.isOverallocated);
+    if (!period) continue;
+
+    const engineer = byId.get(idOf(timeline.engineerId));
+    const week = formatDate(period.periodStart);
+    try {
+      await queueEvent('engineer.overloaded', {
+        engineer: {
+          id: idOf(timeline.engineerId),
+          name: engineer?.name,
+          email: engineer?.email,
+          department: engineer?.department
+        },
+        weekStart: week,
+        allocated: period.allocated,
+        capacity: period.capacity
+      }, { dedupeKey: `engineer.overloaded:${idOf(timeline.engineerId)}:${week}` });
+    } catch (error) {
+      // A concurrent dispatcher may have queued the same event first
+      if (error.code !== 11000) throw error;
+    }
+  }
+};
+
+// POST a delivery to its webhook and record the outcome. With `retry: false` a failure is final.
+export const sendDelivery = async (delivery, { retry = true } = {}) => {
+  const webhook = await Webhook.findById(delivery.webhookId).select('+secret');
+  const attempt = delivery.attempts + 1;
+  const startedAt = new Date();
+  let outcome;
+
+  if (!webhook) {
+    outcome = { ok: false, error: 'Webhook no longer exists' };
+    retry = false;
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    try {
+      const problem = await checkWebhookUrl(webhook.url);
+      if (problem) throw new Error(problem);
+
+      // Redirects are not followed, so they count as failures
+      const response = await postJson(webhook.url, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ERMS-Webhooks/1.0',
+        [EVENT_HEADER]: delivery.event,
+        [DELIVERY_HEADER]: delivery._id.toString(),
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, body)
+      }, body);
+      const ok = response.status >= 200 && response.status < 300;
+      outcome = {
+        ok,
+        responseStatus: response.status,
+        responseBody: response.snippet,
+        error: ok ? null : `Receiver responded with status ${response.status}`
+      };
+    } catch (error) {
+      outcome = {
+        ok: false,
+        error: error.cause?.name === 'TimeoutError'
+          ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+          : error.message
+      };
+    }
+  }
+
+  const retrying = !outcome.ok && retry && attempt < MAX_ATTEMPTS;
+  delivery.set({
+    attempts: attempt,
+    lastAttemptAt: startedAt,
+    durationMs: Date.now() - startedAt,
+    responseStatus: outcome.responseStatus ?? null,
+    responseBody: outcome.responseBody ?? null,
+    error: outcome.error,
+    status: outcome.ok ? 'succeeded' : retrying ? 'pending' : 'failed',
+    nextAttemptAt: retrying ? new Date(Date.now() + RETRY_DELAYS_MS[attempt - 1]) : null
+  });
+  await delivery.save();
+
+  if (webhook) {
+    await Webhook.updateOne(
+      { _id: webhook._id },
+      { lastDeliveryAt: startedAt, lastDeliveryStatus: outcome.ok ? 'succeeded' : 'failed' }
+    );
+  }
+
+  return delivery;
+};
+
+// Take the next due delivery, pushing its next attempt out so no other dispatcher sends it too
+const claimDueDelivery = () =>
+  WebhookDelivery.findOneAndUpdate(
+    { status: 'pending', nextAttemptAt: { $lte: new Date() } },
+    { nextAttemptAt: new Date(Date.now() + CLAIM_MS) },
+    { sort: { nextAttemptAt: 1 }, new: true }
+  );
+
+// Send the deliveries that are due, oldest first, until `limit` or `deadline`. Returns how many were sent.
+export const deliverDueWebhooks = async ({ limit = BATCH_SIZE, deadline = Infinity } = {}) => {
+  await queueOverloadEvents();
+
+  let sent = 0;
+  while (sent < limit && Date.now() < deadline) {
+    const delivery = await claimDueDelivery();
+    if (!delivery) break;
+    await sendDelivery(delivery);
+    sent += 1;
+  }
+  return sent;
+};
+
+// Start sending due deliveries in the background, unless a dispatch is already running
+export const dispatchWebhooks = () => {
+  if (!dispatching) {
+    dispatching = deliverDueWebhooks()
+      .catch(error => console.error('Webhook dispatch error:', error))
+      .finally(() => {
+        dispatching = null;
+      });
+  }
+  return dispatching;
+};
+
+// Send what is due from a scheduled request, for hosting that does not keep a server running
+export const dispatchScheduledWebhooks = () =>
+  deliverDueWebhooks({ deadline: Date.now() + SCHEDULED_DISPATCH_MS });
+
+// Send a delivery now. One waiting for a retry keeps its schedule if this attempt fails;
+// one that had failed for good gets a single extra attempt.
+export const redeliver = async (delivery) => {
+  const retry = delivery.status === 'pending';
+  delivery.status = 'pending';
+  delivery.nextAttemptAt = new Date(Date.now() + CLAIM_MS);
+  await delivery.save();
+  return sendDelivery(delivery, { retry });
+};
+
+// Send a ping to check a webhook's URL and secret; it is logged but never retried
+export const sendTestEvent = async (webhook, actor) => {
+  const _id = new mongoose.Types.ObjectId();
+  const delivery = await WebhookDelivery.create({
+    _id,
+    webhookId: webhook._id,
+    event: 'ping',
+    payload: {
+      id: _id.toString(),
+      event: 'ping',
+      createdAt: new Date().toISOString(),
+      data: {
+        webhook: { id: webhook._id.toString(), name: webhook.name, events: webhook.events },
+        actor: actor ? { id: idOf(actor), name: actor.name } : null
+      }
+    },
+    nextAttemptAt: new Date(Date.now() + CLAIM_MS)
+  });
+  return sendDelivery(delivery, { retry: false });
+};
+
+// Retry due deliveries on a timer, for servers that keep running between requests
+export const startWebhookRetries = () => {
+  const timer = setInterval(dispatchWebhooks, RETRY_POLL_MS);
+  timer.unref();
+  return timer;
+};
+
+export default {
+  SIGNATURE_HEADER,
+  EVENT_HEADER,
+  DELIVERY_HEADER,
+  RETRY_DELAYS_MS,
+  MAX_ATTEMPTS,
+  generateSecret,
+  signPayload,
+  checkWebhookUrl,
+  flagCapacityChange,
+  queueAuditedChange,
+  sendDelivery,
+  deliverDueWebhooks,
+  dispatchWebhooks,
+  dispatchScheduledWebhooks,
+  redeliver,
+  sendTestEvent,
+  startWebhookRetries
+};
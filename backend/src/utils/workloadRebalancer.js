@@ -0,0 +1,341 @@
+import mongoose from 'mongoose';
+import { User, Assignment } from '../models/index.js';
+import AppError from './AppError.js';
+import { recordAudit } from './auditLog.js';
+import { suggestOptimalAssignments, getAvailableCapacity } from './resourceOptimizer.js';
+import {
+  startOfDay,
+  addDays,
+  loadAbsences,
+  calculateWorkingHeadroom,
+  checkCapacityForRange,
+  formatCapacityError
+} from './capacityEngine.js';
+
+/**
+ * Workload Rebalancer
+ * Proposes concrete moves that bring an overloaded engineer back under a
+ * target utilization, and applies the moves a manager accepts in one transaction.
+ * Load is measured like the capacity check does: per working day, against the
+ * target less that day's partial time off.
+ */
+
+// Utilization above this is flagged as overloaded on the manager dashboard
+export const TARGET_UTILIZATION = 80;
+
+// Smallest allocation a reduction is allowed to leave on an assignment
+const MIN_ALLOCATION = 10;
+
+// Minimum skill match for a colleague to be proposed as a replacement
+const MIN_REASSIGN_SKILL_MATCH = 50;
+
+const PRIORITY_ORDER = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const snapshot = (assignment, engineer) => ({
+  engineerId: engineer._id,
+  engineerName: engineer.name,
+  allocationPercentage: assignment.allocationPercentage,
+  startDate: assignment.startDate,
+  endDate: assignment.endDate
+});
+
+const buildMove = (type, assignment, engineer, after, relief, reason) => ({
+  id: `${type}:${assignment._id}`,
+  type,
+  assignmentId: assignment._id,
+  projectId: assignment.projectId?._id || assignment.projectId,
+  projectName: assignment.projectId?.name || 'Unknown Project',
+  projectPriority: assignment.projectId?.priority || 'medium',
+  role: assignment.role,
+  before: snapshot(assignment, engineer),
+  after: { ...snapshot(assignment, engineer), ...after },
+  relief,
+  reason,
+  recommended: false
+});
+
+// Hand the assignment to the best-ranked colleague who has room for it over its whole date range
+const proposeReassignment = async (assignment, engineer) => {
+  const suggestions = await suggestOptimalAssignments(assignment.projectId._id, {
+    startDate: assignment.startDate,
+    endDate: assignment.endDate
+  });
+
+  const teamMembers = await Assignment.find({
+    projectId: assignment.projectId._id,
+    status: 'active'
+  }).distinct('engineerId');
+  const onProject = new Set(teamMembers.map(id => id.toString()));
+
+  const candidates = suggestions.topSuggestions.filter(suggestion =>
+    suggestion.engineer._id.toString() !== engineer._id.toString() &&
+    !onProject.has(suggestion.engineer._id.toString()) &&
+    suggestion.skillMatch >= MIN_REASSIGN_SKILL_MATCH &&
+    suggestion.availableCapacity >= assignment.allocationPercentage
+  );
+
+  for (const candidate of candidates) {
+    const colleague = await User.findById(candidate.engineer._id);
+    const capacityCheck = await checkCapacityForRange(colleague, {
+      startDate: assignment.startDate,
+      endDate: assignment.endDate,
+      allocationPercentage: assignment.allocationPercentage
+    });
+
+    if (capacityCheck.fits) {
+      return buildMove(
+        'reassign',
+        assignment,
+        engineer,
+        { engineerId: colleague._id, engineerName: colleague.name },
+        assignment.allocationPercentage,
+        `${colleague.name} has ${candidate.skillMatch}% skill match and ${capacityCheck.available}% free capacity for the whole assignment`
+      );
+    }
+  }
+
+  return null;
+};
+
+// Cut the allocation by just enough to remove the excess
+const proposeReduction = (assignment, engineer, excess) => {
+  const newAllocation = Math.max(MIN_ALLOCATION, assignment.allocationPercentage - excess);
+  const relief = assignment.allocationPercentage - newAllocation;
+  if (relief <= 0) return null;
+
+  return buildMove(
+    'reduce-allocation',
+    assignment,
+    engineer,
+    { allocationPercentage: newAllocation },
+    relief,
+    `Reduce allocation from ${assignment.allocationPercentage}% to ${newAllocation}%`
+  );
+};
+
+// Push a not-yet-started assignment to the first date where it fits under the target
+const proposeDateShift = (assignment, engineer, otherAssignments, absences, target, today) => {
+  const start = startOfDay(assignment.startDate);
+  if (start <= today) return null;
+
+  const durationDays = Math.round((startOfDay(assignment.endDate) - start) / DAY_MS);
+  const candidateStarts = otherAssignments
+    .map(other => addDays(startOfDay(other.endDate), 1))
+    .filter(day => day > start)
+    .sort((a, b) => a - b);
+
+  for (const newStart of candidateStarts) {
+    const newEnd = addDays(newStart, durationDays);
+    const headroom = calculateWorkingHeadroom(otherAssignments, absences, newStart, newEnd, target);
+    if (assignment.allocationPercentage <= headroom.available) {
+      return buildMove(
+        'shift-dates',
+        assignment,
+        engineer,
+        { startDate: newStart, endDate: newEnd },
+        assignment.allocationPercentage,
+        `Start on ${newStart.toISOString().split('T')[0]}, after overlapping work finishes`
+      );
+    }
+  }
+
+  return null;
+};
+
+// Build a reviewable plan of moves for an overloaded engineer
+export const generateRebalancePlan = async (engineerId, targetUtilization = TARGET_UTILIZATION) => {
+  const engineer = await User.findOne({ _id: engineerId, role: 'engineer' });
+  if (!engineer) throw new AppError('Engineer not found', 404);
+
+  const today = startOfDay(new Date());
+  const maxCapacity = engineer.maxCapacity || 100;
+  const target = Math.min(maxCapacity, targetUtilization);
+
+  const assignments = await Assignment.find({
+    engineerId,
+    status: 'active',
+    endDate: { $gte: today }
+  }).populate('projectId', 'name priority status requiredSkills teamSize');
+
+  const horizonEnd = assignments.reduce(
+    (latest, assignment) => (assignment.endDate > latest ? assignment.endDate : latest),
+    today
+  );
+  // Shifted assignments can end up to their own length past the horizon
+  const longestDays = assignments.reduce(
+    (longest, assignment) => Math.max(longest, Math.round((startOfDay(assignment.endDate) - startOfDay(assignment.startDate)) / DAY_MS)),
+    0
+  );
+  const absences = (await loadAbsences([engineer], today, addDays(horizonEnd, longestDays + 1)))
+    .get(engineer._id.toString());
+
+  // The working day furthest over the target, after that day's time off
+  const peak = calculateWorkingHeadroom(assignments, absences, today, horizonEnd, target);
+  const excess = Math.max(0, -peak.available);
+  const availableCapacity = await getAvailableCapacity(engineer, { startDate: today, endDate: horizonEnd });
+
+  const plan = {
+    engineer: {
+      _id: engineer._id,
+      name: engineer.name,
+      maxCapacity
+    },
+    targetUtilization: target,
+    targetOnPeakDate: peak.capacity,
+    peakAllocation: peak.allocation,
+    peakDate: peak.date,
+    excess,
+    availableCapacity,
+    moves: [],
+    projectedPeakAllocation: peak.allocation
+  };
+
+  if (excess === 0) return plan;
+
+  // Only assignments running on the peak day can relieve it; lowest priority projects go first
+  const contributing = assignments
+    .filter(assignment => startOfDay(assignment.startDate) <= peak.date && startOfDay(assignment.endDate) >= peak.date)
+    .sort((a, b) =>
+      (PRIORITY_ORDER[a.projectId?.priority] ?? 1) - (PRIORITY_ORDER[b.projectId?.priority] ?? 1) ||
+      b.allocationPercentage - a.allocationPercentage
+    );
+
+  let remaining = excess;
+
+  for (const assignment of contributing) {
+    const others = assignments.filter(other => other._id.toString() !== assignment._id.toString());
+    const options = [
+      await proposeReassignment(assignment, engineer),
+      proposeDateShift(assignment, engineer, others, absences, target, today),
+      proposeReduction(assignment, engineer, remaining)
+    ].filter(Boolean);
+
+    // Recommend the first option (reassign, then shift, then reduce) while excess remains
+    if (remaining > 0 && options.length > 0) {
+      options[0].recommended = true;
+      remaining -= Math.min(remaining, options[0].relief);
+    }
+
+    plan.moves.push(...options);
+  }
+
+  plan.projectedPeakAllocation = peak.allocation - (excess - remaining);
+  return plan;
+};
+
+// Apply a single move inside the surrounding transaction
+const applyMove = async (engineerId, move, session, context) => {
+  const assignment = await Assignment.findOne({
+    _id: move.assignmentId,
+    engineerId,
+    status: 'active'
+  }).session(session);
+
+  if (!assignment) {
+    throw new AppError(`Assignment ${move.assignmentId} is no longer active for this engineer`, 409);
+  }
+
+  const before = assignment.toObject();
+
+  if (move.type === 'reassign') {
+    const colleague = await User.findOne({
+      _id: move.after.engineerId,
+      role: 'engineer'
+    }).session(session);
+    if (!colleague) throw new AppError('Replacement engineer not found', 404);
+
+    const alreadyOnProject = await Assignment.exists({
+      engineerId: colleague._id,
+      projectId: assignment.projectId,
+      status: 'active'
+    }).session(session);
+    if (alreadyOnProject) {
+      throw new AppError(`${colleague.name} is already assigned to this project`, 400);
+    }
+
+    const capacityCheck = await checkCapacityForRange(colleague, {
+      startDate: assignment.startDate,
+      endDate: assignment.endDate,
+      allocationPercentage: assignment.allocationPercentage,
+      session
+    });
+    if (!capacityCheck.fits) {
+      throw new AppError(`${colleague.name}: ${formatCapacityError(capacityCheck)}`, 400);
+    }
+
+    assignment.engineerId = colleague._id;
+  }
+
+  if (move.type === 'reduce-allocation') {
+    const allocation = move.after.allocationPercentage;
+    if (allocation >= assignment.allocationPercentage) {
+      throw new AppError('A reduction must lower the current allocation', 400);
+    }
+    assignment.allocationPercentage = allocation;
+  }
+
+  if (move.type === 'shift-dates') {
+    const startDate = new Date(move.after.startDate);
+    const endDate = new Date(move.after.endDate);
+    if (endDate <= startDate) {
+      throw new AppError('End date must be after start date', 400);
+    }
+
+    const engineer = await User.findById(engineerId).session(session);
+    const capacityCheck = await checkCapacityForRange(engineer, {
+      startDate,
+      endDate,
+      allocationPercentage: assignment.allocationPercentage,
+      excludeAssignmentId: assignment._id,
+      session
+    });
+    if (!capacityCheck.fits) {
+      throw new AppError(formatCapacityError(capacityCheck), 400);
+    }
+
+    assignment.startDate = startDate;
+    assignment.endDate = endDate;
+  }
+
+  await assignment.save({ session });
+
+  await recordAudit({
+    entityType: 'Assignment',
+    action: 'update',
+    before,
+    after: assignment,
+    context: { ...context, reason: context.reason || `Workload rebalance (${move.type})` },
+    session
+  });
+
+  return { moveId: move.id, type: move.type, assignmentId: assignment._id };
+};
+
+// Apply the selected moves all-or-nothing
+export const applyRebalanceMoves = async (engineerId, moves, context = {}) => {
+  const assignmentIds = moves.map(move => move.assignmentId.toString());
+  if (new Set(assignmentIds).size !== assignmentIds.length) {
+    throw new AppError('Only one move per assignment can be applied', 400);
+  }
+
+  const session = await mongoose.startSession();
+  try {
+    let applied = [];
+    await session.withTransaction(async () => {
+      applied = [];
+      for (const move of moves) {
+        applied.push(await applyMove(engineerId, move, session, context));
+      }
+    });
+    return applied;
+  } finally {
+    await session.endSession();
+  }
+};
+
+export default {
+  generateRebalancePlan,
+  applyRebalanceMoves
+};
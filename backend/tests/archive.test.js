@@ -0,0 +1,132 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import { User, Project, Assignment, AuditLog, TimeOff, Holiday, Webhook } from '../src/models/index.js';
+import { archiveWithAssignments, restoreWithAssignments } from '../src/utils/archive.js';
+import { mockQuery } from './helpers.js';
+
+const manager = new mongoose.Types.ObjectId();
+
+const engineer = (name) => new User({
+  name,
+  email: `${name.toLowerCase()}@example.com`,
+  role: 'engineer',
+  department: 'Platform',
+  maxCapacity: 100
+});
+
+const assignment = (engineerDoc, project, startDate, endDate, allocationPercentage, extra = {}) => new Assignment({
+  engineerId: engineerDoc._id,
+  projectId: project._id,
+  startDate: new Date(startDate),
+  endDate: new Date(endDate),
+  allocationPercentage,
+  role: 'developer',
+  status: 'active',
+  ...extra
+});
+
+let ada;
+let grace;
+let project;
+let projectAssignments;
+let otherWork;
+let session;
+
+beforeEach(() => {
+  ada = engineer('Ada');
+  grace = engineer('Grace');
+  project = new Project({
+    name: 'Apollo',
+    description: 'Moon landing software',
+    startDate: new Date('2026-03-02'),
+    endDate: new Date('2026-06-30'),
+    teamSize: 4,
+    status: 'active',
+    managerId: manager
+  });
+  projectAssignments = [];
+  otherWork = [];
+  session = {
+    withTransaction: async (work) => work(),
+    endSession: jest.fn(async () => {})
+  };
+
+  jest.spyOn(mongoose, 'startSession').mockResolvedValue(session);
+
+  // The project's own assignments, or the engineer's other work when checking capacity
+  jest.spyOn(Assignment, 'find').mockImplementation((filter) =>
+    mockQuery(filter.startDate ? otherWork.filter(work => String(work.engineerId) === String(filter.engineerId)) : projectAssignments));
+  jest.spyOn(Assignment, 'exists').mockReturnValue(mockQuery(null));
+  jest.spyOn(Assignment, 'countDocuments').mockReturnValue(mockQuery(0));
+  jest.spyOn(Assignment.prototype, 'save').mockImplementation(async function () { return this; });
+  jest.spyOn(Project.prototype, 'save').mockImplementation(async function () { return this; });
+  jest.spyOn(Project, 'findById').mockImplementation(() => mockQuery(project));
+
+  // Grace is archived, so the default query no longer finds her
+  jest.spyOn(User, 'findOne').mockImplementation(({ _id }) => mockQuery(String(_id) === String(ada._id) ? ada : null));
+  jest.spyOn(User, 'find').mockReturnValue(mockQuery([]));
+
+  jest.spyOn(TimeOff, 'findApproved').mockReturnValue(mockQuery([]));
+  jest.spyOn(Holiday, 'find').mockReturnValue(mockQuery([]));
+  jest.spyOn(AuditLog, 'create').mockImplementation(async ([entry]) => [entry]);
+  jest.spyOn(Webhook, 'exists').mockReturnValue(mockQuery(null));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('archiveWithAssignments', () => {
+  it('archives a project and its assignments together, with one timestamp', async () => {
+    projectAssignments = [
+      assignment(ada, project, '2026-03-02', '2026-03-06', 50),
+      assignment(grace, project, '2026-03-02', '2026-03-06', 50)
+    ];
+
+    const result = await archiveWithAssignments('Project', project, { actor: manager });
+
+    expect(result.archivedAssignments).toBe(2);
+    expect(Assignment.find).toHaveBeenCalledWith({ projectId: project._id });
+    expect(project.archivedAt).toBeInstanceOf(Date);
+    expect(String(project.archivedBy)).toBe(String(manager));
+    projectAssignments.forEach(work => {
+      expect(work.archivedAt).toEqual(project.archivedAt);
+    });
+
+    const audited = AuditLog.create.mock.calls.map(([[entry]]) => [entry.entityType, entry.action]);
+    expect(audited).toEqual([
+      ['Assignment', 'archive'],
+      ['Assignment', 'archive'],
+      ['Project', 'archive']
+    ]);
+    expect(session.endSession).toHaveBeenCalled();
+  });
+});
+
+describe('restoreWithAssignments', () => {
+  it('restores the assignments archived with the project that still fit and reports the rest', async () => {
+    const archivedAt = new Date('2026-02-20T10:00:00Z');
+    project.archivedAt = archivedAt;
+    const fits = assignment(ada, project, '2026-03-02', '2026-03-06', 50, { archivedAt });
+    const engineerArchived = assignment(grace, project, '2026-03-02', '2026-03-06', 50, { archivedAt });
+    const overbooked = assignment(ada, project, '2026-03-09', '2026-03-13', 50, { archivedAt });
+    projectAssignments = [fits, engineerArchived, overbooked];
+
+    // Ada took other work for the second week while the project was archived
+    otherWork = [assignment(ada, new Project({ name: 'Gemini' }), '2026-03-09', '2026-03-13', 70)];
+
+    const result = await restoreWithAssignments('Project', project, { actor: manager });
+
+    expect(Assignment.find).toHaveBeenCalledWith({ projectId: project._id, archivedAt });
+    expect(project.archivedAt).toBeNull();
+    expect(result.restoredAssignments).toBe(1);
+    expect(fits.archivedAt).toBeNull();
+    expect(engineerArchived.archivedAt).toEqual(archivedAt);
+    expect(overbooked.archivedAt).toEqual(archivedAt);
+
+    expect(result.skippedAssignments).toEqual([
+      expect.objectContaining({ assignmentId: engineerArchived._id, reason: expect.stringContaining('Restore the engineer first') }),
+      expect.objectContaining({ assignmentId: overbooked._id, reason: expect.stringContaining('Engineer capacity exceeded') })
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { jest } from '@jest/globals';
+import request from 'supertest';
+import { User, Session } from '../src/models/index.js';
+import calendarRoutes from '../src/routes/calendar.js';
+import { mockQuery, createApp, bearerFor } from './helpers.js';
+
+const app = createApp('/api/calendar', calendarRoutes);
+
+let engineer;
+
+beforeAll(() => {
+  process.env.JWT_SECRET = 'test-access-secret';
+});
+
+beforeEach(() => {
+  process.env.PUBLIC_API_URL = 'https://api.erms.example.com/api/';
+  engineer = new User({ name: 'Erin', email: 'erin@example.com', role: 'engineer', calendarFeedKey: 'feed-key' });
+
+  jest.spyOn(Session, 'exists').mockResolvedValue(true);
+  jest.spyOn(User, 'findById').mockImplementation(() => mockQuery(engineer));
+  jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+});
+
+afterEach(() => {
+  delete process.env.PUBLIC_API_URL;
+  process.env.NODE_ENV = 'test';
+  jest.restoreAllMocks();
+});
+
+const subscription = (headers = {}) =>
+  request(app).get('/api/calendar/subscription').set('Authorization', bearerFor(engineer)).set(headers);
+
+describe('GET /api/calendar/subscription', () => {
+  it('builds feed links from the configured API address, whatever host the request names', async () => {
+    const response = await subscription({ Host: 'attacker.example', 'X-Forwarded-Host': 'attacker.example' });
+
+    expect(response.status).toBe(200);
+    const { url, webcalUrl } = response.body.data.feed;
+    expect(url).toMatch(/^https:\/\/api\.erms\.example\.com\/api\/calendar\/feed\/[^/]+\.ics$/);
+    expect(webcalUrl).toBe(url.replace(/^https:/, 'webcal:'));
+  });
+
+  it('refuses to hand out links in production until the API address is configured', async () => {
+    delete process.env.PUBLIC_API_URL;
+    process.env.NODE_ENV = 'production';
+
+    const response = await subscription();
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toMatch(/PUBLIC_API_URL must be set/);
+  });
+});
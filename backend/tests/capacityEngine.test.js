@@ -0,0 +1,216 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import { Assignment, TimeOff, Holiday } from '../src/models/index.js';
+import { checkCapacityForRange, formatCapacityError, buildCapacityTimeline, getCurrentCapacity } from '../src/utils/capacityEngine.js';
+import { mockQuery } from './helpers.js';
+
+// 2026-03-02 is a Monday, so the range below is one working week plus its weekend
+const MONDAY = '2026-03-02';
+const TUESDAY = '2026-03-03';
+const WEDNESDAY = '2026-03-04';
+const FRIDAY = '2026-03-06';
+const SATURDAY = '2026-03-07';
+const SUNDAY = '2026-03-08';
+
+const engineer = {
+  _id: new mongoose.Types.ObjectId(),
+  maxCapacity: 100,
+  department: 'Platform',
+  location: 'Amsterdam'
+};
+
+const assignment = (startDate, endDate, allocationPercentage) => ({
+  _id: new mongoose.Types.ObjectId(),
+  engineerId: engineer._id,
+  startDate: new Date(startDate),
+  endDate: new Date(endDate),
+  allocationPercentage,
+  status: 'active'
+});
+
+const halfDayOff = (day) => ({
+  engineerId: engineer._id,
+  startDate: new Date(day),
+  endDate: new Date(day),
+  percentage: 50,
+  type: 'personal'
+});
+
+const givenCalendar = ({ assignments = [], timeOff = [], holidays = [] }) => {
+  jest.spyOn(Assignment, 'find').mockReturnValue(mockQuery(assignments));
+  jest.spyOn(TimeOff, 'findApproved').mockReturnValue(mockQuery(timeOff));
+  jest.spyOn(Holiday, 'find').mockReturnValue(mockQuery(holidays));
+};
+
+const check = (allocationPercentage, options = {}) =>
+  checkCapacityForRange(engineer, { startDate: MONDAY, endDate: SUNDAY, allocationPercentage, ...options });
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('checkCapacityForRange', () => {
+  it('fits an allocation that tops an engineer up to their maximum', async () => {
+    givenCalendar({ assignments: [assignment(MONDAY, FRIDAY, 60)] });
+
+    const result = await check(40);
+
+    expect(result).toMatchObject({ fits: true, peakAllocation: 60, requested: 40, maxCapacity: 100, available: 40 });
+  });
+
+  it('refuses an allocation that overflows the busiest day and reports that day', async () => {
+    givenCalendar({
+      assignments: [assignment(MONDAY, FRIDAY, 30), assignment(WEDNESDAY, FRIDAY, 60)]
+    });
+
+    const result = await check(20);
+
+    expect(result.fits).toBe(false);
+    expect(result.peakAllocation).toBe(90);
+    expect(result.peakDate.toISOString()).toBe(`${WEDNESDAY}T00:00:00.000Z`);
+    expect(formatCapacityError(result)).toBe(
+      `Engineer capacity exceeded. Peak allocation in this period: 90% (on ${WEDNESDAY}), Requested: 20%, Maximum: 100%`
+    );
+  });
+
+  it('checks against the engineer\'s own maximum capacity', async () => {
+    givenCalendar({ assignments: [assignment(MONDAY, FRIDAY, 50)] });
+
+    const result = await checkCapacityForRange(
+      { ...engineer, maxCapacity: 80 },
+      { startDate: MONDAY, endDate: FRIDAY, allocationPercentage: 40 }
+    );
+
+    expect(result).toMatchObject({ fits: false, maxCapacity: 80, available: 30 });
+  });
+
+  it('ignores load that only falls on the weekend', async () => {
+    givenCalendar({ assignments: [assignment(SATURDAY, SUNDAY, 100)] });
+
+    const result = await check(100);
+
+    expect(result).toMatchObject({ fits: true, peakAllocation: 0 });
+  });
+
+  it('does not lower capacity for a public holiday inside the range', async () => {
+    givenCalendar({
+      assignments: [assignment(MONDAY, FRIDAY, 70)],
+      holidays: [new Holiday({ name: 'Founders Day', date: new Date(WEDNESDAY) })]
+    });
+
+    const result = await check(30);
+
+    expect(result).toMatchObject({ fits: true, peakAllocation: 70, timeOffDays: 1 });
+  });
+
+  it('does not count load on a full day off as overallocation', async () => {
+    givenCalendar({
+      assignments: [assignment(MONDAY, FRIDAY, 20), assignment(WEDNESDAY, WEDNESDAY, 90)],
+      timeOff: [{
+        engineerId: engineer._id,
+        startDate: new Date(WEDNESDAY),
+        endDate: new Date(WEDNESDAY),
+        percentage: 100,
+        type: 'vacation'
+      }]
+    });
+
+    const result = await check(50);
+
+    expect(result).toMatchObject({ fits: true, peakAllocation: 20, timeOffDays: 1 });
+  });
+
+  it('lowers the capacity of a partial day off by the time taken', async () => {
+    givenCalendar({
+      assignments: [assignment(MONDAY, FRIDAY, 60)],
+      timeOff: [halfDayOff(WEDNESDAY)]
+    });
+
+    const result = await check(40);
+
+    expect(result).toMatchObject({
+      fits: false,
+      peakAllocation: 60,
+      capacityOnPeakDate: 50,
+      available: 0,
+      timeOffDays: 0.5
+    });
+    expect(result.peakDate.toISOString()).toBe(`${WEDNESDAY}T00:00:00.000Z`);
+    expect(formatCapacityError(result)).toBe(
+      `Engineer capacity exceeded. Peak allocation in this period: 60% (on ${WEDNESDAY}), Requested: 40%, ` +
+      'Maximum: 50% that day after time off (100% normally)'
+    );
+  });
+
+  it('fits an allocation that leaves room on a partial day off', async () => {
+    givenCalendar({
+      assignments: [assignment(MONDAY, FRIDAY, 30)],
+      timeOff: [halfDayOff(WEDNESDAY)]
+    });
+
+    const result = await check(20);
+
+    expect(result).toMatchObject({ fits: true, available: 20 });
+  });
+
+  it('leaves out the assignment being edited', async () => {
+    givenCalendar({});
+    const excludeAssignmentId = new mongoose.Types.ObjectId();
+
+    await check(50, { excludeAssignmentId });
+
+    expect(Assignment.find).toHaveBeenCalledWith(expect.objectContaining({
+      engineerId: engineer._id,
+      status: 'active',
+      _id: { $ne: excludeAssignmentId }
+    }));
+  });
+});
+
+describe('buildCapacityTimeline', () => {
+  const timeline = (assignments, absences) =>
+    buildCapacityTimeline(engineer, assignments, { startDate: MONDAY, endDate: SUNDAY, granularity: 'day' }, absences);
+
+  const day = (result, date) => result.periods.find(period => period.periodStart.toISOString().startsWith(date));
+
+  it('flags a partial day off that carries more load than is left of it', () => {
+    const result = timeline([assignment(MONDAY, FRIDAY, 70)], [halfDayOff(WEDNESDAY)]);
+
+    expect(day(result, WEDNESDAY)).toMatchObject({ capacity: 50, isOverallocated: true, available: 0 });
+    expect(day(result, TUESDAY)).toMatchObject({ capacity: 100, isOverallocated: false, available: 30 });
+    expect(result.summary).toMatchObject({ overallocatedPeriods: 1, minimumAvailable: 0 });
+  });
+
+  it('never flags a full day off or the weekend', () => {
+    const fullDayOff = { ...halfDayOff(WEDNESDAY), percentage: 100 };
+    const result = timeline([assignment(MONDAY, SUNDAY, 100)], [fullDayOff]);
+
+    expect(day(result, WEDNESDAY)).toMatchObject({ capacity: 0, isOverallocated: false });
+    expect(day(result, SATURDAY).isOverallocated).toBe(false);
+    expect(result.summary.overallocatedPeriods).toBe(0);
+  });
+});
+
+describe('getCurrentCapacity', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(`${MONDAY}T09:30:00Z`), doNotFake: ['nextTick', 'setImmediate'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('measures the busiest working day of the coming week and ignores work that has ended', async () => {
+    givenCalendar({
+      assignments: [
+        assignment('2026-02-02', '2026-02-27', 50),
+        assignment(MONDAY, FRIDAY, 60),
+        assignment(WEDNESDAY, WEDNESDAY, 30)
+      ]
+    });
+
+    const current = await getCurrentCapacity([engineer]);
+
+    expect(current.get(engineer._id.toString())).toEqual({ currentUtilization: 90, availableCapacity: 10 });
+  });
+});
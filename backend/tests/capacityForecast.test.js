@@ -0,0 +1,71 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import { User, Assignment, TimeOff, Holiday } from '../src/models/index.js';
+import { generateCapacityForecast } from '../src/utils/resourceOptimizer.js';
+import { mockQuery } from './helpers.js';
+
+// The forecast starts today; 2026-03-02 is a Monday
+const MONDAY = '2026-03-02';
+const WEDNESDAY = '2026-03-04';
+const THURSDAY = '2026-03-05';
+const FRIDAY = '2026-03-06';
+const SATURDAY = '2026-03-07';
+
+const engineer = (name) => ({ _id: new mongoose.Types.ObjectId(), name, department: 'Platform', maxCapacity: 100 });
+
+const assignment = (engineerId, startDate, endDate, allocationPercentage) => ({
+  _id: new mongoose.Types.ObjectId(),
+  engineerId,
+  startDate: new Date(startDate),
+  endDate: new Date(endDate),
+  allocationPercentage,
+  projectId: { name: 'Apollo' }
+});
+
+const dayOff = (engineerId, day, percentage) => ({
+  engineerId,
+  startDate: new Date(day),
+  endDate: new Date(day),
+  percentage,
+  type: 'vacation'
+});
+
+const ada = engineer('Ada');
+const grace = engineer('Grace');
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date(`${MONDAY}T09:00:00Z`), doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+
+  jest.spyOn(User, 'find').mockReturnValue(mockQuery([ada, grace]));
+  jest.spyOn(Assignment, 'find').mockReturnValue(mockQuery([
+    assignment(ada._id, MONDAY, FRIDAY, 60),
+    assignment(ada._id, SATURDAY, SATURDAY, 100),
+    assignment(grace._id, MONDAY, FRIDAY, 20),
+    assignment(grace._id, THURSDAY, THURSDAY, 90)
+  ]));
+  jest.spyOn(TimeOff, 'findApproved').mockReturnValue(mockQuery([
+    dayOff(ada._id, WEDNESDAY, 50),
+    dayOff(grace._id, THURSDAY, 100)
+  ]));
+  jest.spyOn(Holiday, 'find').mockReturnValue(mockQuery([]));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('generateCapacityForecast', () => {
+  it('measures load and room left on working days, less time off', async () => {
+    const { forecast } = await generateCapacityForecast(1);
+    const [week] = forecast;
+    const byName = Object.fromEntries(week.engineers.map(entry => [entry.engineerName, entry]));
+
+    // Weekend work is not load; half a day off leaves 50% on Wednesday against 60% assigned
+    expect(byName.Ada).toMatchObject({ allocated: 60, capacity: 90, available: 0, isOverallocated: true, timeOffDays: 0.5 });
+    // Load on a full day off is not counted, and the day off is not overallocation
+    expect(byName.Grace).toMatchObject({ allocated: 20, capacity: 80, available: 80, isOverallocated: false, timeOffDays: 1 });
+
+    expect(week).toMatchObject({ totalAllocated: 80, totalCapacity: 170, totalAvailable: 80, overallocatedEngineers: 1 });
+  });
+});
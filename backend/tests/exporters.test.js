@@ -0,0 +1,77 @@
+import { jest } from '@jest/globals';
+import request from 'supertest';
+import { User, Session } from '../src/models/index.js';
+import exportRoutes from '../src/routes/exports.js';
+import { renderReport } from '../src/utils/exporters.js';
+import { mockQuery, createApp, bearerFor } from './helpers.js';
+
+const app = createApp('/api/exports', exportRoutes);
+
+const manager = new User({ name: 'Rita', email: 'rita@example.com', role: 'resource-manager' });
+
+const report = (rows) => ({
+  startDate: new Date('2026-03-01'),
+  endDate: new Date('2026-03-31'),
+  generatedAt: new Date('2026-03-02T09:00:00Z'),
+  sections: [{
+    name: 'Assignments',
+    columns: [
+      { header: 'Engineer', key: 'engineer' },
+      { header: 'Notes', key: 'notes' },
+      { header: 'Available', key: 'available', type: 'number' }
+    ],
+    rows
+  }]
+});
+
+const csvRows = async (rows) => {
+  const { body } = await renderReport(report(rows), 'csv');
+  return body.toString('utf8').replace(/^\uFEFF/, '').trim().split('\r\n').slice(1);
+};
+
+describe('renderReport csv', () => {
+  it('keeps spreadsheets from running text cells as formulas', async () => {
+    const lines = await csvRows([
+      { engineer: '=HYPERLINK("https://evil.example","Ada")', notes: '+1 day', available: 20 },
+      { engineer: '@SUM(A1)', notes: '-10 cut', available: -15 },
+      { engineer: '\tGrace', notes: '\rleading return', available: 0 }
+    ]);
+
+    expect(lines).toEqual([
+      `"'=HYPERLINK(""https://evil.example"",""Ada"")",'+1 day,20`,
+      `'@SUM(A1),'-10 cut,-15`,
+      `'\tGrace,"'\rleading return",0`
+    ]);
+  });
+
+  it('leaves ordinary text alone', async () => {
+    expect(await csvRows([{ engineer: 'Ada Lovelace', notes: 'Pairs with Grace', available: 40 }]))
+      .toEqual(['Ada Lovelace,Pairs with Grace,40']);
+  });
+});
+
+describe('GET /api/exports/:report', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-access-secret';
+  });
+
+  beforeEach(() => {
+    jest.spyOn(Session, 'exists').mockResolvedValue(true);
+    jest.spyOn(User, 'findById').mockReturnValue(mockQuery(manager));
+    jest.spyOn(User, 'find');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses periods longer than a capacity timeline', async () => {
+    const response = await request(app)
+      .get('/api/exports/utilization?startDate=2024-01-01&endDate=2026-03-31')
+      .set('Authorization', bearerFor(manager));
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Export period cannot exceed 731 days');
+    expect(User.find).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,48 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { generateTokens } from '../src/middleware/auth.js';
+import errorHandler from '../src/middleware/errorHandler.js';
+
+/**
+ * Test helpers
+ * Tests run without a database: model methods are replaced with jest spies
+ * that resolve to plain fixtures, and routers are mounted on a bare app.
+ */
+
+// A stand-in for a Mongoose query: chainable like one and awaitable for `result`
+export const mockQuery = (result) => {
+  const query = {
+    select: () => query,
+    setOptions: () => query,
+    session: () => query,
+    populate: () => query,
+    sort: () => query,
+    lean: () => query,
+    then: (resolve, reject) => Promise.resolve(result).then(resolve, reject)
+  };
+  return query;
+};
+
+// An app serving one router the way src/index.js mounts it
+export const createApp = (path, router) => {
+  const app = express();
+  app.use(express.json());
+  app.use(path, router);
+  app.use(errorHandler);
+  return app;
+};
+
+// Authorization header for a user on a new session; Session.exists must be stubbed to accept it
+export const bearerFor = (user) => {
+  const { accessToken } = generateTokens(user, {
+    sessionId: new mongoose.Types.ObjectId(),
+    tokenId: 'test-token'
+  });
+  return `Bearer ${accessToken}`;
+};
+
+export default {
+  mockQuery,
+  createApp,
+  bearerFor
+};
@@ -0,0 +1,78 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import { User, Invitation } from '../src/models/index.js';
+import { runImport } from '../src/utils/importer.js';
+import { mockQuery } from './helpers.js';
+
+const manager = new mongoose.Types.ObjectId();
+
+const rows = [
+  { name: 'Ada Lovelace', email: 'Ada@Example.com', department: 'Platform', seniority: 'Mid', maxCapacity: '80%' },
+  { name: 'Grace Hopper', email: 'grace@example.com', department: 'Platform', password: 'Sup3rSecret' },
+  { name: 'Ada Again', email: 'ada@example.com', department: 'Platform' },
+  { name: 'No Team', email: 'noteam@example.com' }
+];
+
+let session;
+let saved;
+
+beforeAll(() => {
+  process.env.JWT_SECRET = 'test-access-secret';
+});
+
+beforeEach(() => {
+  saved = [];
+  session = {
+    withTransaction: async (work) => work(),
+    abortTransaction: jest.fn(async () => {}),
+    endSession: jest.fn(async () => {})
+  };
+
+  jest.spyOn(mongoose, 'startSession').mockResolvedValue(session);
+  jest.spyOn(User, 'exists').mockReturnValue(mockQuery(null));
+  jest.spyOn(User, 'create');
+  jest.spyOn(Invitation, 'updateMany').mockReturnValue(mockQuery({ modifiedCount: 0 }));
+  jest.spyOn(Invitation.prototype, 'save').mockImplementation(async function () {
+    saved.push(this);
+    return this;
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('runImport engineers', () => {
+  it('invites engineers with an invite link each instead of creating accounts', async () => {
+    const result = await runImport('engineers', rows, { context: { actor: manager } });
+
+    expect(User.create).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ total: 4, valid: 2, invalid: 1, duplicates: 1, created: 2 });
+    expect(result.rows.map(row => row.status)).toEqual(['valid', 'valid', 'duplicate', 'invalid']);
+
+    expect(saved).toHaveLength(2);
+    expect(saved[0]).toMatchObject({
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      role: 'engineer',
+      status: 'pending',
+      invitedBy: manager,
+      profile: { department: 'Platform', seniority: 'mid', maxCapacity: 80 }
+    });
+    expect(saved[1].profile).toMatchObject({ seniority: 'junior', maxCapacity: 100 });
+    expect(saved[1].toObject()).not.toHaveProperty('password');
+
+    saved.forEach((invitation, index) => {
+      expect(result.rows[index].inviteUrl).toContain(String(invitation._id));
+    });
+    expect(result.rows[2]).not.toHaveProperty('inviteUrl');
+  });
+
+  it('returns no invite links from a dry run', async () => {
+    const result = await runImport('engineers', rows.slice(0, 2), { dryRun: true, context: { actor: manager } });
+
+    expect(session.abortTransaction).toHaveBeenCalled();
+    expect(result).toMatchObject({ valid: 2, created: 0 });
+    expect(result.rows.every(row => row.inviteUrl === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { jest } from '@jest/globals';
+import { registerMailTransport, sendMail } from '../src/utils/mailer.js';
+
+const message = { to: 'ada@example.com', subject: 'Reset your password', text: 'https://erms.example.com/reset-password?token=secret' };
+
+const env = { NODE_ENV: process.env.NODE_ENV, MAIL_TRANSPORT: process.env.MAIL_TRANSPORT };
+
+afterEach(() => {
+  Object.entries(env).forEach(([key, value]) => {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  });
+  jest.restoreAllMocks();
+});
+
+describe('sendMail', () => {
+  it('prints messages by default outside production', async () => {
+    delete process.env.MAIL_TRANSPORT;
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await sendMail(message);
+
+    expect(log).toHaveBeenCalledWith(expect.stringContaining(message.text));
+  });
+
+  it('refuses to send in production without a transport', async () => {
+    process.env.NODE_ENV = 'production';
+    delete process.env.MAIL_TRANSPORT;
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await expect(sendMail(message)).rejects.toThrow('MAIL_TRANSPORT must name a registered mail provider in production');
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('refuses the development transports in production', async () => {
+    process.env.NODE_ENV = 'production';
+    process.env.MAIL_TRANSPORT = 'console';
+
+    await expect(sendMail(message)).rejects.toThrow('cannot be used in production');
+  });
+
+  it('sends through a registered provider in production', async () => {
+    process.env.NODE_ENV = 'production';
+    process.env.MAIL_TRANSPORT = 'provider';
+    const send = jest.fn(async () => {});
+    registerMailTransport('provider', send);
+
+    await sendMail(message);
+
+    expect(send).toHaveBeenCalledWith(message);
+  });
+});
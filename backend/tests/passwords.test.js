@@ -0,0 +1,222 @@
+import { jest } from '@jest/globals';
+import bcrypt from 'bcryptjs';
+import request from 'supertest';
+import { User, Session, AuditLog } from '../src/models/index.js';
+import { MAX_FAILED_LOGINS } from '../src/utils/passwords.js';
+import { registerMailTransport } from '../src/utils/mailer.js';
+import authRoutes from '../src/routes/auth.js';
+import { mockQuery, createApp } from './helpers.js';
+
+// The password reset limiter allows 10 requests per IP, shared by every test in this file
+const app = createApp('/api/auth', authRoutes);
+
+const PASSWORD = 'correct-horse-42';
+const NEW_PASSWORD = 'battery-staple-77';
+
+let user;
+let mails;
+
+// Apply an update document the way MongoDB would, for the operators the auth code uses
+const applyUpdate = (doc, update) => {
+  for (const [key, value] of Object.entries(update)) {
+    if (key === '$unset') {
+      Object.keys(value).forEach(field => { doc[field] = undefined; });
+    } else if (key === '$inc') {
+      Object.entries(value).forEach(([field, amount]) => { doc[field] = (doc[field] || 0) + amount; });
+    } else {
+      doc[key] = value;
+    }
+  }
+};
+
+const matchesUser = (filter) =>
+  Object.entries(filter).every(([key, value]) => String(user[key]) === String(value));
+
+beforeAll(async () => {
+  process.env.JWT_SECRET = 'test-access-secret';
+  process.env.APP_URL = 'https://erms.example.com';
+  process.env.MAIL_TRANSPORT = 'test';
+  registerMailTransport('test', async (message) => {
+    mails.push(message);
+  });
+});
+
+beforeEach(async () => {
+  mails = [];
+  user = new User({
+    name: 'Grace Hopper',
+    email: 'grace@example.com',
+    password: await bcrypt.hash(PASSWORD, 4),
+    role: 'engineer',
+    department: 'Platform'
+  });
+
+  jest.spyOn(User, 'findOne').mockImplementation((filter) =>
+    mockQuery(filter.email === user.email ? user : null));
+  jest.spyOn(User, 'findById').mockImplementation((id) =>
+    mockQuery(String(id) === String(user._id) ? user : null));
+  jest.spyOn(User, 'findOneAndUpdate').mockImplementation(async (filter, update) => {
+    if (!matchesUser(filter)) return null;
+    applyUpdate(user, update);
+    return user;
+  });
+  jest.spyOn(User, 'updateOne').mockImplementation(async (filter, update) => {
+    if (!matchesUser(filter)) return { modifiedCount: 0 };
+    applyUpdate(user, update);
+    return { modifiedCount: 1 };
+  });
+  jest.spyOn(User.prototype, 'save').mockImplementation(async function () {
+    if (this.isModified('password')) {
+      this.password = await bcrypt.hash(this.password, 4);
+    }
+    return this;
+  });
+
+  jest.spyOn(Session.prototype, 'save').mockImplementation(async function () {
+    return this;
+  });
+  jest.spyOn(Session, 'updateMany').mockResolvedValue({ modifiedCount: 2 });
+  jest.spyOn(AuditLog, 'create').mockImplementation(async ([entry]) => [entry]);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const login = (password) => request(app).post('/api/auth/login').send({ email: user.email, password });
+
+const requestReset = async (email = user.email) => {
+  const response = await request(app).post('/api/auth/forgot-password').send({ email });
+  const link = mails.at(-1)?.text.match(/https:\/\/\S+/)?.[0];
+  return { response, token: link && new URL(link).searchParams.get('token') };
+};
+
+const resetPassword = (token, password = NEW_PASSWORD) =>
+  request(app).post('/api/auth/reset-password').send({ token, password });
+
+describe('account lockout', () => {
+  it(`locks the account on the ${MAX_FAILED_LOGINS}th wrong password in a row`, async () => {
+    for (let attempt = 1; attempt < MAX_FAILED_LOGINS; attempt++) {
+      const response = await login('wrong-password-1');
+      expect(response.status).toBe(401);
+    }
+
+    const response = await login('wrong-password-1');
+
+    expect(response.status).toBe(401);
+    expect(user.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('refuses the right password while the account is locked, like a wrong one', async () => {
+    user.lockedUntil = new Date(Date.now() + 10 * 60 * 1000);
+
+    const locked = await login(PASSWORD);
+    const wrong = await request(app).post('/api/auth/login').send({ email: user.email, password: 'wrong-password-1' });
+
+    expect(locked.status).toBe(401);
+    expect(locked.body).toEqual(wrong.body);
+  });
+
+  it('answers an unknown email like a wrong password, after checking a password hash', async () => {
+    const compare = jest.spyOn(bcrypt, 'compare');
+
+    const unknown = await request(app).post('/api/auth/login').send({ email: 'nobody@example.com', password: PASSWORD });
+    const wrong = await login('wrong-password-1');
+
+    expect(unknown.status).toBe(401);
+    expect(unknown.body).toEqual(wrong.body);
+    expect(compare).toHaveBeenCalledTimes(2);
+    expect(compare.mock.calls[0][1]).toMatch(/^\$2a\$12\$/);
+  });
+
+  it('signs in again once the lock has passed', async () => {
+    user.lockedUntil = new Date(Date.now() - 1000);
+
+    const response = await login(PASSWORD);
+
+    expect(response.status).toBe(200);
+    expect(user.lockedUntil).toBeUndefined();
+  });
+
+  it('starts the count over after a successful sign-in', async () => {
+    await login('wrong-password-1');
+    await login('wrong-password-1');
+    expect(user.failedLoginAttempts).toBe(2);
+
+    const response = await login(PASSWORD);
+
+    expect(response.status).toBe(200);
+    expect(user.failedLoginAttempts).toBe(0);
+  });
+});
+
+describe('password reset', () => {
+  it('emails a link that sets a new password, signs out every session and lifts the lockout', async () => {
+    user.lockedUntil = new Date(Date.now() + 10 * 60 * 1000);
+
+    const { response, token } = await requestReset();
+    expect(response.status).toBe(200);
+    expect(mails).toHaveLength(1);
+    expect(mails[0].to).toBe(user.email);
+    expect(mails[0].text).toContain('https://erms.example.com/reset-password?token=');
+
+    const preview = await request(app).get(`/api/auth/password-reset/${encodeURIComponent(token)}`);
+    expect(preview.status).toBe(200);
+    expect(preview.body.data.reset.email).toBe(user.email);
+
+    const reset = await resetPassword(token);
+    expect(reset.status).toBe(200);
+    expect(Session.updateMany).toHaveBeenCalledWith(
+      { user: user._id, revokedAt: null },
+      expect.objectContaining({ revokedReason: 'password-changed' })
+    );
+
+    expect((await login(PASSWORD)).status).toBe(401);
+    expect((await login(NEW_PASSWORD)).status).toBe(200);
+
+    // The link is used up
+    expect((await resetPassword(token, 'another-pass-99')).status).toBe(404);
+  });
+
+  it('answers the same for an unknown email and sends nothing', async () => {
+    const known = await requestReset();
+    mails = [];
+
+    const { response } = await requestReset('nobody@example.com');
+
+    expect(response.status).toBe(200);
+    expect(response.body.message).toBe(known.response.body.message);
+    expect(mails).toHaveLength(0);
+  });
+
+  it('refuses a link with a forged signature', async () => {
+    const { token } = await requestReset();
+    const [userId] = token.split('.');
+
+    const response = await resetPassword(`${userId}.forged-signature`);
+
+    expect(response.status).toBe(404);
+    expect(user.passwordResetKey).toBeDefined();
+  });
+
+  it('keeps the link usable when the new password is too weak', async () => {
+    const { token } = await requestReset();
+
+    const response = await resetPassword(token, 'password123');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('This password is too common. Choose another one');
+    expect(user.passwordResetKey).toBeDefined();
+  });
+
+  it('serves the password policy new passwords are checked against', async () => {
+    const response = await request(app).get('/api/auth/password-policy');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.policy).toMatchObject({
+      minLength: 8,
+      hint: 'At least 8 characters, with a letter and a number'
+    });
+    expect(response.body.data.policy.commonPasswords).toContain('password123');
+  });
+});
@@ -0,0 +1,118 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { User, Project, Assignment, Session, Skill, TimeOff, Holiday } from '../src/models/index.js';
+import assignmentRoutes from '../src/routes/assignments.js';
+import { generateRebalancePlan } from '../src/utils/workloadRebalancer.js';
+import { mockQuery, createApp, bearerFor } from './helpers.js';
+
+const app = createApp('/api/assignments', assignmentRoutes);
+
+// Plans start today; 2026-03-02 is a Monday
+const MONDAY = '2026-03-02';
+const WEDNESDAY = '2026-03-04';
+const FRIDAY = '2026-03-06';
+const SATURDAY = '2026-03-07';
+const SUNDAY = '2026-03-08';
+const NEXT_FRIDAY = '2026-03-13';
+
+const manager = new User({ name: 'Rita', email: 'rita@example.com', role: 'resource-manager' });
+const ada = new User({ name: 'Ada', email: 'ada@example.com', role: 'engineer', department: 'Platform', maxCapacity: 100 });
+const project = new Project({ name: 'Apollo', teamSize: 2, priority: 'medium', status: 'active' });
+
+const assignment = (startDate, endDate, allocationPercentage) => new Assignment({
+  engineerId: ada._id,
+  projectId: project._id,
+  startDate: new Date(startDate),
+  endDate: new Date(endDate),
+  allocationPercentage,
+  role: 'developer',
+  status: 'active'
+});
+
+let assignments;
+let timeOff;
+
+beforeAll(() => {
+  process.env.JWT_SECRET = 'test-access-secret';
+});
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date(`${MONDAY}T09:00:00Z`), doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+  assignments = [];
+  timeOff = [];
+
+  jest.spyOn(Session, 'exists').mockResolvedValue(true);
+  jest.spyOn(User, 'findById').mockImplementation((id) => mockQuery(String(id) === String(manager._id) ? manager : null));
+  jest.spyOn(User, 'findOne').mockReturnValue(mockQuery(ada));
+  // No colleagues to hand work to
+  jest.spyOn(User, 'find').mockReturnValue(mockQuery([]));
+  jest.spyOn(Project, 'findById').mockReturnValue(mockQuery(project));
+  jest.spyOn(Skill, 'find').mockReturnValue(mockQuery([]));
+
+  jest.spyOn(Assignment, 'find').mockImplementation(() => {
+    const query = mockQuery(assignments.map(work => Object.assign(work, { projectId: project })));
+    query.distinct = async () => [];
+    return query;
+  });
+  jest.spyOn(TimeOff, 'findApproved').mockImplementation(() => mockQuery(timeOff));
+  jest.spyOn(Holiday, 'find').mockReturnValue(mockQuery([]));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('generateRebalancePlan', () => {
+  it('does not count weekend overlap as overload', async () => {
+    // 90% only on the weekend the two assignments share
+    assignments = [
+      assignment(MONDAY, SUNDAY, 60),
+      assignment(SATURDAY, NEXT_FRIDAY, 30)
+    ];
+
+    const plan = await generateRebalancePlan(ada._id, 80);
+
+    expect(plan).toMatchObject({ targetUtilization: 80, excess: 0, moves: [] });
+  });
+
+  it('lowers the target on days with partial time off', async () => {
+    assignments = [assignment(MONDAY, FRIDAY, 60)];
+    timeOff = [{ engineerId: ada._id, startDate: new Date(WEDNESDAY), endDate: new Date(WEDNESDAY), percentage: 50, type: 'personal' }];
+
+    const plan = await generateRebalancePlan(ada._id, 80);
+
+    expect(plan).toMatchObject({ peakAllocation: 60, targetOnPeakDate: 40, excess: 20, projectedPeakAllocation: 40 });
+    expect(plan.peakDate).toEqual(new Date(WEDNESDAY));
+    expect(plan.moves).toEqual([
+      expect.objectContaining({ type: 'reduce-allocation', relief: 20, recommended: true })
+    ]);
+  });
+});
+
+describe('GET /api/assignments/rebalance/:engineerId', () => {
+  const getPlan = (path) => request(app).get(path).set('Authorization', bearerFor(manager));
+
+  it('rejects a malformed engineer ID', async () => {
+    const response = await getPlan('/api/assignments/rebalance/not-an-id');
+
+    expect(response.status).toBe(400);
+    expect(User.findOne).not.toHaveBeenCalled();
+  });
+
+  it('rejects a target utilization outside 1-100', async () => {
+    for (const target of ['0', '150', '12.5', 'high']) {
+      const response = await getPlan(`/api/assignments/rebalance/${ada._id}?targetUtilization=${target}`);
+      expect(response.status).toBe(400);
+    }
+    expect(User.findOne).not.toHaveBeenCalled();
+  });
+
+  it('returns the plan for a valid request', async () => {
+    const response = await getPlan(`/api/assignments/rebalance/${ada._id}?targetUtilization=70`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.plan).toMatchObject({ targetUtilization: 70, excess: 0 });
+  });
+});
@@ -0,0 +1,128 @@
+import { jest } from '@jest/globals';
+import request from 'supertest';
+import { Session, User } from '../src/models/index.js';
+import { startSession, ROTATION_GRACE_MS } from '../src/utils/sessions.js';
+import authRoutes from '../src/routes/auth.js';
+import { mockQuery, createApp } from './helpers.js';
+
+const app = createApp('/api/auth', authRoutes);
+const device = { get: () => 'jest', ip: '127.0.0.1' };
+
+const user = new User({
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  role: 'engineer',
+  department: 'Platform'
+});
+
+// Sessions by ID, updated the way the MongoDB queries in utils/sessions.js would
+let sessions;
+
+const stored = (id) => sessions.get(String(id));
+
+const matches = (session, filter) =>
+  Boolean(session) && Object.entries(filter).every(([key, value]) => {
+    if (key === '_id') return true;
+    if (value === null) return session[key] == null;
+    return String(session[key]) === String(value);
+  });
+
+beforeAll(() => {
+  process.env.JWT_SECRET = 'test-access-secret';
+  process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+});
+
+beforeEach(() => {
+  sessions = new Map();
+
+  jest.spyOn(Session.prototype, 'save').mockImplementation(function () {
+    sessions.set(String(this._id), this.toObject());
+    return Promise.resolve(this);
+  });
+  jest.spyOn(Session, 'findById').mockImplementation((id) => mockQuery(stored(id) ?? null));
+  jest.spyOn(Session, 'updateOne').mockImplementation(async (filter, update) => {
+    const session = stored(filter._id);
+    if (!matches(session, filter)) return { modifiedCount: 0 };
+    Object.assign(session, update);
+    return { modifiedCount: 1 };
+  });
+  jest.spyOn(Session, 'findOneAndUpdate').mockImplementation(async (filter, update) => {
+    const session = stored(filter._id);
+    if (!matches(session, filter)) return null;
+    const before = { ...session };
+    Object.assign(session, update);
+    return before;
+  });
+  jest.spyOn(User, 'findById').mockReturnValue(mockQuery(user));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const refresh = (refreshToken) => request(app).post('/api/auth/refresh-token').send({ refreshToken });
+
+const onlySession = () => [...sessions.values()][0];
+
+describe('refresh token rotation', () => {
+  it('exchanges a refresh token for a new pair on the same session', async () => {
+    const first = await startSession(user, device);
+
+    const response = await refresh(first.refreshToken);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.refreshToken).toBeDefined();
+    expect(response.body.data.refreshToken).not.toBe(first.refreshToken);
+    expect(sessions.size).toBe(1);
+
+    const next = await refresh(response.body.data.refreshToken);
+    expect(next.status).toBe(200);
+  });
+
+  it('tells a tab that refreshed at the same moment to use the newest tokens', async () => {
+    const first = await startSession(user, device);
+    await refresh(first.refreshToken);
+
+    const response = await refresh(first.refreshToken);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('SESSION_ROTATED');
+    expect(onlySession().revokedAt).toBeUndefined();
+  });
+
+  it('revokes the session when a replaced refresh token is used again after the grace period', async () => {
+    const first = await startSession(user, device);
+    const second = await refresh(first.refreshToken);
+    onlySession().rotatedAt = new Date(Date.now() - ROTATION_GRACE_MS - 1000);
+
+    const replay = await refresh(first.refreshToken);
+
+    expect(replay.status).toBe(401);
+    expect(replay.body.code).toBe('SESSION_REVOKED');
+    expect(onlySession()).toMatchObject({ revokedReason: 'reuse-detected' });
+
+    // The device holding the newest token is signed out as well
+    const newest = await refresh(second.body.data.refreshToken);
+    expect(newest.status).toBe(401);
+    expect(newest.body.code).toBe('SESSION_REVOKED');
+  });
+
+  it('revokes the session when a token older than the last one is replayed', async () => {
+    const first = await startSession(user, device);
+    const second = await refresh(first.refreshToken);
+    await refresh(second.body.data.refreshToken);
+
+    const replay = await refresh(first.refreshToken);
+
+    expect(replay.status).toBe(401);
+    expect(replay.body.code).toBe('SESSION_REVOKED');
+    expect(onlySession()).toMatchObject({ revokedReason: 'reuse-detected' });
+  });
+
+  it('refuses a refresh token that was not signed by the server', async () => {
+    const response = await refresh('not-a-token');
+
+    expect(response.status).toBe(401);
+    expect(sessions.size).toBe(0);
+  });
+});
@@ -0,0 +1,99 @@
+import { jest } from '@jest/globals';
+import request from 'supertest';
+import { User, Session, AuditLog } from '../src/models/index.js';
+import userRoutes from '../src/routes/users.js';
+import { mockQuery, createApp, bearerFor } from './helpers.js';
+
+const app = createApp('/api/users', userRoutes);
+
+const account = (role, name) => new User({
+  name,
+  email: `${name.toLowerCase()}@example.com`,
+  role,
+  ...(role === 'engineer' && { department: 'Platform', seniority: 'mid', maxCapacity: 100 })
+});
+
+let users;
+
+const byId = (id) => Object.values(users).find(user => String(user._id) === String(id)) ?? null;
+
+beforeAll(() => {
+  process.env.JWT_SECRET = 'test-access-secret';
+});
+
+beforeEach(() => {
+  users = {
+    admin: account('admin', 'Alice'),
+    manager: account('resource-manager', 'Rita'),
+    projectManager: account('project-manager', 'Paul'),
+    engineer: account('engineer', 'Erin'),
+    colleague: account('engineer', 'Carl')
+  };
+
+  jest.spyOn(Session, 'exists').mockResolvedValue(true);
+  jest.spyOn(User, 'findById').mockImplementation((id) => mockQuery(byId(id)));
+  jest.spyOn(User, 'findByIdAndUpdate').mockImplementation((id, update) =>
+    mockQuery(new User({ ...byId(id).toObject(), ...update })));
+  jest.spyOn(AuditLog, 'create').mockImplementation(async ([entry]) => [entry]);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const update = (caller, target, body) =>
+  request(app).put(`/api/users/${target._id}`).set('Authorization', bearerFor(caller)).send(body);
+
+describe('PUT /api/users/:id', () => {
+  it('lets a resource manager edit an engineer', async () => {
+    const response = await update(users.manager, users.engineer, { maxCapacity: 80 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.engineer.maxCapacity).toBe(80);
+  });
+
+  it('keeps a resource manager away from admin and manager accounts', async () => {
+    const admin = await update(users.manager, users.admin, { name: 'Mallory' });
+    const projectManager = await update(users.manager, users.projectManager, { name: 'Mallory' });
+
+    expect(admin.status).toBe(403);
+    expect(projectManager.status).toBe(403);
+    expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('only lets an admin change an email address', async () => {
+    const byManager = await update(users.manager, users.engineer, { email: 'mallory@example.com' });
+    const byAdmin = await update(users.admin, users.engineer, { email: 'erin.new@example.com' });
+
+    expect(byManager.status).toBe(403);
+    expect(byAdmin.status).toBe(200);
+    expect(byAdmin.body.data.engineer.email).toBe('erin.new@example.com');
+  });
+
+  it('accepts an unchanged email from a resource manager', async () => {
+    const response = await update(users.manager, users.engineer, { email: users.engineer.email, name: 'Erin B' });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('lets an admin edit another manager', async () => {
+    const response = await update(users.admin, users.manager, { name: 'Rita M' });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('limits engineers to their own profile fields', async () => {
+    const own = await update(users.engineer, users.engineer, { location: 'Lisbon', hourlyRate: 500 });
+    const other = await update(users.engineer, users.colleague, { location: 'Lisbon' });
+
+    expect(own.status).toBe(200);
+    expect(User.findByIdAndUpdate).toHaveBeenCalledWith(users.engineer._id.toString(), { location: 'Lisbon' }, expect.anything());
+    expect(other.status).toBe(403);
+  });
+
+  it('refuses role changes through a profile update', async () => {
+    const response = await update(users.admin, users.engineer, { role: 'admin' });
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,145 @@
+import { jest } from '@jest/globals';
+import dns from 'dns';
+import http from 'http';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { Webhook, WebhookDelivery } from '../src/models/index.js';
+import webhookRoutes from '../src/routes/webhooks.js';
+import { checkWebhookUrl, sendDelivery } from '../src/utils/webhooks.js';
+import { mockQuery, createApp } from './helpers.js';
+
+const app = createApp('/api/webhooks', webhookRoutes);
+
+const resolvesTo = (...addresses) => addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+
+// A queued delivery to a webhook at `url`, with saves stubbed out
+const queuedDelivery = (url) => {
+  const webhook = new Webhook({ name: 'Receiver', url, events: ['assignment.created'], secret: 'whsec_test' });
+  jest.spyOn(Webhook, 'findById').mockReturnValue(mockQuery(webhook));
+  jest.spyOn(Webhook, 'updateOne').mockResolvedValue({});
+  jest.spyOn(WebhookDelivery.prototype, 'save').mockImplementation(async function () { return this; });
+
+  const _id = new mongoose.Types.ObjectId();
+  return new WebhookDelivery({
+    _id,
+    webhookId: webhook._id,
+    event: 'assignment.created',
+    payload: { id: _id.toString(), event: 'assignment.created', data: {} }
+  });
+};
+
+afterEach(() => {
+  delete process.env.CRON_SECRET;
+  delete process.env.WEBHOOK_ALLOW_LOCAL_URLS;
+  jest.restoreAllMocks();
+});
+
+describe('checkWebhookUrl', () => {
+  it('requires https', async () => {
+    expect(await checkWebhookUrl('http://hooks.example.com/erms')).toBe('Webhook URLs must use https');
+  });
+
+  it('refuses loopback, private and link-local addresses', async () => {
+    for (const url of ['https://127.0.0.1/', 'https://10.1.2.3/', 'https://169.254.169.254/latest/meta-data', 'https://[::1]/', 'https://[::ffff:192.168.0.1]/']) {
+      expect(await checkWebhookUrl(url)).toMatch(/must point at a public address/);
+    }
+  });
+
+  it('refuses names that resolve to an internal address', async () => {
+    jest.spyOn(dns.promises, 'lookup').mockResolvedValue(resolvesTo('93.184.216.34', '172.16.0.10'));
+
+    expect(await checkWebhookUrl('https://hooks.example.com/erms')).toMatch(/must point at a public address/);
+  });
+
+  it('accepts public https URLs', async () => {
+    jest.spyOn(dns.promises, 'lookup').mockResolvedValue(resolvesTo('93.184.216.34'));
+
+    expect(await checkWebhookUrl('https://hooks.example.com/erms')).toBeNull();
+  });
+});
+
+describe('sendDelivery', () => {
+  it('fails without connecting when the URL points at an internal address', async () => {
+    const delivery = queuedDelivery('https://169.254.169.254/latest/meta-data');
+    const lookup = jest.spyOn(dns, 'lookup');
+
+    await sendDelivery(delivery);
+
+    expect(lookup).not.toHaveBeenCalled();
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, responseStatus: null });
+    expect(delivery.error).toMatch(/must point at a public address/);
+  });
+
+  it('checks the address again when connecting', async () => {
+    const delivery = queuedDelivery('https://hooks.example.com/erms');
+    // Public when the URL is checked, loopback by the time the socket connects
+    jest.spyOn(dns.promises, 'lookup').mockResolvedValue(resolvesTo('93.184.216.34'));
+    jest.spyOn(dns, 'lookup').mockImplementation((hostname, options, callback) => callback(null, resolvesTo('127.0.0.1')));
+
+    await sendDelivery(delivery, { retry: false });
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.error).toBe('hooks.example.com resolves to 127.0.0.1, which is not a public address');
+  });
+
+  it('keeps only the status code and the start of the answer', async () => {
+    process.env.WEBHOOK_ALLOW_LOCAL_URLS = 'true';
+    const server = http.createServer((req, res) => {
+      req.resume();
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('x'.repeat(5000));
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const delivery = queuedDelivery(`http://127.0.0.1:${server.address().port}/`);
+      await sendDelivery(delivery);
+
+      expect(delivery).toMatchObject({ status: 'pending', responseStatus: 500, error: 'Receiver responded with status 500' });
+      expect(delivery.responseBody).toBe('x'.repeat(200));
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
+describe('GET /api/webhooks/dispatch', () => {
+  beforeEach(() => {
+    jest.spyOn(Webhook, 'exists').mockReturnValue(mockQuery(null));
+    jest.spyOn(WebhookDelivery, 'findOneAndUpdate').mockResolvedValue(null);
+    // The error handler logs refused calls
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('is disabled until CRON_SECRET is set', async () => {
+    const response = await request(app).get('/api/webhooks/dispatch').set('Authorization', 'Bearer ');
+
+    expect(response.status).toBe(503);
+    expect(WebhookDelivery.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('refuses callers without the secret', async () => {
+    process.env.CRON_SECRET = 'cron-secret';
+
+    const missing = await request(app).get('/api/webhooks/dispatch');
+    const wrong = await request(app).get('/api/webhooks/dispatch').set('Authorization', 'Bearer cron-secreT');
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+    expect(WebhookDelivery.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('sends what is due for the scheduler', async () => {
+    process.env.CRON_SECRET = 'cron-secret';
+
+    const response = await request(app).get('/api/webhooks/dispatch').set('Authorization', 'Bearer cron-secret');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual({ sent: 0 });
+    expect(WebhookDelivery.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'pending' }),
+      expect.anything(),
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import http from 'http';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Local stand-in for a webhook receiver. Start the API with WEBHOOK_ALLOW_LOCAL_URLS=true,
+// register http://localhost:<port>/ as a webhook URL, then watch deliveries arrive here. Set WEBHOOK_SECRET to the webhook's secret to check
+// signatures, and FAIL_STATUS (for example 500) to answer with an error and exercise retries.
+const PORT = process.env.WEBHOOK_RECEIVER_PORT || 4400;
+const SECRET = process.env.WEBHOOK_SECRET;
+const FAIL_STATUS = Number(process.env.FAIL_STATUS) || null;
+
+// Signatures older than this are rejected, so a captured delivery cannot be replayed later
+const TOLERANCE_SECONDS = 5 * 60;
+
+const verifySignature = (header, body) => {
+  const parts = Object.fromEntries((header || '').split(',').map(part => part.split('=')));
+  const timestamp = Number(parts.t);
+  if (!timestamp || !parts.v1) return 'missing signature';
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) return 'signature is too old';
+
+  const expected = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+  const valid = expected.length === parts.v1.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+  return valid ? null : 'signature does not match';
+};
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const event = req.headers['x-erms-event'];
+    const delivery = req.headers['x-erms-delivery'];
+    console.log(`\n📨 ${new Date().toISOString()} ${req.method} ${req.url} ${event || ''} ${delivery || ''}`);
+
+    if (SECRET) {
+      const problem = verifySignature(req.headers['x-erms-signature'], body);
+      if (problem) {
+        console.log(`❌ Rejected: ${problem}`);
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({ error: problem }));
+      }
+      console.log('✅ Signature verified');
+    }
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    const status = FAIL_STATUS || 200;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: status < 300 }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🪝 Webhook receiver listening on http://localhost:${PORT}/`);
+  console.log(SECRET ? '🔐 Checking signatures with WEBHOOK_SECRET' : '⚠️  WEBHOOK_SECRET not set; signatures are not checked');
+  if (FAIL_STATUS) console.log(`💥 Answering every delivery with ${FAIL_STATUS}`);
+});
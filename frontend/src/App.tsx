@@ -4,15 +4,34 @@ import { AuthProvider, useAuth } from '@/context/AuthContext';
 import { ToastProvider } from '@/components/ui/toast';
 import Layout from '@/components/Layout';
 import Login from '@/pages/Login';
+import AcceptInvite from '@/pages/AcceptInvite';
+import ResetPassword from '@/pages/ResetPassword';
 import ManagerDashboard from '@/pages/ManagerDashboard';
 import EngineerDashboard from '@/pages/EngineerDashboard';
 import Engineers from '@/pages/Engineers';
 import Projects from '@/pages/Projects';
 import Assignments from '@/pages/Assignments';
+import Timeline from '@/pages/Timeline';
+import Forecast from '@/pages/Forecast';
+import Skills from '@/pages/Skills';
+import SkillGaps from '@/pages/SkillGaps';
+import ProjectHealth from '@/pages/ProjectHealth';
+import Timesheets from '@/pages/Timesheets';
+import Import from '@/pages/Import';
+import Webhooks from '@/pages/Webhooks';
+import Users from '@/pages/Users';
+import Account from '@/pages/Account';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import type { Permission } from '@/types';
 
-const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { isAuthenticated, isLoading } = useAuth();
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  // Any one of these lets the user in; others are sent back to their dashboard
+  permissions?: Permission[];
+}
+
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permissions }) => {
+  const { isAuthenticated, isLoading, hasPermission } = useAuth();
   
   if (isLoading) {
     return (
@@ -22,13 +41,21 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     );
   }
   
-  return isAuthenticated ? <>{children}</> : <Navigate to="/login" />;
+  if (!isAuthenticated) {
+    return <Navigate to="/login" />;
+  }
+
+  if (permissions && !hasPermission(...permissions)) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  return <>{children}</>;
 };
 
 const DashboardRouter: React.FC = () => {
-  const { user } = useAuth();
+  const { hasPermission } = useAuth();
   
-  if (user?.role === 'manager') {
+  if (hasPermission('analytics:read')) {
     return <ManagerDashboard />;
   } else {
     return <EngineerDashboard />;
@@ -43,6 +70,8 @@ function App() {
           <Router>
             <Routes>
               <Route path="/login" element={<Login />} />
+              <Route path="/accept-invite" element={<AcceptInvite />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
               <Route path="/" element={<Navigate to="/dashboard" />} />
               <Route
                 path="/*"
@@ -56,6 +85,16 @@ function App() {
                 <Route path="engineers" element={<Engineers />} />
                 <Route path="projects" element={<Projects />} />
                 <Route path="assignments" element={<Assignments />} />
+                <Route path="timeline" element={<Timeline />} />
+                <Route path="forecast" element={<ProtectedRoute permissions={['analytics:read']}><Forecast /></ProtectedRoute>} />
+                <Route path="skills" element={<ProtectedRoute permissions={['skills:manage']}><Skills /></ProtectedRoute>} />
+                <Route path="skill-gaps" element={<ProtectedRoute permissions={['analytics:read']}><SkillGaps /></ProtectedRoute>} />
+                <Route path="project-health" element={<ProtectedRoute permissions={['analytics:read']}><ProjectHealth /></ProtectedRoute>} />
+                <Route path="timesheets" element={<Timesheets />} />
+                <Route path="import" element={<ProtectedRoute permissions={['import:run']}><Import /></ProtectedRoute>} />
+                <Route path="webhooks" element={<ProtectedRoute permissions={['webhooks:manage']}><Webhooks /></ProtectedRoute>} />
+                <Route path="users" element={<ProtectedRoute permissions={['users:manage-roles']}><Users /></ProtectedRoute>} />
+                <Route path="account" element={<Account />} />
               </Route>
             </Routes>
           </Router>
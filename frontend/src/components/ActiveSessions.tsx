@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Laptop, Loader2, LogOut, MonitorSmartphone, Smartphone } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { authService } from '@/services/authService';
+import { useToast } from '@/components/ui/toast';
+import type { UserSession } from '@/types';
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+// "Chrome on macOS" from a user agent string
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !system) return userAgent.slice(0, 60);
+  return [browser || 'Browser', system].filter(Boolean).join(' on ');
+};
+
+const isMobile = (userAgent?: string) => /Android|iPhone|iPad|Mobile/.test(userAgent || '');
+
+const ActiveSessions: React.FC = () => {
+  const { showToast } = useToast();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await authService.getSessions();
+      if (response.success && response.data) {
+        setSessions(response.data.sessions);
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to load sessions' });
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: UserSession) => {
+    try {
+      setBusyId(session._id);
+      const response = await authService.revokeSession(session._id);
+      if (response.success) {
+        setSessions(prev => prev.filter(item => item._id !== session._id));
+        showToast({ type: 'success', title: 'Signed Out', message: `${describeDevice(session.userAgent)} was signed out` });
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to sign out that device' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('Sign out every other device? They will need to sign in again.')) {
+      return;
+    }
+
+    try {
+      setBusyId('others');
+      const response = await authService.revokeOtherSessions();
+      if (response.success) {
+        setSessions(prev => prev.filter(item => item.current));
+        showToast({ type: 'success', title: 'Signed Out', message: response.message });
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to sign out other devices' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const otherSessions = sessions.filter(session => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MonitorSmartphone className="h-5 w-5 text-blue-600" />
+              Active Sessions
+            </CardTitle>
+            <CardDescription>Devices signed in to your account. Changing your password signs out all the others.</CardDescription>
+          </div>
+          {otherSessions.length > 0 && (
+            <Button variant="outline" onClick={handleRevokeOthers} disabled={busyId !== null}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out Other Devices
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && sessions.length === 0 ? (
+          <div className="flex items-center justify-center py-8 text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading sessions...
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {sessions.map(session => {
+              const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Laptop;
+              return (
+                <div key={session._id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <DeviceIcon className="h-5 w-5 text-gray-400 shrink-0" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900 truncate">{describeDevice(session.userAgent)}</span>
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {session.ip && `${session.ip} · `}
+                        {session.current
+                          ? `signed in ${formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}`
+                          : `last active ${formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevoke(session)}
+                      disabled={busyId !== null}
+                      className="text-red-600 hover:text-red-700 shrink-0"
+                    >
+                      Sign Out
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { History, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { auditService } from '@/services/auditService';
+import type { AuditAction, AuditChange, AuditLogEntry } from '@/types';
+
+interface AuditHistoryProps {
+  projectId?: string;
+  engineerId?: string;
+}
+
+const PAGE_SIZE = 20;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  archive: 'archived',
+  restore: 'restored'
+};
+
+const ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+  archive: 'destructive',
+  restore: 'default'
+};
+
+const OBJECT_ID = /^[0-9a-f]{24}$/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+// allocationPercentage -> Allocation percentage
+const fieldLabel = (field: string) => {
+  const words = field.replace(/Id$/, '').replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string') {
+    if (OBJECT_ID.test(value)) return `#${value.slice(-6)}`;
+    if (ISO_DATE.test(value)) return format(new Date(value), 'MMM d, yyyy');
+    return value;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'none';
+    return value
+      .map(item => (item && typeof item === 'object' && 'skill' in item)
+        ? `${(item as { skill: string }).skill}${'level' in item ? ` (${(item as { level: string }).level})` : ''}`
+        : formatValue(item))
+      .join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const ChangeRow: React.FC<{ change: AuditChange; action: AuditAction }> = ({ change, action }) => (
+  <li className="text-xs text-gray-600">
+    <span className="font-medium text-gray-700">{fieldLabel(change.field)}</span>
+    {change.field === 'password' ? (
+      <span> changed</span>
+    ) : action === 'create' ? (
+      <span>: {formatValue(change.after)}</span>
+    ) : (
+      <span>: <span className="line-through text-gray-400">{formatValue(change.before)}</span> → {formatValue(change.after)}</span>
+    )}
+  </li>
+);
+
+const describeEntry = (entry: AuditLogEntry) => {
+  if (entry.entityType === 'Assignment') {
+    const engineer = entry.engineerId?.name;
+    const project = entry.projectId?.name;
+    return entry.entityName || (engineer && project ? `${engineer} on ${project}` : 'an assignment');
+  }
+  return entry.entityName || entry.entityType.toLowerCase();
+};
+
+// A hard delete clears every field, which says nothing beyond "deleted"
+const visibleChanges = (entry: AuditLogEntry) =>
+  entry.action === 'delete' ? entry.changes.filter(change => change.after !== null) : entry.changes;
+
+const AuditHistory: React.FC<AuditHistoryProps> = ({ projectId, engineerId }) => {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLogs = useCallback(async (pageToLoad: number) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await auditService.getAuditLogs({ projectId, engineerId, page: pageToLoad, limit: PAGE_SIZE });
+
+      if (response.success && response.data) {
+        const { logs: pageLogs, pagination } = response.data;
+        setLogs(prev => pageToLoad === 1 ? pageLogs : [...prev, ...pageLogs]);
+        setPage(pagination.page);
+        setPages(pagination.pages);
+      } else {
+        throw new Error(response.error || 'Failed to load history');
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, engineerId]);
+
+  useEffect(() => {
+    loadLogs(1);
+  }, [loadLogs]);
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!isLoading && logs.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <History className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+        <p className="text-sm">No changes recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+        {logs.map(entry => (
+          <li key={entry._id} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium text-gray-900">{entry.actor?.name || entry.actorName || 'System'}</span>
+              <Badge variant={ACTION_VARIANTS[entry.action]} className="text-xs">{ACTION_LABELS[entry.action]}</Badge>
+              <span className="text-gray-700">{describeEntry(entry)}</span>
+              <span className="text-xs text-gray-500">{format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')}</span>
+            </div>
+            {entry.reason && (
+              <p className="mt-1 text-xs italic text-gray-600">“{entry.reason}”</p>
+            )}
+            {visibleChanges(entry).length > 0 && (
+              <ul className="mt-1 space-y-0.5">
+                {visibleChanges(entry).map(change => (
+                  <ChangeRow key={change.field} change={change} action={entry.action} />
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : page < pages && (
+        <div className="flex justify-center">
+          <Button variant="outline" size="sm" onClick={() => loadLogs(page + 1)}>
+            Load More
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditHistory;
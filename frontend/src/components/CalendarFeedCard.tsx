@@ -0,0 +1,117 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarDays, Copy, Loader2, RefreshCw } from 'lucide-react';
+import { calendarService } from '@/services/calendarService';
+import { useToast } from '@/components/ui/toast';
+import type { CalendarFeed } from '@/types';
+
+const CalendarFeedCard: React.FC = () => {
+  const { showToast } = useToast();
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRotating, setIsRotating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFeed = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await calendarService.getFeed();
+      if (response.success && response.data) {
+        setFeed(response.data.feed);
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load your calendar link');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFeed();
+  }, [loadFeed]);
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      showToast({ type: 'success', title: 'Link Copied', message: 'Paste it into your calendar app as a subscription' });
+    } catch {
+      showToast({ type: 'error', title: 'Copy Failed', message: 'Select the link and copy it manually' });
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!confirm('Create a new calendar link? Calendars subscribed to the current link will stop updating.')) return;
+
+    setIsRotating(true);
+    try {
+      const response = await calendarService.rotateFeed();
+      if (response.success && response.data) {
+        setFeed(response.data.feed);
+        showToast({ type: 'success', title: 'Calendar Link Rotated', message: response.message });
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to rotate the calendar link' });
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5 text-blue-600" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe in Google Calendar, Outlook or Apple Calendar to see your assignments and approved time off.
+          Anyone with the link can read it, so rotate it if it has been shared.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading your calendar link...
+          </p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : feed && (
+          <div className="flex flex-col md:flex-row gap-3">
+            <Input
+              readOnly
+              value={feed.url}
+              onFocus={(e) => e.target.select()}
+              className="font-mono text-xs"
+              aria-label="Calendar feed link"
+            />
+            <div className="flex gap-2 shrink-0">
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button variant="outline" onClick={() => { window.location.href = feed.webcalUrl; }}>
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Subscribe
+              </Button>
+              <Button variant="outline" onClick={handleRotate} disabled={isRotating}>
+                {isRotating ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                Rotate Link
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarFeedCard;
@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { Download, Loader2 } from 'lucide-react';
+import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { exportService } from '@/services/exportService';
+import { engineerService } from '@/services/engineerService';
+import { useToast } from '@/components/ui/toast';
+import type { Assignment, ExportFormat, ExportOptions, ExportReport } from '@/types';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  report: ExportReport;
+  // Start from the filters the page is showing
+  defaults?: Partial<ExportOptions>;
+}
+
+const REPORT_TITLES: Record<ExportReport, string> = {
+  utilization: 'Export Utilization Report',
+  assignments: 'Export Assignments',
+  forecast: 'Export Capacity Forecast'
+};
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  pdf: 'PDF report'
+};
+
+const HORIZONS = [4, 8, 12, 26, 52];
+
+const STATUSES: Assignment['status'][] = ['active', 'paused', 'completed', 'cancelled'];
+
+const selectClass = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background';
+
+const toInputDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  isOpen,
+  onClose,
+  report,
+  defaults
+}) => {
+  const { showToast } = useToast();
+  const [fileFormat, setFileFormat] = useState<ExportFormat>('csv');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [department, setDepartment] = useState('');
+  const [status, setStatus] = useState<Assignment['status'] | ''>('');
+  const [weeks, setWeeks] = useState(12);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // The forecast always covers the weeks ahead; other reports take a date range
+  const hasRange = report !== 'forecast';
+
+  useEffect(() => {
+    if (isOpen) {
+      const now = new Date();
+      setFileFormat(defaults?.format || 'csv');
+      setStartDate(defaults?.startDate || toInputDate(startOfMonth(now)));
+      setEndDate(defaults?.endDate || toInputDate(endOfMonth(now)));
+      setDepartment(defaults?.department || '');
+      setStatus(defaults?.status || '');
+      setWeeks(defaults?.weeks || 12);
+      setError('');
+    }
+  }, [isOpen, defaults]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    engineerService.getAllEngineers({ limit: 100 })
+      .then(response => {
+        const names = (response.data?.engineers || [])
+          .map(engineer => engineer.department)
+          .filter((name): name is string => !!name);
+        setDepartments([...new Set(names)].sort());
+      })
+      .catch(err => console.error('Error loading departments:', err));
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (hasRange && endDate < startDate) {
+      setError('End date must be on or after the start date');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await exportService.downloadReport(report, {
+        format: fileFormat,
+        ...(hasRange ? { startDate, endDate } : { weeks }),
+        ...(department && { department }),
+        ...(report === 'assignments' && status && { status })
+      });
+      showToast({
+        type: 'success',
+        title: 'Export Ready',
+        message: `The ${FORMAT_LABELS[fileFormat]} file has been downloaded`
+      });
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to export the report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={REPORT_TITLES[report]}
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-format">Format</Label>
+            <select
+              id="export-format"
+              className={selectClass}
+              value={fileFormat}
+              onChange={(e) => setFileFormat(e.target.value as ExportFormat)}
+            >
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(option => (
+                <option key={option} value={option}>{FORMAT_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-department">Department</Label>
+            <select
+              id="export-department"
+              className={selectClass}
+              value={department}
+              onChange={(e) => setDepartment(e.target.value)}
+            >
+              <option value="">All Departments</option>
+              {departments.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {hasRange ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-start">From</Label>
+              <Input
+                id="export-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-end">To</Label>
+              <Input
+                id="export-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="export-weeks">Horizon</Label>
+            <select
+              id="export-weeks"
+              className={selectClass}
+              value={weeks}
+              onChange={(e) => setWeeks(parseInt(e.target.value))}
+            >
+              {HORIZONS.map(option => (
+                <option key={option} value={option}>Next {option} weeks</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {report === 'assignments' && (
+          <div className="space-y-2">
+            <Label htmlFor="export-status">Status</Label>
+            <select
+              id="export-status"
+              className={selectClass}
+              value={status}
+              onChange={(e) => setStatus(e.target.value as Assignment['status'] | '')}
+            >
+              <option value="">All Statuses</option>
+              {STATUSES.map(option => (
+                <option key={option} value={option} className="capitalize">{option}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {report === 'utilization' && (
+          <p className="text-sm text-gray-500">
+            Includes team utilization, staffing of each project running in the period and overdue projects.
+          </p>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isExporting} className="min-w-[120px]">
+            {isExporting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Exporting...
+              </>
+            ) : (
+              <>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ExportDialog;
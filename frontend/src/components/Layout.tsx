@@ -2,6 +2,7 @@ import React from 'react';
 import { Outlet, useNavigate, Link, useLocation } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import { Button } from '@/components/ui/button';
+import NotificationBell from '@/components/NotificationBell';
 import { 
   Users, 
   FolderOpen, 
@@ -10,37 +11,71 @@ import {
   Menu,
   X,
   ChevronRight,
-  Bell,
   Search,
   Building2,
-  Users2
+  Users2,
+  GanttChart,
+  TrendingUp,
+  Tags,
+  Target,
+  HeartPulse,
+  ClipboardList,
+  Upload,
+  Webhook,
+  ShieldCheck,
+  KeyRound
 } from 'lucide-react';
 import { useState } from 'react';
+import type { Permission } from '@/types';
+import { ROLE_LABELS } from '@/utils/permissions';
+
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: React.ComponentType<{ className?: string }>;
+  description: string;
+  permissions?: Permission[];
+}
 
 const Layout: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate('/login');
   };
 
-  const navigation = user?.role === 'manager' 
+  const menu: NavigationItem[] = hasPermission('analytics:read')
     ? [
         { name: 'Dashboard', href: '/dashboard', icon: BarChart3, description: 'Overview & Analytics' },
         { name: 'Engineers', href: '/engineers', icon: Users, description: 'Team Management' },
         { name: 'Projects', href: '/projects', icon: FolderOpen, description: 'Project Portfolio' },
-        { name: 'Assignments', href: '/assignments', icon: Users2, description: 'Resource Allocation' }
+        { name: 'Assignments', href: '/assignments', icon: Users2, description: 'Resource Allocation' },
+        { name: 'Timeline', href: '/timeline', icon: GanttChart, description: 'Resource Schedule' },
+        { name: 'Forecast', href: '/forecast', icon: TrendingUp, description: 'Capacity Planning' },
+        { name: 'Skills', href: '/skills', icon: Tags, description: 'Skill Taxonomy', permissions: ['skills:manage'] },
+        { name: 'Skill Gaps', href: '/skill-gaps', icon: Target, description: 'Supply & Demand' },
+        { name: 'Project Health', href: '/project-health', icon: HeartPulse, description: 'Portfolio Status' },
+        { name: 'Timesheets', href: '/timesheets', icon: ClipboardList, description: 'Logged vs. Planned' },
+        { name: 'Import', href: '/import', icon: Upload, description: 'CSV & Excel Files', permissions: ['import:run'] },
+        { name: 'Webhooks', href: '/webhooks', icon: Webhook, description: 'Outbound Integrations', permissions: ['webhooks:manage'] },
+        { name: 'Users & Roles', href: '/users', icon: ShieldCheck, description: 'Access Control', permissions: ['users:manage-roles'] },
+        { name: 'Account', href: '/account', icon: KeyRound, description: 'Password & Sessions' }
       ]
     : [
         { name: 'Dashboard', href: '/dashboard', icon: BarChart3, description: 'My Dashboard' },
         { name: 'My Profile', href: '/engineers', icon: Users, description: 'Profile & Settings' },
-        { name: 'My Assignments', href: '/assignments', icon: Users2, description: 'My Task Assignments' }
+        { name: 'My Assignments', href: '/assignments', icon: Users2, description: 'My Task Assignments' },
+        { name: 'My Timeline', href: '/timeline', icon: GanttChart, description: 'My Schedule' },
+        { name: 'Account', href: '/account', icon: KeyRound, description: 'Password & Sessions' }
       ];
 
+  // Items the user has none of the permissions for are hidden
+  const navigation = menu.filter(item => !item.permissions || hasPermission(...item.permissions));
+
   const getPageTitle = () => {
     const currentPage = navigation.find(item => item.href === location.pathname);
     return currentPage?.name || 'Dashboard';
@@ -125,7 +160,7 @@ const Layout: React.FC = () => {
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium text-slate-900 truncate">{user?.name}</p>
-                    <p className="text-xs text-slate-500 capitalize">{user?.role}</p>
+                    <p className="text-xs text-slate-500">{user && ROLE_LABELS[user.role]}</p>
                   </div>
                 </div>
                 <Button
@@ -199,7 +234,7 @@ const Layout: React.FC = () => {
               </div>
               <div className="flex-1 min-w-0">
                 <p className="text-sm font-medium text-slate-900 truncate">{user?.name}</p>
-                <p className="text-xs text-slate-500 capitalize">{user?.role}</p>
+                <p className="text-xs text-slate-500">{user && ROLE_LABELS[user.role]}</p>
               </div>
             </div>
             <Button
@@ -266,10 +301,7 @@ const Layout: React.FC = () => {
               </div>
 
               {/* Notifications */}
-              <Button variant="ghost" size="sm" className="relative">
-                <Bell className="h-5 w-5 text-slate-600" />
-                <span className="absolute -top-1 -right-1 h-3 w-3 bg-red-500 rounded-full"></span>
-              </Button>
+              <NotificationBell />
 
               {/* Mobile logout */}
               <Button
@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  AlertTriangle,
+  Bell,
+  CalendarClock,
+  FolderOpen,
+  Loader2,
+  Settings,
+  UserMinus,
+  UserPlus,
+  Users2
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import NotificationPreferencesForm from '@/components/forms/NotificationPreferencesForm';
+import { notificationService } from '@/services/notificationService';
+import type { AppNotification, NotificationType } from '@/types';
+
+// How often the unread count is refreshed while the app is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const typeIcons: Record<NotificationType, React.ReactNode> = {
+  'assignment-created': <UserPlus className="h-4 w-4 text-green-600" />,
+  'assignment-updated': <Users2 className="h-4 w-4 text-blue-600" />,
+  'assignment-removed': <UserMinus className="h-4 w-4 text-slate-500" />,
+  'project-status': <FolderOpen className="h-4 w-4 text-purple-600" />,
+  'capacity-overload': <AlertTriangle className="h-4 w-4 text-red-600" />,
+  'assignment-ending': <CalendarClock className="h-4 w-4 text-amber-600" />
+};
+
+const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPreferencesOpen, setIsPreferencesOpen] = useState(false);
+
+  const loadUnreadCount = useCallback(async () => {
+    try {
+      const response = await notificationService.getUnreadCount();
+      if (response.success && response.data) {
+        setUnreadCount(response.data.unreadCount);
+      }
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    }
+  }, []);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await notificationService.getNotifications({ limit: 15 });
+      if (response.success && response.data) {
+        setNotifications(response.data.notifications);
+        setUnreadCount(response.data.unreadCount);
+      }
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUnreadCount();
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') loadUnreadCount();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadUnreadCount]);
+
+  useEffect(() => {
+    if (isOpen) loadNotifications();
+  }, [isOpen, loadNotifications]);
+
+  // Close the menu on a click anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleOpenNotification = async (notification: AppNotification) => {
+    setIsOpen(false);
+    if (!notification.readAt) {
+      setNotifications(prev => prev.map(item =>
+        item._id === notification._id ? { ...item, readAt: new Date().toISOString() } : item
+      ));
+      setUnreadCount(count => Math.max(0, count - 1));
+      notificationService.markAsRead(notification._id)
+        .catch(err => console.error('Error marking notification as read:', err));
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllAsRead();
+      const now = new Date().toISOString();
+      setNotifications(prev => prev.map(item => ({ ...item, readAt: item.readAt || now })));
+      setUnreadCount(0);
+    } catch (err) {
+      console.error('Error marking notifications as read:', err);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="relative"
+        onClick={() => setIsOpen(open => !open)}
+        aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+      >
+        <Bell className="h-5 w-5 text-slate-600" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 bg-red-500 rounded-full text-[10px] leading-[1.1rem] font-semibold text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white border border-slate-200 rounded-xl shadow-xl z-40">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200">
+            <h3 className="text-sm font-semibold text-slate-900">Notifications</h3>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={handleMarkAllRead}
+                disabled={unreadCount === 0}
+              >
+                Mark all read
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => {
+                  setIsOpen(false);
+                  setIsPreferencesOpen(true);
+                }}
+                aria-label="Notification settings"
+              >
+                <Settings className="h-4 w-4 text-slate-500" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading && notifications.length === 0 ? (
+              <p className="flex items-center justify-center py-8 text-sm text-slate-500">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading...
+              </p>
+            ) : notifications.length === 0 ? (
+              <p className="py-8 text-center text-sm text-slate-500">You're all caught up</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification._id}
+                  type="button"
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`w-full flex gap-3 px-4 py-3 text-left border-b border-slate-100 last:border-0 hover:bg-slate-50 ${
+                    notification.readAt ? '' : 'bg-blue-50/60'
+                  }`}
+                >
+                  <span className="mt-0.5 shrink-0">{typeIcons[notification.type]}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className={`block text-sm text-slate-900 ${notification.readAt ? '' : 'font-medium'}`}>
+                      {notification.title}
+                    </span>
+                    {notification.message && (
+                      <span className="block text-xs text-slate-600 mt-0.5">{notification.message}</span>
+                    )}
+                    <span className="block text-xs text-slate-400 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </span>
+                  </span>
+                  {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-blue-600" />}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      <NotificationPreferencesForm
+        isOpen={isPreferencesOpen}
+        onClose={() => setIsPreferencesOpen(false)}
+      />
+    </div>
+  );
+};
+
+export default NotificationBell;
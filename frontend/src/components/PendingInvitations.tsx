@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Copy, Link2, MailPlus, RefreshCw, XCircle } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { invitationService } from '@/services/invitationService';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/components/ui/toast';
+import { ROLE_LABELS } from '@/utils/permissions';
+import type { Invitation } from '@/types';
+
+export interface InviteLink {
+  invitation: Invitation;
+  inviteUrl: string;
+}
+
+interface PendingInvitationsProps {
+  // The link from the latest invite or resend; it is only returned once
+  inviteLink: InviteLink | null;
+  onInviteLink: (link: InviteLink | null) => void;
+}
+
+const PendingInvitations: React.FC<PendingInvitationsProps> = ({ inviteLink, onInviteLink }) => {
+  const { hasPermission } = useAuth();
+  const { showToast } = useToast();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      // Expired invitations stay listed so they can be sent again
+      const [pending, expired] = await Promise.all([
+        invitationService.getInvitations({ status: 'pending', limit: 100 }),
+        invitationService.getInvitations({ status: 'expired', limit: 100 })
+      ]);
+      setInvitations([...(pending.data?.invitations || []), ...(expired.data?.invitations || [])]);
+    } catch (err) {
+      console.error('Error loading invitations:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations, inviteLink]);
+
+  // Resource managers invite engineers; other roles are left to admins
+  const canManage = (invitation: Invitation) =>
+    invitation.role === 'engineer' || hasPermission('users:manage-roles');
+
+  const handleResend = async (invitation: Invitation) => {
+    try {
+      setBusyId(invitation._id);
+      const response = await invitationService.resendInvitation(invitation._id);
+      if (response.success && response.data) {
+        onInviteLink(response.data);
+        showToast({ type: 'success', title: 'New Link Created', message: 'Links sent before no longer work' });
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to resend invitation' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}? Its link will stop working.`)) {
+      return;
+    }
+
+    try {
+      setBusyId(invitation._id);
+      const response = await invitationService.revokeInvitation(invitation._id);
+      if (response.success) {
+        showToast({ type: 'success', title: 'Invitation Revoked', message: response.message });
+        if (inviteLink?.invitation._id === invitation._id) {
+          onInviteLink(null);
+        } else {
+          loadInvitations();
+        }
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to revoke invitation' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!inviteLink) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink.inviteUrl);
+      showToast({ type: 'success', title: 'Link Copied', message: `Send it to ${inviteLink.invitation.email}` });
+    } catch {
+      showToast({ type: 'error', title: 'Copy Failed', message: 'Select the link and copy it manually' });
+    }
+  };
+
+  if (!inviteLink && invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Invite link, shown once after it is created */}
+      {inviteLink && (
+        <Card className="border-amber-300 bg-amber-50">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-start gap-2">
+              <Link2 className="h-5 w-5 text-amber-600 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-medium text-gray-900">Invite link for {inviteLink.invitation.name}</p>
+                <p className="text-sm text-gray-600">
+                  Send it to {inviteLink.invitation.email}; it will not be shown again. It works once and expires{' '}
+                  {format(new Date(inviteLink.invitation.expiresAt), 'MMM d, yyyy')}.
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-col md:flex-row gap-2">
+              <Input
+                readOnly
+                value={inviteLink.inviteUrl}
+                onFocus={(e) => e.target.select()}
+                className="font-mono text-xs bg-white"
+                aria-label="Invite link"
+              />
+              <div className="flex gap-2 shrink-0">
+                <Button variant="outline" onClick={handleCopyLink}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button variant="outline" onClick={() => onInviteLink(null)}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Invitations not yet accepted */}
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MailPlus className="h-5 w-5 text-blue-600" />
+              Pending Invitations
+            </CardTitle>
+            <CardDescription>Resending creates a new link and stops the old one from working</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y divide-gray-200">
+              {invitations.map(invitation => (
+                <div key={invitation._id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 py-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{invitation.name}</span>
+                      <Badge variant="secondary">{ROLE_LABELS[invitation.role]}</Badge>
+                      {invitation.isExpired && <Badge variant="destructive">Expired</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {invitation.email}
+                      {invitation.invitedBy && ` · invited by ${invitation.invitedBy.name}`}
+                      {!invitation.isExpired && ` · expires ${formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  {canManage(invitation) && (
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleResend(invitation)}
+                        disabled={busyId === invitation._id}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        Resend
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevoke(invitation)}
+                        disabled={busyId === invitation._id}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Revoke
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PendingInvitations;
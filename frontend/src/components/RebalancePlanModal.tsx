@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import Modal from '@/components/ui/modal';
+import { Loader2, ArrowRight, UserCheck, CalendarClock, MinusCircle, CheckCircle } from 'lucide-react';
+import { assignmentService } from '@/services/assignmentService';
+import { useToast } from '@/components/ui/toast';
+import type { RebalanceMove, RebalanceMoveType, RebalancePlan } from '@/types';
+
+interface RebalancePlanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApplied: () => void;
+  plan: RebalancePlan | null;
+}
+
+const moveLabels: Record<RebalanceMoveType, { label: string; icon: React.ReactNode }> = {
+  'reassign': { label: 'Reassign', icon: <UserCheck className="h-4 w-4" /> },
+  'shift-dates': { label: 'Shift dates', icon: <CalendarClock className="h-4 w-4" /> },
+  'reduce-allocation': { label: 'Reduce allocation', icon: <MinusCircle className="h-4 w-4" /> }
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+// Render "before → after" for a single field, highlighting it only when it changes
+const DiffValue: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+  if (before === after) {
+    return <span className="text-slate-600">{before}</span>;
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <span className="text-red-600 line-through">{before}</span>
+      <ArrowRight className="h-3 w-3 text-slate-400" />
+      <span className="text-green-700 font-medium">{after}</span>
+    </span>
+  );
+};
+
+const RebalancePlanModal: React.FC<RebalancePlanModalProps> = ({
+  isOpen,
+  onClose,
+  onApplied,
+  plan
+}) => {
+  const { showToast } = useToast();
+  const [selectedMoveIds, setSelectedMoveIds] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    if (plan) {
+      setSelectedMoveIds(new Set(plan.moves.filter(move => move.recommended).map(move => move.id)));
+    }
+  }, [plan]);
+
+  // Only one move per assignment can be applied, so selecting one clears its alternatives
+  const toggleMove = (move: RebalanceMove) => {
+    setSelectedMoveIds(prev => {
+      const next = new Set(prev);
+      if (next.has(move.id)) {
+        next.delete(move.id);
+        return next;
+      }
+
+      plan?.moves
+        .filter(other => other.assignmentId === move.assignmentId)
+        .forEach(other => next.delete(other.id));
+      next.add(move.id);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+
+    const moves = plan.moves.filter(move => selectedMoveIds.has(move.id));
+    try {
+      setIsApplying(true);
+      const response = await assignmentService.applyRebalancePlan(plan.engineer._id, moves);
+      showToast({
+        type: 'success',
+        title: 'Workload Rebalanced',
+        message: response.message || 'Selected moves have been applied'
+      });
+      onApplied();
+    } catch (error: unknown) {
+      console.error('Error applying rebalance plan:', error);
+      showToast({
+        type: 'error',
+        title: 'Rebalancing Failed',
+        message: (error as Error).message || 'No changes were applied. Please try again.'
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (!plan) return null;
+
+  const selectedRelief = plan.moves
+    .filter(move => selectedMoveIds.has(move.id))
+    .reduce((sum, move) => sum + move.relief, 0);
+  const projectedPeak = Math.max(0, plan.peakAllocation - selectedRelief);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Rebalance ${plan.engineer.name}`}
+      size="xl"
+    >
+      <div className="space-y-6">
+        {/* Plan summary */}
+        <div className="grid grid-cols-3 gap-4">
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-xs text-red-700">Peak allocation</p>
+            <p className="text-lg font-semibold text-red-900">{plan.peakAllocation}%</p>
+            <p className="text-xs text-red-600">on {formatDate(plan.peakDate)}</p>
+          </div>
+          <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+            <p className="text-xs text-slate-600">Target</p>
+            <p className="text-lg font-semibold text-slate-900">{plan.targetUtilization}%</p>
+            <p className="text-xs text-slate-500">
+              {plan.targetOnPeakDate < plan.targetUtilization && `${plan.targetOnPeakDate}% that day after time off, `}
+              {plan.excess}% over target
+            </p>
+          </div>
+          <div className={`p-3 rounded-lg border ${projectedPeak <= plan.targetOnPeakDate ? 'bg-green-50 border-green-200' : 'bg-orange-50 border-orange-200'}`}>
+            <p className="text-xs text-slate-600">Projected peak</p>
+            <p className="text-lg font-semibold text-slate-900">{projectedPeak}%</p>
+            <p className="text-xs text-slate-500">with selected moves</p>
+          </div>
+        </div>
+
+        {/* Proposed moves */}
+        {plan.moves.length === 0 ? (
+          <div className="text-center py-8">
+            <CheckCircle className="h-10 w-10 text-green-500 mx-auto mb-3" />
+            <p className="text-sm text-slate-600">
+              {plan.excess === 0
+                ? 'This engineer is within the target utilization. No moves are needed.'
+                : 'No viable moves were found. Consider adding engineers with matching skills.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {plan.moves.map(move => {
+              const isSelected = selectedMoveIds.has(move.id);
+              return (
+                <label
+                  key={move.id}
+                  className={`flex items-start gap-3 p-4 border rounded-lg cursor-pointer transition-colors ${isSelected ? 'border-blue-300 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => toggleMove(move)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        {moveLabels[move.type].icon}
+                        <span className="font-medium text-slate-900">{moveLabels[move.type].label}</span>
+                        <span className="text-sm text-slate-500">· {move.projectName}</span>
+                        <Badge variant="outline" className="capitalize">{move.projectPriority}</Badge>
+                        {move.recommended && <Badge variant="secondary">Recommended</Badge>}
+                      </div>
+                      <span className="text-sm font-medium text-green-700">-{move.relief}%</span>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-sm">
+                      <div>
+                        <p className="text-xs text-slate-500">Engineer</p>
+                        <DiffValue before={move.before.engineerName} after={move.after.engineerName} />
+                      </div>
+                      <div>
+                        <p className="text-xs text-slate-500">Allocation</p>
+                        <DiffValue
+                          before={`${move.before.allocationPercentage}%`}
+                          after={`${move.after.allocationPercentage}%`}
+                        />
+                      </div>
+                      <div>
+                        <p className="text-xs text-slate-500">Dates</p>
+                        <DiffValue
+                          before={`${formatDate(move.before.startDate)} - ${formatDate(move.before.endDate)}`}
+                          after={`${formatDate(move.after.startDate)} - ${formatDate(move.after.endDate)}`}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-slate-500">{move.reason}</p>
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={isApplying}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={isApplying || selectedMoveIds.size === 0}
+            className="min-w-[140px]"
+          >
+            {isApplying ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Applying...
+              </>
+            ) : (
+              `Apply ${selectedMoveIds.size} move${selectedMoveIds.size === 1 ? '' : 's'}`
+            )}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default RebalancePlanModal;
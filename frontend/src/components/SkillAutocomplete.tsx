@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { skillService } from '@/services/skillService';
+import { useDebounce } from '@/hooks/useDebounce';
+import type { SkillDefinition } from '@/types';
+
+interface SkillAutocompleteProps {
+  value: string;
+  // skillId is only set when the user picks a suggestion; typing clears it
+  onChange: (name: string, skillId?: string) => void;
+  onSubmit?: () => void;
+  placeholder?: string;
+}
+
+const SkillAutocomplete: React.FC<SkillAutocompleteProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  placeholder = 'Search skills (e.g., React, Python, AWS)'
+}) => {
+  const [suggestions, setSuggestions] = useState<SkillDefinition[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const debouncedValue = useDebounce(value.trim(), 250);
+
+  useEffect(() => {
+    if (!debouncedValue) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    skillService.getSkills({ search: debouncedValue, limit: 8 })
+      .then(response => {
+        if (!cancelled) {
+          setSuggestions(response.data?.skills || []);
+          setHighlighted(-1);
+        }
+      })
+      .catch(() => {
+        // Free-text entry still works when suggestions cannot be loaded
+        if (!cancelled) setSuggestions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedValue]);
+
+  const selectSkill = (skill: SkillDefinition) => {
+    onChange(skill.name, skill._id);
+    setIsOpen(false);
+    setSuggestions([]);
+  };
+
+  // Alias that matched the search, shown next to the canonical name
+  const getMatchedAlias = (skill: SkillDefinition) => {
+    const search = debouncedValue.toLowerCase();
+    if (skill.name.toLowerCase().includes(search)) return null;
+    return skill.aliases.find(alias => alias.toLowerCase().includes(search)) || null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const showing = isOpen && suggestions.length > 0;
+
+    if (e.key === 'ArrowDown' && showing) {
+      e.preventDefault();
+      setHighlighted(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && showing) {
+      e.preventDefault();
+      setHighlighted(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (showing && highlighted >= 0) {
+        selectSkill(suggestions[highlighted]);
+      } else {
+        onSubmit?.();
+      }
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoComplete="off"
+      />
+      {isOpen && suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 max-h-60 w-full overflow-y-auto rounded-md border border-slate-200 bg-white py-1 shadow-lg">
+          {suggestions.map((skill, index) => {
+            const matchedAlias = getMatchedAlias(skill);
+            return (
+              <li
+                key={skill._id}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectSkill(skill);
+                }}
+                className={`flex cursor-pointer items-center justify-between px-3 py-2 text-sm ${
+                  index === highlighted ? 'bg-slate-100' : 'hover:bg-slate-50'
+                }`}
+              >
+                <span>
+                  {skill.name}
+                  {matchedAlias && (
+                    <span className="ml-1 text-xs text-slate-500">({matchedAlias})</span>
+                  )}
+                </span>
+                <span className="text-xs capitalize text-slate-400">{skill.category}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SkillAutocomplete;
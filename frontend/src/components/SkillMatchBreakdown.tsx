@@ -0,0 +1,50 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import type { SkillMatchItem } from '@/types';
+
+interface SkillMatchBreakdownProps {
+  breakdown: SkillMatchItem[];
+}
+
+const getScoreColor = (score: number) => {
+  if (score >= 100) return 'text-green-600';
+  if (score >= 50) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+// Plain-language reason for each requirement's score
+const describeMatch = (item: SkillMatchItem) => {
+  if (item.matchType === 'missing') return 'No matching or related skill';
+
+  const via = item.matchType === 'related' ? `Related skill ${item.matchedSkill}` : item.matchedSkill;
+  if (!item.levelGap) return `${via} at ${item.engineerLevel}`;
+  return `${via} at ${item.engineerLevel}, ${item.levelGap} level${item.levelGap > 1 ? 's' : ''} below ${item.requiredLevel}`;
+};
+
+const SkillMatchBreakdown: React.FC<SkillMatchBreakdownProps> = ({ breakdown }) => {
+  if (!breakdown.length) {
+    return <p className="text-xs text-gray-500">This project has no skill requirements.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {breakdown.map((item, index) => (
+        <div key={`${item.skill}-${index}`} className="flex items-center justify-between gap-3 text-xs">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="font-medium text-gray-900">{item.skill}</span>
+            <span className="text-gray-500 capitalize">{item.requiredLevel}</span>
+            <Badge variant={item.priority === 'must-have' ? 'destructive' : 'outline'} className="text-[10px] px-1.5 py-0">
+              {item.priority} ×{item.weight}
+            </Badge>
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            <span className="text-gray-600">{describeMatch(item)}</span>
+            <span className={`w-10 text-right font-medium ${getScoreColor(item.score)}`}>{item.score}%</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SkillMatchBreakdown;
@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { Loader2, UserPlus, Users, Sparkles, ChevronDown, ChevronRight } from 'lucide-react';
+import { assignmentService, type CreateAssignmentData } from '@/services/assignmentService';
+import { useToast } from '@/components/ui/toast';
+import SkillMatchBreakdown from '@/components/SkillMatchBreakdown';
+import type { AssignmentSuggestion, ProjectStaffingSuggestions, ProjectWithAssignments } from '@/types';
+
+interface StaffingPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onAssign: (prefill: Partial<CreateAssignmentData>) => void;
+  onStaffed: () => void;
+  project: ProjectWithAssignments | null;
+}
+
+const ROLES: CreateAssignmentData['role'][] = ['developer', 'lead', 'architect', 'tester', 'devops', 'analyst', 'designer'];
+
+const toIsoDay = (date: Date) => date.toISOString().split('T')[0];
+
+// Assignments start no earlier than today, even for projects that are already under way
+const getDefaultDates = (project: ProjectWithAssignments) => {
+  const today = new Date();
+  const projectStart = new Date(project.startDate);
+  const start = projectStart > today ? projectStart : today;
+  return {
+    startDate: toIsoDay(start),
+    endDate: toIsoDay(new Date(project.endDate))
+  };
+};
+
+const getMatchColor = (value: number) => {
+  if (value >= 80) return 'text-green-700';
+  if (value >= 50) return 'text-yellow-700';
+  return 'text-red-700';
+};
+
+const StaffingPanel: React.FC<StaffingPanelProps> = ({
+  isOpen,
+  onClose,
+  onAssign,
+  onStaffed,
+  project
+}) => {
+  const { showToast } = useToast();
+  const [suggestions, setSuggestions] = useState<ProjectStaffingSuggestions | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [allocation, setAllocation] = useState(50);
+  const [role, setRole] = useState<CreateAssignmentData['role']>('developer');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [expandedEngineerId, setExpandedEngineerId] = useState<string | null>(null);
+
+  const projectId = project?._id;
+
+  const loadSuggestions = useCallback(async (id: string, dates: { startDate: string; endDate: string }) => {
+    try {
+      setIsLoading(true);
+      const response = await assignmentService.getSuggestions(id, dates);
+      if (response.success && response.data) {
+        setSuggestions(response.data);
+      } else {
+        throw new Error('Failed to load staffing suggestions');
+      }
+    } catch (error) {
+      console.error('Error loading staffing suggestions:', error);
+      setSuggestions(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen && project) {
+      const dates = getDefaultDates(project);
+      setSuggestions(null);
+      setStartDate(dates.startDate);
+      setEndDate(dates.endDate);
+    }
+  }, [isOpen, project]);
+
+  // Availability depends on the dates, so suggestions are ranked again when they change
+  useEffect(() => {
+    if (isOpen && projectId && startDate && endDate && startDate < endDate) {
+      loadSuggestions(projectId, { startDate, endDate });
+    }
+  }, [isOpen, projectId, startDate, endDate, loadSuggestions]);
+
+  if (!project) return null;
+
+  const teamEngineerIds = new Set(
+    (project.assignments || [])
+      .filter(assignment => assignment.status === 'active')
+      .map(assignment => typeof assignment.engineerId === 'object' ? assignment.engineerId._id : assignment.engineerId)
+  );
+  const openSlots = Math.max(0, (project.teamSize || 0) - teamEngineerIds.size);
+  const hasValidDates = !!startDate && !!endDate && new Date(startDate) < new Date(endDate);
+
+  // The optimal team may include people already staffed; only the rest fill open slots
+  const optimalNewMembers = (suggestions?.optimalTeam || [])
+    .filter(suggestion => !teamEngineerIds.has(suggestion.engineer._id))
+    .slice(0, openSlots);
+
+  const memberAllocation = (suggestion: AssignmentSuggestion) =>
+    Math.max(1, Math.min(allocation, suggestion.availableCapacity));
+
+  const handleAssign = (suggestion: AssignmentSuggestion) => {
+    onAssign({
+      engineerId: suggestion.engineer._id,
+      projectId: project._id,
+      allocationPercentage: memberAllocation(suggestion),
+      role,
+      startDate,
+      endDate
+    });
+  };
+
+  const handleAcceptOptimalTeam = async () => {
+    try {
+      setIsAccepting(true);
+      const response = await assignmentService.acceptSuggestedTeam(project._id, {
+        startDate,
+        endDate,
+        members: optimalNewMembers.map(suggestion => ({
+          engineerId: suggestion.engineer._id,
+          allocationPercentage: memberAllocation(suggestion),
+          role
+        }))
+      });
+      showToast({
+        type: 'success',
+        title: 'Team Staffed',
+        message: response.message || 'Suggested team assigned successfully'
+      });
+      onStaffed();
+    } catch (error: unknown) {
+      console.error('Error accepting suggested team:', error);
+      showToast({
+        type: 'error',
+        title: 'Staffing Failed',
+        message: (error as Error).message || 'No assignments were created. Please try again.'
+      });
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Staff this project: ${project.name}`}
+      size="xl"
+    >
+      {(isLoading || !startDate) && !suggestions ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin" />
+          <span className="ml-2">Ranking engineers...</span>
+        </div>
+      ) : !suggestions ? (
+        <div className="text-center py-12">
+          <p className="text-sm text-gray-600 mb-4">Unable to load staffing suggestions.</p>
+          <Button variant="outline" onClick={() => loadSuggestions(project._id, { startDate, endDate })}>
+            Try Again
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Analysis */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-xs text-gray-500">Open slots</p>
+              <p className="text-lg font-semibold text-gray-900">{openSlots} of {project.teamSize}</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-xs text-gray-500">Skill coverage</p>
+              <p className={`text-lg font-semibold ${getMatchColor(suggestions.analysis.skillCoverage)}`}>
+                {suggestions.analysis.skillCoverage}%
+              </p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-xs text-gray-500">Average skill match</p>
+              <p className="text-lg font-semibold text-gray-900">{suggestions.analysis.averageSkillMatch}%</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-xs text-gray-500 flex items-center gap-1">
+                Available capacity
+                {isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+              </p>
+              <p className="text-lg font-semibold text-gray-900">{suggestions.analysis.totalAvailableCapacity}%</p>
+            </div>
+          </div>
+
+          {/* Assignment defaults */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="staffing-allocation">Allocation %</Label>
+              <Input
+                id="staffing-allocation"
+                type="number"
+                min="1"
+                max="100"
+                value={allocation}
+                onChange={(e) => setAllocation(Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="staffing-role">Role</Label>
+              <select
+                id="staffing-role"
+                className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background capitalize"
+                value={role}
+                onChange={(e) => setRole(e.target.value as CreateAssignmentData['role'])}
+              >
+                {ROLES.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="staffing-start">Start Date</Label>
+              <Input
+                id="staffing-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="staffing-end">End Date</Label>
+              <Input
+                id="staffing-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {/* Optimal team */}
+          <div className="flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <div className="flex items-center gap-3">
+              <Sparkles className="h-5 w-5 text-blue-600" />
+              <div>
+                <p className="text-sm font-medium text-blue-900">Optimal team</p>
+                <p className="text-xs text-blue-700">
+                  {optimalNewMembers.length > 0
+                    ? optimalNewMembers.map(suggestion => suggestion.engineer.name).join(', ')
+                    : openSlots === 0 ? 'The team is already full' : 'No additional engineers suggested'}
+                </p>
+              </div>
+            </div>
+            <Button
+              onClick={handleAcceptOptimalTeam}
+              disabled={isAccepting || optimalNewMembers.length === 0 || !hasValidDates}
+            >
+              {isAccepting ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Assigning...
+                </>
+              ) : (
+                <>
+                  <Users className="h-4 w-4 mr-2" />
+                  Accept {optimalNewMembers.length}
+                </>
+              )}
+            </Button>
+          </div>
+
+          {/* Ranked candidates */}
+          {suggestions.topSuggestions.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">
+              No engineers currently have available capacity.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+              {suggestions.topSuggestions.map((suggestion, index) => {
+                const isOnTeam = teamEngineerIds.has(suggestion.engineer._id);
+                const isExpanded = expandedEngineerId === suggestion.engineer._id;
+                return (
+                  <div
+                    key={suggestion.engineer._id}
+                    className="border border-gray-200 rounded-lg"
+                  >
+                    <div className="flex items-center justify-between p-3">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <span className="w-6 text-sm font-semibold text-gray-400">#{index + 1}</span>
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-sm text-gray-900 truncate">{suggestion.engineer.name}</span>
+                            {suggestion.engineer.seniority && (
+                              <Badge variant="outline" className="text-xs capitalize">{suggestion.engineer.seniority}</Badge>
+                            )}
+                            {isOnTeam && <Badge variant="secondary" className="text-xs">On team</Badge>}
+                          </div>
+                          <p className="text-xs text-gray-500 truncate">{suggestion.recommendation}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-6 ml-4">
+                        <button
+                          type="button"
+                          onClick={() => setExpandedEngineerId(isExpanded ? null : suggestion.engineer._id)}
+                          className="text-right"
+                          title="Show how the skill match was scored"
+                        >
+                          <p className="text-xs text-gray-500 flex items-center justify-end gap-0.5">
+                            {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                            Skills
+                          </p>
+                          <p className={`text-sm font-medium ${getMatchColor(suggestion.skillMatch)}`}>{suggestion.skillMatch}%</p>
+                        </button>
+                        <div className="text-right">
+                          <p className="text-xs text-gray-500">Must-have</p>
+                          <p className={`text-sm font-medium ${getMatchColor(suggestion.mustHaveMatch)}`}>{suggestion.mustHaveMatch}%</p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-xs text-gray-500">Available</p>
+                          <p className="text-sm font-medium text-gray-900">{suggestion.availableCapacity}%</p>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleAssign(suggestion)}
+                          disabled={isOnTeam || openSlots === 0}
+                        >
+                          <UserPlus className="h-3 w-3 mr-1" />
+                          Assign
+                        </Button>
+                      </div>
+                    </div>
+                    {isExpanded && (
+                      <div className="px-3 pb-3 pt-2 border-t border-gray-100 bg-gray-50">
+                        <SkillMatchBreakdown breakdown={suggestion.skillBreakdown || []} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default StaffingPanel;
@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CalendarOff, Check, Loader2, Plus, Trash2, Upload, X } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import HolidayForm from '@/components/forms/HolidayForm';
+import HolidayImportForm from '@/components/forms/HolidayImportForm';
+import { timeOffService } from '@/services/timeOffService';
+import { holidayService } from '@/services/holidayService';
+import { useToast } from '@/components/ui/toast';
+import type { Holiday, TimeOff } from '@/types';
+
+const UPCOMING_DAYS = 30;
+const HOLIDAY_DAYS = 120;
+
+const formatDay = (date: string) => format(new Date(date.slice(0, 10) + 'T00:00:00'), 'MMM d');
+
+const engineerName = (entry: TimeOff) =>
+  typeof entry.engineerId === 'object' ? entry.engineerId.name : 'Engineer';
+
+const describeRange = (entry: TimeOff) => {
+  const range = entry.startDate.slice(0, 10) === entry.endDate.slice(0, 10)
+    ? formatDay(entry.startDate)
+    : `${formatDay(entry.startDate)} – ${formatDay(entry.endDate)}`;
+  return entry.percentage < 100 ? `${range}, ${entry.percentage}% of each day` : range;
+};
+
+const TimeOffApprovals: React.FC = () => {
+  const { showToast } = useToast();
+  const [pending, setPending] = useState<TimeOff[]>([]);
+  const [upcoming, setUpcoming] = useState<TimeOff[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [isHolidayFormOpen, setIsHolidayFormOpen] = useState(false);
+  const [isHolidayImportOpen, setIsHolidayImportOpen] = useState(false);
+
+  const loadTimeOff = useCallback(async () => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    try {
+      const [pendingResponse, upcomingResponse, holidayResponse] = await Promise.all([
+        timeOffService.getTimeOff({ status: 'pending' }),
+        timeOffService.getTimeOff({
+          status: 'approved',
+          startDate: today,
+          endDate: format(addDays(new Date(), UPCOMING_DAYS), 'yyyy-MM-dd')
+        }),
+        holidayService.getHolidays({
+          startDate: today,
+          endDate: format(addDays(new Date(), HOLIDAY_DAYS), 'yyyy-MM-dd')
+        })
+      ]);
+
+      setPending(pendingResponse.data?.timeOff || []);
+      setUpcoming(upcomingResponse.data?.timeOff || []);
+      setHolidays(holidayResponse.data?.holidays || []);
+    } catch (err) {
+      console.error('Error loading time off:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTimeOff();
+  }, [loadTimeOff]);
+
+  const handleReview = async (entry: TimeOff, status: 'approved' | 'rejected') => {
+    let reviewNote: string | undefined;
+    if (status === 'rejected') {
+      const note = prompt(`Reason for rejecting ${engineerName(entry)}'s ${entry.type} (optional)`);
+      if (note === null) return;
+      reviewNote = note.trim() || undefined;
+    }
+
+    try {
+      setReviewingId(entry._id);
+      const response = await timeOffService.reviewTimeOff(entry._id, { status, reviewNote });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to review time off');
+      }
+
+      const affected = response.data.affectedAssignments;
+      showToast({
+        type: affected.length ? 'warning' : 'success',
+        title: status === 'approved' ? 'Time Off Approved' : 'Time Off Rejected',
+        message: affected.length
+          ? `Capacity drops on ${affected.map(assignment => `${assignment.projectName} (${assignment.allocation}%)`).join(', ')}`
+          : `${engineerName(entry)}'s ${entry.type} was ${status}.`
+      });
+      loadTimeOff();
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: (err as Error).message || 'Failed to review time off'
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    if (!confirm(`Remove ${holiday.name} from the holiday calendar?`)) return;
+
+    try {
+      await holidayService.deleteHoliday(holiday._id);
+      loadTimeOff();
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: (err as Error).message || 'Failed to delete holiday'
+      });
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarOff className="h-5 w-5 text-blue-600" />
+          Time Off
+        </CardTitle>
+        <CardDescription>Leave requests awaiting approval, upcoming absences and public holidays</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Pending requests */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">
+              Pending Requests {pending.length > 0 && <Badge variant="destructive" className="ml-1">{pending.length}</Badge>}
+            </h4>
+            {pending.length === 0 ? (
+              <p className="text-sm text-gray-500">No requests waiting for review</p>
+            ) : (
+              pending.map(entry => (
+                <div key={entry._id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{engineerName(entry)}</p>
+                    <p className="text-xs text-gray-600 capitalize">{entry.type} · {describeRange(entry)}</p>
+                    {entry.reason && <p className="text-xs text-gray-500 mt-1">{entry.reason}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={reviewingId === entry._id}
+                      onClick={() => handleReview(entry, 'approved')}
+                    >
+                      {reviewingId === entry._id
+                        ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        : <Check className="h-3 w-3 mr-1" />}
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      disabled={reviewingId === entry._id}
+                      onClick={() => handleReview(entry, 'rejected')}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Upcoming approved leave */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">Out in the Next {UPCOMING_DAYS} Days</h4>
+            {upcoming.length === 0 ? (
+              <p className="text-sm text-gray-500">Nobody has approved time off coming up</p>
+            ) : (
+              upcoming.map(entry => (
+                <div key={entry._id} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-900">{engineerName(entry)}</span>
+                  <span className="text-xs text-gray-500 capitalize">{entry.type} · {describeRange(entry)}</span>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Holidays */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-900">Public Holidays</h4>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setIsHolidayImportOpen(true)}>
+                  <Upload className="h-3 w-3 mr-1" />
+                  Import
+                </Button>
+                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setIsHolidayFormOpen(true)}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+            {holidays.length === 0 ? (
+              <p className="text-sm text-gray-500">No holidays in the next few months</p>
+            ) : (
+              holidays.map(holiday => (
+                <div key={holiday._id} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="text-gray-900 truncate">{formatDay(holiday.date)} · {holiday.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {[...holiday.departments, ...holiday.locations].join(', ') || 'Everyone'}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    className="text-gray-400 hover:text-red-600"
+                    onClick={() => handleDeleteHoliday(holiday)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </CardContent>
+
+      <HolidayForm
+        isOpen={isHolidayFormOpen}
+        onClose={() => setIsHolidayFormOpen(false)}
+        onSuccess={loadTimeOff}
+      />
+
+      <HolidayImportForm
+        isOpen={isHolidayImportOpen}
+        onClose={() => setIsHolidayImportOpen(false)}
+        onSuccess={loadTimeOff}
+      />
+    </Card>
+  );
+};
+
+export default TimeOffApprovals;
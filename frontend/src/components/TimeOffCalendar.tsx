@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import type { Holiday, TimeOff, TimeOffStatus } from '@/types';
+
+interface TimeOffCalendarProps {
+  month: Date;
+  onMonthChange: (month: Date) => void;
+  timeOff: TimeOff[];
+  holidays: Holiday[];
+  onDayClick?: (day: string) => void;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const STATUS_STYLES: Partial<Record<TimeOffStatus, string>> = {
+  approved: 'bg-blue-100 text-blue-800',
+  pending: 'bg-yellow-50 text-yellow-800 border border-dashed border-yellow-400'
+};
+
+// Dates are stored as UTC midnight, so compare calendar days as ISO strings
+const dayKey = (date: string) => date.slice(0, 10);
+
+const TimeOffCalendar: React.FC<TimeOffCalendarProps> = ({
+  month,
+  onMonthChange,
+  timeOff,
+  holidays,
+  onDayClick
+}) => {
+  const days = useMemo(() => {
+    const result: Date[] = [];
+    const last = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+    for (let day = startOfWeek(startOfMonth(month), { weekStartsOn: 1 }); day <= last; day = addDays(day, 1)) {
+      result.push(day);
+    }
+    return result;
+  }, [month]);
+
+  const visibleTimeOff = timeOff.filter(entry => STATUS_STYLES[entry.status]);
+  const todayKey = format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">{format(month, 'MMMM yyyy')}</h3>
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="sm" onClick={() => onMonthChange(addMonths(month, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onMonthChange(startOfMonth(new Date()))}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onMonthChange(addMonths(month, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px rounded-lg overflow-hidden border border-gray-200 bg-gray-200">
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} className="bg-gray-50 py-1 text-center text-xs font-medium text-gray-500">
+            {weekday}
+          </div>
+        ))}
+
+        {days.map(day => {
+          const key = format(day, 'yyyy-MM-dd');
+          const isWeekend = day.getDay() === 0 || day.getDay() === 6;
+          const dayHolidays = holidays.filter(holiday => dayKey(holiday.date) === key);
+          const dayTimeOff = visibleTimeOff.filter(entry => dayKey(entry.startDate) <= key && dayKey(entry.endDate) >= key);
+
+          return (
+            <button
+              key={key}
+              type="button"
+              onClick={() => onDayClick?.(key)}
+              className={`min-h-[72px] p-1 text-left align-top ${
+                isSameMonth(day, month) ? (isWeekend ? 'bg-gray-50' : 'bg-white') : 'bg-gray-50 text-gray-400'
+              } ${onDayClick ? 'hover:bg-blue-50' : 'cursor-default'}`}
+            >
+              <span className={`text-xs ${key === todayKey ? 'rounded-full bg-blue-600 text-white px-1.5 py-0.5' : ''}`}>
+                {format(day, 'd')}
+              </span>
+              <div className="mt-1 space-y-0.5">
+                {dayHolidays.map(holiday => (
+                  <div key={holiday._id} className="truncate rounded px-1 text-[10px] bg-purple-100 text-purple-800" title={holiday.name}>
+                    {holiday.name}
+                  </div>
+                ))}
+                {dayTimeOff.map(entry => (
+                  <div
+                    key={entry._id}
+                    className={`truncate rounded px-1 text-[10px] capitalize ${STATUS_STYLES[entry.status]}`}
+                    title={`${entry.type} (${entry.status})${entry.percentage < 100 ? `, ${entry.percentage}% of day` : ''}`}
+                  >
+                    {entry.type}{entry.percentage < 100 ? ` ${entry.percentage}%` : ''}
+                  </div>
+                ))}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-blue-100" /> Approved</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded border border-dashed border-yellow-400 bg-yellow-50" /> Pending</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-purple-100" /> Public holiday</span>
+      </div>
+    </div>
+  );
+};
+
+export default TimeOffCalendar;
@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChevronLeft, ChevronRight, ClipboardList, Loader2, Save } from 'lucide-react';
+import { addWeeks, format, startOfWeek } from 'date-fns';
+import { timesheetService } from '@/services/timesheetService';
+import { useToast } from '@/components/ui/toast';
+import type { WeeklyTimesheet as WeeklyTimesheetData } from '@/types';
+
+interface TimesheetDraft {
+  hours: string;
+  note: string;
+}
+
+const currentWeek = () => startOfWeek(new Date(), { weekStartsOn: 1 });
+
+const WeeklyTimesheet: React.FC = () => {
+  const { showToast } = useToast();
+  const [weekStart, setWeekStart] = useState(currentWeek);
+  const [timesheet, setTimesheet] = useState<WeeklyTimesheetData | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, TimesheetDraft>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyTimesheet = (data: WeeklyTimesheetData) => {
+    setTimesheet(data);
+    setDrafts(Object.fromEntries(data.rows.map(row => [
+      row.assignment._id,
+      { hours: row.hours ? String(row.hours) : '', note: row.note }
+    ])));
+  };
+
+  const loadTimesheet = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await timesheetService.getTimesheet(format(weekStart, 'yyyy-MM-dd'));
+      if (response.success && response.data) {
+        applyTimesheet(response.data.timesheet);
+      } else {
+        throw new Error(response.error || 'Failed to load timesheet');
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load timesheet');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    loadTimesheet();
+  }, [loadTimesheet]);
+
+  const updateDraft = (assignmentId: string, changes: Partial<TimesheetDraft>) => {
+    setDrafts(prev => ({ ...prev, [assignmentId]: { ...prev[assignmentId], ...changes } }));
+  };
+
+  const handleSave = async () => {
+    if (!timesheet) return;
+
+    const entries = timesheet.rows.map(row => ({
+      assignmentId: row.assignment._id,
+      hours: parseFloat(drafts[row.assignment._id]?.hours) || 0,
+      note: drafts[row.assignment._id]?.note.trim() || ''
+    }));
+
+    if (entries.some(entry => entry.hours < 0 || entry.hours > 168)) {
+      showToast({ type: 'error', title: 'Invalid Hours', message: 'Hours must be between 0 and 168' });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await timesheetService.saveTimesheet({
+        weekStart: format(weekStart, 'yyyy-MM-dd'),
+        entries
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to save timesheet');
+      }
+
+      applyTimesheet(response.data.timesheet);
+      showToast({
+        type: 'success',
+        title: 'Timesheet Saved',
+        message: `Hours for the week of ${format(weekStart, 'MMM d')} have been saved.`
+      });
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: (err as Error).message || 'Failed to save timesheet'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isCurrentWeek = weekStart.getTime() === currentWeek().getTime();
+  const draftTotal = Object.values(drafts).reduce((sum, draft) => sum + (parseFloat(draft.hours) || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5 text-blue-600" />
+              Timesheet
+            </CardTitle>
+            <CardDescription>
+              Week of {format(weekStart, 'MMM d, yyyy')}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(addWeeks(weekStart, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" disabled={isCurrentWeek} onClick={() => setWeekStart(currentWeek())}>
+              This Week
+            </Button>
+            <Button variant="outline" size="sm" disabled={isCurrentWeek} onClick={() => setWeekStart(addWeeks(weekStart, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !timesheet || timesheet.rows.length === 0 ? (
+          <p className="text-center py-8 text-sm text-gray-500">No assignments ran this week</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Project</th>
+                    <th className="py-2 pr-4 font-medium text-right">Planned</th>
+                    <th className="py-2 pr-4 font-medium w-24">Hours</th>
+                    <th className="py-2 font-medium">Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {timesheet.rows.map(row => (
+                    <tr key={row.assignment._id} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        <p className="font-medium text-gray-900">{row.assignment.projectId?.name || 'Project'}</p>
+                        <p className="text-xs text-gray-500 capitalize">
+                          {row.assignment.role} · {row.assignment.allocationPercentage}%
+                        </p>
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-600">{row.plannedHours}h</td>
+                      <td className="py-2 pr-4">
+                        <Input
+                          type="number"
+                          min="0"
+                          max="168"
+                          step="0.5"
+                          value={drafts[row.assignment._id]?.hours ?? ''}
+                          onChange={(e) => updateDraft(row.assignment._id, { hours: e.target.value })}
+                          className="h-8"
+                        />
+                      </td>
+                      <td className="py-2">
+                        <Input
+                          value={drafts[row.assignment._id]?.note ?? ''}
+                          maxLength={500}
+                          placeholder="Optional"
+                          onChange={(e) => updateDraft(row.assignment._id, { note: e.target.value })}
+                          className="h-8"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                <span className="font-medium text-gray-900">{Math.round(draftTotal * 10) / 10}h</span> logged
+                of {timesheet.totals.plannedHours}h planned
+              </p>
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <Save className="h-4 w-4 mr-2" />}
+                Save Timesheet
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WeeklyTimesheet;
@@ -8,8 +8,10 @@ import { engineerService } from '@/services/engineerService';
 import { projectService } from '@/services/projectService';
 import { assignmentService, type CreateAssignmentData } from '@/services/assignmentService';
 import { useToast } from '@/components/ui/toast';
+import { getAvailableCapacityForTimeline, getSkillMatch } from '@/utils/capacityCalculations';
+import SkillMatchBreakdown from '@/components/SkillMatchBreakdown';
 
-import type { Assignment, EngineerWithAssignments, Project, User } from '@/types';
+import type { Assignment, CapacityTimeline, EngineerWithAssignments, Project, User } from '@/types';
 
 interface AssignmentFormProps {
   isOpen: boolean;
@@ -17,6 +19,7 @@ interface AssignmentFormProps {
   onSuccess: () => void;
   assignment?: Assignment | null;
   preSelectedEngineerId?: string;
+  prefill?: Partial<CreateAssignmentData>;
 }
 
 interface FormData {
@@ -34,7 +37,8 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({
   onClose,
   onSuccess,
   assignment,
-  preSelectedEngineerId
+  preSelectedEngineerId,
+  prefill
 }) => {
   const { showToast } = useToast();
   
@@ -53,9 +57,18 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingData, setIsLoadingData] = useState(true);
+  const [rangeTimeline, setRangeTimeline] = useState<CapacityTimeline | null>(null);
+
+  const [changeReason, setChangeReason] = useState('');
 
   const isEditing = !!assignment;
 
+  useEffect(() => {
+    if (isOpen) {
+      setChangeReason('');
+    }
+  }, [isOpen]);
+
   const loadData = useCallback(async () => {
     try {
       setIsLoadingData(true);
@@ -107,8 +120,46 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({
           engineerId: preSelectedEngineerId
         }));
       }
+      // Pre-fill from a staffing suggestion or another caller that already knows the details
+      if (prefill && !assignment) {
+        setFormData(prev => ({
+          ...prev,
+          ...prefill
+        }));
+      }
     }
-  }, [isOpen, loadData, preSelectedEngineerId, assignment]);
+  }, [isOpen, loadData, preSelectedEngineerId, prefill, assignment]);
+
+  // Load the engineer's allocation over the selected dates so capacity is checked for the whole range
+  const { engineerId, startDate, endDate } = formData;
+  const editingAssignmentId = assignment?._id;
+  useEffect(() => {
+    if (!isOpen || !engineerId || !startDate || !endDate || new Date(startDate) >= new Date(endDate)) {
+      setRangeTimeline(null);
+      return;
+    }
+
+    let cancelled = false;
+    engineerService.getEngineerCapacityTimeline(engineerId, {
+      startDate,
+      endDate,
+      granularity: 'week',
+      excludeAssignmentId: editingAssignmentId
+    })
+      .then(response => {
+        if (!cancelled) {
+          setRangeTimeline(response.success && response.data ? response.data.timeline : null);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading capacity timeline:', error);
+        if (!cancelled) setRangeTimeline(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, engineerId, startDate, endDate, editingAssignmentId]);
 
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
@@ -141,9 +192,14 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({
       newErrors.endDate = 'End date must be after start date';
     }
 
-    // Check engineer capacity
+    // Check engineer capacity, preferring the busiest point of the selected date range
     const selectedEngineer = engineers.find(eng => eng._id === formData.engineerId);
-    if (selectedEngineer) {
+    if (rangeTimeline) {
+      const availableInRange = getAvailableCapacityForTimeline(rangeTimeline);
+      if (formData.allocationPercentage > availableInRange) {
+        newErrors.allocationPercentage = `Engineer only has ${availableInRange}% capacity available during this period`;
+      }
+    } else if (selectedEngineer) {
       const currentCapacity = selectedEngineer.currentUtilization || 0;
       const maxCapacity = selectedEngineer.maxCapacity || 100;
       const availableCapacity = selectedEngineer.availableCapacity || (maxCapacity - currentCapacity);
@@ -178,7 +234,7 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({
           role: formData.role as Exclude<FormData['role'], ''>,
           notes: formData.notes
         };
-        response = await assignmentService.updateAssignment(assignment!._id, updateData);
+        response = await assignmentService.updateAssignment(assignment!._id, updateData, changeReason);
       } else {
         const submitData: CreateAssignmentData = {
           engineerId: formData.engineerId,
@@ -271,6 +327,11 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({
   }
 
   const selectedEngineerCapacity = formData.engineerId ? getEngineerCapacityInfo(formData.engineerId) : null;
+  const matchEngineer = engineers.find(eng => eng._id === formData.engineerId);
+  const matchProject = projects.find(p => p._id === formData.projectId);
+  const skillMatch = matchEngineer && matchProject?.requiredSkills?.length
+    ? getSkillMatch(matchEngineer.skills || [], matchProject.requiredSkills)
+    : null;
 
   return (
     <Modal 
@@ -319,6 +380,13 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({
               <p className="text-xs text-gray-600 mt-1">
                 Available: {selectedEngineerCapacity.available}%
               </p>
+              {rangeTimeline && (
+                <p className={`text-xs mt-1 ${formData.allocationPercentage > getAvailableCapacityForTimeline(rangeTimeline) ? 'text-red-600' : 'text-gray-600'}`}>
+                  Peak allocation during selected dates: {rangeTimeline.summary.peakAllocation}%
+                  {' '}(week of {new Date(rangeTimeline.summary.peakDate).toLocaleDateString()}),
+                  {' '}{getAvailableCapacityForTimeline(rangeTimeline)}% available
+                </p>
+              )}
             </div>
           )}
         </div>
@@ -333,13 +401,26 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({
             className={`flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring ${errors.projectId ? 'border-red-500' : ''}`}
           >
             <option value="">Choose a project...</option>
-            {projects.filter(p => p.status !== 'completed').map((project) => (
+            {projects.filter(p => p.status === 'planning' || p.status === 'active' || p._id === formData.projectId).map((project) => (
               <option key={project._id} value={project._id}>
                 {project.name} - {project.priority || 'medium'} priority
               </option>
             ))}
           </select>
           {errors.projectId && <p className="text-sm text-red-600">{errors.projectId}</p>}
+
+          {/* Skill match for the selected engineer */}
+          {skillMatch && (
+            <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">Skill Match:</span>
+                <span className="font-medium">
+                  {skillMatch.score}% overall · {skillMatch.mustHaveScore}% must-have
+                </span>
+              </div>
+              <SkillMatchBreakdown breakdown={skillMatch.breakdown} />
+            </div>
+          )}
         </div>
 
         {/* Role */}
@@ -429,6 +510,20 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({
           />
         </div>
 
+        {/* Reason recorded in the change history */}
+        {isEditing && (
+          <div className="space-y-2">
+            <Label htmlFor="changeReason">Reason for Change (Optional)</Label>
+            <Input
+              id="changeReason"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              maxLength={500}
+              placeholder="Shown in the change history"
+            />
+          </div>
+        )}
+
         {/* Form submission error */}
         {errors.submit && (
           <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
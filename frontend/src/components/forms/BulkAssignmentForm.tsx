@@ -0,0 +1,361 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { assignmentService, type BulkAssignmentRequest } from '@/services/assignmentService';
+import { useToast } from '@/components/ui/toast';
+import type { BulkAssignmentOperation, BulkAssignmentResult, BulkAssignmentRow, BulkAssignmentState } from '@/types';
+
+interface BulkAssignmentFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  assignmentIds: string[];
+}
+
+const OPERATIONS: { value: BulkAssignmentOperation; label: string }[] = [
+  { value: 'shift-dates', label: 'Shift dates' },
+  { value: 'change-allocation', label: 'Change allocation' },
+  { value: 'change-status', label: 'Change status' },
+  { value: 'archive', label: 'Archive' }
+];
+
+const selectClass = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background';
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy');
+
+// The part of an assignment the operation changes, for the preview table
+const describeState = (operation: BulkAssignmentOperation, state: BulkAssignmentState) => {
+  switch (operation) {
+    case 'shift-dates':
+      return `${formatDate(state.startDate)} – ${formatDate(state.endDate)}`;
+    case 'change-allocation':
+      return `${state.allocationPercentage}%`;
+    default:
+      return state.status;
+  }
+};
+
+const PreviewRow: React.FC<{ row: BulkAssignmentRow; operation: BulkAssignmentOperation }> = ({ row, operation }) => (
+  <tr className="border-t align-top">
+    <td className="py-2 pr-3">
+      <p className="text-gray-900">{row.engineer || 'Engineer'}</p>
+      <p className="text-xs text-gray-500">{row.project || 'Project'}</p>
+    </td>
+    <td className="py-2 pr-3 text-gray-600 capitalize">
+      {describeState(operation, row.before)}
+      {operation !== 'archive' && (
+        <span className="block text-gray-900">→ {describeState(operation, row.after)}</span>
+      )}
+    </td>
+    <td className="py-2">
+      {row.errors.length === 0 ? (
+        <span className="flex items-center gap-1 text-green-600">
+          <CheckCircle className="h-4 w-4" /> OK
+        </span>
+      ) : (
+        <ul className="space-y-1 text-xs text-red-600">
+          {row.errors.map(message => (
+            <li key={message} className="flex gap-1">
+              <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+              {message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </td>
+  </tr>
+);
+
+const BulkAssignmentForm: React.FC<BulkAssignmentFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  assignmentIds
+}) => {
+  const { showToast } = useToast();
+  const [operation, setOperation] = useState<BulkAssignmentOperation>('shift-dates');
+  const [days, setDays] = useState('14');
+  const [dateField, setDateField] = useState<'both' | 'start' | 'end'>('end');
+  const [allocationMode, setAllocationMode] = useState<'set' | 'change'>('change');
+  const [allocation, setAllocation] = useState('-20');
+  const [status, setStatus] = useState<BulkAssignmentState['status']>('completed');
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<BulkAssignmentResult | null>(null);
+  const [error, setError] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setOperation('shift-dates');
+      setDays('14');
+      setDateField('end');
+      setAllocationMode('change');
+      setAllocation('-20');
+      setStatus('completed');
+      setReason('');
+      setPreview(null);
+      setError('');
+    }
+  }, [isOpen]);
+
+  // Any change to the operation makes an earlier preview stale
+  useEffect(() => {
+    setPreview(null);
+  }, [operation, days, dateField, allocationMode, allocation, status]);
+
+  const buildRequest = (): BulkAssignmentRequest | null => {
+    const request: BulkAssignmentRequest = { assignmentIds, operation };
+
+    if (operation === 'shift-dates') {
+      const shift = parseInt(days);
+      if (!shift) {
+        setError('Enter a non-zero number of days to shift by');
+        return null;
+      }
+      request.days = shift;
+      request.dateField = dateField;
+    }
+
+    if (operation === 'change-allocation') {
+      const value = parseInt(allocation);
+      if (Number.isNaN(value) || (allocationMode === 'change' && value === 0)) {
+        setError('Enter the allocation to set or the change to apply');
+        return null;
+      }
+      if (allocationMode === 'set') {
+        request.allocationPercentage = value;
+      } else {
+        request.allocationChange = value;
+      }
+    }
+
+    if (operation === 'change-status') {
+      request.status = status;
+    }
+
+    setError('');
+    return request;
+  };
+
+  const handlePreview = async () => {
+    const request = buildRequest();
+    if (!request) return;
+
+    setIsPreviewing(true);
+    try {
+      const response = await assignmentService.bulkUpdateAssignments({ ...request, preview: true });
+      if (response.success && response.data) {
+        setPreview(response.data.result);
+      } else {
+        setError(response.error || 'Failed to preview changes');
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to preview changes');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const request = buildRequest();
+    if (!request || !preview || preview.failed > 0) return;
+
+    setIsApplying(true);
+    try {
+      const response = await assignmentService.bulkUpdateAssignments(request, reason.trim() || undefined);
+      if (response.success) {
+        showToast({
+          type: 'success',
+          title: 'Assignments Updated',
+          message: response.message || `${assignmentIds.length} assignments updated`
+        });
+        onSuccess();
+        onClose();
+      } else {
+        setError(response.error || 'Failed to update assignments');
+      }
+    } catch (err) {
+      // Something changed since the preview; show the current picture
+      setError((err as Error).message || 'Failed to update assignments');
+      handlePreview();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Update ${assignmentIds.length} Assignment${assignmentIds.length === 1 ? '' : 's'}`}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="bulk-operation">Operation</Label>
+            <select
+              id="bulk-operation"
+              className={selectClass}
+              value={operation}
+              onChange={(e) => setOperation(e.target.value as BulkAssignmentOperation)}
+            >
+              {OPERATIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {operation === 'shift-dates' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-days">Days</Label>
+                <Input
+                  id="bulk-days"
+                  type="number"
+                  min="-365"
+                  max="365"
+                  value={days}
+                  onChange={(e) => setDays(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">Negative values move dates earlier</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-date-field">Dates to Move</Label>
+                <select
+                  id="bulk-date-field"
+                  className={selectClass}
+                  value={dateField}
+                  onChange={(e) => setDateField(e.target.value as 'both' | 'start' | 'end')}
+                >
+                  <option value="end">End date (extend or shorten)</option>
+                  <option value="start">Start date</option>
+                  <option value="both">Both (move the whole assignment)</option>
+                </select>
+              </div>
+            </>
+          )}
+
+          {operation === 'change-allocation' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-allocation-mode">Change Type</Label>
+                <select
+                  id="bulk-allocation-mode"
+                  className={selectClass}
+                  value={allocationMode}
+                  onChange={(e) => setAllocationMode(e.target.value as 'set' | 'change')}
+                >
+                  <option value="change">Adjust by percentage points</option>
+                  <option value="set">Set to a fixed allocation</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-allocation">{allocationMode === 'set' ? 'Allocation (%)' : 'Change (%)'}</Label>
+                <Input
+                  id="bulk-allocation"
+                  type="number"
+                  min={allocationMode === 'set' ? 1 : -99}
+                  max={allocationMode === 'set' ? 100 : 99}
+                  value={allocation}
+                  onChange={(e) => setAllocation(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+
+          {operation === 'change-status' && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-status">New Status</Label>
+              <select
+                id="bulk-status"
+                className={selectClass}
+                value={status}
+                onChange={(e) => setStatus(e.target.value as BulkAssignmentState['status'])}
+              >
+                <option value="active">Active</option>
+                <option value="completed">Completed</option>
+                <option value="cancelled">Cancelled</option>
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="bulk-reason">Reason for Change</Label>
+          <Input
+            id="bulk-reason"
+            value={reason}
+            maxLength={500}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Optional; recorded in each assignment's history"
+          />
+        </div>
+
+        {preview && (
+          <div className="space-y-2">
+            <p className={`text-sm font-medium ${preview.failed > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {preview.failed > 0
+                ? `${preview.failed} of ${preview.total} assignments would fail. Fix or deselect them to continue.`
+                : `All ${preview.total} assignments can be updated.`}
+            </p>
+            <div className="max-h-72 overflow-y-auto border rounded-lg px-3">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-2 pr-3 font-medium">Assignment</th>
+                    <th className="py-2 pr-3 font-medium">Change</th>
+                    <th className="py-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map(row => (
+                    <PreviewRow key={row.assignmentId} row={row} operation={preview.operation} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button type="button" variant="outline" onClick={handlePreview} disabled={isPreviewing || isApplying}>
+            {isPreviewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Preview
+          </Button>
+          <Button
+            type="submit"
+            disabled={!preview || preview.failed > 0 || isApplying}
+            className="min-w-[120px]"
+          >
+            {isApplying ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Applying...
+              </>
+            ) : (
+              'Apply Changes'
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default BulkAssignmentForm;
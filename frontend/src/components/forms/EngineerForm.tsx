@@ -5,32 +5,38 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import Modal from '@/components/ui/modal';
 import { X, Plus, Loader2 } from 'lucide-react';
-import { engineerService, type CreateEngineerData } from '@/services/engineerService';
+import { engineerService } from '@/services/engineerService';
+import { invitationService } from '@/services/invitationService';
 import { validateForm as validateFormData } from '@/utils/formValidation';
 import { useToast } from '@/components/ui/toast';
-import type { EngineerWithAssignments, Skill } from '@/types';
+import SkillAutocomplete from '@/components/SkillAutocomplete';
+import type { EngineerWithAssignments, Invitation, Skill } from '@/types';
 
 interface EngineerFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  // New engineers are invited; the caller shows the link to share
+  onInvited?: (invitation: Invitation, inviteUrl: string) => void;
   engineer?: EngineerWithAssignments | null;
 }
 
 interface FormData extends Record<string, unknown> {
   name: string;
   email: string;
-  password: string;
   skills: Skill[];
   seniority: 'junior' | 'mid' | 'senior';
   maxCapacity: number;
+  hourlyRate?: number;
   department: string;
+  location: string;
 }
 
 const EngineerForm: React.FC<EngineerFormProps> = ({
   isOpen,
   onClose,
   onSuccess,
+  onInvited,
   engineer
 }) => {
   const { showToast } = useToast();
@@ -38,20 +44,30 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
   const [formData, setFormData] = useState<FormData>({
     name: '',
     email: '',
-    password: '',
     skills: [],
     seniority: 'junior',
     maxCapacity: 100,
-    department: ''
+    hourlyRate: undefined,
+    department: '',
+    location: ''
   });
 
   const [newSkill, setNewSkill] = useState('');
+  const [newSkillId, setNewSkillId] = useState<string | undefined>();
   const [skillLevel, setSkillLevel] = useState<Skill['level']>('intermediate');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
 
+  const [changeReason, setChangeReason] = useState('');
+
   const isEditing = !!engineer;
 
+  useEffect(() => {
+    if (isOpen) {
+      setChangeReason('');
+    }
+  }, [isOpen]);
+
   // Update form data when modal opens or engineer changes
   useEffect(() => {
     if (isOpen) {
@@ -60,27 +76,30 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
         setFormData({
           name: engineer.name || '',
           email: engineer.email || '',
-          password: '',
           skills: engineer.skills || [],
           seniority: engineer.seniority || 'junior',
           maxCapacity: engineer.maxCapacity || 100,
-          department: engineer.department || ''
+          hourlyRate: engineer.hourlyRate,
+          department: engineer.department || '',
+          location: engineer.location || ''
         });
       } else {
         // Reset form for new engineer
         setFormData({
           name: '',
           email: '',
-          password: '',
           skills: [],
           seniority: 'junior',
           maxCapacity: 100,
-          department: ''
+          hourlyRate: undefined,
+          department: '',
+          location: ''
         });
       }
       // Clear any existing errors when opening
       setErrors({});
       setNewSkill('');
+      setNewSkillId(undefined);
       setSkillLevel('intermediate');
     }
   }, [engineer, isOpen]);
@@ -89,9 +108,9 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
     const validationRules = {
       name: { required: true, minLength: 2, maxLength: 100 },
       email: { required: true, email: true },
-      ...(isEditing ? {} : { password: { required: true, minLength: 6 } }),
       department: { required: true, minLength: 2, maxLength: 50 },
       maxCapacity: { required: true, min: 1, max: 100 },
+      hourlyRate: { min: 0 },
       skills: {
         required: true,
         custom: (value: unknown) => {
@@ -117,51 +136,56 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
     setIsLoading(true);
 
     try {
-      let response;
-      if (isEditing) {
-        // Update existing engineer
-        // Clean skills array to remove any _id fields that may exist from database
-        const cleanSkills = formData.skills.map(skill => ({
-          skill: skill.skill,
-          level: skill.level
-        }));
-        
-        const updateData = {
-          name: formData.name,
-          skills: cleanSkills,
-          seniority: formData.seniority,
-          maxCapacity: formData.maxCapacity,
-          department: formData.department
-        };
-        response = await engineerService.updateEngineer(engineer!._id, updateData);
-      } else {
-        // Create new engineer via registration
-        // Clean skills array to ensure consistent format
-        const cleanSkills = formData.skills.map(skill => ({
-          skill: skill.skill,
-          level: skill.level
-        }));
-        
-        const submitData: CreateEngineerData = {
-          ...formData,
-          skills: cleanSkills,
-          role: 'engineer' as const
-        };
-        response = await engineerService.createEngineer(submitData);
-      }
+      // Clean skills array to remove any _id fields that may exist from database
+      const cleanSkills = formData.skills.map(skill => ({
+        skill: skill.skill,
+        ...(skill.skillId && { skillId: skill.skillId }),
+        level: skill.level
+      }));
+
+      const profileData = {
+        name: formData.name,
+        skills: cleanSkills,
+        seniority: formData.seniority,
+        maxCapacity: formData.maxCapacity,
+        ...(formData.hourlyRate !== undefined && { hourlyRate: formData.hourlyRate }),
+        department: formData.department,
+        location: formData.location
+      };
 
-      if (response.success) {
+      if (isEditing) {
+        const response = await engineerService.updateEngineer(engineer!._id, profileData, changeReason);
+        if (!response.success) {
+          setErrors({ submit: response.message || 'Something went wrong' });
+          return;
+        }
         showToast({
           type: 'success',
-          title: isEditing ? 'Engineer Updated' : 'Engineer Created',
-          message: `${formData.name} has been ${isEditing ? 'updated' : 'created'} successfully.`
+          title: 'Engineer Updated',
+          message: `${formData.name} has been updated successfully.`
         });
-        resetForm();
-        onSuccess();
-        onClose();
       } else {
-        setErrors({ submit: response.message || 'Something went wrong' });
+        // The engineer sets their own password when they accept the invite
+        const response = await invitationService.createInvitation({
+          ...profileData,
+          email: formData.email,
+          role: 'engineer'
+        });
+        if (!response.success || !response.data) {
+          setErrors({ submit: response.message || 'Something went wrong' });
+          return;
+        }
+        showToast({
+          type: 'success',
+          title: 'Invitation Created',
+          message: `Share the invite link with ${formData.name} to finish setting up their account.`
+        });
+        onInvited?.(response.data.invitation, response.data.inviteUrl);
       }
+
+      resetForm();
+      onSuccess();
+      onClose();
     } catch (error: unknown) {
       const errorMessage = (error as Error).message || 'Failed to save engineer';
       setErrors({ submit: errorMessage });
@@ -179,22 +203,29 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
     setFormData({
       name: '',
       email: '',
-      password: '',
       skills: [],
       seniority: 'junior',
       maxCapacity: 100,
-      department: ''
+      hourlyRate: undefined,
+      department: '',
+      location: ''
     });
     setNewSkill('');
+    setNewSkillId(undefined);
     setSkillLevel('intermediate');
     setErrors({});
     setIsLoading(false);
   };
 
   const addSkill = () => {
-    if (newSkill.trim() && !formData.skills.some(s => s.skill === newSkill.trim())) {
+    const name = newSkill.trim();
+    const isDuplicate = formData.skills.some(s =>
+      (newSkillId && s.skillId === newSkillId) || s.skill.toLowerCase() === name.toLowerCase()
+    );
+    if (name && !isDuplicate) {
       const newSkillObj: Skill = {
-        skill: newSkill.trim(),
+        skill: name,
+        skillId: newSkillId,
         level: skillLevel
       };
       setFormData(prev => ({
@@ -202,6 +233,7 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
         skills: [...prev.skills, newSkillObj]
       }));
       setNewSkill('');
+      setNewSkillId(undefined);
       setSkillLevel('intermediate');
     }
   };
@@ -225,7 +257,7 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
     <Modal 
       isOpen={isOpen} 
       onClose={handleClose} 
-      title={isEditing ? 'Edit Engineer' : 'Add New Engineer'}
+      title={isEditing ? 'Edit Engineer' : 'Invite Engineer'}
       size="lg"
     >
       <form onSubmit={handleSubmit} className="space-y-6">
@@ -261,20 +293,10 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
           </div>
         </div>
 
-        {/* Password (only for new engineers) */}
         {!isEditing && (
-          <div className="space-y-2">
-            <Label htmlFor="password">Password *</Label>
-            <Input
-              id="password"
-              type="password"
-              value={formData.password}
-              onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
-              placeholder="Enter password (min 6 characters)"
-              className={errors.password ? 'border-red-500' : ''}
-            />
-            {errors.password && <p className="text-sm text-red-600">{errors.password}</p>}
-          </div>
+          <p className="text-sm text-slate-500">
+            The engineer gets a single-use link to set their password. It expires after 7 days.
+          </p>
         )}
 
         {/* Department and Seniority */}
@@ -306,6 +328,18 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
           </div>
         </div>
 
+        {/* Location */}
+        <div className="space-y-2">
+          <Label htmlFor="location">Location</Label>
+          <Input
+            id="location"
+            value={formData.location}
+            onChange={(e) => setFormData(prev => ({ ...prev, location: e.target.value }))}
+            placeholder="e.g., Berlin, Bangalore"
+          />
+          <p className="text-sm text-slate-500">Selects which regional public holidays apply</p>
+        </div>
+
         {/* Max Capacity */}
         <div className="space-y-2">
           <Label htmlFor="maxCapacity">Max Capacity (%) *</Label>
@@ -322,17 +356,40 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
           <p className="text-sm text-slate-500">Maximum workload capacity as a percentage</p>
         </div>
 
+        {/* Hourly Rate */}
+        <div className="space-y-2">
+          <Label htmlFor="hourlyRate">Hourly Rate</Label>
+          <Input
+            id="hourlyRate"
+            type="number"
+            min="0"
+            step="0.01"
+            value={formData.hourlyRate ?? ''}
+            onChange={(e) => setFormData(prev => ({
+              ...prev,
+              hourlyRate: e.target.value === '' ? undefined : parseFloat(e.target.value)
+            }))}
+            placeholder="Seniority default"
+            className={errors.hourlyRate ? 'border-red-500' : ''}
+          />
+          {errors.hourlyRate && <p className="text-sm text-red-600">{errors.hourlyRate}</p>}
+          <p className="text-sm text-slate-500">Used to estimate project budget burn; leave blank to use the seniority default</p>
+        </div>
+
         {/* Skills */}
         <div className="space-y-3">
           <Label>Skills *</Label>
           
           {/* Add skill input */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
-            <Input
+            <SkillAutocomplete
               value={newSkill}
-              onChange={(e) => setNewSkill(e.target.value)}
+              onChange={(name, skillId) => {
+                setNewSkill(name);
+                setNewSkillId(skillId);
+              }}
+              onSubmit={addSkill}
               placeholder="Add a skill (e.g., React, Python, AWS)"
-              onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addSkill())}
             />
             <select
               value={skillLevel}
@@ -380,6 +437,20 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
           {errors.skills && <p className="text-sm text-red-600">{errors.skills}</p>}
         </div>
 
+        {/* Reason recorded in the change history */}
+        {isEditing && (
+          <div className="space-y-2">
+            <Label htmlFor="changeReason">Reason for Change (Optional)</Label>
+            <Input
+              id="changeReason"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              maxLength={500}
+              placeholder="Shown in the change history"
+            />
+          </div>
+        )}
+
         {/* Form submission error */}
         {errors.submit && (
           <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -405,10 +476,10 @@ const EngineerForm: React.FC<EngineerFormProps> = ({
             {isLoading ? (
               <>
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                {isEditing ? 'Updating...' : 'Creating...'}
+                {isEditing ? 'Updating...' : 'Inviting...'}
               </>
             ) : (
-              isEditing ? 'Update Engineer' : 'Create Engineer'
+              isEditing ? 'Update Engineer' : 'Send Invite'
             )}
           </Button>
         </div>
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { Loader2 } from 'lucide-react';
+import { holidayService, type HolidayData } from '@/services/holidayService';
+import { useToast } from '@/components/ui/toast';
+
+interface HolidayFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const HolidayForm: React.FC<HolidayFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess
+}) => {
+  const { showToast } = useToast();
+  const [name, setName] = useState('');
+  const [date, setDate] = useState('');
+  const [departments, setDepartments] = useState('');
+  const [locations, setLocations] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setDate('');
+      setDepartments('');
+      setLocations('');
+      setError('');
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !date) {
+      setError('Name and date are required');
+      return;
+    }
+
+    const holidayData: HolidayData = {
+      name: name.trim(),
+      date,
+      departments: splitList(departments),
+      locations: splitList(locations)
+    };
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await holidayService.createHoliday(holidayData);
+
+      if (response.success) {
+        showToast({
+          type: 'success',
+          title: 'Holiday Added',
+          message: `${holidayData.name} has been added to the calendar.`
+        });
+        onSuccess();
+        onClose();
+      } else {
+        setError(response.error || response.message || 'Something went wrong');
+      }
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to save holiday');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Add Public Holiday"
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="holiday-name">Name *</Label>
+            <Input
+              id="holiday-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., New Year's Day"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="holiday-date">Date *</Label>
+            <Input
+              id="holiday-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="holiday-departments">Departments</Label>
+          <Input
+            id="holiday-departments"
+            value={departments}
+            onChange={(e) => setDepartments(e.target.value)}
+            placeholder="Comma separated; leave blank for all departments"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="holiday-locations">Locations</Label>
+          <Input
+            id="holiday-locations"
+            value={locations}
+            onChange={(e) => setLocations(e.target.value)}
+            placeholder="Comma separated; leave blank for all locations"
+          />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="min-w-[120px]">
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Add Holiday'
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default HolidayForm;
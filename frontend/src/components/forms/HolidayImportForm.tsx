@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { AlertCircle, CheckCircle, Copy, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { holidayService } from '@/services/holidayService';
+import { useToast } from '@/components/ui/toast';
+import type { HolidayImportEntry, HolidayImportResult } from '@/types';
+
+interface HolidayImportFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Dates are UTC days, so format them without shifting into the local timezone
+const formatDay = (date: string) => format(new Date(date.slice(0, 10) + 'T00:00:00'), 'EEE, MMM d, yyyy');
+
+const EntryStatus: React.FC<{ entry: HolidayImportEntry }> = ({ entry }) => {
+  if (entry.status === 'new') {
+    return (
+      <span className="flex items-center gap-1 text-green-700">
+        <CheckCircle className="h-4 w-4" />
+        {entry.recurring ? 'New (this year only)' : 'New'}
+      </span>
+    );
+  }
+
+  return (
+    <span className={`flex gap-1 text-xs ${entry.status === 'duplicate' ? 'text-gray-500' : 'text-red-600'}`}>
+      {entry.status === 'duplicate' ? <Copy className="h-3 w-3 mt-0.5 shrink-0" /> : <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />}
+      {entry.reason}
+    </span>
+  );
+};
+
+const HolidayImportForm: React.FC<HolidayImportFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess
+}) => {
+  const { showToast } = useToast();
+  const [ics, setIcs] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [departments, setDepartments] = useState('');
+  const [locations, setLocations] = useState('');
+  const [preview, setPreview] = useState<HolidayImportResult | null>(null);
+  const [error, setError] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setIcs('');
+      setFileName('');
+      setDepartments('');
+      setLocations('');
+      setPreview(null);
+      setError('');
+    }
+  }, [isOpen]);
+
+  // Check the file as soon as it is chosen, so the manager sees what will be created
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setPreview(null);
+    setError('');
+    setIsPreviewing(true);
+    try {
+      const text = await file.text();
+      setIcs(text);
+      const response = await holidayService.importHolidays(text, {}, true);
+      if (response.success && response.data) {
+        setPreview(response.data.result);
+      } else {
+        setError(response.error || 'Failed to read the calendar file');
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to read the calendar file');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ics || !preview) return;
+
+    setIsImporting(true);
+    try {
+      const response = await holidayService.importHolidays(ics, {
+        departments: splitList(departments),
+        locations: splitList(locations)
+      });
+      if (response.success) {
+        showToast({
+          type: 'success',
+          title: 'Holidays Imported',
+          message: response.message
+        });
+        onSuccess();
+        onClose();
+      } else {
+        setError(response.error || 'Failed to import holidays');
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to import holidays');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Import Holiday Calendar"
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="holiday-ics">Calendar File (.ics)</Label>
+          <Input
+            id="holiday-ics"
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleFileChange}
+          />
+          <p className="text-xs text-gray-500">
+            Public holiday calendars can be downloaded from Google Calendar, Outlook or your government's website.
+            Each all-day event becomes a holiday that reduces engineer capacity.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="holiday-import-departments">Departments</Label>
+            <Input
+              id="holiday-import-departments"
+              value={departments}
+              onChange={(e) => setDepartments(e.target.value)}
+              placeholder="Comma separated; blank for all"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="holiday-import-locations">Locations</Label>
+            <Input
+              id="holiday-import-locations"
+              value={locations}
+              onChange={(e) => setLocations(e.target.value)}
+              placeholder="Comma separated; blank for all"
+            />
+          </div>
+        </div>
+
+        {isPreviewing && (
+          <p className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Reading {fileName}...
+          </p>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">
+              {preview.new} of {preview.total} holiday{preview.total === 1 ? '' : 's'} will be added.
+              {preview.duplicates > 0 && ` ${preview.duplicates} already exist.`}
+              {preview.skipped > 0 && ` ${preview.skipped} cannot be imported.`}
+            </p>
+            <div className="max-h-72 overflow-y-auto border rounded-lg px-3">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-2 pr-3 font-medium">Date</th>
+                    <th className="py-2 pr-3 font-medium">Holiday</th>
+                    <th className="py-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.holidays.map((entry, index) => (
+                    <tr key={`${entry.date}-${index}`} className="border-t align-top">
+                      <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">{formatDay(entry.date)}</td>
+                      <td className="py-2 pr-3 text-gray-900">{entry.name || '—'}</td>
+                      <td className="py-2 text-gray-600"><EntryStatus entry={entry} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={!preview || preview.new === 0 || isPreviewing || isImporting}
+            className="min-w-[120px]"
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              `Import ${preview?.new || ''} Holiday${preview?.new === 1 ? '' : 's'}`
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default HolidayImportForm;
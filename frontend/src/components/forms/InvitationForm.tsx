@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { Loader2 } from 'lucide-react';
+import { invitationService } from '@/services/invitationService';
+import { useToast } from '@/components/ui/toast';
+import type { Invitation, Role, RoleDetails } from '@/types';
+
+interface InvitationFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (invitation: Invitation, inviteUrl: string) => void;
+  roles: RoleDetails[];
+}
+
+const InvitationForm: React.FC<InvitationFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  roles
+}) => {
+  const { showToast } = useToast();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('engineer');
+  const [department, setDepartment] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setEmail('');
+      setRole('engineer');
+      setDepartment('');
+      setError('');
+    }
+  }, [isOpen]);
+
+  const isEngineer = role === 'engineer';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (name.trim().length < 2) {
+      setError('Name must be at least 2 characters');
+      return;
+    }
+    if (isEngineer && department.trim().length < 2) {
+      setError('A department is required to invite an engineer');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await invitationService.createInvitation({
+        name: name.trim(),
+        email: email.trim(),
+        role,
+        ...(isEngineer && { department: department.trim() })
+      });
+      if (response.success && response.data) {
+        showToast({
+          type: 'success',
+          title: 'Invitation Created',
+          message: `Share the invite link with ${response.data.invitation.name}`
+        });
+        onSuccess(response.data.invitation, response.data.inviteUrl);
+        onClose();
+      } else {
+        setError(response.error || response.message || 'Something went wrong');
+      }
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to create invitation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Invite User"
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="invite-name">Full Name *</Label>
+          <Input
+            id="invite-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Enter full name"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="invite-email">Email Address *</Label>
+          <Input
+            id="invite-email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="name@gmail.com"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="invite-role">Role *</Label>
+          <select
+            id="invite-role"
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+            value={role}
+            onChange={(e) => setRole(e.target.value as Role)}
+          >
+            {roles.map(details => (
+              <option key={details.role} value={details.role}>{details.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {isEngineer && (
+          <div className="space-y-2">
+            <Label htmlFor="invite-department">Department *</Label>
+            <Input
+              id="invite-department"
+              value={department}
+              onChange={(e) => setDepartment(e.target.value)}
+              placeholder="e.g., Frontend"
+            />
+            <p className="text-sm text-slate-500">Engineers start as junior with full capacity; invite from the Engineers page to set skills</p>
+          </div>
+        )}
+
+        <p className="text-sm text-slate-500">
+          They get a single-use link to set their password. It expires after 7 days.
+        </p>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="min-w-[120px]">
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Inviting...
+              </>
+            ) : (
+              'Send Invite'
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default InvitationForm;
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import Modal from '@/components/ui/modal';
+import { Loader2 } from 'lucide-react';
+import { notificationService } from '@/services/notificationService';
+import { useToast } from '@/components/ui/toast';
+import type { NotificationPreference, NotificationType } from '@/types';
+
+interface NotificationPreferencesFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const NotificationPreferencesForm: React.FC<NotificationPreferencesFormProps> = ({
+  isOpen,
+  onClose
+}) => {
+  const { showToast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError('');
+    setIsLoading(true);
+    notificationService.getPreferences()
+      .then(response => {
+        if (response.success && response.data) {
+          setPreferences(response.data.preferences);
+        }
+      })
+      .catch(err => setError((err as Error).message || 'Failed to load notification settings'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const togglePreference = (type: NotificationType) => {
+    setPreferences(prev => prev.map(preference =>
+      preference.type === type ? { ...preference, enabled: !preference.enabled } : preference
+    ));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await notificationService.updatePreferences(
+        Object.fromEntries(preferences.map(preference => [preference.type, preference.enabled]))
+      );
+      if (response.success) {
+        showToast({
+          type: 'success',
+          title: 'Settings Saved',
+          message: response.message
+        });
+        onClose();
+      } else {
+        setError(response.error || 'Failed to save notification settings');
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save notification settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Notification Settings"
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {isLoading ? (
+          <p className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading your settings...
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">Choose which events show up in your notifications.</p>
+            {preferences.map(preference => (
+              <label
+                key={preference.type}
+                className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50"
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1 h-4 w-4 rounded border-gray-300"
+                  checked={preference.enabled}
+                  onChange={() => togglePreference(preference.type)}
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{preference.label}</span>
+                  <span className="block text-xs text-gray-500">{preference.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading || isSaving || preferences.length === 0} className="min-w-[120px]">
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Settings'
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default NotificationPreferencesForm;
@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { assignmentService } from '@/services/assignmentService';
+import { useToast } from '@/components/ui/toast';
+import type { Assignment, ProgressUpdate } from '@/types';
+
+interface ProgressUpdateFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (completionPercentage: number) => void;
+  assignment: Assignment | null;
+}
+
+const QUICK_OPTIONS = [25, 50, 75, 100];
+
+const textareaClass = 'flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 resize-none';
+
+const ProgressUpdateForm: React.FC<ProgressUpdateFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  assignment
+}) => {
+  const { showToast } = useToast();
+  const [completionPercentage, setCompletionPercentage] = useState(0);
+  const [note, setNote] = useState('');
+  const [history, setHistory] = useState<ProgressUpdate[]>([]);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && assignment) {
+      setCompletionPercentage(assignment.completionPercentage || 0);
+      setNote('');
+      setError('');
+      setHistory([]);
+
+      assignmentService.getProgressHistory(assignment._id)
+        .then(response => setHistory(response.data?.updates || []))
+        .catch(err => console.error('Error loading progress history:', err));
+    }
+  }, [isOpen, assignment]);
+
+  const projectName = assignment && typeof assignment.projectId === 'object' ? assignment.projectId.name : 'Project';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assignment) return;
+
+    if (completionPercentage < 0 || completionPercentage > 100) {
+      setError('Completion percentage must be between 0 and 100');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await assignmentService.updateAssignmentProgress(
+        assignment._id,
+        completionPercentage,
+        note.trim() || undefined
+      );
+
+      if (response.success) {
+        showToast({
+          type: 'success',
+          title: 'Progress Updated',
+          message: `${projectName} is now ${completionPercentage}% complete.`
+        });
+        onSuccess(completionPercentage);
+        onClose();
+      } else {
+        setError(response.error || response.message || 'Something went wrong');
+      }
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to update progress');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Update Assignment Progress"
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="text-sm text-gray-600 space-y-1">
+          <p><span className="font-medium">Project:</span> {projectName}</p>
+          <p><span className="font-medium">Role:</span> <span className="capitalize">{assignment?.role}</span></p>
+          <p><span className="font-medium">Current Progress:</span> {assignment?.completionPercentage || 0}%</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="progress-percentage">Completion Percentage *</Label>
+          <Input
+            id="progress-percentage"
+            type="number"
+            min="0"
+            max="100"
+            value={completionPercentage}
+            onChange={(e) => setCompletionPercentage(parseInt(e.target.value) || 0)}
+          />
+          <div className="flex flex-wrap gap-2">
+            {QUICK_OPTIONS.map(percent => (
+              <button
+                key={percent}
+                type="button"
+                onClick={() => setCompletionPercentage(percent)}
+                className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded transition-colors duration-200"
+              >
+                {percent}%
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-slate-500">Project progress is recalculated from all of its assignments</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="progress-note">Note</Label>
+          <textarea
+            id="progress-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            maxLength={500}
+            placeholder="What was done since the last update?"
+            className={textareaClass}
+          />
+        </div>
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-900">History</h4>
+            <div className="max-h-48 overflow-y-auto space-y-2">
+              {history.map(update => (
+                <div key={update._id} className="border border-gray-200 rounded-lg p-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900">
+                      {update.previousPercentage}% → {update.completionPercentage}%
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {format(new Date(update.createdAt), 'MMM d, yyyy')} · {update.updatedBy?.name}
+                    </span>
+                  </div>
+                  {update.note && <p className="text-xs text-gray-600 mt-1">{update.note}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="min-w-[120px]">
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Update Progress'
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ProgressUpdateForm;
@@ -8,6 +8,7 @@ import { X, Plus, Loader2, Calendar } from 'lucide-react';
 import { projectService, type CreateProjectData } from '@/services/projectService';
 import { useAuth } from '@/context/AuthContext';
 import { useToast } from '@/components/ui/toast';
+import SkillAutocomplete from '@/components/SkillAutocomplete';
 import type { Project, ProjectWithAssignments } from '@/types';
 
 interface ProjectFormProps {
@@ -19,6 +20,7 @@ interface ProjectFormProps {
 
 interface SkillRequirement {
   skill: string;
+  skillId?: string;
   level: 'beginner' | 'intermediate' | 'advanced' | 'expert';
   priority: 'must-have' | 'nice-to-have';
 }
@@ -59,14 +61,23 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
   });
 
   const [newSkill, setNewSkill] = useState('');
+  const [newSkillId, setNewSkillId] = useState<string | undefined>();
   const [skillLevel, setSkillLevel] = useState<SkillRequirement['level']>('intermediate');
   const [skillPriority, setSkillPriority] = useState<SkillRequirement['priority']>('must-have');
   const [newTag, setNewTag] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
 
+  const [changeReason, setChangeReason] = useState('');
+
   const isEditing = !!project;
 
+  useEffect(() => {
+    if (isOpen) {
+      setChangeReason('');
+    }
+  }, [isOpen]);
+
   // Helper function to convert date to YYYY-MM-DD format without timezone issues
   const formatDateForInput = (dateValue: string | Date) => {
     if (!dateValue) return '';
@@ -168,13 +179,13 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           endDate: new Date(formData.endDate + 'T12:00:00.000Z').toISOString(),
           requiredSkills: formData.requiredSkills.map(skill => ({
             skill: skill.skill,
+            ...(skill.skillId && { skillId: skill.skillId }),
             level: skill.level,
             priority: skill.priority
           })),
           teamSize: formData.teamSize,
           budget: formData.budget,
           priority: formData.priority,
-          status: formData.status,
           tags: formData.tags
         };
         console.log('Update data:', updateData);
@@ -183,7 +194,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           startDate: new Date(formData.startDate + 'T12:00:00.000Z'), 
           endDate: new Date(formData.endDate + 'T12:00:00.000Z') 
         });
-        response = await projectService.updateProject(project._id, updateData);
+        response = await projectService.updateProject(project._id, updateData, changeReason);
       } else {
         const submitData: CreateProjectData = {
           name: formData.name,
@@ -192,6 +203,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           endDate: new Date(formData.endDate + 'T12:00:00.000Z').toISOString(),
           requiredSkills: formData.requiredSkills.map(skill => ({
             skill: skill.skill,
+            ...(skill.skillId && { skillId: skill.skillId }),
             level: skill.level,
             priority: skill.priority
           })),
@@ -245,15 +257,20 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
       tags: []
     });
     setNewSkill('');
+    setNewSkillId(undefined);
     setErrors({});
   };
 
   const addSkill = () => {
-    if (newSkill.trim()) {
-      const skillExists = formData.requiredSkills.some(s => s.skill === newSkill.trim());
+    const name = newSkill.trim();
+    if (name) {
+      const skillExists = formData.requiredSkills.some(s =>
+        (newSkillId && s.skillId === newSkillId) || s.skill.toLowerCase() === name.toLowerCase()
+      );
       if (!skillExists) {
         const newSkillObj: SkillRequirement = {
-          skill: newSkill.trim(),
+          skill: name,
+          skillId: newSkillId,
           level: skillLevel,
           priority: skillPriority
         };
@@ -262,6 +279,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           requiredSkills: [...prev.requiredSkills, newSkillObj]
         }));
         setNewSkill('');
+        setNewSkillId(undefined);
         setSkillLevel('intermediate');
         setSkillPriority('must-have');
       }
@@ -427,22 +445,12 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           </div>
         </div>
 
-        {/* Status (only for editing) */}
+        {/* Status changes cascade to assignments, so they have their own dialog */}
         {isEditing && (
           <div className="space-y-2">
-            <Label htmlFor="status">Project Status</Label>
-            <select
-              id="status"
-              value={formData.status}
-              onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as FormData['status'] }))}
-              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring"
-            >
-              <option value="planning">Planning</option>
-              <option value="active">Active</option>
-              <option value="on-hold">On Hold</option>
-              <option value="completed">Completed</option>
-              <option value="cancelled">Cancelled</option>
-            </select>
+            <Label>Project Status</Label>
+            <p className="text-sm text-gray-900 capitalize">{formData.status.replace('-', ' ')}</p>
+            <p className="text-xs text-gray-500">Use the Status button on the project card to change it.</p>
           </div>
         )}
 
@@ -495,11 +503,14 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           {/* Add skill input */}
           <div className="space-y-3 p-4 border rounded-lg bg-gray-50">
             <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
-              <Input
+              <SkillAutocomplete
                 value={newSkill}
-                onChange={(e) => setNewSkill(e.target.value)}
+                onChange={(name, skillId) => {
+                  setNewSkill(name);
+                  setNewSkillId(skillId);
+                }}
+                onSubmit={addSkill}
                 placeholder="Skill name (e.g., React)"
-                onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addSkill())}
               />
               <select
                 value={skillLevel}
@@ -559,6 +570,20 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           {errors.skills && <p className="text-sm text-red-600">{errors.skills}</p>}
         </div>
 
+        {/* Reason recorded in the change history */}
+        {isEditing && (
+          <div className="space-y-2">
+            <Label htmlFor="changeReason">Reason for Change (Optional)</Label>
+            <Input
+              id="changeReason"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              maxLength={500}
+              placeholder="Shown in the change history"
+            />
+          </div>
+        )}
+
         {/* Form submission error */}
         {errors.submit && (
           <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
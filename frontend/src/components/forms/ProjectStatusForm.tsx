@@ -0,0 +1,270 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { projectService } from '@/services/projectService';
+import { useToast } from '@/components/ui/toast';
+import type { Project, ProjectStatusAction, ProjectStatusChange, ProjectStatusEffect } from '@/types';
+
+interface ProjectStatusFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  project: Pick<Project, '_id' | 'name' | 'status'> | null;
+}
+
+// Mirrors the transitions the API allows
+const TRANSITIONS: Record<Project['status'], Project['status'][]> = {
+  planning: ['active', 'cancelled'],
+  active: ['on-hold', 'completed', 'cancelled'],
+  'on-hold': ['active', 'completed', 'cancelled'],
+  completed: [],
+  cancelled: ['planning']
+};
+
+const STATUS_LABELS: Record<Project['status'], string> = {
+  planning: 'Planning',
+  active: 'Active',
+  'on-hold': 'On Hold',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+const ACTION_LABELS: Record<ProjectStatusAction, string> = {
+  pause: 'Paused',
+  resume: 'Resumed',
+  complete: 'Completed',
+  cancel: 'Cancelled'
+};
+
+const selectClass = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background';
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy');
+
+const EffectRow: React.FC<{ effect: ProjectStatusEffect }> = ({ effect }) => (
+  <tr className="border-t align-top">
+    <td className="py-2 pr-3">
+      <p className="text-gray-900">{effect.engineer || 'Engineer'}</p>
+      <p className="text-xs text-gray-500">{effect.allocationPercentage}% allocation</p>
+    </td>
+    <td className="py-2 pr-3 text-gray-600">
+      {effect.skipped ? (
+        <span className="flex gap-1 text-xs text-red-600">
+          <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+          Stays paused: {effect.skipped}
+        </span>
+      ) : (
+        <span className="flex items-center gap-1">
+          <CheckCircle className="h-4 w-4 text-green-600" />
+          {ACTION_LABELS[effect.action]}
+        </span>
+      )}
+    </td>
+    <td className="py-2 text-gray-600">
+      {formatDate(effect.after.endDate)}
+      {effect.after.endDate !== effect.before.endDate && (
+        <span className="block text-xs text-gray-500 line-through">{formatDate(effect.before.endDate)}</span>
+      )}
+    </td>
+  </tr>
+);
+
+const ProjectStatusForm: React.FC<ProjectStatusFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  project
+}) => {
+  const { showToast } = useToast();
+  const [status, setStatus] = useState<Project['status'] | ''>('');
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<ProjectStatusChange | null>(null);
+  const [error, setError] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const options = project ? TRANSITIONS[project.status] : [];
+
+  useEffect(() => {
+    if (isOpen && project) {
+      setStatus(TRANSITIONS[project.status][0] || '');
+      setReason('');
+      setPreview(null);
+      setError('');
+    }
+  }, [isOpen, project]);
+
+  // Show what the change would do as soon as a status is picked
+  const loadPreview = useCallback(async () => {
+    if (!project || !status) return;
+
+    setIsPreviewing(true);
+    setPreview(null);
+    try {
+      const response = await projectService.changeProjectStatus(project._id, status, true);
+      if (response.success && response.data) {
+        setPreview(response.data.result);
+        setError('');
+      } else {
+        setError(response.error || 'Failed to preview the status change');
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to preview the status change');
+    } finally {
+      setIsPreviewing(false);
+    }
+  }, [project, status]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPreview();
+    }
+  }, [isOpen, loadPreview]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!project || !status) return;
+
+    setIsApplying(true);
+    try {
+      const response = await projectService.changeProjectStatus(project._id, status, false, reason.trim() || undefined);
+      if (response.success) {
+        showToast({
+          type: response.data && response.data.result.skipped > 0 ? 'warning' : 'success',
+          title: 'Project Status Changed',
+          message: response.message
+        });
+        onSuccess();
+        onClose();
+      } else {
+        setError(response.error || 'Failed to change the project status');
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to change the project status');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (!project) return null;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Change Status: ${project.name}`}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {options.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            {STATUS_LABELS[project.status]} projects cannot be moved to another status.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Current Status</Label>
+              <p className="h-10 flex items-center text-sm text-gray-900">{STATUS_LABELS[project.status]}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-status">New Status</Label>
+              <select
+                id="project-status"
+                className={selectClass}
+                value={status}
+                onChange={(e) => setStatus(e.target.value as Project['status'])}
+              >
+                {options.map(option => (
+                  <option key={option} value={option}>{STATUS_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {options.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="project-status-reason">Reason for Change</Label>
+            <Input
+              id="project-status-reason"
+              value={reason}
+              maxLength={500}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional; recorded in the project and assignment history"
+            />
+          </div>
+        )}
+
+        {isPreviewing && (
+          <p className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Checking the effect on assignments...
+          </p>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">
+              {preview.effects.length === 0
+                ? 'No assignments are affected.'
+                : `${preview.effects.length} assignment${preview.effects.length === 1 ? '' : 's'} will change.`}
+              {preview.freedAllocation > 0 && ` ${preview.freedAllocation}% of allocation is freed across the team.`}
+              {preview.skipped > 0 && ` ${preview.skipped} cannot be resumed and will stay paused.`}
+            </p>
+            {preview.effects.length > 0 && (
+              <div className="max-h-72 overflow-y-auto border rounded-lg px-3">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-2 pr-3 font-medium">Assignment</th>
+                      <th className="py-2 pr-3 font-medium">Effect</th>
+                      <th className="py-2 font-medium">End Date</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.effects.map(effect => (
+                      <EffectRow key={effect.assignmentId} effect={effect} />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isApplying}>
+            Cancel
+          </Button>
+          {options.length > 0 && (
+            <Button
+              type="submit"
+              disabled={!preview || isPreviewing || isApplying}
+              className="min-w-[120px]"
+            >
+              {isApplying ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Applying...
+                </>
+              ) : (
+                'Confirm Change'
+              )}
+            </Button>
+          )}
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ProjectStatusForm;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { Loader2 } from 'lucide-react';
+import { userService } from '@/services/userService';
+import { useToast } from '@/components/ui/toast';
+import type { Permission, Role, RoleDetails, User } from '@/types';
+
+interface RoleFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (user: User) => void;
+  account: User | null;
+  roles: RoleDetails[];
+  permissionLabels: Partial<Record<Permission, string>>;
+}
+
+const RoleForm: React.FC<RoleFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  account,
+  roles,
+  permissionLabels
+}) => {
+  const { showToast } = useToast();
+  const [role, setRole] = useState<Role>('engineer');
+  const [department, setDepartment] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && account) {
+      setRole(account.role);
+      setDepartment(account.department || '');
+      setError('');
+    }
+  }, [account, isOpen]);
+
+  if (!account) return null;
+
+  const selected = roles.find(details => details.role === role);
+  const needsDepartment = role === 'engineer' && !account.department;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (role === account.role) {
+      setError(`${account.name} already has this role`);
+      return;
+    }
+    if (needsDepartment && department.trim().length < 2) {
+      setError('A department is required to make someone an engineer');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await userService.updateRole(account._id, {
+        role,
+        ...(needsDepartment && { department: department.trim() })
+      });
+      if (response.success && response.data) {
+        showToast({
+          type: 'success',
+          title: 'Role Changed',
+          message: response.message
+        });
+        onSuccess(response.data.user);
+        onClose();
+      } else {
+        setError(response.error || response.message || 'Something went wrong');
+      }
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to change role');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Change Role: ${account.name}`}
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="account-role">Role *</Label>
+          <select
+            id="account-role"
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+            value={role}
+            onChange={(e) => setRole(e.target.value as Role)}
+          >
+            {roles.map(details => (
+              <option key={details.role} value={details.role}>{details.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {needsDepartment && (
+          <div className="space-y-2">
+            <Label htmlFor="account-department">Department *</Label>
+            <Input
+              id="account-department"
+              value={department}
+              onChange={(e) => setDepartment(e.target.value)}
+              placeholder="e.g., Frontend"
+            />
+            <p className="text-sm text-slate-500">Engineers start as junior with full capacity; edit their profile afterwards</p>
+          </div>
+        )}
+
+        {selected && (
+          <div className="space-y-2">
+            <Label>This role can</Label>
+            {selected.permissions.length === 0 ? (
+              <p className="text-sm text-gray-600">See and edit their own profile, assignments, time off and timesheets</p>
+            ) : (
+              <ul className="list-disc pl-5 space-y-1 text-sm text-gray-600">
+                {selected.permissions.map(permission => (
+                  <li key={permission}>{permissionLabels[permission] || permission}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="min-w-[120px]">
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Change Role'
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default RoleForm;
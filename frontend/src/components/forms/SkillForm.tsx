@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { Loader2 } from 'lucide-react';
+import { skillService, SKILL_CATEGORIES, type SkillData } from '@/services/skillService';
+import { useToast } from '@/components/ui/toast';
+import type { Skill, SkillCategory, SkillDefinition } from '@/types';
+
+interface SkillFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  skill?: SkillDefinition | null;
+}
+
+const LEVELS: Skill['level'][] = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+const emptyRubric = (): Record<Skill['level'], string> => ({
+  beginner: '',
+  intermediate: '',
+  advanced: '',
+  expert: ''
+});
+
+const textareaClass = 'flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 resize-none';
+
+const SkillForm: React.FC<SkillFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  skill
+}) => {
+  const { showToast } = useToast();
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<SkillCategory>('other');
+  const [aliases, setAliases] = useState('');
+  const [description, setDescription] = useState('');
+  const [relatedSkills, setRelatedSkills] = useState<string[]>([]);
+  const [rubric, setRubric] = useState(emptyRubric());
+  const [allSkills, setAllSkills] = useState<SkillDefinition[]>([]);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isEditing = !!skill;
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(skill?.name || '');
+      setCategory(skill?.category || 'other');
+      setAliases((skill?.aliases || []).join(', '));
+      setDescription(skill?.description || '');
+      setRelatedSkills((skill?.relatedSkills || []).map(related => related._id));
+      setRubric({ ...emptyRubric(), ...skill?.rubric });
+      setError('');
+
+      skillService.getSkills()
+        .then(response => setAllSkills(response.data?.skills || []))
+        .catch(err => console.error('Error loading skills:', err));
+    }
+  }, [skill, isOpen]);
+
+  const toggleRelatedSkill = (id: string) => {
+    setRelatedSkills(prev =>
+      prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError('Skill name is required');
+      return;
+    }
+
+    const skillData: SkillData = {
+      name: name.trim(),
+      category,
+      aliases: aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+      description: description.trim(),
+      relatedSkills,
+      rubric
+    };
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = isEditing
+        ? await skillService.updateSkill(skill._id, skillData)
+        : await skillService.createSkill(skillData);
+
+      if (response.success) {
+        showToast({
+          type: 'success',
+          title: isEditing ? 'Skill Updated' : 'Skill Created',
+          message: `${skillData.name} has been ${isEditing ? 'updated' : 'added to the taxonomy'}.`
+        });
+        onSuccess();
+        onClose();
+      } else {
+        setError(response.error || response.message || 'Something went wrong');
+      }
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to save skill');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const relatedOptions = allSkills.filter(option => option._id !== skill?._id);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? `Edit Skill: ${skill.name}` : 'Add Skill'}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="skill-name">Name *</Label>
+            <Input
+              id="skill-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., React"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="skill-category">Category</Label>
+            <select
+              id="skill-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as SkillCategory)}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm capitalize"
+            >
+              {SKILL_CATEGORIES.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="skill-aliases">Aliases</Label>
+          <Input
+            id="skill-aliases"
+            value={aliases}
+            onChange={(e) => setAliases(e.target.value)}
+            placeholder="Comma separated, e.g., React.js, ReactJS"
+          />
+          <p className="text-sm text-slate-500">Engineers and projects using an alias are matched to this skill</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="skill-description">Description</Label>
+          <textarea
+            id="skill-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className={textareaClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Related Skills</Label>
+          {relatedOptions.length > 0 ? (
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+              {relatedOptions.map(option => (
+                <button
+                  key={option._id}
+                  type="button"
+                  onClick={() => toggleRelatedSkill(option._id)}
+                  className={`px-2 py-1 rounded-full border text-xs ${
+                    relatedSkills.includes(option._id)
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">No other skills in the taxonomy yet</p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <Label>Proficiency Rubric</Label>
+          {LEVELS.map(level => (
+            <div key={level} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-start">
+              <span className="text-sm font-medium text-slate-700 capitalize pt-2">{level}</span>
+              <textarea
+                value={rubric[level]}
+                onChange={(e) => setRubric(prev => ({ ...prev, [level]: e.target.value }))}
+                placeholder={`What ${level} looks like for this skill`}
+                rows={2}
+                className={`${textareaClass} md:col-span-3`}
+              />
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="min-w-[120px]">
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              isEditing ? 'Update Skill' : 'Create Skill'
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default SkillForm;
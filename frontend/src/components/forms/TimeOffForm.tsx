@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { Loader2 } from 'lucide-react';
+import { timeOffService, TIME_OFF_TYPES, type TimeOffData } from '@/services/timeOffService';
+import { useToast } from '@/components/ui/toast';
+import type { TimeOffType } from '@/types';
+
+interface TimeOffFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  initialDate?: string;
+}
+
+const textareaClass = 'flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 resize-none';
+
+const TimeOffForm: React.FC<TimeOffFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  initialDate
+}) => {
+  const { showToast } = useToast();
+  const [type, setType] = useState<TimeOffType>('vacation');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [isPartialDay, setIsPartialDay] = useState(false);
+  const [percentage, setPercentage] = useState(50);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      const today = new Date().toISOString().split('T')[0];
+      setType('vacation');
+      setStartDate(initialDate || today);
+      setEndDate(initialDate || today);
+      setIsPartialDay(false);
+      setPercentage(50);
+      setReason('');
+      setError('');
+    }
+  }, [initialDate, isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!startDate || !endDate) {
+      setError('Start and end dates are required');
+      return;
+    }
+
+    if (endDate < startDate) {
+      setError('End date cannot be before start date');
+      return;
+    }
+
+    const timeOffData: TimeOffData = {
+      type,
+      startDate,
+      endDate,
+      percentage: isPartialDay ? percentage : 100,
+      reason: reason.trim()
+    };
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await timeOffService.requestTimeOff(timeOffData);
+
+      if (response.success) {
+        showToast({
+          type: 'success',
+          title: 'Time Off Requested',
+          message: 'Your manager will review the request.'
+        });
+        onSuccess();
+        onClose();
+      } else {
+        setError(response.error || response.message || 'Something went wrong');
+      }
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to request time off');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Request Time Off"
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="time-off-type">Type *</Label>
+          <select
+            id="time-off-type"
+            value={type}
+            onChange={(e) => setType(e.target.value as TimeOffType)}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm capitalize"
+          >
+            {TIME_OFF_TYPES.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="time-off-start">Start Date *</Label>
+            <Input
+              id="time-off-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="time-off-end">End Date *</Label>
+            <Input
+              id="time-off-end"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={isPartialDay}
+              onChange={(e) => setIsPartialDay(e.target.checked)}
+            />
+            Partial day (still available for part of each day)
+          </label>
+          {isPartialDay && (
+            <div className="space-y-2">
+              <Label htmlFor="time-off-percentage">Time Off per Day (%)</Label>
+              <Input
+                id="time-off-percentage"
+                type="number"
+                min="1"
+                max="99"
+                value={percentage}
+                onChange={(e) => setPercentage(Math.min(99, Math.max(1, parseInt(e.target.value) || 50)))}
+              />
+              <p className="text-sm text-slate-500">50% is a half day off</p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="time-off-reason">Reason</Label>
+          <textarea
+            id="time-off-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            maxLength={500}
+            className={textareaClass}
+          />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="min-w-[120px]">
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              'Submit Request'
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default TimeOffForm;
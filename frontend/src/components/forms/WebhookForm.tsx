@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Modal from '@/components/ui/modal';
+import { Loader2 } from 'lucide-react';
+import { webhookService, WEBHOOK_EVENTS, type WebhookData } from '@/services/webhookService';
+import { useToast } from '@/components/ui/toast';
+import type { Webhook, WebhookEvent } from '@/types';
+
+interface WebhookFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called with the signing secret when a webhook is created, since it is only shown once
+  onSuccess: (webhook: Webhook, secret?: string) => void;
+  webhook?: Webhook | null;
+}
+
+const WebhookForm: React.FC<WebhookFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  webhook
+}) => {
+  const { showToast } = useToast();
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [isActive, setIsActive] = useState(true);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isEditing = !!webhook;
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(webhook?.name || '');
+      setUrl(webhook?.url || '');
+      setEvents(webhook?.events || []);
+      setIsActive(webhook?.isActive ?? true);
+      setError('');
+    }
+  }, [webhook, isOpen]);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents(prev =>
+      prev.includes(event) ? prev.filter(existing => existing !== event) : [...prev, event]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !url.trim()) {
+      setError('Name and URL are required');
+      return;
+    }
+    if (!/^https?:\/\//i.test(url.trim())) {
+      setError('URL must start with http:// or https://');
+      return;
+    }
+    if (events.length === 0) {
+      setError('Choose at least one event');
+      return;
+    }
+
+    const webhookData: WebhookData = {
+      name: name.trim(),
+      url: url.trim(),
+      events,
+      isActive
+    };
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      if (isEditing) {
+        const response = await webhookService.updateWebhook(webhook._id, webhookData);
+        if (response.success && response.data) {
+          showToast({
+            type: 'success',
+            title: 'Webhook Updated',
+            message: `${webhookData.name} has been updated.`
+          });
+          onSuccess(response.data.webhook);
+          onClose();
+        } else {
+          setError(response.error || response.message || 'Something went wrong');
+        }
+      } else {
+        const response = await webhookService.createWebhook(webhookData);
+        if (response.success && response.data) {
+          onSuccess(response.data.webhook, response.data.secret);
+          onClose();
+        } else {
+          setError(response.error || response.message || 'Something went wrong');
+        }
+      }
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to save webhook');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? `Edit Webhook: ${webhook.name}` : 'Add Webhook'}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-name">Name *</Label>
+          <Input
+            id="webhook-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Staffing Slack bot"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="webhook-url">Payload URL *</Label>
+          <Input
+            id="webhook-url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/erms"
+            className="font-mono text-sm"
+          />
+          <p className="text-sm text-slate-500">Events are sent as signed JSON in a POST request</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Events *</Label>
+          <div className="space-y-2">
+            {WEBHOOK_EVENTS.map(option => (
+              <label
+                key={option.value}
+                className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50"
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1 h-4 w-4 rounded border-gray-300"
+                  checked={events.includes(option.value)}
+                  onChange={() => toggleEvent(option.value)}
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">
+                    {option.label} <code className="ml-1 text-xs text-gray-500">{option.value}</code>
+                  </span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+          />
+          Active
+        </label>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="min-w-[120px]">
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              isEditing ? 'Update Webhook' : 'Create Webhook'
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default WebhookForm;
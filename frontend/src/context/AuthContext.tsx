@@ -1,12 +1,15 @@
 import React, { createContext, useContext, useReducer, useEffect, type ReactNode,  } from 'react';
 // import { User, AuthState } from '@/types';
 import { authService } from '@/services/authService';
-import type { AuthState, User } from '@/types';
+import { refreshSession, setSessionTokens } from '@/services/api';
+import type { AuthState, Permission, User } from '@/types';
+import { hasPermission as userHasPermission } from '@/utils/permissions';
 
 interface AuthContextType extends AuthState {
   login: (email: string, password: string) => Promise<void>;
-  logout: () => void;
-  refreshTokens: () => Promise<boolean>;
+  acceptInvitation: (token: string, data: { name?: string; password: string }) => Promise<void>;
+  logout: () => Promise<void>;
+  hasPermission: (...permissions: Permission[]) => boolean;
   isLoading: boolean;
 }
 
@@ -14,9 +17,10 @@ export const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 type AuthAction =
   | { type: 'LOGIN_START' }
-  | { type: 'LOGIN_SUCCESS'; payload: { user: User; token: string } }
+  | { type: 'LOGIN_SUCCESS'; payload: { user: User } }
   | { type: 'LOGIN_FAILURE' }
   | { type: 'LOGOUT' }
+  | { type: 'UPDATE_USER'; payload: User }
   | { type: 'SET_LOADING'; payload: boolean };
 
 const authReducer = (state: AuthState & { isLoading: boolean }, action: AuthAction) => {
@@ -27,7 +31,6 @@ const authReducer = (state: AuthState & { isLoading: boolean }, action: AuthActi
       return {
         ...state,
         user: action.payload.user,
-        token: action.payload.token,
         isAuthenticated: true,
         isLoading: false,
       };
@@ -35,7 +38,6 @@ const authReducer = (state: AuthState & { isLoading: boolean }, action: AuthActi
       return {
         ...state,
         user: null,
-        token: null,
         isAuthenticated: false,
         isLoading: false,
       };
@@ -43,10 +45,11 @@ const authReducer = (state: AuthState & { isLoading: boolean }, action: AuthActi
       return {
         ...state,
         user: null,
-        token: null,
         isAuthenticated: false,
         isLoading: false,
       };
+    case 'UPDATE_USER':
+      return { ...state, user: action.payload };
     case 'SET_LOADING':
       return { ...state, isLoading: action.payload };
     default:
@@ -54,40 +57,40 @@ const authReducer = (state: AuthState & { isLoading: boolean }, action: AuthActi
   }
 };
 
+// Loading until the session cookie has been checked, so protected pages wait for it
 const initialState: AuthState & { isLoading: boolean } = {
   user: null,
-  token: null,
   isAuthenticated: false,
-  isLoading: false,
+  isLoading: true,
 };
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
   useEffect(() => {
-    const initializeAuth = () => {
-      dispatch({ type: 'SET_LOADING', payload: true });
-      
-      const token = localStorage.getItem('token');
-      const userData = localStorage.getItem('user');
-      
-      if (token && userData) {
-        try {
-          const user = JSON.parse(userData);
-          dispatch({ type: 'LOGIN_SUCCESS', payload: { user, token } });
-        } catch {
-          // Invalid JSON data, clear storage
-          localStorage.removeItem('token');
-          localStorage.removeItem('refreshToken');
-          localStorage.removeItem('user');
-          dispatch({ type: 'LOGIN_FAILURE' });
+    // Tokens and user data stored by earlier versions
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('user');
+
+    // The session cookie survives reloads; refreshing it restores the CSRF token,
+    // and the profile is fetched fresh in case the role or permissions changed
+    const restoreSession = async () => {
+      try {
+        await refreshSession();
+        const response = await authService.getProfile();
+        if (response.success && response.data) {
+          dispatch({ type: 'LOGIN_SUCCESS', payload: { user: response.data.engineer } });
+          return;
         }
-      } else {
-        dispatch({ type: 'LOGIN_FAILURE' });
+      } catch {
+        // No session, or it has ended
       }
+      setSessionTokens(null);
+      dispatch({ type: 'LOGIN_FAILURE' });
     };
 
-    initializeAuth();
+    restoreSession();
   }, []);
 
   const login = async (email: string, password: string) => {
@@ -97,13 +100,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const response = await authService.login(email, password);
       
       if (response.success) {
-        const { engineer, accessToken, refreshToken } = response.data;
-        
-        localStorage.setItem('token', accessToken);
-        localStorage.setItem('refreshToken', refreshToken);
-        localStorage.setItem('user', JSON.stringify(engineer));
-        
-        dispatch({ type: 'LOGIN_SUCCESS', payload: { user: engineer, token: accessToken } });
+        const { engineer, ...tokens } = response.data;
+        setSessionTokens(tokens);
+        dispatch({ type: 'LOGIN_SUCCESS', payload: { user: engineer } });
       } else {
         throw new Error('Invalid credentials');
       }
@@ -113,53 +112,38 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('refreshToken');
-    localStorage.removeItem('user');
-    dispatch({ type: 'LOGOUT' });
-  };
+  // Accepting an invite creates the account and signs the invitee in
+  const acceptInvitation = async (token: string, data: { name?: string; password: string }) => {
+    dispatch({ type: 'LOGIN_START' });
 
-  const refreshTokens = async (): Promise<boolean> => {
-    const refreshToken = localStorage.getItem('refreshToken');
-    
-    if (!refreshToken) {
-      return false;
+    try {
+      const response = await authService.acceptInvitation(token, data);
+      const { engineer, ...tokens } = response.data;
+      setSessionTokens(tokens);
+      dispatch({ type: 'LOGIN_SUCCESS', payload: { user: engineer } });
+    } catch (error) {
+      dispatch({ type: 'LOGIN_FAILURE' });
+      throw error;
     }
+  };
+
+  // Ends the session on the server, which also clears its cookies
+  const logout = async () => {
+    dispatch({ type: 'LOGOUT' });
 
     try {
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3300/api'}/auth/refresh-token`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ refreshToken })
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        const { accessToken, refreshToken: newRefreshToken } = data.data;
-        
-        localStorage.setItem('token', accessToken);
-        if (newRefreshToken) {
-          localStorage.setItem('refreshToken', newRefreshToken);
-        }
-        
-        // Update the auth state with new token
-        dispatch({ type: 'LOGIN_SUCCESS', payload: { user: state.user!, token: accessToken } });
-        
-        return true;
-      }
+      await authService.logout();
     } catch (error) {
-      console.error('Token refresh failed:', error);
+      console.error('Failed to end session:', error);
+    } finally {
+      setSessionTokens(null);
     }
-    
-    return false;
   };
 
+  const hasPermission = (...permissions: Permission[]) => userHasPermission(state.user, ...permissions);
+
   return (
-    <AuthContext.Provider value={{ ...state, login, logout, refreshTokens }}>
+    <AuthContext.Provider value={{ ...state, login, acceptInvitation, logout, hasPermission }}>
       {children}
     </AuthContext.Provider>
   );
@@ -171,4 +155,4 @@ export const useAuth = () => {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { authService } from '@/services/authService';
+import type { PasswordPolicy } from '@/types';
+
+// Fetched once per page load and shared by every password form
+let policyRequest: Promise<PasswordPolicy | null> | null = null;
+
+const loadPasswordPolicy = () => {
+  if (!policyRequest) {
+    policyRequest = authService
+      .getPasswordPolicy()
+      .then((response) => response.data?.policy ?? null)
+      .catch(() => {
+        // Try again next time a form opens; until then the server's check is the only one
+        policyRequest = null;
+        return null;
+      });
+  }
+  return policyRequest;
+};
+
+// The backend's password policy, or null until it has loaded
+export function usePasswordPolicy(): PasswordPolicy | null {
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadPasswordPolicy().then((loaded) => {
+      if (active) setPolicy(loaded);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return policy;
+}
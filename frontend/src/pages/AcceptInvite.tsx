@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from "react";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
+import { useAuth } from "@/context/AuthContext";
+import { authService } from "@/services/authService";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Users, Lock, Mail, User as UserIcon, AlertTriangle, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { ROLE_LABELS } from "@/utils/permissions";
+import { passwordProblem } from "@/utils/formValidation";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import type { InvitationPreview } from "@/types";
+
+const AcceptInvite: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [loadError, setLoadError] = useState("");
+  const [checking, setChecking] = useState(true);
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const passwordPolicy = usePasswordPolicy();
+  const { acceptInvitation, isLoading } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      if (!token) {
+        setLoadError("This page needs the invite link you were sent.");
+        setChecking(false);
+        return;
+      }
+
+      try {
+        const response = await authService.getInvitation(token);
+        if (response.success && response.data) {
+          setInvitation(response.data.invitation);
+          setName(response.data.invitation.name);
+        }
+      } catch (err) {
+        setLoadError((err as Error).message || "This invitation link is invalid or has expired.");
+      } finally {
+        setChecking(false);
+      }
+    };
+
+    loadInvitation();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const weakPassword = passwordProblem(password, passwordPolicy, { email: invitation?.email });
+    if (weakPassword) {
+      setError(weakPassword);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    try {
+      await acceptInvitation(token, { name: name.trim() || undefined, password });
+      navigate("/dashboard", { replace: true });
+    } catch (err) {
+      setError((err as Error).message || "Failed to accept the invitation");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card className="shadow-xl">
+          <CardHeader>
+            <div className="text-center mb-8">
+              <div className="flex justify-center mb-4">
+                <div className="p-3 bg-blue-600 rounded-full">
+                  <Users className="h-8 w-8 text-white" />
+                </div>
+              </div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                Engineering Resource Manager
+              </h1>
+            </div>
+            <CardTitle>Accept Invitation</CardTitle>
+            <CardDescription>
+              {invitation
+                ? `${invitation.invitedBy || "Your team"} invited you to join as ${ROLE_LABELS[invitation.role]}. Choose a password to finish.`
+                : "Set up your account"}
+            </CardDescription>
+          </CardHeader>
+
+          {checking ? (
+            <CardContent className="py-8 text-center text-gray-600">
+              <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+              Checking your invitation...
+            </CardContent>
+          ) : loadError || !invitation ? (
+            <>
+              <CardContent className="text-center space-y-3">
+                <AlertTriangle className="h-10 w-10 text-amber-500 mx-auto" />
+                <p className="text-gray-700">{loadError || "This invitation link is invalid or has expired."}</p>
+                <p className="text-sm text-gray-500">Ask the person who invited you to send a new link.</p>
+              </CardContent>
+              <CardFooter>
+                <Link to="/login" className="w-full">
+                  <Button variant="outline" className="w-full">Go to Sign In</Button>
+                </Link>
+              </CardFooter>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input id="email" type="email" value={invitation.email} className="pl-10" disabled />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="name">Full Name</Label>
+                  <div className="relative">
+                    <UserIcon className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      className="pl-10"
+                      required
+                      minLength={2}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder={passwordPolicy?.hint}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="pl-10"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirm Password</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="confirmPassword"
+                      type="password"
+                      placeholder="Repeat your password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      className="pl-10"
+                      required
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  This link works once and expires {format(new Date(invitation.expiresAt), "MMM d, yyyy")}.
+                </p>
+                {error && <div className="text-red-600 text-sm">{error}</div>}
+              </CardContent>
+              <CardFooter>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? "Creating Account..." : "Create Account"}
+                </Button>
+              </CardFooter>
+            </form>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvite;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Loader2, UserCircle } from 'lucide-react';
+import ActiveSessions from '@/components/ActiveSessions';
+import { authService } from '@/services/authService';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/components/ui/toast';
+import { ROLE_LABELS } from '@/utils/permissions';
+import { passwordProblem } from '@/utils/formValidation';
+import { usePasswordPolicy } from '@/hooks/usePasswordPolicy';
+
+const Account: React.FC = () => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const passwordPolicy = usePasswordPolicy();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // Remounts the session list once other devices were signed out
+  const [sessionsKey, setSessionsKey] = useState(0);
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const weakPassword = passwordProblem(newPassword, passwordPolicy, { email: user?.email });
+    if (weakPassword) {
+      setError(weakPassword);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await authService.changePassword(currentPassword, newPassword);
+      if (response.success) {
+        showToast({ type: 'success', title: 'Password Changed', message: response.message });
+        setCurrentPassword('');
+        setNewPassword('');
+        setConfirmPassword('');
+        setSessionsKey(key => key + 1);
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to change password');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Account</h1>
+        <p className="text-gray-600">Your sign-in details and the devices you are signed in on</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Account Details */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCircle className="h-5 w-5 text-blue-600" />
+              Signed In As
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Name</span>
+              <span className="font-medium text-gray-900">{user?.name}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Email</span>
+              <span className="font-medium text-gray-900">{user?.email}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Role</span>
+              <span className="font-medium text-gray-900">{user && ROLE_LABELS[user.role]}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Change Password */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-blue-600" />
+              Change Password
+            </CardTitle>
+            <CardDescription>Other devices are signed out; this one stays signed in</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleChangePassword} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="currentPassword">Current Password</Label>
+                <Input
+                  id="currentPassword"
+                  type="password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New Password</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  placeholder={passwordPolicy?.hint}
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm New Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={isSaving} className="min-w-[120px]">
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Change Password'
+                  )}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ActiveSessions key={sessionsKey} />
+    </div>
+  );
+};
+
+export default Account;
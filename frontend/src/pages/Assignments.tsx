@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { 
@@ -10,17 +10,24 @@ import {
   User,
   FolderOpen,
   Edit2,
-  Trash2,
+  Archive,
+  ArchiveRestore,
+  ListChecks,
   CheckCircle,
   XCircle,
-  AlertCircle
+  AlertCircle,
+  PauseCircle,
+  Download
 } from 'lucide-react';
 import { assignmentService } from '@/services/assignmentService';
 import { useToast } from '@/components/ui/toast';
 import { useAuth } from '@/context/AuthContext';
 import AssignmentForm from '@/components/forms/AssignmentForm';
-import type { Assignment } from '@/types';
+import BulkAssignmentForm from '@/components/forms/BulkAssignmentForm';
+import ExportDialog from '@/components/ExportDialog';
+import type { Assignment, ExportOptions } from '@/types';
 import { useDebounce } from '@/hooks/useDebounce';
+import { canManageAssignmentsOn } from '@/utils/permissions';
 
 interface PopulatedAssignment extends Omit<Assignment, 'engineerId' | 'projectId'> {
   engineerId: {
@@ -36,11 +43,13 @@ interface PopulatedAssignment extends Omit<Assignment, 'engineerId' | 'projectId
     name: string;
     status: string;
     priority: string;
+    managerId?: string;
   };
 }
 
 const Assignments: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
+  const canManageAssignments = hasPermission('assignments:manage', 'assignments:manage-own');
   const { showToast } = useToast();
   
   const [assignments, setAssignments] = useState<PopulatedAssignment[]>([]);
@@ -48,8 +57,17 @@ const Assignments: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterRole, setFilterRole] = useState<string>('all');
+  const [showArchived, setShowArchived] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkFormOpen, setIsBulkFormOpen] = useState(false);
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [editingAssignment, setEditingAssignment] = useState<Assignment | null>(null);
+
+  // Exports start from the status being viewed
+  const exportDefaults = useMemo<Partial<ExportOptions>>(() => (
+    filterStatus === 'all' ? {} : { status: filterStatus as Assignment['status'] }
+  ), [filterStatus]);
   
   // Debounce search term for better performance
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
@@ -57,10 +75,11 @@ const Assignments: React.FC = () => {
   const loadAssignments = useCallback(async () => {
     try {
       setIsLoading(true);
-      const response = await assignmentService.getAllAssignments();
+      const response = await assignmentService.getAllAssignments({ archived: showArchived });
       
       if (response.success && response.data) {
         setAssignments(response.data.assignments as PopulatedAssignment[] || []);
+        setSelectedIds(new Set());
       } else {
         showToast({
           type: 'error',
@@ -78,7 +97,7 @@ const Assignments: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [showToast]);
+  }, [showToast, showArchived]);
 
   const loadSupportingData = useCallback(async () => {
     // Supporting data is loaded on-demand by the assignment form
@@ -113,38 +132,66 @@ const Assignments: React.FC = () => {
     setIsFormOpen(true);
   };
 
-  const handleDeleteAssignment = async (assignmentId: string, assignmentInfo?: {engineer: string, project: string}) => {
+  const handleArchiveAssignment = async (assignmentId: string, assignmentInfo?: {engineer: string, project: string}) => {
     const confirmMessage = assignmentInfo 
-      ? `Are you sure you want to delete the assignment of ${assignmentInfo.engineer} to ${assignmentInfo.project}? This action cannot be undone.`
-      : 'Are you sure you want to delete this assignment? This action cannot be undone.';
+      ? `Archive the assignment of ${assignmentInfo.engineer} to ${assignmentInfo.project}? It can be restored later from the archived view.`
+      : 'Archive this assignment? It can be restored later from the archived view.';
       
-    if (!confirm(confirmMessage)) {
+    const reason = prompt(`${confirmMessage}\n\nReason for archiving (optional):`);
+    if (reason === null) {
       return;
     }
 
     try {
-      const response = await assignmentService.deleteAssignment(assignmentId);
+      const response = await assignmentService.deleteAssignment(assignmentId, reason);
       if (response.success) {
         showToast({
           type: 'success',
-          title: 'Assignment Deleted',
-          message: response.message || 'Assignment deleted successfully'
+          title: 'Assignment Archived',
+          message: response.message || 'Assignment archived successfully'
         });
         loadAssignments();
       } else {
-        throw new Error(response.message || 'Delete failed');
+        throw new Error(response.message || 'Archive failed');
       }
     } catch (error) {
-      console.error('Delete assignment error:', error);
-      const errorMessage = (error as any)?.response?.data?.error || (error as Error).message || 'Failed to delete assignment';
+      console.error('Archive assignment error:', error);
+      const errorMessage = (error as any)?.response?.data?.error || (error as Error).message || 'Failed to archive assignment';
       showToast({
         type: 'error',
-        title: 'Delete Failed',
+        title: 'Archive Failed',
         message: errorMessage
       });
     }
   };
 
+  const handleRestoreAssignment = async (assignmentId: string) => {
+    const reason = prompt('Restore this assignment? Capacity and team size are checked again before it is reinstated.\n\nReason for restoring (optional):');
+    if (reason === null) {
+      return;
+    }
+
+    try {
+      const response = await assignmentService.restoreAssignment(assignmentId, reason);
+      if (response.success) {
+        showToast({
+          type: 'success',
+          title: 'Assignment Restored',
+          message: response.message || 'Assignment restored successfully'
+        });
+        loadAssignments();
+      } else {
+        throw new Error(response.message || 'Restore failed');
+      }
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Restore Failed',
+        message: (error as Error).message || 'Failed to restore assignment'
+      });
+    }
+  };
+
   const handleFormSuccess = () => {
     loadAssignments();
     setIsFormOpen(false);
@@ -157,6 +204,8 @@ const Assignments: React.FC = () => {
         return <CheckCircle className="h-4 w-4 text-green-600" />;
       case 'completed':
         return <CheckCircle className="h-4 w-4 text-blue-600" />;
+      case 'paused':
+        return <PauseCircle className="h-4 w-4 text-orange-600" />;
       case 'cancelled':
         return <XCircle className="h-4 w-4 text-red-600" />;
       default:
@@ -171,6 +220,8 @@ const Assignments: React.FC = () => {
         return `${baseClasses} bg-green-100 text-green-800`;
       case 'completed':
         return `${baseClasses} bg-blue-100 text-blue-800`;
+      case 'paused':
+        return `${baseClasses} bg-orange-100 text-orange-800`;
       case 'cancelled':
         return `${baseClasses} bg-red-100 text-red-800`;
       default:
@@ -206,6 +257,26 @@ const Assignments: React.FC = () => {
     return matchesSearch && matchesStatus && matchesRole;
   });
 
+  const canSelect = canManageAssignments && !showArchived;
+  const allFilteredSelected = filteredAssignments.length > 0 &&
+    filteredAssignments.every(assignment => selectedIds.has(assignment._id));
+
+  const toggleSelected = (assignmentId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(assignmentId)) {
+        next.delete(assignmentId);
+      } else {
+        next.add(assignmentId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllFiltered = () => {
+    setSelectedIds(allFilteredSelected ? new Set() : new Set(filteredAssignments.map(assignment => assignment._id)));
+  };
+
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -236,14 +307,26 @@ const Assignments: React.FC = () => {
           </p>
         </div>
         
-        {user?.role === 'manager' && (
-          <Button
-            onClick={handleCreateAssignment}
-            className="flex items-center gap-2"
-          >
-            <Plus className="h-4 w-4" />
-            New Assignment
-          </Button>
+        {hasPermission('analytics:read') && (
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={() => setIsExportOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+            {canManageAssignments && (
+              <Button
+                onClick={handleCreateAssignment}
+                className="flex items-center gap-2"
+              >
+                <Plus className="h-4 w-4" />
+                New Assignment
+              </Button>
+            )}
+          </div>
         )}
       </div>
 
@@ -271,6 +354,7 @@ const Assignments: React.FC = () => {
           >
             <option value="all">All Status</option>
             <option value="active">Active</option>
+            <option value="paused">Paused</option>
             <option value="completed">Completed</option>
             <option value="cancelled">Cancelled</option>
           </select>
@@ -290,21 +374,56 @@ const Assignments: React.FC = () => {
             <option value="analyst">Business Analyst</option>
             <option value="designer">Designer</option>
           </select>
+
+          {/* Archived Filter */}
+          {canManageAssignments && (
+            <select
+              value={showArchived ? 'archived' : 'current'}
+              onChange={(e) => setShowArchived(e.target.value === 'archived')}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="current">Current</option>
+              <option value="archived">Archived</option>
+            </select>
+          )}
         </div>
       </div>
 
       {/* Assignments Table */}
       <div className="bg-white rounded-lg shadow-sm border">
-        <div className="px-6 py-4 border-b border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
           <h2 className="text-lg font-semibold text-gray-900">
-            Assignments ({filteredAssignments.length})
+            {showArchived ? 'Archived Assignments' : 'Assignments'} ({filteredAssignments.length})
           </h2>
+          {canSelect && selectedIds.size > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600">{selectedIds.size} selected</span>
+              <Button variant="outline" size="sm" onClick={() => setSelectedIds(new Set())}>
+                Clear
+              </Button>
+              <Button size="sm" onClick={() => setIsBulkFormOpen(true)} className="flex items-center gap-1">
+                <ListChecks className="h-4 w-4" />
+                Bulk Update
+              </Button>
+            </div>
+          )}
         </div>
         
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead className="bg-gray-50">
               <tr>
+                {canSelect && (
+                  <th className="pl-6 py-3 w-8">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all assignments"
+                      checked={allFilteredSelected}
+                      onChange={toggleAllFiltered}
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                  </th>
+                )}
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Engineer
                 </th>
@@ -323,7 +442,7 @@ const Assignments: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
-                {user?.role === 'manager' && (
+                {canManageAssignments && (
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
                   </th>
@@ -333,7 +452,18 @@ const Assignments: React.FC = () => {
             <tbody className="bg-white divide-y divide-gray-200">
               {filteredAssignments.length > 0 ? (
                 filteredAssignments.map((assignment) => (
-                  <tr key={assignment._id} className="hover:bg-gray-50">
+                  <tr key={assignment._id} className={selectedIds.has(assignment._id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                    {canSelect && (
+                      <td className="pl-6 py-4 w-8">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select assignment of ${assignment.engineerId?.name || 'engineer'}`}
+                          checked={selectedIds.has(assignment._id)}
+                          onChange={() => toggleSelected(assignment._id)}
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                      </td>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
                         <div className="flex-shrink-0 h-10 w-10">
@@ -398,46 +528,65 @@ const Assignments: React.FC = () => {
                           {assignment.status}
                         </span>
                       </div>
+                      {assignment.archivedAt && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Archived {formatDate(new Date(assignment.archivedAt))}
+                        </div>
+                      )}
                     </td>
-                    {user?.role === 'manager' && (
+                    {canManageAssignments && (
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <div className="flex items-center gap-2">
+                        {!canManageAssignmentsOn(user, assignment.projectId) ? null : assignment.archivedAt ? (
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => handleEditAssignment(assignment)}
+                            onClick={() => handleRestoreAssignment(assignment._id)}
                             className="flex items-center gap-1"
                           >
-                            <Edit2 className="h-3 w-3" />
-                            Edit
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDeleteAssignment(assignment._id, {
-                              engineer: assignment.engineerId?.name || 'Unknown Engineer',
-                              project: assignment.projectId?.name || 'Unknown Project'
-                            })}
-                            className="flex items-center gap-1 text-red-600 hover:text-red-700 hover:bg-red-50"
-                          >
-                            <Trash2 className="h-3 w-3" />
-                            Delete
+                            <ArchiveRestore className="h-3 w-3" />
+                            Restore
                           </Button>
-                        </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEditAssignment(assignment)}
+                              className="flex items-center gap-1"
+                            >
+                              <Edit2 className="h-3 w-3" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleArchiveAssignment(assignment._id, {
+                                engineer: assignment.engineerId?.name || 'Unknown Engineer',
+                                project: assignment.projectId?.name || 'Unknown Project'
+                              })}
+                              className="flex items-center gap-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                              <Archive className="h-3 w-3" />
+                              Archive
+                            </Button>
+                          </div>
+                        )}
                       </td>
                     )}
                   </tr>
                 ))
               ) : (
                 <tr>
-                  <td colSpan={user?.role === 'manager' ? 7 : 6} className="px-6 py-12 text-center">
+                  <td colSpan={(canManageAssignments ? 7 : 6) + (canSelect ? 1 : 0)} className="px-6 py-12 text-center">
                     <div className="flex flex-col items-center justify-center text-gray-500">
                       <Users2 className="h-12 w-12 mb-4 opacity-40" />
                       <h3 className="text-lg font-medium mb-2">No assignments found</h3>
                       <p className="text-sm">
                         {searchTerm || filterStatus !== 'all' || filterRole !== 'all'
                           ? 'Try adjusting your search criteria'
-                          : 'Get started by creating your first assignment'}
+                          : showArchived
+                            ? 'Archived assignments will appear here'
+                            : 'Get started by creating your first assignment'}
                       </p>
                     </div>
                   </td>
@@ -457,6 +606,21 @@ const Assignments: React.FC = () => {
           assignment={editingAssignment}
         />
       )}
+
+      {/* Bulk Update Modal */}
+      <BulkAssignmentForm
+        isOpen={isBulkFormOpen}
+        onClose={() => setIsBulkFormOpen(false)}
+        onSuccess={loadAssignments}
+        assignmentIds={[...selectedIds]}
+      />
+
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        report="assignments"
+        defaults={exportDefaults}
+      />
     </div>
   );
 };
@@ -1,9 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { 
   Calendar, 
+  CalendarPlus,
   Clock, 
   TrendingUp, 
   User, 
@@ -14,8 +16,23 @@ import {
 } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import { assignmentService } from '@/services/assignmentService';
+import { timeOffService } from '@/services/timeOffService';
+import { holidayService } from '@/services/holidayService';
 import { useToast } from '@/components/ui/toast';
-import type { Assignment } from '@/types';
+import TimeOffCalendar from '@/components/TimeOffCalendar';
+import TimeOffForm from '@/components/forms/TimeOffForm';
+import ProgressUpdateForm from '@/components/forms/ProgressUpdateForm';
+import WeeklyTimesheet from '@/components/WeeklyTimesheet';
+import CalendarFeedCard from '@/components/CalendarFeedCard';
+import { addDays, endOfMonth, format, startOfMonth } from 'date-fns';
+import type { Assignment, Holiday, TimeOff } from '@/types';
+
+const TIME_OFF_STATUS_VARIANTS: Record<TimeOff['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  approved: 'default',
+  pending: 'outline',
+  rejected: 'destructive',
+  cancelled: 'secondary'
+};
 
 const EngineerDashboard: React.FC = () => {
   const { user } = useAuth();
@@ -23,6 +40,79 @@ const EngineerDashboard: React.FC = () => {
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [calendarMonth, setCalendarMonth] = useState(() => startOfMonth(new Date()));
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [isTimeOffFormOpen, setIsTimeOffFormOpen] = useState(false);
+  const [timeOffStartDate, setTimeOffStartDate] = useState<string | undefined>();
+  const [cancellingTimeOffId, setCancellingTimeOffId] = useState<string | null>(null);
+  const [progressAssignment, setProgressAssignment] = useState<Assignment | null>(null);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const loadTimeOff = useCallback(async () => {
+    try {
+      const response = await timeOffService.getTimeOff();
+      setTimeOff(response.data?.timeOff || []);
+    } catch (err) {
+      console.error('Error loading time off:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadTimeOff();
+    }
+  }, [user, loadTimeOff]);
+
+  // Holidays on this engineer's calendar for the visible month, padded for the leading and trailing weeks
+  useEffect(() => {
+    if (!user) return;
+
+    holidayService.getHolidays({
+      startDate: format(addDays(calendarMonth, -7), 'yyyy-MM-dd'),
+      endDate: format(addDays(endOfMonth(calendarMonth), 7), 'yyyy-MM-dd'),
+      department: user.department,
+      location: user.location
+    })
+      .then(response => setHolidays(response.data?.holidays || []))
+      .catch(err => console.error('Error loading holidays:', err));
+  }, [user, calendarMonth]);
+
+  const handleCancelTimeOff = async (entry: TimeOff) => {
+    if (!confirm(`Cancel your ${entry.type} from ${formatDate(entry.startDate)} to ${formatDate(entry.endDate)}?`)) {
+      return;
+    }
+
+    try {
+      setCancellingTimeOffId(entry._id);
+      const response = await timeOffService.cancelTimeOff(entry._id);
+      if (response.success) {
+        showToast({
+          type: 'success',
+          title: 'Time Off Cancelled',
+          message: 'Your time off has been cancelled.'
+        });
+        loadTimeOff();
+      } else {
+        throw new Error(response.error || 'Failed to cancel time off');
+      }
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: (err as Error).message || 'Failed to cancel time off'
+      });
+    } finally {
+      setCancellingTimeOffId(null);
+    }
+  };
 
   useEffect(() => {
     const loadAssignments = async () => {
@@ -60,13 +150,8 @@ const EngineerDashboard: React.FC = () => {
   const totalAllocation = activeAssignments.reduce((sum, a) => sum + (a.allocationPercentage || 0), 0);
   const availableCapacity = (user?.maxCapacity || 100) - totalAllocation;
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric'
-    });
-  };
+  const todayKey = format(new Date(), 'yyyy-MM-dd');
+  const upcomingTimeOff = timeOff.filter(entry => entry.endDate.slice(0, 10) >= todayKey);
 
   if (isLoading) {
     return (
@@ -214,7 +299,17 @@ const EngineerDashboard: React.FC = () => {
                     <div className="space-y-2">
                       <div className="flex items-center justify-between text-sm">
                         <span className="text-gray-600">Progress</span>
-                        <span className="font-medium">{assignment.completionPercentage || 0}%</span>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{assignment.completionPercentage || 0}%</span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setProgressAssignment(assignment)}
+                          >
+                            Update
+                          </Button>
+                        </div>
                       </div>
                       <Progress value={assignment.completionPercentage || 0} className="h-2" />
                     </div>
@@ -226,6 +321,9 @@ const EngineerDashboard: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Timesheet */}
+      <WeeklyTimesheet />
+
       {/* Upcoming Assignments */}
       {upcomingAssignments.length > 0 && (
         <Card>
@@ -270,6 +368,86 @@ const EngineerDashboard: React.FC = () => {
         </Card>
       )}
 
+      {/* Time Off */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Time Off</CardTitle>
+              <CardDescription>Leave, public holidays and partial-day availability</CardDescription>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => {
+                setTimeOffStartDate(undefined);
+                setIsTimeOffFormOpen(true);
+              }}
+            >
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Request Time Off
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <TimeOffCalendar
+                month={calendarMonth}
+                onMonthChange={setCalendarMonth}
+                timeOff={timeOff}
+                holidays={holidays}
+                onDayClick={(day) => {
+                  if (day < todayKey) return;
+                  setTimeOffStartDate(day);
+                  setIsTimeOffFormOpen(true);
+                }}
+              />
+            </div>
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-gray-900">Upcoming Requests</h4>
+              {upcomingTimeOff.length === 0 ? (
+                <p className="text-sm text-gray-500">No upcoming time off. Click a day to request some.</p>
+              ) : (
+                upcomingTimeOff.map(entry => (
+                  <div key={entry._id} className="border border-gray-200 rounded-lg p-3 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-900 capitalize">
+                        {entry.type}{entry.percentage < 100 ? ` (${entry.percentage}% of day)` : ''}
+                      </span>
+                      <Badge variant={TIME_OFF_STATUS_VARIANTS[entry.status]} className="capitalize">
+                        {entry.status}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(entry.startDate)} - {formatDate(entry.endDate)}
+                    </p>
+                    {entry.reviewNote && (
+                      <p className="text-xs text-gray-600">
+                        {entry.reviewedBy?.name ? `${entry.reviewedBy.name}: ` : ''}{entry.reviewNote}
+                      </p>
+                    )}
+                    {(entry.status === 'pending' || entry.status === 'approved') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        disabled={cancellingTimeOffId === entry._id}
+                        onClick={() => handleCancelTimeOff(entry)}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Calendar Subscription */}
+      <CalendarFeedCard />
+
       {/* Workload Alert */}
       {totalAllocation > 90 && (
         <Card className="border-red-200 bg-red-50">
@@ -286,6 +464,25 @@ const EngineerDashboard: React.FC = () => {
           </CardContent>
         </Card>
       )}
+
+      <ProgressUpdateForm
+        isOpen={!!progressAssignment}
+        onClose={() => setProgressAssignment(null)}
+        onSuccess={(completionPercentage) => {
+          const assignmentId = progressAssignment?._id;
+          setAssignments(prev => prev.map(assignment =>
+            assignment._id === assignmentId ? { ...assignment, completionPercentage } : assignment
+          ));
+        }}
+        assignment={progressAssignment}
+      />
+
+      <TimeOffForm
+        isOpen={isTimeOffFormOpen}
+        onClose={() => setIsTimeOffFormOpen(false)}
+        onSuccess={loadTimeOff}
+        initialDate={timeOffStartDate}
+      />
     </div>
   );
 };
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,7 +7,6 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { 
   Search, 
-  Filter, 
   UserPlus, 
   Mail, 
   MapPin,
@@ -14,23 +14,30 @@ import {
   AlertTriangle,
   Users,
   Edit,
-  Settings
+  Settings,
+  History,
+  Archive,
+  ArchiveRestore,
+  Upload
 } from 'lucide-react';
 import { engineerService } from '@/services/engineerService';
-import { assignmentService } from '@/services/assignmentService';
 import type { EngineerWithAssignments } from '@/types';
 import EngineerForm from '@/components/forms/EngineerForm';
 import AssignmentForm from '@/components/forms/AssignmentForm';
+import ProgressUpdateForm from '@/components/forms/ProgressUpdateForm';
+import AuditHistory from '@/components/AuditHistory';
+import PendingInvitations, { type InviteLink } from '@/components/PendingInvitations';
+import Modal from '@/components/ui/modal';
+import { useToast } from '@/components/ui/toast';
 import { getCapacityInfo, getTeamCapacityStats } from '@/utils/capacityCalculations';
 import { useAuth } from '@/context/AuthContext';
-import { useToast } from '@/components/ui/toast';
-import Modal from '@/components/ui/modal';
-import { Label } from '@/components/ui/label';
 import { useDebounce } from '@/hooks/useDebounce';
 
 
 const Engineers: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
+  const navigate = useNavigate();
+  const { showToast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
   const [skillFilter, setSkillFilter] = useState('');
   const [seniorityFilter, setSeniorityFilter] = useState('');
@@ -42,20 +49,17 @@ const Engineers: React.FC = () => {
   const [selectedEngineer, setSelectedEngineer] = useState<EngineerWithAssignments | null>(null);
   const [isProgressModalOpen, setIsProgressModalOpen] = useState(false);
   const [selectedAssignment, setSelectedAssignment] = useState<any>(null);
-  const [newProgress, setNewProgress] = useState(0);
-  const { showToast } = useToast();
+  const [historyEngineer, setHistoryEngineer] = useState<EngineerWithAssignments | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [inviteLink, setInviteLink] = useState<InviteLink | null>(null);
   
   // Debounce search term for better performance
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
 
-  useEffect(() => {
-    fetchEngineers();
-  }, []);
-
-  const fetchEngineers = async () => {
+  const fetchEngineers = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await engineerService.getAllEngineers();
+      const response = await engineerService.getAllEngineers({ archived: showArchived });
       if (response.success && response.data) {
         setEngineers(response.data.engineers || []);
       } else {
@@ -67,6 +71,49 @@ const Engineers: React.FC = () => {
     } finally {
       setLoading(false);
     }
+  }, [showArchived]);
+
+  useEffect(() => {
+    fetchEngineers();
+  }, [fetchEngineers]);
+
+  const handleArchiveEngineer = async (engineer: EngineerWithAssignments) => {
+    const reason = prompt(`Archive ${engineer.name} and their assignments? They can be restored later from the archived view.\n\nReason for archiving (optional):`);
+    if (reason === null) return;
+
+    try {
+      const response = await engineerService.archiveEngineer(engineer._id, reason);
+      if (response.success) {
+        showToast({ type: 'success', title: 'Engineer Archived', message: response.message });
+        fetchEngineers();
+      } else {
+        showToast({ type: 'error', title: 'Failed to archive engineer' });
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Failed to archive engineer', message: (err as Error).message });
+    }
+  };
+
+  const handleRestoreEngineer = async (engineer: EngineerWithAssignments) => {
+    const reason = prompt(`Restore ${engineer.name}? Assignments archived with them are reinstated if they still fit.\n\nReason for restoring (optional):`);
+    if (reason === null) return;
+
+    try {
+      const response = await engineerService.restoreEngineer(engineer._id, reason);
+      if (response.success) {
+        const skipped = response.data?.skippedAssignments || [];
+        showToast({
+          type: skipped.length > 0 ? 'warning' : 'success',
+          title: 'Engineer Restored',
+          message: [response.message, ...skipped.map(item => `${item.project || 'Project'}: ${item.reason}`)].join(' ')
+        });
+        fetchEngineers();
+      } else {
+        showToast({ type: 'error', title: 'Failed to restore engineer' });
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Failed to restore engineer', message: (err as Error).message });
+    }
   };
 
   const filteredEngineers = engineers.filter(engineer => {
@@ -85,25 +132,6 @@ const Engineers: React.FC = () => {
   });
 
 
-  const handleUpdateAssignmentProgress = async () => {
-    if (!selectedAssignment) return;
-    
-    try {
-      const response = await assignmentService.updateAssignmentProgress(selectedAssignment._id, newProgress);
-      if (response.success) {
-        showToast({ type: 'success', title: 'Assignment progress updated successfully' });
-        setIsProgressModalOpen(false);
-        setSelectedAssignment(null);
-        fetchEngineers(); // Refresh the engineers list
-      } else {
-        showToast({ type: 'error', title: 'Failed to update progress' });
-      }
-    } catch (err) {
-      console.error('Error updating assignment progress:', err);
-      showToast({ type: 'error', title: 'Failed to update progress' });
-    }
-  };
-
   const getSeniorityIcon = (seniority: string) => {
     switch (seniority) {
       case 'senior': return <Star className="h-4 w-4 text-yellow-500" />;
@@ -126,16 +154,28 @@ const Engineers: React.FC = () => {
               : 'Manage and view your engineering team members'}
           </p>
         </div>
-        {user?.role === 'manager' && (
-          <Button onClick={() => setIsEngineerFormOpen(true)}>
-            <UserPlus className="h-4 w-4 mr-2" />
-            Add Engineer
-          </Button>
+        {hasPermission('engineers:manage') && (
+          <div className="flex gap-2">
+            {hasPermission('import:run') && (
+              <Button variant="outline" onClick={() => navigate('/import')}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            )}
+            <Button onClick={() => setIsEngineerFormOpen(true)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite Engineer
+            </Button>
+          </div>
         )}
       </div>
 
-      {/* Filters - Only show for managers */}
-      {user?.role === 'manager' && (
+      {hasPermission('engineers:manage') && (
+        <PendingInvitations inviteLink={inviteLink} onInviteLink={setInviteLink} />
+      )}
+
+      {/* Filters - Only show to those who see the whole team */}
+      {hasPermission('analytics:read') && (
         <Card>
           <CardContent className="p-6">
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -163,10 +203,14 @@ const Engineers: React.FC = () => {
                 <option value="mid">Mid-level</option>
                 <option value="senior">Senior</option>
               </select>
-              <Button variant="outline">
-                <Filter className="h-4 w-4 mr-2" />
-                More Filters
-              </Button>
+              <select
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+                value={showArchived ? 'archived' : 'current'}
+                onChange={(e) => setShowArchived(e.target.value === 'archived')}
+              >
+                <option value="current">Current Team</option>
+                <option value="archived">Archived Engineers</option>
+              </select>
             </div>
           </CardContent>
         </Card>
@@ -230,6 +274,11 @@ const Engineers: React.FC = () => {
                         {getSeniorityIcon(engineer.seniority || 'junior')}
                         <span className="ml-1 capitalize">{engineer.seniority || 'junior'}</span>
                       </div>
+                      {engineer.archivedAt && (
+                        <Badge variant="outline" className="mt-1 text-xs">
+                          Archived {new Date(engineer.archivedAt).toLocaleDateString()}
+                        </Badge>
+                      )}
                     </div>
                   </div>
                   {capacityInfo.status === 'overloaded' && (
@@ -395,7 +444,6 @@ const Engineers: React.FC = () => {
                                 className="ml-2 h-6 px-2 text-xs bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100 hover:border-blue-300 transition-colors duration-200 font-medium"
                                 onClick={() => {
                                   setSelectedAssignment(assignment);
-                                  setNewProgress(assignment.completionPercentage || 0);
                                   setIsProgressModalOpen(true);
                                 }}
                               >
@@ -411,8 +459,20 @@ const Engineers: React.FC = () => {
 
                 {/* Actions */}
                 <div className="flex space-x-2 pt-2">
+                  {/* Archived engineers can only be restored */}
+                  {hasPermission('engineers:manage') && engineer.archivedAt && (
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      className="flex-1"
+                      onClick={() => handleRestoreEngineer(engineer)}
+                    >
+                      <ArchiveRestore className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
                   {/* Engineers can only edit their own profile */}
-                  {(user?.role === 'manager' || (user?.role === 'engineer' && engineer._id === user._id)) && (
+                  {!engineer.archivedAt && (hasPermission('engineers:manage') || engineer._id === user?._id) && (
                     <Button 
                       variant="outline" 
                       size="sm" 
@@ -423,11 +483,11 @@ const Engineers: React.FC = () => {
                       }}
                     >
                       <Edit className="h-3 w-3 mr-1" />
-                      {user?.role === 'engineer' ? 'Edit Profile' : 'Edit'}
+                      {engineer._id === user?._id ? 'Edit Profile' : 'Edit'}
                     </Button>
                   )}
                   {/* Only managers can create assignments */}
-                  {user?.role === 'manager' && (
+                  {hasPermission('assignments:manage', 'assignments:manage-own') && !engineer.archivedAt && (
                     <Button 
                       variant="outline" 
                       size="sm" 
@@ -441,6 +501,27 @@ const Engineers: React.FC = () => {
                       Assign
                     </Button>
                   )}
+                  {hasPermission('audit:read') && (
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      onClick={() => setHistoryEngineer(engineer)}
+                      title="Change history"
+                    >
+                      <History className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {hasPermission('engineers:manage') && !engineer.archivedAt && (
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => handleArchiveEngineer(engineer)}
+                      title="Archive engineer"
+                    >
+                      <Archive className="h-3 w-3" />
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -456,13 +537,15 @@ const Engineers: React.FC = () => {
           <CardContent className="p-12 text-center">
             <Users className="h-12 w-12 text-gray-300 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No engineers found</h3>
-            <p className="text-gray-500">Try adjusting your search criteria</p>
+            <p className="text-gray-500">
+              {showArchived ? 'Archived engineers will appear here' : 'Try adjusting your search criteria'}
+            </p>
           </CardContent>
         </Card>
       )}
 
       {/* Summary Stats - Only show for managers */}
-      {!loading && !error && user?.role === 'manager' && (() => {
+      {!loading && !error && hasPermission('analytics:read') && (() => {
         const teamStats = getTeamCapacityStats(filteredEngineers);
         return (
           <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
@@ -512,6 +595,7 @@ const Engineers: React.FC = () => {
         onSuccess={() => {
           fetchEngineers();
         }}
+        onInvited={(invitation, inviteUrl) => setInviteLink({ invitation, inviteUrl })}
         engineer={selectedEngineer}
       />
 
@@ -528,89 +612,26 @@ const Engineers: React.FC = () => {
         preSelectedEngineerId={selectedEngineer?._id}
       />
 
-      {/* Assignment Progress Update Modal */}
+      {/* Change History Modal */}
       <Modal
+        isOpen={!!historyEngineer}
+        onClose={() => setHistoryEngineer(null)}
+        title={`${historyEngineer?.name || 'Engineer'} · History`}
+        size="lg"
+      >
+        {historyEngineer && <AuditHistory engineerId={historyEngineer._id} />}
+      </Modal>
+
+      {/* Assignment Progress Update Modal */}
+      <ProgressUpdateForm
         isOpen={isProgressModalOpen}
         onClose={() => {
           setIsProgressModalOpen(false);
           setSelectedAssignment(null);
         }}
-        title="Update Assignment Progress"
-      >
-        <div className="space-y-4">
-          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
-            <h4 className="text-sm font-medium text-blue-800 mb-1">How to Update Progress</h4>
-            <p className="text-xs text-blue-600">
-              Enter a percentage (0-100) that reflects how much of your work on this assignment is complete.
-              This will automatically update the overall project progress.
-            </p>
-          </div>
-          
-          <div>
-            <Label htmlFor="assignmentProgress" className="text-sm font-medium">
-              Assignment Completion Percentage
-            </Label>
-            <div className="mt-1 relative">
-              <Input
-                id="assignmentProgress"
-                type="number"
-                min="0"
-                max="100"
-                value={newProgress}
-                onChange={(e) => setNewProgress(parseInt(e.target.value) || 0)}
-                className="pr-8"
-                placeholder="Enter 0-100"
-              />
-              <span className="absolute right-3 top-2 text-gray-400 text-sm">%</span>
-            </div>
-            <div className="mt-2 space-y-1">
-              <p className="text-sm text-gray-600">
-                <span className="font-medium">Project:</span> {typeof selectedAssignment?.projectId === 'object' && selectedAssignment?.projectId?.name ? selectedAssignment.projectId.name : 'Unknown Project'}
-              </p>
-              <p className="text-sm text-gray-600">
-                <span className="font-medium">Your Role:</span> {selectedAssignment?.role || 'Developer'}
-              </p>
-              <p className="text-sm text-gray-600">
-                <span className="font-medium">Current Progress:</span> {selectedAssignment?.completionPercentage || 0}%
-              </p>
-            </div>
-            
-            {/* Quick progress buttons */}
-            <div className="mt-3">
-              <p className="text-xs text-gray-500 mb-2">Quick Options:</p>
-              <div className="flex flex-wrap gap-2">
-                {[25, 50, 75, 100].map((percent) => (
-                  <button
-                    key={percent}
-                    type="button"
-                    onClick={() => setNewProgress(percent)}
-                    className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded transition-colors duration-200"
-                  >
-                    {percent}%
-                  </button>
-                ))}
-              </div>
-            </div>
-          </div>
-          <div className="flex space-x-3 pt-4">
-            <Button
-              onClick={handleUpdateAssignmentProgress}
-              disabled={newProgress < 0 || newProgress > 100}
-            >
-              Update Progress
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => {
-                setIsProgressModalOpen(false);
-                setSelectedAssignment(null);
-              }}
-            >
-              Cancel
-            </Button>
-          </div>
-        </div>
-      </Modal>
+        onSuccess={fetchEngineers}
+        assignment={selectedAssignment}
+      />
     </div>
   );
 };
@@ -0,0 +1,384 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, AlertTriangle, Download, TrendingUp, Users } from 'lucide-react';
+import {
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { format } from 'date-fns';
+import { assignmentService } from '@/services/assignmentService';
+import { engineerService } from '@/services/engineerService';
+import { useAuth } from '@/context/AuthContext';
+import ExportDialog from '@/components/ExportDialog';
+import type { CapacityForecast, CapacityForecastEngineer } from '@/types';
+
+const HORIZONS = [4, 8, 12, 26, 52];
+
+const CELL_WIDTH = 56;
+const CELL_HEIGHT = 28;
+const ENGINEER_AXIS_WIDTH = 160;
+const HEATMAP_MARGIN = { top: 10, right: 20, bottom: 10, left: 10 };
+
+interface HeatmapCell extends CapacityForecastEngineer {
+  x: number;
+  y: number;
+  weekLabel: string;
+}
+
+const formatWeek = (date: string) => format(new Date(date), 'MMM d');
+
+// Same thresholds as the dashboard: over 100% is overallocated, over 80% is at risk
+const getUtilizationColor = (rate: number) => {
+  if (rate > 100) return '#dc2626';
+  if (rate > 80) return '#f97316';
+  if (rate >= 50) return '#facc15';
+  if (rate > 0) return '#4ade80';
+  return '#e2e8f0';
+};
+
+// Draw each scatter point as a cell filling its week/engineer slot
+const renderHeatmapCell = (props: unknown) => {
+  const { cx, cy, fill } = props as { cx: number; cy: number; fill: string };
+  return (
+    <rect
+      x={cx - CELL_WIDTH / 2 + 1}
+      y={cy - CELL_HEIGHT / 2 + 1}
+      width={CELL_WIDTH - 2}
+      height={CELL_HEIGHT - 2}
+      rx={3}
+      fill={fill}
+    />
+  );
+};
+
+const HeatmapTooltip: React.FC<{ active?: boolean; payload?: { payload: HeatmapCell }[] }> = ({ active, payload }) => {
+  if (!active || !payload?.length) return null;
+  const cell = payload[0].payload;
+
+  return (
+    <div className="bg-gray-900 text-white text-xs rounded-lg py-2 px-3 shadow-lg">
+      <div className="font-medium">{cell.engineerName} · week of {cell.weekLabel}</div>
+      <div className="text-gray-300">{cell.allocated}% of {cell.capacity}% allocated</div>
+      {cell.timeOffDays > 0 && (
+        <div className="text-gray-300">{cell.timeOffDays} day{cell.timeOffDays === 1 ? '' : 's'} off (max {cell.maxCapacity}%)</div>
+      )}
+      {cell.assignments.map((assignment, index) => (
+        <div key={index} className="text-gray-300">
+          {assignment.projectName || 'Unknown Project'}: {assignment.allocation}%
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const Forecast: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const [forecast, setForecast] = useState<CapacityForecast | null>(null);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [weeks, setWeeks] = useState(12);
+  const [department, setDepartment] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const isManager = hasPermission('analytics:read');
+
+  const loadForecast = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await assignmentService.getCapacityForecast({
+        weeks,
+        department: department || undefined
+      });
+
+      if (response.success && response.data) {
+        setForecast(response.data);
+      } else {
+        setError('Failed to load capacity forecast');
+      }
+    } catch (err) {
+      console.error('Error loading capacity forecast:', err);
+      setError((err as Error).message || 'Failed to load capacity forecast');
+    } finally {
+      setLoading(false);
+    }
+  }, [weeks, department]);
+
+  useEffect(() => {
+    if (isManager) {
+      loadForecast();
+    }
+  }, [isManager, loadForecast]);
+
+  useEffect(() => {
+    if (!isManager) return;
+
+    engineerService.getAllEngineers({ limit: 100 })
+      .then(response => {
+        const names = (response.data?.engineers || [])
+          .map(engineer => engineer.department)
+          .filter((name): name is string => !!name);
+        setDepartments([...new Set(names)].sort());
+      })
+      .catch(err => console.error('Error loading departments:', err));
+  }, [isManager]);
+
+  const exportDefaults = useMemo(() => ({ weeks, department }), [weeks, department]);
+
+  const engineerNames = useMemo(
+    () => forecast?.forecast[0]?.engineers.map(engineer => engineer.engineerName) || [],
+    [forecast]
+  );
+
+  const heatmapCells = useMemo<HeatmapCell[]>(() => {
+    if (!forecast) return [];
+    return forecast.forecast.flatMap(week =>
+      week.engineers.map((engineer, index) => ({
+        ...engineer,
+        x: week.week,
+        y: index,
+        weekLabel: formatWeek(week.weekStart)
+      }))
+    );
+  }, [forecast]);
+
+  const trendData = useMemo(() => (forecast?.forecast || []).map(week => ({
+    week: formatWeek(week.weekStart),
+    supply: week.totalCapacity,
+    demand: week.totalAllocated,
+    overallocated: week.overallocatedEngineers
+  })), [forecast]);
+
+  if (!isManager) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  const weekLabels = (forecast?.forecast || []).map(week => formatWeek(week.weekStart));
+  const overallocatedWeekNumbers = new Set(
+    (forecast?.forecast || []).filter(week => week.overallocatedEngineers > 0).map(week => week.week)
+  );
+  const heatmapWidth = ENGINEER_AXIS_WIDTH + weekLabels.length * CELL_WIDTH + HEATMAP_MARGIN.left + HEATMAP_MARGIN.right;
+  const heatmapHeight = engineerNames.length * CELL_HEIGHT + 40 + HEATMAP_MARGIN.top + HEATMAP_MARGIN.bottom;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Capacity Forecast</h1>
+          <p className="text-gray-600">Spot allocation crunches weeks before they happen</p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+            value={department}
+            onChange={(e) => setDepartment(e.target.value)}
+          >
+            <option value="">All Departments</option>
+            {departments.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <select
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+            value={weeks}
+            onChange={(e) => setWeeks(parseInt(e.target.value))}
+          >
+            {HORIZONS.map(option => (
+              <option key={option} value={option}>Next {option} weeks</option>
+            ))}
+          </select>
+          <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      {/* Loading State */}
+      {loading && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading forecast...</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Error State */}
+      {!loading && error && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="text-red-600 mb-4">
+              <AlertCircle className="h-12 w-12 mx-auto" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Forecast</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <Button onClick={loadForecast}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {!loading && !error && forecast && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-gray-900">{forecast.summary.averageUtilization}%</p>
+                <p className="text-sm text-gray-600">Average Utilization</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-orange-600">{forecast.summary.peakUtilization}%</p>
+                <p className="text-sm text-gray-600">Peak Utilization</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-green-600">{forecast.summary.lowUtilization}%</p>
+                <p className="text-sm text-gray-600">Lowest Utilization</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className={`text-2xl font-bold ${forecast.summary.overallocatedWeeks > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {forecast.summary.overallocatedWeeks}
+                </p>
+                <p className="text-sm text-gray-600">Weeks With Overallocation</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Supply vs Demand */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="h-5 w-5 text-blue-600" />
+                Supply vs. Demand
+              </CardTitle>
+              <CardDescription>
+                Team capacity against allocated work per week, with overallocated engineers highlighted
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={trendData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="week" fontSize={12} />
+                  <YAxis yAxisId="capacity" fontSize={12} tickFormatter={(value) => `${value}%`} />
+                  <YAxis yAxisId="engineers" orientation="right" allowDecimals={false} fontSize={12} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar yAxisId="engineers" dataKey="overallocated" name="Overallocated engineers" fill="#fca5a5" />
+                  <Line yAxisId="capacity" type="monotone" dataKey="supply" name="Supply (capacity %)" stroke="#2563eb" strokeWidth={2} dot={false} />
+                  <Line yAxisId="capacity" type="monotone" dataKey="demand" name="Demand (allocated %)" stroke="#ea580c" strokeWidth={2} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          {/* Heatmap */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5 text-blue-600" />
+                Engineer Utilization by Week
+              </CardTitle>
+              <CardDescription className="flex flex-wrap items-center gap-4">
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-[#e2e8f0]" /> Idle</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-[#4ade80]" /> Under 50%</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-[#facc15]" /> 50-80%</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-[#f97316]" /> 81-100%</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-[#dc2626]" /> Overallocated</span>
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {engineerNames.length === 0 ? (
+                <div className="text-center py-8">
+                  <AlertTriangle className="h-8 w-8 text-gray-300 mx-auto mb-2" />
+                  <p className="text-sm text-gray-500">No engineers found for this department</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <ScatterChart width={heatmapWidth} height={heatmapHeight} margin={HEATMAP_MARGIN}>
+                    <XAxis
+                      type="number"
+                      dataKey="x"
+                      domain={[0.5, weekLabels.length + 0.5]}
+                      ticks={weekLabels.map((_, index) => index + 1)}
+                      tickFormatter={(value: number) => weekLabels[value - 1] || ''}
+                      orientation="top"
+                      height={40}
+                      tickLine={false}
+                      axisLine={false}
+                      tick={({ x, y, payload }) => (
+                        <text
+                          x={x}
+                          y={y - 4}
+                          textAnchor="middle"
+                          fontSize={11}
+                          fontWeight={overallocatedWeekNumbers.has(payload.value) ? 600 : 400}
+                          fill={overallocatedWeekNumbers.has(payload.value) ? '#dc2626' : '#64748b'}
+                        >
+                          {weekLabels[payload.value - 1]}
+                        </text>
+                      )}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="y"
+                      domain={[-0.5, engineerNames.length - 0.5]}
+                      ticks={engineerNames.map((_, index) => index)}
+                      tickFormatter={(value: number) => engineerNames[value] || ''}
+                      reversed
+                      width={ENGINEER_AXIS_WIDTH}
+                      fontSize={12}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <Tooltip content={<HeatmapTooltip />} cursor={false} />
+                    <Scatter
+                      data={heatmapCells}
+                      isAnimationActive={false}
+                      shape={renderHeatmapCell}
+                    >
+                      {heatmapCells.map(cell => (
+                        <Cell key={`${cell.engineerId}-${cell.x}`} fill={getUtilizationColor(cell.utilizationRate)} />
+                      ))}
+                    </Scatter>
+                  </ScatterChart>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        report="forecast"
+        defaults={exportDefaults}
+      />
+    </div>
+  );
+};
+
+export default Forecast;
@@ -0,0 +1,449 @@
+import React, { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import Papa from 'papaparse';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, CheckCircle, Copy, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { importService, type ImportRow } from '@/services/importService';
+import { downloadBlob } from '@/utils/download';
+import { readSpreadsheet, normalizeHeader, SPREADSHEET_ACCEPT, type SpreadsheetData } from '@/utils/spreadsheet';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/components/ui/toast';
+import type { ImportEntity, ImportResult, ImportRowResult } from '@/types';
+
+interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  hint?: string;
+}
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  engineers: 'Engineers',
+  projects: 'Projects',
+  assignments: 'Assignments'
+};
+
+// Fields the API accepts for each entity, in template column order
+const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  engineers: [
+    { key: 'name', label: 'Name', required: true },
+    { key: 'email', label: 'Email', required: true },
+    { key: 'department', label: 'Department', required: true },
+    { key: 'seniority', label: 'Seniority', hint: 'junior, mid or senior' },
+    { key: 'maxCapacity', label: 'Max Capacity', hint: '1-100, defaults to 100' },
+    { key: 'hourlyRate', label: 'Hourly Rate' },
+    { key: 'location', label: 'Location' },
+    { key: 'skills', label: 'Skills', hint: 'React:expert; Node.js:advanced' }
+  ],
+  projects: [
+    { key: 'name', label: 'Name', required: true },
+    { key: 'description', label: 'Description', required: true, hint: 'At least 10 characters' },
+    { key: 'startDate', label: 'Start Date', required: true, hint: 'YYYY-MM-DD' },
+    { key: 'endDate', label: 'End Date', required: true, hint: 'YYYY-MM-DD' },
+    { key: 'teamSize', label: 'Team Size', required: true },
+    { key: 'status', label: 'Status', hint: 'planning, active, on-hold, completed or cancelled' },
+    { key: 'priority', label: 'Priority', hint: 'low, medium, high or critical' },
+    { key: 'budget', label: 'Budget' },
+    { key: 'requiredSkills', label: 'Required Skills', hint: 'React:advanced:must-have; Figma:beginner:nice-to-have' },
+    { key: 'tags', label: 'Tags', hint: 'Separated by commas or semicolons' }
+  ],
+  assignments: [
+    { key: 'engineerEmail', label: 'Engineer Email', required: true },
+    { key: 'projectName', label: 'Project Name', required: true },
+    { key: 'allocationPercentage', label: 'Allocation', required: true, hint: '1-100' },
+    { key: 'startDate', label: 'Start Date', required: true, hint: 'YYYY-MM-DD' },
+    { key: 'endDate', label: 'End Date', required: true, hint: 'YYYY-MM-DD' },
+    { key: 'role', label: 'Role', required: true, hint: 'developer, lead, architect, tester, devops, analyst or designer' },
+    { key: 'notes', label: 'Notes' }
+  ]
+};
+
+const MAX_ROWS = 1000;
+
+const STATUS_STYLES: Record<ImportRowResult['status'], string> = {
+  valid: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  duplicate: 'bg-yellow-100 text-yellow-800'
+};
+
+const selectClass = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background';
+
+// Match each field to the first column whose header looks like its key or label
+const guessMapping = (fields: ImportField[], headers: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(fields.map(field => {
+    const index = normalized.findIndex(header =>
+      header === normalizeHeader(field.key) || header === normalizeHeader(field.label));
+    return [field.key, index === -1 ? '' : String(index)];
+  }));
+};
+
+const downloadTemplate = (entity: ImportEntity) => {
+  const csv = Papa.unparse([IMPORT_FIELDS[entity].map(field => field.key)]);
+  downloadBlob(new Blob([csv], { type: 'text/csv' }), `${entity}-template.csv`);
+};
+
+// Invite links are only returned by the import, so they are saved as a file to send out
+const downloadInviteLinks = (rows: ImportRowResult[]) => {
+  const csv = Papa.unparse(rows.map(row => ({ email: row.label, inviteUrl: row.inviteUrl })));
+  downloadBlob(new Blob([csv], { type: 'text/csv' }), 'engineer-invite-links.csv');
+};
+
+const ResultTable: React.FC<{ rows: ImportRowResult[] }> = ({ rows }) => (
+  <div className="max-h-96 overflow-y-auto border rounded-lg px-3">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500">
+          <th className="py-2 pr-3 font-medium">Row</th>
+          <th className="py-2 pr-3 font-medium">Record</th>
+          <th className="py-2 pr-3 font-medium">Status</th>
+          <th className="py-2 font-medium">Problems</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.row} className="border-t align-top">
+            <td className="py-2 pr-3 text-gray-500">{row.row}</td>
+            <td className="py-2 pr-3 text-gray-900">{row.label || '—'}</td>
+            <td className="py-2 pr-3">
+              <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[row.status]}`}>
+                {row.status}
+              </span>
+            </td>
+            <td className="py-2 text-xs text-red-600">{row.errors.join('; ')}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const Import: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const { showToast } = useToast();
+  const [entity, setEntity] = useState<ImportEntity>('engineers');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [dryRun, setDryRun] = useState<ImportResult | null>(null);
+  const [imported, setImported] = useState<ImportResult | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'all' | ImportRowResult['status']>('all');
+  const [error, setError] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const fields = IMPORT_FIELDS[entity];
+  const missingRequired = fields.filter(field => field.required && mapping[field.key] === '');
+
+  if (!hasPermission('import:run')) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  const reset = () => {
+    setFileName('');
+    setSheet(null);
+    setMapping({});
+    setDryRun(null);
+    setImported(null);
+    setStatusFilter('all');
+    setError('');
+  };
+
+  const handleEntityChange = (value: ImportEntity) => {
+    setEntity(value);
+    setDryRun(null);
+    setImported(null);
+    if (sheet) {
+      setMapping(guessMapping(IMPORT_FIELDS[value], sheet.headers));
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    reset();
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        setError('The file has no data rows below its header row');
+        return;
+      }
+      if (data.rows.length > MAX_ROWS) {
+        setError(`The file has ${data.rows.length} rows; import at most ${MAX_ROWS} at a time`);
+        return;
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessMapping(fields, data.headers));
+    } catch (err) {
+      setError((err as Error).message || 'Could not read the file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (key: string, column: string) => {
+    setMapping(prev => ({ ...prev, [key]: column }));
+    setDryRun(null);
+  };
+
+  const buildRows = (): ImportRow[] =>
+    (sheet?.rows || []).map(row => Object.fromEntries(
+      fields
+        .filter(field => mapping[field.key] !== '' && mapping[field.key] !== undefined)
+        .map(field => [field.key, row[Number(mapping[field.key])] ?? ''])
+    ));
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setError('');
+    try {
+      const response = await importService.importRecords(entity, buildRows(), true);
+      if (response.success && response.data) {
+        setDryRun(response.data.result);
+        setStatusFilter(response.data.result.valid === response.data.result.total ? 'all' : 'invalid');
+      } else {
+        setError(response.error || 'Failed to check the rows');
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to check the rows');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError('');
+    try {
+      const response = await importService.importRecords(entity, buildRows());
+      if (response.success && response.data) {
+        setImported(response.data.result);
+        setStatusFilter('all');
+        showToast({ type: 'success', title: 'Import Complete', message: response.message });
+      } else {
+        setError(response.error || 'Failed to import the rows');
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to import the rows');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const report = imported || dryRun;
+  const inviteLinks = (imported?.rows || []).filter(row => row.inviteUrl);
+  const visibleRows = (report?.rows || []).filter(row =>
+    statusFilter === 'all' ||
+    row.status === statusFilter ||
+    (statusFilter === 'invalid' && row.status === 'duplicate'));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Import</h1>
+        <p className="text-gray-600">Add engineers, projects or assignments in bulk from a CSV or Excel file</p>
+      </div>
+
+      {/* Step 1: entity and file */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">1. Choose a file</CardTitle>
+          <CardDescription>The first row must hold column headers. Only the first sheet of an Excel file is read.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="import-entity">Import</Label>
+              <select
+                id="import-entity"
+                className={selectClass}
+                value={entity}
+                disabled={!!imported}
+                onChange={(e) => handleEntityChange(e.target.value as ImportEntity)}
+              >
+                {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept={SPREADSHEET_ACCEPT}
+                disabled={isReading || isImporting}
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            <Button variant="outline" onClick={() => downloadTemplate(entity)}>
+              <Download className="h-4 w-4 mr-2" />
+              {ENTITY_LABELS[entity]} Template
+            </Button>
+          </div>
+
+          {isReading && (
+            <p className="flex items-center text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Reading file...
+            </p>
+          )}
+          {sheet && (
+            <p className="flex items-center text-sm text-gray-700">
+              <FileSpreadsheet className="h-4 w-4 mr-2 text-green-600" />
+              {fileName}: {sheet.rows.length} row{sheet.rows.length === 1 ? '' : 's'}, {sheet.headers.length} columns
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Step 2: column mapping */}
+      {sheet && !imported && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">2. Match columns</CardTitle>
+            <CardDescription>Columns with matching headers are selected for you. Required fields are marked *.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {fields.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`map-${field.key}`}>
+                    {field.label}{field.required && ' *'}
+                  </Label>
+                  <select
+                    id={`map-${field.key}`}
+                    className={selectClass}
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => handleMappingChange(field.key, e.target.value)}
+                  >
+                    <option value="">Not imported</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={String(index)}>{header || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                  {field.hint && <p className="text-xs text-gray-500">{field.hint}</p>}
+                </div>
+              ))}
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-yellow-700">
+                Choose a column for {missingRequired.map(field => field.label).join(', ')}.
+              </p>
+            )}
+
+            <div className="flex justify-end gap-3 pt-4 border-t">
+              <Button variant="outline" onClick={reset} disabled={isChecking || isImporting}>
+                Start Over
+              </Button>
+              <Button variant="outline" onClick={handleCheck} disabled={missingRequired.length > 0 || isChecking || isImporting}>
+                {isChecking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Check Rows
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={!dryRun || dryRun.valid === 0 || isChecking || isImporting}
+              >
+                {isImporting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Import {dryRun ? `${dryRun.valid} Valid Row${dryRun.valid === 1 ? '' : 's'}` : 'Rows'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex gap-2">
+          <AlertCircle className="h-4 w-4 mt-0.5 text-red-600 shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Step 3: dry-run report, then the import result */}
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              {imported ? (
+                <>
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                  {entity === 'engineers' ? 'Invited' : 'Imported'} {imported.created} {ENTITY_LABELS[entity].toLowerCase()}
+                </>
+              ) : (
+                '3. Review'
+              )}
+            </CardTitle>
+            <CardDescription>
+              {imported
+                ? 'Rows that were not imported are listed with their problems. Fix them in the file and import it again; rows already imported show as duplicates.'
+                : 'Nothing has been saved yet. Valid rows are imported together; invalid and duplicate rows are skipped.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">{report.total} rows</Badge>
+              <Badge className={STATUS_STYLES.valid}>{report.valid} {imported ? 'imported' : 'valid'}</Badge>
+              <Badge className={STATUS_STYLES.invalid}>{report.invalid} invalid</Badge>
+              <Badge className={STATUS_STYLES.duplicate}>
+                <Copy className="h-3 w-3 mr-1" />
+                {report.duplicates} duplicate{report.duplicates === 1 ? '' : 's'}
+              </Badge>
+              <select
+                className="ml-auto flex h-9 rounded-md border border-input bg-background px-3 text-sm"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+              >
+                <option value="all">All rows</option>
+                <option value="invalid">Problems only</option>
+                <option value="valid">{imported ? 'Imported' : 'Valid'} only</option>
+              </select>
+            </div>
+
+            {visibleRows.length > 0 ? (
+              <ResultTable rows={visibleRows} />
+            ) : (
+              <p className="text-sm text-gray-500">No rows to show.</p>
+            )}
+
+            {inviteLinks.length > 0 && (
+              <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+                Each invited engineer sets their own password from their invite link. The links are not shown again:
+                download them now and send each engineer theirs.
+              </div>
+            )}
+
+            {imported && (
+              <div className="flex justify-end gap-2 pt-4 border-t">
+                {inviteLinks.length > 0 && (
+                  <Button variant="outline" onClick={() => downloadInviteLinks(inviteLinks)}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Invite Links
+                  </Button>
+                )}
+                <Button onClick={reset}>Import Another File</Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Import;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
+import axios from "axios";
 import { useAuth } from "@/context/AuthContext";
 import { Button } from "@/components/ui/button";
 import {
@@ -20,6 +21,10 @@ const Login: React.FC = () => {
   const [error, setError] = useState("");
   const { login, isLoading, isAuthenticated } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Set when the server ended the session, e.g. after signing out of other devices
+  const sessionEnded = searchParams.get("session") === "ended";
+  const passwordReset = searchParams.get("reset") === "done";
 
   // Redirect if already authenticated
   useEffect(() => {
@@ -35,8 +40,11 @@ const Login: React.FC = () => {
     try {
       await login(email, password);
       navigate("/dashboard", { replace: true });
-    } catch {
-      setError("Invalid email or password");
+    } catch (err) {
+      // Rate limits explain themselves; a locked account is answered like a wrong password, so the lockout is mentioned here
+      setError(axios.isAxiosError(err) && err.response?.status === 429
+        ? err.message
+        : "Invalid email or password. Repeated failed attempts lock an account for a while; reset your password to sign in sooner.");
     }
   };
 
@@ -65,6 +73,16 @@ const Login: React.FC = () => {
           </CardHeader>
           <form onSubmit={handleSubmit}>
             <CardContent className="space-y-4">
+              {sessionEnded && !error && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  Your session has ended. Please sign in again.
+                </div>
+              )}
+              {passwordReset && !error && (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                  Your password has been reset. Sign in with the new one.
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="email">Email</Label>
                 <div className="relative">
@@ -81,7 +99,12 @@ const Login: React.FC = () => {
                 </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link to="/reset-password" className="text-sm text-blue-600 hover:underline">
+                    Forgot password?
+                  </Link>
+                </div>
                 <div className="relative">
                   <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                   <Input
@@ -107,6 +130,17 @@ const Login: React.FC = () => {
                   Demo Accounts
                 </p>
                 <div className="grid grid-cols-2 gap-2 mt-3">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEmail('admin@gmail.com');
+                      setPassword('password123');
+                    }}
+                    className="col-span-2 text-left p-2 bg-white rounded border hover:bg-purple-50 hover:border-purple-300 transition-colors"
+                  >
+                    <div className="text-sm font-medium text-slate-900">Admin Account</div>
+                    <div className="text-xs text-slate-500">admin@gmail.com / password123</div>
+                  </button>
                   <button
                     type="button"
                     onClick={() => {
@@ -14,25 +14,35 @@ import {
   ArrowUpRight,
   ArrowDownRight,
   TrendingUp,
-  Target
+  Target,
+  Download
 } from 'lucide-react';
 import AssignmentForm from '@/components/forms/AssignmentForm';
 import ProjectForm from '@/components/forms/ProjectForm';
+import RebalancePlanModal from '@/components/RebalancePlanModal';
+import ExportDialog from '@/components/ExportDialog';
+import TimeOffApprovals from '@/components/TimeOffApprovals';
 import { engineerService } from '@/services/engineerService';
 import { projectService } from '@/services/projectService';
+import { assignmentService } from '@/services/assignmentService';
 import { useToast } from '@/components/ui/toast';
-import type { EngineerWithAssignments, ProjectWithAssignments } from '@/types';
+import { useAuth } from '@/context/AuthContext';
+import type { EngineerWithAssignments, ProjectWithAssignments, RebalancePlan } from '@/types';
 
 const ManagerDashboard: React.FC = () => {
   const { showToast } = useToast();
+  const { hasPermission } = useAuth();
+  const canManageAssignments = hasPermission('assignments:manage', 'assignments:manage-own');
   const [isAssignmentFormOpen, setIsAssignmentFormOpen] = useState(false);
   const [isProjectFormOpen, setIsProjectFormOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [engineers, setEngineers] = useState<EngineerWithAssignments[]>([]);
   const [projects, setProjects] = useState<ProjectWithAssignments[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [rebalancingEngineerId, setRebalancingEngineerId] = useState<string | null>(null);
   const [selectedEngineerId, setSelectedEngineerId] = useState<string | null>(null);
+  const [rebalancePlan, setRebalancePlan] = useState<RebalancePlan | null>(null);
 
   const loadDashboardData = useCallback(async () => {
     try {
@@ -72,31 +82,24 @@ const ManagerDashboard: React.FC = () => {
   const handleRebalanceWorkload = useCallback(async (engineerId: string) => {
     try {
       setRebalancingEngineerId(engineerId);
-      
-      // Simulate workload rebalancing logic
-      // In a real app, this would call an API to redistribute assignments
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      showToast({
-        type: 'success',
-        title: 'Workload Rebalanced',
-        message: 'Engineer assignments have been optimized'
-      });
-      
-      // Refresh dashboard data to show updated utilization
-      await loadDashboardData();
-      
+
+      const response = await assignmentService.getRebalancePlan(engineerId);
+      if (response.success && response.data) {
+        setRebalancePlan(response.data.plan);
+      } else {
+        throw new Error('Failed to load rebalance plan');
+      }
     } catch (error) {
-      console.error('Error rebalancing workload:', error);
+      console.error('Error loading rebalance plan:', error);
       showToast({
         type: 'error',
         title: 'Rebalancing Failed',
-        message: 'Unable to rebalance workload. Please try again.'
+        message: 'Unable to build a rebalance plan. Please try again.'
       });
     } finally {
       setRebalancingEngineerId(null);
     }
-  }, [showToast, loadDashboardData]);
+  }, [showToast]);
 
   const handleAssignToAvailableEngineer = useCallback((engineerId: string) => {
     setSelectedEngineerId(engineerId);
@@ -214,20 +217,32 @@ const ManagerDashboard: React.FC = () => {
           <h2 className="text-lg text-slate-600">Quick Actions</h2>
         </div>
         <div className="flex gap-3">
-          <Button 
-            className="bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 shadow-lg"
-            onClick={() => setIsAssignmentFormOpen(true)}
-          >
-            <UserPlus className="h-4 w-4 mr-2" />
-            New Assignment
-          </Button>
+          {canManageAssignments && (
+            <Button 
+              className="bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 shadow-lg"
+              onClick={() => setIsAssignmentFormOpen(true)}
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              New Assignment
+            </Button>
+          )}
+          {hasPermission('projects:manage', 'projects:manage-own') && (
+            <Button 
+              variant="outline" 
+              className="border-slate-300 hover:bg-slate-50"
+              onClick={() => setIsProjectFormOpen(true)}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Project
+            </Button>
+          )}
           <Button 
             variant="outline" 
             className="border-slate-300 hover:bg-slate-50"
-            onClick={() => setIsProjectFormOpen(true)}
+            onClick={() => setIsExportOpen(true)}
           >
-            <Plus className="h-4 w-4 mr-2" />
-            New Project
+            <Download className="h-4 w-4 mr-2" />
+            Export Report
           </Button>
         </div>
       </div>
@@ -482,6 +497,9 @@ const ManagerDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Time Off */}
+      {hasPermission('timeoff:review') && <TimeOffApprovals />}
+
       {/* Team Analytics Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Seniority Distribution */}
@@ -697,15 +715,17 @@ const ManagerDashboard: React.FC = () => {
                         <p className="font-medium text-red-900">{engineer.name}</p>
                         <p className="text-sm text-red-700">{engineer.currentUtilization || 0}% capacity</p>
                       </div>
-                      <Button 
-                        size="sm" 
-                        variant="outline" 
-                        className="text-red-700 border-red-300 hover:bg-red-100"
-                        onClick={() => handleRebalanceWorkload(engineer._id)}
-                        disabled={rebalancingEngineerId === engineer._id}
-                      >
-                        {rebalancingEngineerId === engineer._id ? 'Rebalancing...' : 'Rebalance'}
-                      </Button>
+                      {hasPermission('assignments:rebalance') && (
+                        <Button 
+                          size="sm" 
+                          variant="outline" 
+                          className="text-red-700 border-red-300 hover:bg-red-100"
+                          onClick={() => handleRebalanceWorkload(engineer._id)}
+                          disabled={rebalancingEngineerId === engineer._id}
+                        >
+                          {rebalancingEngineerId === engineer._id ? 'Planning...' : 'Rebalance'}
+                        </Button>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -733,13 +753,15 @@ const ManagerDashboard: React.FC = () => {
                         <p className="font-medium text-green-900">{engineer.name}</p>
                         <p className="text-sm text-green-700">{engineer.currentUtilization || 0}% capacity</p>
                       </div>
-                      <Button 
-                        size="sm" 
-                        className="bg-green-600 hover:bg-green-700"
-                        onClick={() => handleAssignToAvailableEngineer(engineer._id)}
-                      >
-                        Assign
-                      </Button>
+                      {canManageAssignments && (
+                        <Button 
+                          size="sm" 
+                          className="bg-green-600 hover:bg-green-700"
+                          onClick={() => handleAssignToAvailableEngineer(engineer._id)}
+                        >
+                          Assign
+                        </Button>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -769,6 +791,16 @@ const ManagerDashboard: React.FC = () => {
         preSelectedEngineerId={selectedEngineerId || undefined}
       />
 
+      <RebalancePlanModal
+        isOpen={!!rebalancePlan}
+        plan={rebalancePlan}
+        onClose={() => setRebalancePlan(null)}
+        onApplied={() => {
+          setRebalancePlan(null);
+          loadDashboardData(); // Refresh utilization after the moves
+        }}
+      />
+
       <ProjectForm
         isOpen={isProjectFormOpen}
         onClose={() => setIsProjectFormOpen(false)}
@@ -782,6 +814,12 @@ const ManagerDashboard: React.FC = () => {
           });
         }}
       />
+
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        report="utilization"
+      />
     </div>
   );
 };
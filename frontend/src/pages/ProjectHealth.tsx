@@ -0,0 +1,288 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, ChevronDown, ChevronRight, HeartPulse } from 'lucide-react';
+import { format } from 'date-fns';
+import { analyticsService } from '@/services/analyticsService';
+import { useAuth } from '@/context/AuthContext';
+import type { HealthRag, Project, ProjectHealth as ProjectHealthItem, ProjectHealthFactor, PortfolioHealth } from '@/types';
+
+type SortKey = 'score' | 'name' | 'priority' | 'endDate';
+
+const SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: 'score', label: 'Health (worst first)' },
+  { value: 'name', label: 'Name' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'endDate', label: 'End date' }
+];
+
+const PRIORITY_ORDER: Record<Project['priority'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+const RAG_STYLES: Record<HealthRag, { label: string; border: string; text: string; bar: string; dot: string }> = {
+  green: { label: 'On Track', border: 'border-l-green-500', text: 'text-green-600', bar: 'bg-green-500', dot: 'bg-green-500' },
+  amber: { label: 'At Risk', border: 'border-l-yellow-500', text: 'text-yellow-600', bar: 'bg-yellow-500', dot: 'bg-yellow-500' },
+  red: { label: 'Off Track', border: 'border-l-red-500', text: 'text-red-600', bar: 'bg-red-500', dot: 'bg-red-500' }
+};
+
+interface RequirementCoverage {
+  skill: string;
+  level: string;
+  priority: string;
+  score: number;
+  coveredBy: string | null;
+  matchType: 'exact' | 'related' | 'missing';
+}
+
+const sortProjects = (projects: ProjectHealthItem[], sortBy: SortKey) => [...projects].sort((a, b) => {
+  switch (sortBy) {
+    case 'name':
+      return a.name.localeCompare(b.name);
+    case 'priority':
+      return PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.healthScore - b.healthScore;
+    case 'endDate':
+      return new Date(a.endDate).getTime() - new Date(b.endDate).getTime();
+    default:
+      return a.healthScore - b.healthScore;
+  }
+});
+
+const FactorDetail: React.FC<{ factor: ProjectHealthFactor }> = ({ factor }) => {
+  const style = RAG_STYLES[factor.rag];
+  const requirements = factor.key === 'skillCoverage'
+    ? (factor.details.requirements as RequirementCoverage[])
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-900">
+          {factor.label}
+          <span className="ml-2 text-xs font-normal text-gray-500">{Math.round(factor.weight * 100)}% weight</span>
+        </span>
+        <span className={`font-semibold ${style.text}`}>{factor.score}</span>
+      </div>
+      <div className="h-2 w-full rounded-full bg-gray-100">
+        <div className={`h-2 rounded-full ${style.bar}`} style={{ width: `${factor.score}%` }} />
+      </div>
+      <p className="text-xs text-gray-600">{factor.summary}</p>
+      {requirements.length > 0 && (
+        <div className="space-y-1 pl-2">
+          {requirements.map((requirement, index) => (
+            <div key={`${requirement.skill}-${index}`} className="flex items-center justify-between gap-3 text-xs">
+              <span className="text-gray-700">
+                {requirement.skill} <span className="capitalize text-gray-500">({requirement.level}, {requirement.priority})</span>
+              </span>
+              <span className="text-gray-500">
+                {requirement.coveredBy
+                  ? `${requirement.coveredBy}${requirement.matchType === 'related' ? ' via related skill' : ''} · ${requirement.score}%`
+                  : 'Not covered'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ProjectHealth: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const [health, setHealth] = useState<PortfolioHealth | null>(null);
+  const [status, setStatus] = useState<Project['status'] | ''>('');
+  const [sortBy, setSortBy] = useState<SortKey>('score');
+  const [expandedProjectId, setExpandedProjectId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const isManager = hasPermission('analytics:read');
+
+  const loadHealth = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await analyticsService.getProjectHealth(status || undefined);
+
+      if (response.success && response.data) {
+        setHealth(response.data);
+      } else {
+        setError('Failed to load project health');
+      }
+    } catch (err) {
+      console.error('Error loading project health:', err);
+      setError((err as Error).message || 'Failed to load project health');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (isManager) {
+      loadHealth();
+    }
+  }, [isManager, loadHealth]);
+
+  const projects = useMemo(() => sortProjects(health?.projects || [], sortBy), [health, sortBy]);
+
+  if (!isManager) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Project Health</h1>
+          <p className="text-gray-600">Schedule, skill coverage, staffing and budget burn across the portfolio</p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as Project['status'] | '')}
+          >
+            <option value="">Open Projects</option>
+            <option value="planning">Planning</option>
+            <option value="active">Active</option>
+            <option value="on-hold">On Hold</option>
+            <option value="completed">Completed</option>
+          </select>
+          <select
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as SortKey)}
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>Sort: {option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Loading State */}
+      {loading && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Scoring project health...</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Error State */}
+      {!loading && error && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="text-red-600 mb-4">
+              <AlertCircle className="h-12 w-12 mx-auto" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Project Health</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <Button onClick={loadHealth}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {!loading && !error && health && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-gray-900">{health.summary.averageScore}</p>
+                <p className="text-sm text-gray-600">Average Score</p>
+              </CardContent>
+            </Card>
+            {(['green', 'amber', 'red'] as HealthRag[]).map(rag => (
+              <Card key={rag}>
+                <CardContent className="p-4 text-center">
+                  <p className={`text-2xl font-bold ${RAG_STYLES[rag].text}`}>{health.summary[rag]}</p>
+                  <p className="text-sm text-gray-600">{RAG_STYLES[rag].label}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Project cards */}
+          {projects.length === 0 ? (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <HeartPulse className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">No projects match this filter.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {projects.map(project => {
+                const style = RAG_STYLES[project.rag];
+                const isExpanded = expandedProjectId === project.projectId;
+
+                return (
+                  <Card key={project.projectId} className={`border-l-4 ${style.border}`}>
+                    <CardContent className="p-4 space-y-3">
+                      <button
+                        type="button"
+                        className="w-full text-left"
+                        onClick={() => setExpandedProjectId(isExpanded ? null : project.projectId)}
+                      >
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              {isExpanded
+                                ? <ChevronDown className="h-4 w-4 text-gray-400 shrink-0" />
+                                : <ChevronRight className="h-4 w-4 text-gray-400 shrink-0" />}
+                              <h3 className="font-semibold text-gray-900 truncate">{project.name}</h3>
+                            </div>
+                            <div className="mt-1 flex flex-wrap items-center gap-2 pl-6 text-xs text-gray-500">
+                              <Badge variant="outline" className="capitalize">{project.status}</Badge>
+                              <Badge variant="outline" className="capitalize">{project.priority}</Badge>
+                              <span>Ends {format(new Date(project.endDate), 'MMM d, yyyy')}</span>
+                              {project.isOverdue && <Badge variant="destructive">Overdue</Badge>}
+                            </div>
+                          </div>
+                          <div className="text-right shrink-0">
+                            <p className={`text-2xl font-bold ${style.text}`}>{project.healthScore}</p>
+                            <p className={`text-xs font-medium ${style.text}`}>{style.label}</p>
+                          </div>
+                        </div>
+                      </button>
+
+                      {/* Factor overview */}
+                      <div className="flex flex-wrap gap-3 pl-6">
+                        {project.factors.map(factor => (
+                          <span key={factor.key} className="flex items-center gap-1 text-xs text-gray-600">
+                            <span className={`h-2 w-2 rounded-full ${RAG_STYLES[factor.rag].dot}`} />
+                            {factor.label} {factor.score}
+                          </span>
+                        ))}
+                      </div>
+
+                      {isExpanded && (
+                        <div className="space-y-4 border-t pt-3 pl-6">
+                          {project.manager && (
+                            <p className="text-xs text-gray-500">
+                              Managed by {project.manager} · {project.currentTeamSize} of {project.requiredTeamSize} engineers assigned
+                            </p>
+                          )}
+                          {project.factors.map(factor => (
+                            <FactorDetail key={factor.key} factor={factor} />
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectHealth;
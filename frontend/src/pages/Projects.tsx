@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,21 +15,34 @@ import {
   PlayCircle,
   FolderOpen,
   Edit,
+  UserPlus,
+  Archive,
+  ArchiveRestore,
+  PauseCircle,
+  RefreshCw,
 } from 'lucide-react';
 import ProjectForm from '@/components/forms/ProjectForm';
+import ProjectStatusForm from '@/components/forms/ProjectStatusForm';
+import AssignmentForm from '@/components/forms/AssignmentForm';
+import StaffingPanel from '@/components/StaffingPanel';
+import AuditHistory from '@/components/AuditHistory';
 import { useAuth } from '@/context/AuthContext';
 import { projectService } from '@/services/projectService';
+import type { CreateAssignmentData } from '@/services/assignmentService';
 import { useToast } from '@/components/ui/toast';
 import Modal from '@/components/ui/modal';
 import { Label } from '@/components/ui/label';
 import type { ProjectWithAssignments } from '@/types';
 import { useDebounce } from '@/hooks/useDebounce';
+import { canManageAssignmentsOn, canManageProject } from '@/utils/permissions';
 
 const Projects: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
+  const canCreateProjects = hasPermission('projects:manage', 'projects:manage-own');
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('');
   const [priorityFilter, setPriorityFilter] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
   const [isProjectFormOpen, setIsProjectFormOpen] = useState(false);
   const [selectedProject, setSelectedProject] = useState<ProjectWithAssignments | null>(null);
   const [projects, setProjects] = useState<ProjectWithAssignments[]>([]);
@@ -40,20 +53,20 @@ const Projects: React.FC = () => {
   const [newProgress, setNewProgress] = useState(0);
   const [isViewDetailsOpen, setIsViewDetailsOpen] = useState(false);
   const [viewDetailsProject, setViewDetailsProject] = useState<ProjectWithAssignments | null>(null);
+  const [detailsTab, setDetailsTab] = useState<'overview' | 'history'>('overview');
+  const [staffingProject, setStaffingProject] = useState<ProjectWithAssignments | null>(null);
+  const [statusProject, setStatusProject] = useState<ProjectWithAssignments | null>(null);
+  const [assignmentPrefill, setAssignmentPrefill] = useState<Partial<CreateAssignmentData> | null>(null);
   const { showToast } = useToast();
   
   // Debounce search term for better performance
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
 
   // Fetch projects based on user role
-  useEffect(() => {
-    fetchProjects();
-  }, [user]);
-
-  const fetchProjects = async () => {
+  const fetchProjects = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await projectService.getAllProjects();
+      const response = await projectService.getAllProjects({ archived: showArchived });
       
       if (response.success && response.data) {
         setProjects(response.data.projects || []);
@@ -66,7 +79,11 @@ const Projects: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [showArchived]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [user, fetchProjects]);
 
   const handleUpdateProgress = async () => {
     if (!progressProject) return;
@@ -87,6 +104,45 @@ const Projects: React.FC = () => {
     }
   };
 
+  const handleArchiveProject = async (project: ProjectWithAssignments) => {
+    const reason = prompt(`Archive "${project.name}" and its assignments? They can be restored later from the archived view.\n\nReason for archiving (optional):`);
+    if (reason === null) return;
+
+    try {
+      const response = await projectService.deleteProject(project._id, reason);
+      if (response.success) {
+        showToast({ type: 'success', title: 'Project Archived', message: response.message });
+        fetchProjects();
+      } else {
+        showToast({ type: 'error', title: 'Failed to archive project' });
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Failed to archive project', message: (err as Error).message });
+    }
+  };
+
+  const handleRestoreProject = async (project: ProjectWithAssignments) => {
+    const reason = prompt(`Restore "${project.name}"? Assignments archived with it are reinstated if they still fit.\n\nReason for restoring (optional):`);
+    if (reason === null) return;
+
+    try {
+      const response = await projectService.restoreProject(project._id, reason);
+      if (response.success) {
+        const skipped = response.data?.skippedAssignments || [];
+        showToast({
+          type: skipped.length > 0 ? 'warning' : 'success',
+          title: 'Project Restored',
+          message: [response.message, ...skipped.map(item => `${item.engineer || 'Engineer'}: ${item.reason}`)].join(' ')
+        });
+        fetchProjects();
+      } else {
+        showToast({ type: 'error', title: 'Failed to restore project' });
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Failed to restore project', message: (err as Error).message });
+    }
+  };
+
   const filteredProjects = projects.filter(project => {
     const matchesSearch = (project.name || '').toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
                          (project.description || '').toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
@@ -106,6 +162,7 @@ const Projects: React.FC = () => {
       case 'active': return <PlayCircle className="h-4 w-4 text-green-500" />;
       case 'planning': return <Clock className="h-4 w-4 text-yellow-500" />;
       case 'completed': return <CheckCircle className="h-4 w-4 text-blue-500" />;
+      case 'on-hold': return <PauseCircle className="h-4 w-4 text-orange-500" />;
       default: return <AlertCircle className="h-4 w-4 text-gray-500" />;
     }
   };
@@ -115,6 +172,7 @@ const Projects: React.FC = () => {
       case 'active': return 'bg-green-100 text-green-800';
       case 'planning': return 'bg-yellow-100 text-yellow-800';
       case 'completed': return 'bg-blue-100 text-blue-800';
+      case 'on-hold': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -158,7 +216,7 @@ const Projects: React.FC = () => {
               : 'Manage and track your engineering projects'}
           </p>
         </div>
-        {user?.role === 'manager' && (
+        {canCreateProjects && (
           <Button onClick={() => setIsProjectFormOpen(true)}>
             <Plus className="h-4 w-4 mr-2" />
             New Project
@@ -169,7 +227,7 @@ const Projects: React.FC = () => {
       {/* Filters */}
       <Card>
         <CardContent className="p-6">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className={`grid grid-cols-1 ${canCreateProjects ? 'md:grid-cols-5' : 'md:grid-cols-4'} gap-4`}>
             <div className="relative">
               <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
               <Input
@@ -199,6 +257,16 @@ const Projects: React.FC = () => {
               <option value="medium">Medium Priority</option>
               <option value="low">Low Priority</option>
             </select>
+            {canCreateProjects && (
+              <select
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+                value={showArchived ? 'archived' : 'current'}
+                onChange={(e) => setShowArchived(e.target.value === 'archived')}
+              >
+                <option value="current">Current Projects</option>
+                <option value="archived">Archived Projects</option>
+              </select>
+            )}
             <div className="text-sm text-gray-600 flex items-center">
               <span>{filteredProjects.length} projects found</span>
             </div>
@@ -255,6 +323,11 @@ const Projects: React.FC = () => {
                   <Badge className={`${getStatusColor(project.status || 'planning')} text-xs`}>
                     {project.status || 'planning'}
                   </Badge>
+                  {project.archivedAt && (
+                    <Badge variant="outline" className="text-xs">
+                      Archived {formatDate(project.archivedAt)}
+                    </Badge>
+                  )}
                 </div>
               </div>
             </CardHeader>
@@ -445,13 +518,26 @@ const Projects: React.FC = () => {
                   className="text-xs h-7"
                   onClick={() => {
                     setViewDetailsProject(project);
+                    setDetailsTab('overview');
                     setIsViewDetailsOpen(true);
                   }}
                 >
                   View Details
                 </Button>
-                {/* Only managers can manage projects and assignments */}
-                {user?.role === 'manager' && (
+                {/* Archived projects can only be restored */}
+                {canManageProject(user, project) && project.archivedAt && (
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    className="text-xs h-7"
+                    onClick={() => handleRestoreProject(project)}
+                  >
+                    <ArchiveRestore className="h-3 w-3 mr-1" />
+                    Restore
+                  </Button>
+                )}
+                {/* Only the project's managers can manage it and its assignments */}
+                {canManageProject(user, project) && !project.archivedAt && (
                   <>
                     
                     <Button 
@@ -466,6 +552,28 @@ const Projects: React.FC = () => {
                       <Edit className="h-3 w-3 mr-1" />
                       Edit
                     </Button>
+                    {project.status !== 'completed' && (
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        className="text-xs h-7"
+                        onClick={() => setStatusProject(project)}
+                      >
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                        Status
+                      </Button>
+                    )}
+                    {(project.status === 'planning' || project.status === 'active') && canManageAssignmentsOn(user, project) && (
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        className="text-xs h-7"
+                        onClick={() => setStaffingProject(project)}
+                      >
+                        <UserPlus className="h-3 w-3 mr-1" />
+                        Staff
+                      </Button>
+                    )}
                     {project.status !== 'completed' && (
                       <Button 
                         variant="outline" 
@@ -480,6 +588,15 @@ const Projects: React.FC = () => {
                         Progress
                       </Button>
                     )}
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      className="text-xs h-7 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => handleArchiveProject(project)}
+                    >
+                      <Archive className="h-3 w-3 mr-1" />
+                      Archive
+                    </Button>
                   </>
                 )}
               </div>
@@ -498,9 +615,11 @@ const Projects: React.FC = () => {
             <p className="text-gray-500">
               {user?.role === 'engineer' 
                 ? 'You are not currently assigned to any projects' 
-                : 'Try adjusting your search criteria or create a new project'}
+                : showArchived
+                  ? 'Archived projects will appear here'
+                  : 'Try adjusting your search criteria or create a new project'}
             </p>
-            {user?.role === 'manager' && (
+            {canCreateProjects && !showArchived && (
               <Button className="mt-4" onClick={() => setIsProjectFormOpen(true)}>
                 <Plus className="h-4 w-4 mr-2" />
                 Create New Project
@@ -576,142 +695,166 @@ const Projects: React.FC = () => {
               <p className="text-gray-600">{viewDetailsProject.description}</p>
             </div>
 
-            {/* Project Information */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="space-y-4">
-                <div>
-                  <h4 className="text-sm font-medium text-gray-900 mb-2">Timeline</h4>
-                  <div className="space-y-1">
-                    <div className="flex items-center space-x-2">
-                      <Calendar className="h-4 w-4 text-gray-400" />
-                      <span className="text-sm text-gray-600">
-                        Start: {viewDetailsProject.startDate ? formatDate(viewDetailsProject.startDate.toString()) : 'TBD'}
-                      </span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Calendar className="h-4 w-4 text-gray-400" />
-                      <span className="text-sm text-gray-600">
-                        End: {viewDetailsProject.endDate ? formatDate(viewDetailsProject.endDate.toString()) : 'TBD'}
-                      </span>
-                    </div>
-                  </div>
-                </div>
+            {/* Tabs */}
+            {hasPermission('audit:read') && (
+              <div className="flex border-b">
+                {(['overview', 'history'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    type="button"
+                    onClick={() => setDetailsTab(tab)}
+                    className={`px-4 py-2 text-sm font-medium capitalize border-b-2 -mb-px ${
+                      detailsTab === tab ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {tab}
+                  </button>
+                ))}
+              </div>
+            )}
 
-                <div>
-                  <h4 className="text-sm font-medium text-gray-900 mb-2">Resources</h4>
-                  <div className="space-y-1">
-                    <div className="flex items-center space-x-2">
-                      <Users className="h-4 w-4 text-gray-400" />
-                      <span className="text-sm text-gray-600">
-                        Team Size: {viewDetailsProject.currentTeamSize || 0}/{viewDetailsProject.teamSize || 0} engineers
-                      </span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <FolderOpen className="h-4 w-4 text-gray-400" />
-                      <span className="text-sm text-gray-600">
-                        Budget: {formatBudget(viewDetailsProject.budget || 0)}
-                      </span>
+            {detailsTab === 'history' ? (
+              <AuditHistory projectId={viewDetailsProject._id} />
+            ) : (
+              <>
+              {/* Project Information */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">Timeline</h4>
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <Calendar className="h-4 w-4 text-gray-400" />
+                        <span className="text-sm text-gray-600">
+                          Start: {viewDetailsProject.startDate ? formatDate(viewDetailsProject.startDate.toString()) : 'TBD'}
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Calendar className="h-4 w-4 text-gray-400" />
+                        <span className="text-sm text-gray-600">
+                          End: {viewDetailsProject.endDate ? formatDate(viewDetailsProject.endDate.toString()) : 'TBD'}
+                        </span>
+                      </div>
                     </div>
                   </div>
-                </div>
-              </div>
 
-              <div className="space-y-4">
-                <div>
-                  <h4 className="text-sm font-medium text-gray-900 mb-2">Progress</h4>
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-gray-600">Overall Progress</span>
-                      <span className="text-sm font-medium">{viewDetailsProject.completionPercentage || 0}%</span>
-                    </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2">
-                      <div 
-                        className={`h-2 rounded-full transition-all duration-300 ${
-                          (viewDetailsProject.completionPercentage || 0) >= 80 ? 'bg-green-500' :
-                          (viewDetailsProject.completionPercentage || 0) >= 50 ? 'bg-blue-500' :
-                          (viewDetailsProject.completionPercentage || 0) >= 25 ? 'bg-yellow-500' : 'bg-gray-400'
-                        }`}
-                        style={{ width: `${viewDetailsProject.completionPercentage || 0}%` }}
-                      />
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">Resources</h4>
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <Users className="h-4 w-4 text-gray-400" />
+                        <span className="text-sm text-gray-600">
+                          Team Size: {viewDetailsProject.currentTeamSize || 0}/{viewDetailsProject.teamSize || 0} engineers
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <FolderOpen className="h-4 w-4 text-gray-400" />
+                        <span className="text-sm text-gray-600">
+                          Budget: {formatBudget(viewDetailsProject.budget || 0)}
+                        </span>
+                      </div>
                     </div>
                   </div>
                 </div>
 
-                {viewDetailsProject.tags && viewDetailsProject.tags.length > 0 && (
+                <div className="space-y-4">
                   <div>
-                    <h4 className="text-sm font-medium text-gray-900 mb-2">Tags</h4>
-                    <div className="flex flex-wrap gap-1">
-                      {viewDetailsProject.tags.map((tag, index) => (
-                        <Badge key={index} variant="outline" className="text-xs">
-                          {tag}
-                        </Badge>
-                      ))}
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">Progress</h4>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-gray-600">Overall Progress</span>
+                        <span className="text-sm font-medium">{viewDetailsProject.completionPercentage || 0}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div 
+                          className={`h-2 rounded-full transition-all duration-300 ${
+                            (viewDetailsProject.completionPercentage || 0) >= 80 ? 'bg-green-500' :
+                            (viewDetailsProject.completionPercentage || 0) >= 50 ? 'bg-blue-500' :
+                            (viewDetailsProject.completionPercentage || 0) >= 25 ? 'bg-yellow-500' : 'bg-gray-400'
+                          }`}
+                          style={{ width: `${viewDetailsProject.completionPercentage || 0}%` }}
+                        />
+                      </div>
                     </div>
                   </div>
-                )}
-              </div>
-            </div>
 
-            {/* Required Skills */}
-            {viewDetailsProject.requiredSkills && viewDetailsProject.requiredSkills.length > 0 && (
-              <div>
-                <h4 className="text-sm font-medium text-gray-900 mb-3">Required Skills</h4>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-                  {viewDetailsProject.requiredSkills.map((skill, index) => (
-                    <div key={index} className="flex items-center space-x-2 p-3 bg-gray-50 rounded-lg">
-                      <div className="flex-1">
-                        <div className="font-medium text-sm">
-                          {typeof skill === 'string' ? skill : skill.skill}
-                        </div>
-                        {typeof skill === 'object' && skill.level && (
-                          <div className="text-xs text-gray-500 capitalize">{skill.level}</div>
-                        )}
+                  {viewDetailsProject.tags && viewDetailsProject.tags.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">Tags</h4>
+                      <div className="flex flex-wrap gap-1">
+                        {viewDetailsProject.tags.map((tag, index) => (
+                          <Badge key={index} variant="outline" className="text-xs">
+                            {tag}
+                          </Badge>
+                        ))}
                       </div>
-                      {typeof skill === 'object' && skill.priority && (
-                        <Badge 
-                          variant={skill.priority === 'must-have' ? 'destructive' : 'secondary'} 
-                          className="text-xs"
-                        >
-                          {skill.priority}
-                        </Badge>
-                      )}
                     </div>
-                  ))}
+                  )}
                 </div>
               </div>
-            )}
 
-            {/* Team Assignments */}
-            {viewDetailsProject.assignments && viewDetailsProject.assignments.length > 0 && (
-              <div>
-                <h4 className="text-sm font-medium text-gray-900 mb-3">Team Assignments</h4>
-                <div className="space-y-3">
-                  {viewDetailsProject.assignments.map((assignment, index) => {
-                    const engineer = typeof assignment.engineerId === 'object' ? assignment.engineerId : null;
-                    return (
-                      <div key={assignment._id || index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                        <div className="flex items-center space-x-3">
-                          <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
-                            <span className="text-white text-xs font-medium">
-                              {engineer?.name ? engineer.name.split(' ').map(n => n[0]).join('').substring(0, 2) : 'E'}
-                            </span>
-                          </div>
-                          <div>
-                            <div className="font-medium text-sm">{engineer?.name || 'Engineer'}</div>
-                            <div className="text-xs text-gray-500">{assignment.role}</div>
+              {/* Required Skills */}
+              {viewDetailsProject.requiredSkills && viewDetailsProject.requiredSkills.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-3">Required Skills</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {viewDetailsProject.requiredSkills.map((skill, index) => (
+                      <div key={index} className="flex items-center space-x-2 p-3 bg-gray-50 rounded-lg">
+                        <div className="flex-1">
+                          <div className="font-medium text-sm">
+                            {typeof skill === 'string' ? skill : skill.skill}
                           </div>
-                        </div>
-                        <div className="text-right">
-                          <div className="text-sm font-medium">{assignment.allocationPercentage}% allocated</div>
-                          {assignment.completionPercentage !== undefined && (
-                            <div className="text-xs text-gray-500">{assignment.completionPercentage}% complete</div>
+                          {typeof skill === 'object' && skill.level && (
+                            <div className="text-xs text-gray-500 capitalize">{skill.level}</div>
                           )}
                         </div>
+                        {typeof skill === 'object' && skill.priority && (
+                          <Badge 
+                            variant={skill.priority === 'must-have' ? 'destructive' : 'secondary'} 
+                            className="text-xs"
+                          >
+                            {skill.priority}
+                          </Badge>
+                        )}
                       </div>
-                    );
-                  })}
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
+
+              {/* Team Assignments */}
+              {viewDetailsProject.assignments && viewDetailsProject.assignments.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-3">Team Assignments</h4>
+                  <div className="space-y-3">
+                    {viewDetailsProject.assignments.map((assignment, index) => {
+                      const engineer = typeof assignment.engineerId === 'object' ? assignment.engineerId : null;
+                      return (
+                        <div key={assignment._id || index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                          <div className="flex items-center space-x-3">
+                            <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
+                              <span className="text-white text-xs font-medium">
+                                {engineer?.name ? engineer.name.split(' ').map(n => n[0]).join('').substring(0, 2) : 'E'}
+                              </span>
+                            </div>
+                            <div>
+                              <div className="font-medium text-sm">{engineer?.name || 'Engineer'}</div>
+                              <div className="text-xs text-gray-500">{assignment.role}</div>
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <div className="text-sm font-medium">{assignment.allocationPercentage}% allocated</div>
+                            {assignment.completionPercentage !== undefined && (
+                              <div className="text-xs text-gray-500">{assignment.completionPercentage}% complete</div>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              </>
             )}
 
             {/* Close Button */}
@@ -743,6 +886,44 @@ const Projects: React.FC = () => {
         project={selectedProject || undefined}
       />
 
+      {/* Status changes and their effect on assignments */}
+      <ProjectStatusForm
+        isOpen={!!statusProject}
+        onClose={() => setStatusProject(null)}
+        onSuccess={fetchProjects}
+        project={statusProject}
+      />
+
+      {/* Staffing Suggestions */}
+      <StaffingPanel
+        isOpen={!!staffingProject}
+        project={staffingProject}
+        onClose={() => setStaffingProject(null)}
+        onAssign={(prefill) => {
+          setStaffingProject(null);
+          setAssignmentPrefill(prefill);
+        }}
+        onStaffed={() => {
+          setStaffingProject(null);
+          fetchProjects();
+        }}
+      />
+
+      <AssignmentForm
+        isOpen={!!assignmentPrefill}
+        onClose={() => setAssignmentPrefill(null)}
+        onSuccess={() => {
+          setAssignmentPrefill(null);
+          fetchProjects();
+          showToast({
+            type: 'success',
+            title: 'Assignment Created',
+            message: 'Assignment created successfully'
+          });
+        }}
+        prefill={assignmentPrefill || undefined}
+      />
+
       {/* Progress Update Modal */}
       <Modal
         isOpen={isProgressModalOpen}
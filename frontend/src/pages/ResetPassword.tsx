@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from "react";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
+import { authService } from "@/services/authService";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Users, Lock, Mail, AlertTriangle, CheckCircle, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { passwordProblem } from "@/utils/formValidation";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import type { PasswordResetPreview } from "@/types";
+
+// Without a token, asks for the email to send a reset link to; with one, sets the new password
+const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [email, setEmail] = useState("");
+  const [requestSent, setRequestSent] = useState("");
+  const [reset, setReset] = useState<PasswordResetPreview | null>(null);
+  const [loadError, setLoadError] = useState("");
+  const [checking, setChecking] = useState(Boolean(token));
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const passwordPolicy = usePasswordPolicy();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadReset = async () => {
+      try {
+        const response = await authService.getPasswordReset(token);
+        if (response.success && response.data) {
+          setReset(response.data.reset);
+        }
+      } catch (err) {
+        setLoadError((err as Error).message || "This password reset link is invalid or has expired.");
+      } finally {
+        setChecking(false);
+      }
+    };
+
+    loadReset();
+  }, [token]);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    try {
+      setIsSubmitting(true);
+      const response = await authService.forgotPassword(email.trim());
+      setRequestSent(response.message);
+    } catch (err) {
+      setError((err as Error).message || "Failed to send the reset link");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const weakPassword = passwordProblem(password, passwordPolicy, { email: reset?.email });
+    if (weakPassword) {
+      setError(weakPassword);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await authService.resetPassword(token, password);
+      navigate("/login?reset=done", { replace: true });
+    } catch (err) {
+      setError((err as Error).message || "Failed to reset the password");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderRequestForm = () =>
+    requestSent ? (
+      <>
+        <CardContent className="text-center space-y-3">
+          <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+          <p className="text-gray-700">{requestSent}</p>
+          <p className="text-sm text-gray-500">The link works once and expires after an hour.</p>
+        </CardContent>
+        <CardFooter>
+          <Link to="/login" className="w-full">
+            <Button variant="outline" className="w-full">Back to Sign In</Button>
+          </Link>
+        </CardFooter>
+      </>
+    ) : (
+      <form onSubmit={handleRequest}>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                id="email"
+                type="email"
+                placeholder="Enter your email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="pl-10"
+                required
+              />
+            </div>
+          </div>
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+        </CardContent>
+        <CardFooter className="flex flex-col space-y-4">
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? "Sending..." : "Send Reset Link"}
+          </Button>
+          <Link to="/login" className="text-sm text-blue-600 hover:underline">
+            Back to Sign In
+          </Link>
+        </CardFooter>
+      </form>
+    );
+
+  const renderResetForm = () => {
+    if (checking) {
+      return (
+        <CardContent className="py-8 text-center text-gray-600">
+          <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+          Checking your reset link...
+        </CardContent>
+      );
+    }
+
+    if (loadError || !reset) {
+      return (
+        <>
+          <CardContent className="text-center space-y-3">
+            <AlertTriangle className="h-10 w-10 text-amber-500 mx-auto" />
+            <p className="text-gray-700">{loadError || "This password reset link is invalid or has expired."}</p>
+          </CardContent>
+          <CardFooter className="flex flex-col space-y-2">
+            <Link to="/reset-password" className="w-full">
+              <Button className="w-full">Send a New Link</Button>
+            </Link>
+            <Link to="/login" className="w-full">
+              <Button variant="outline" className="w-full">Back to Sign In</Button>
+            </Link>
+          </CardFooter>
+        </>
+      );
+    }
+
+    return (
+      <form onSubmit={handleReset}>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input id="email" type="email" value={reset.email} className="pl-10" disabled />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password">New Password</Label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                id="password"
+                type="password"
+                placeholder={passwordPolicy?.hint}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="pl-10"
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirm New Password</Label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                id="confirmPassword"
+                type="password"
+                placeholder="Repeat your password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="pl-10"
+                required
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Every device signed in to your account will be signed out. This link expires at {format(new Date(reset.expiresAt), "h:mm a")}.
+          </p>
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Set New Password"}
+          </Button>
+        </CardFooter>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card className="shadow-xl">
+          <CardHeader>
+            <div className="text-center mb-8">
+              <div className="flex justify-center mb-4">
+                <div className="p-3 bg-blue-600 rounded-full">
+                  <Users className="h-8 w-8 text-white" />
+                </div>
+              </div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                Engineering Resource Manager
+              </h1>
+            </div>
+            <CardTitle>Reset Password</CardTitle>
+            <CardDescription>
+              {token
+                ? "Choose a new password for your account"
+                : "Enter your email and we will send you a link to choose a new password"}
+            </CardDescription>
+          </CardHeader>
+
+          {token ? renderResetForm() : renderRequestForm()}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,370 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, BarChart3, GraduationCap, Lightbulb, TrendingUp, UserPlus } from 'lucide-react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { format } from 'date-fns';
+import { analyticsService } from '@/services/analyticsService';
+import { engineerService } from '@/services/engineerService';
+import { useAuth } from '@/context/AuthContext';
+import type { SkillGapAnalysis, SkillSupplyDemand } from '@/types';
+
+const HORIZONS = [4, 8, 12, 26, 52];
+
+const TREND_COLORS = ['#dc2626', '#ea580c', '#ca8a04', '#2563eb', '#7c3aed'];
+
+const CHART_SKILL_LIMIT = 10;
+
+const formatWeek = (date: string) => format(new Date(date), 'MMM d');
+
+const formatFte = (value: number) => `${value.toFixed(1)} FTE`;
+
+const skillLabel = (row: SkillSupplyDemand) => `${row.skill} (${row.level})`;
+
+const getGapColor = (gap: number) => {
+  if (gap >= 1) return 'text-red-600';
+  if (gap > 0) return 'text-orange-600';
+  return 'text-green-600';
+};
+
+const SkillGaps: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const [analysis, setAnalysis] = useState<SkillGapAnalysis | null>(null);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [weeks, setWeeks] = useState(12);
+  const [department, setDepartment] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const isManager = hasPermission('analytics:read');
+
+  const loadAnalysis = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await analyticsService.getSkillGaps({
+        weeks,
+        department: department || undefined
+      });
+
+      if (response.success && response.data) {
+        setAnalysis(response.data);
+      } else {
+        setError('Failed to load skill gap analysis');
+      }
+    } catch (err) {
+      console.error('Error loading skill gap analysis:', err);
+      setError((err as Error).message || 'Failed to load skill gap analysis');
+    } finally {
+      setLoading(false);
+    }
+  }, [weeks, department]);
+
+  useEffect(() => {
+    if (isManager) {
+      loadAnalysis();
+    }
+  }, [isManager, loadAnalysis]);
+
+  useEffect(() => {
+    if (!isManager) return;
+
+    engineerService.getAllEngineers({ limit: 100 })
+      .then(response => {
+        const names = (response.data?.engineers || [])
+          .map(engineer => engineer.department)
+          .filter((name): name is string => !!name);
+        setDepartments([...new Set(names)].sort());
+      })
+      .catch(err => console.error('Error loading departments:', err));
+  }, [isManager]);
+
+  const gapChartData = useMemo(() => (analysis?.skillGaps || [])
+    .slice(0, CHART_SKILL_LIMIT)
+    .map(row => ({
+      skill: skillLabel(row),
+      demand: row.demand,
+      supply: row.supply
+    })), [analysis]);
+
+  const trendData = useMemo(() => (analysis?.trend || []).map(week => ({
+    week: formatWeek(week.weekStart),
+    ...week.gaps
+  })), [analysis]);
+
+  if (!isManager) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Skill Gaps</h1>
+          <p className="text-gray-600">Skill demand from upcoming project work against the team's free capacity</p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+            value={department}
+            onChange={(e) => setDepartment(e.target.value)}
+          >
+            <option value="">All Departments</option>
+            {departments.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <select
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+            value={weeks}
+            onChange={(e) => setWeeks(parseInt(e.target.value))}
+          >
+            {HORIZONS.map(option => (
+              <option key={option} value={option}>Next {option} weeks</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Loading State */}
+      {loading && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Analyzing skill supply and demand...</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Error State */}
+      {!loading && error && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="text-red-600 mb-4">
+              <AlertCircle className="h-12 w-12 mx-auto" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Skill Gaps</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <Button onClick={loadAnalysis}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {!loading && !error && analysis && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-gray-900">{analysis.summary.trackedSkills}</p>
+                <p className="text-sm text-gray-600">Skills In Demand</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className={`text-2xl font-bold ${analysis.summary.totalGaps > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {analysis.summary.totalGaps}
+                </p>
+                <p className="text-sm text-gray-600">Skills With Gaps</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-orange-600">{analysis.summary.hiringNeeds}</p>
+                <p className="text-sm text-gray-600">Suggested Hires</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-blue-600">{analysis.summary.trainingCandidates}</p>
+                <p className="text-sm text-gray-600">Training Candidates</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Gaps by skill and level */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5 text-blue-600" />
+                Demand vs. Supply by Skill and Level
+              </CardTitle>
+              <CardDescription>
+                Average weekly FTE over the next {analysis.horizon.weeks} weeks. Demand counts unfilled team slots,
+                weighted by requirement priority; supply counts free capacity of engineers at or above the level.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {gapChartData.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 py-8">
+                  No skill gaps in this horizon. Current free capacity covers all open project demand.
+                </p>
+              ) : (
+                <ResponsiveContainer width="100%" height={Math.max(200, gapChartData.length * 40 + 60)}>
+                  <BarChart data={gapChartData} layout="vertical" margin={{ left: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis type="number" fontSize={12} />
+                    <YAxis type="category" dataKey="skill" width={180} fontSize={12} />
+                    <Tooltip formatter={(value: number) => formatFte(value)} />
+                    <Legend />
+                    <Bar dataKey="demand" name="Demand" fill="#ea580c" />
+                    <Bar dataKey="supply" name="Supply" fill="#2563eb" />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Trend */}
+          {analysis.trendSkills.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingUp className="h-5 w-5 text-blue-600" />
+                  Gap Trend
+                </CardTitle>
+                <CardDescription>
+                  Weekly shortfall in FTE for the largest gaps; values below zero mean spare capacity
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={trendData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="week" fontSize={12} />
+                    <YAxis fontSize={12} />
+                    <Tooltip formatter={(value: number) => formatFte(value)} />
+                    <Legend />
+                    <ReferenceLine y={0} stroke="#94a3b8" strokeDasharray="4 4" />
+                    {analysis.trendSkills.map((label, index) => (
+                      <Line
+                        key={label}
+                        type="monotone"
+                        dataKey={label}
+                        stroke={TREND_COLORS[index % TREND_COLORS.length]}
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Recommendations */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lightbulb className="h-5 w-5 text-yellow-500" />
+                Recommendations
+              </CardTitle>
+              <CardDescription>
+                Upskill engineers one level below or with a related skill first; hire for what remains
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {analysis.recommendations.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 py-4">No hiring or training needed right now.</p>
+              ) : (
+                <div className="space-y-3">
+                  {analysis.recommendations.map((recommendation, index) => (
+                    <div key={index} className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg">
+                      {recommendation.type === 'hire' ? (
+                        <UserPlus className="h-5 w-5 text-orange-600 mt-0.5 shrink-0" />
+                      ) : (
+                        <GraduationCap className="h-5 w-5 text-blue-600 mt-0.5 shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm font-medium text-gray-900">{recommendation.reason}</p>
+                          <Badge variant={recommendation.type === 'hire' ? 'destructive' : 'secondary'} className="text-xs capitalize">
+                            {recommendation.type}
+                          </Badge>
+                        </div>
+                        {recommendation.candidates.length > 0 && (
+                          <ul className="mt-1 space-y-0.5">
+                            {recommendation.candidates.map(candidate => (
+                              <li key={candidate.engineerId} className="text-xs text-gray-600">
+                                {candidate.name}: {candidate.fromLevel} {candidate.fromSkill}, {candidate.freeCapacity}% free on average
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Detail table */}
+          <Card>
+            <CardHeader>
+              <CardTitle>All Skills In Demand</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {analysis.skills.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 py-4">No open project demand in this horizon.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4 font-medium">Skill</th>
+                        <th className="py-2 pr-4 font-medium">Level</th>
+                        <th className="py-2 pr-4 font-medium text-right">Demand</th>
+                        <th className="py-2 pr-4 font-medium text-right">Supply</th>
+                        <th className="py-2 pr-4 font-medium text-right">Peak Gap</th>
+                        <th className="py-2 pr-4 font-medium text-right">Engineers</th>
+                        <th className="py-2 font-medium">Projects</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analysis.skills.map(row => (
+                        <tr key={`${row.skill}-${row.level}`} className="border-b last:border-0">
+                          <td className="py-2 pr-4">
+                            <span className="font-medium text-gray-900">{row.skill}</span>
+                            <span className="ml-2 text-xs text-gray-400 capitalize">{row.category}</span>
+                          </td>
+                          <td className="py-2 pr-4 capitalize">{row.level}</td>
+                          <td className="py-2 pr-4 text-right">{row.demand.toFixed(1)}</td>
+                          <td className="py-2 pr-4 text-right">{row.supply.toFixed(1)}</td>
+                          <td className={`py-2 pr-4 text-right font-medium ${getGapColor(row.peakGap)}`}>
+                            {row.peakGap > 0 ? `${row.peakGap.toFixed(1)} (${formatWeek(row.peakWeekStart)})` : '-'}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{row.engineersWithSkill}</td>
+                          <td className="py-2 text-gray-600">{row.projects.join(', ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SkillGaps;
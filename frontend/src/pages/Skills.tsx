@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Edit, Plus, Search, Tags, Trash2 } from 'lucide-react';
+import { skillService, SKILL_CATEGORIES } from '@/services/skillService';
+import SkillForm from '@/components/forms/SkillForm';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/components/ui/toast';
+import { useDebounce } from '@/hooks/useDebounce';
+import type { SkillCategory, SkillDefinition } from '@/types';
+
+const Skills: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const { showToast } = useToast();
+  const [skills, setSkills] = useState<SkillDefinition[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<SkillCategory | ''>('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingSkill, setEditingSkill] = useState<SkillDefinition | null>(null);
+
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const isManager = hasPermission('skills:manage');
+
+  const loadSkills = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await skillService.getSkills({
+        search: debouncedSearchTerm || undefined,
+        category: categoryFilter,
+        includeInactive: showInactive
+      });
+
+      if (response.success && response.data) {
+        setSkills(response.data.skills);
+      } else {
+        setError('Failed to load skills');
+      }
+    } catch (err) {
+      console.error('Error loading skills:', err);
+      setError((err as Error).message || 'Failed to load skills');
+    } finally {
+      setLoading(false);
+    }
+  }, [debouncedSearchTerm, categoryFilter, showInactive]);
+
+  useEffect(() => {
+    if (isManager) {
+      loadSkills();
+    }
+  }, [isManager, loadSkills]);
+
+  if (!isManager) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  const openForm = (skill: SkillDefinition | null = null) => {
+    setEditingSkill(skill);
+    setIsFormOpen(true);
+  };
+
+  const handleDeactivate = async (skill: SkillDefinition) => {
+    if (!window.confirm(`Deactivate "${skill.name}"? It will stop appearing in skill suggestions.`)) {
+      return;
+    }
+
+    try {
+      await skillService.deleteSkill(skill._id);
+      showToast({
+        type: 'success',
+        title: 'Skill Deactivated',
+        message: `${skill.name} is no longer suggested.`
+      });
+      loadSkills();
+    } catch (error: unknown) {
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: (error as Error).message || 'Failed to deactivate skill'
+      });
+    }
+  };
+
+  const handleReactivate = async (skill: SkillDefinition) => {
+    try {
+      await skillService.updateSkill(skill._id, { isActive: true });
+      showToast({
+        type: 'success',
+        title: 'Skill Reactivated',
+        message: `${skill.name} is back in skill suggestions.`
+      });
+      loadSkills();
+    } catch (error: unknown) {
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: (error as Error).message || 'Failed to reactivate skill'
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Skill Taxonomy</h1>
+          <p className="text-gray-600">Canonical skills, aliases and proficiency rubrics used for matching</p>
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Skill
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-3 md:items-center">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search by name or alias"
+                className="pl-9"
+              />
+            </div>
+            <select
+              className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm capitalize"
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value as SkillCategory | '')}
+            >
+              <option value="">All Categories</option>
+              {SKILL_CATEGORIES.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showInactive}
+                onChange={(e) => setShowInactive(e.target.checked)}
+              />
+              Show inactive
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Loading State */}
+      {loading && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading skills...</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Error State */}
+      {!loading && error && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="text-red-600 mb-4">
+              <AlertCircle className="h-12 w-12 mx-auto" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Skills</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <Button onClick={loadSkills}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Empty State */}
+      {!loading && !error && skills.length === 0 && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <Tags className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No skills found</h3>
+            <p className="text-gray-500">
+              {searchTerm || categoryFilter ? 'Try adjusting your filters' : 'Add a skill or run the skill migration to get started'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Skill List */}
+      {!loading && !error && skills.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {skills.map(skill => (
+            <Card key={skill._id} className={skill.isActive ? '' : 'opacity-60'}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{skill.name}</h3>
+                    <div className="flex items-center gap-2 mt-1">
+                      <Badge variant="outline" className="capitalize">{skill.category}</Badge>
+                      {!skill.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openForm(skill)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    {skill.isActive ? (
+                      <Button variant="ghost" size="sm" onClick={() => handleDeactivate(skill)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => handleReactivate(skill)}>
+                        Reactivate
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {skill.description && (
+                  <p className="text-sm text-gray-600">{skill.description}</p>
+                )}
+
+                {skill.aliases.length > 0 && (
+                  <div className="text-sm">
+                    <span className="text-gray-500">Aliases: </span>
+                    <span className="text-gray-700">{skill.aliases.join(', ')}</span>
+                  </div>
+                )}
+
+                {skill.relatedSkills.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {skill.relatedSkills.map(related => (
+                      <Badge key={related._id} variant="secondary" className="text-xs">
+                        {related.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <SkillForm
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        onSuccess={loadSkills}
+        skill={editingSkill}
+      />
+    </div>
+  );
+};
+
+export default Skills;
@@ -0,0 +1,535 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChevronLeft, ChevronRight, GanttChart, Loader2 } from 'lucide-react';
+import { addDays, differenceInCalendarDays, format, startOfMonth, startOfWeek } from 'date-fns';
+import { assignmentService } from '@/services/assignmentService';
+import { engineerService } from '@/services/engineerService';
+import { useToast } from '@/components/ui/toast';
+import { useAuth } from '@/context/AuthContext';
+import { canManageAssignmentsOn } from '@/utils/permissions';
+import type { Assignment, EngineerWithAssignments, Project, User } from '@/types';
+
+type ZoomLevel = 'week' | 'month' | 'quarter';
+type ColorMode = 'project' | 'role';
+
+const ZOOM_LEVELS: Record<ZoomLevel, { label: string; dayWidth: number; visibleDays: number; step: number }> = {
+  week: { label: 'Week', dayWidth: 48, visibleDays: 28, step: 7 },
+  month: { label: 'Month', dayWidth: 16, visibleDays: 91, step: 30 },
+  quarter: { label: 'Quarter', dayWidth: 5, visibleDays: 365, step: 91 }
+};
+
+const PROJECT_COLORS = ['#2563eb', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#ca8a04', '#4f46e5'];
+
+const ROLE_COLORS: Record<Assignment['role'], string> = {
+  developer: '#2563eb',
+  lead: '#9333ea',
+  architect: '#4f46e5',
+  tester: '#16a34a',
+  devops: '#ea580c',
+  analyst: '#0891b2',
+  designer: '#db2777'
+};
+
+// The API returns at most this many items per request
+const PAGE_SIZE = 100;
+
+const LANE_LABEL_WIDTH = 220;
+const BAR_HEIGHT = 24;
+const BAR_GAP = 6;
+
+interface DragState {
+  assignmentId: string;
+  edge: 'start' | 'end';
+  originX: number;
+  deltaDays: number;
+}
+
+// Assignment dates are stored as UTC midnight; read them back as local calendar days
+const parseDay = (value: Date | string) => {
+  const [year, month, day] = new Date(value).toISOString().slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const toIsoDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const getProject = (assignment: Assignment) =>
+  typeof assignment.projectId === 'object' ? assignment.projectId as Project : null;
+
+const getEngineerId = (assignment: Assignment) =>
+  typeof assignment.engineerId === 'object' ? (assignment.engineerId as User)._id : assignment.engineerId;
+
+const getProjectColor = (projectId: string) => {
+  const hash = projectId.split('').reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return PROJECT_COLORS[hash % PROJECT_COLORS.length];
+};
+
+// Every item of a paginated list, fetching the remaining pages once the first says how many there are
+const loadAllPages = async <T,>(loadPage: (page: number) => Promise<{ items: T[]; pages: number }>) => {
+  const first = await loadPage(1);
+  const rest = await Promise.all(
+    Array.from({ length: Math.max(0, first.pages - 1) }, (_, index) => loadPage(index + 2))
+  );
+  return [first, ...rest].flatMap(result => result.items);
+};
+
+// Place overlapping assignments on separate rows within an engineer's lane
+const packIntoRows = (assignments: Assignment[]) => {
+  const rows: Assignment[][] = [];
+  [...assignments]
+    .sort((a, b) => parseDay(a.startDate).getTime() - parseDay(b.startDate).getTime())
+    .forEach(assignment => {
+      const start = parseDay(assignment.startDate);
+      const row = rows.find(existing => parseDay(existing[existing.length - 1].endDate) < start);
+      if (row) {
+        row.push(assignment);
+      } else {
+        rows.push([assignment]);
+      }
+    });
+  return rows;
+};
+
+const Timeline: React.FC = () => {
+  const { user, hasPermission } = useAuth();
+  const { showToast } = useToast();
+
+  const [engineers, setEngineers] = useState<EngineerWithAssignments[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFetchingAssignments, setIsFetchingAssignments] = useState(false);
+  const [zoom, setZoom] = useState<ZoomLevel>('month');
+  const [colorMode, setColorMode] = useState<ColorMode>('project');
+  const [viewStart, setViewStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [savingAssignmentId, setSavingAssignmentId] = useState<string | null>(null);
+
+  const canEdit = hasPermission('assignments:manage', 'assignments:manage-own');
+  const { dayWidth, visibleDays, step } = ZOOM_LEVELS[zoom];
+  const viewEnd = addDays(viewStart, visibleDays - 1);
+
+  // Assignments are fetched for the visible window only, so they follow navigation and zoom
+  const windowStart = toIsoDay(viewStart);
+  const windowEnd = toIsoDay(viewEnd);
+  const latestAssignmentsRequest = useRef(0);
+
+  const loadEngineers = useCallback(async () => {
+    try {
+      const loaded = await loadAllPages(async page => {
+        const response = await engineerService.getAllEngineers({ page, limit: PAGE_SIZE });
+        return { items: response.data?.engineers || [], pages: response.data?.pagination?.pages || 1 };
+      });
+      setEngineers(loaded);
+    } catch (error) {
+      console.error('Error loading timeline:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: `Failed to load timeline: ${(error as Error).message}`
+      });
+    }
+  }, [showToast]);
+
+  const loadTimelineData = useCallback(async () => {
+    // Only the newest request may update the view when the user navigates quickly
+    const request = ++latestAssignmentsRequest.current;
+
+    try {
+      setIsFetchingAssignments(true);
+      const loaded = await loadAllPages(async page => {
+        const response = await assignmentService.getAllAssignments({
+          startDate: windowStart,
+          endDate: windowEnd,
+          page,
+          limit: PAGE_SIZE
+        });
+        return { items: response.data?.assignments || [], pages: response.data?.pagination?.pages || 1 };
+      });
+      if (request === latestAssignmentsRequest.current) {
+        setAssignments(loaded);
+      }
+    } catch (error) {
+      console.error('Error loading timeline:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: `Failed to load timeline: ${(error as Error).message}`
+      });
+    } finally {
+      if (request === latestAssignmentsRequest.current) {
+        setIsFetchingAssignments(false);
+      }
+    }
+  }, [showToast, windowStart, windowEnd]);
+
+  useEffect(() => {
+    if (user) {
+      loadEngineers().finally(() => setIsLoading(false));
+    }
+  }, [loadEngineers, user]);
+
+  useEffect(() => {
+    if (user) {
+      loadTimelineData();
+    }
+  }, [loadTimelineData, user]);
+
+  const getPreviewDates = useCallback((assignment: Assignment) => {
+    let start = parseDay(assignment.startDate);
+    let end = parseDay(assignment.endDate);
+
+    if (drag && drag.assignmentId === assignment._id) {
+      if (drag.edge === 'start') {
+        start = addDays(start, Math.min(drag.deltaDays, differenceInCalendarDays(end, start) - 1));
+      } else {
+        end = addDays(end, Math.max(drag.deltaDays, differenceInCalendarDays(start, end) + 1));
+      }
+    }
+
+    return { start, end };
+  }, [drag]);
+
+  const commitResize = useCallback(async (assignment: Assignment, start: Date, end: Date) => {
+    const engineerId = getEngineerId(assignment);
+    const startDate = toIsoDay(start);
+    const endDate = toIsoDay(end);
+
+    try {
+      setSavingAssignmentId(assignment._id);
+
+      const conflictResponse = await assignmentService.checkConflicts({
+        engineerId,
+        startDate,
+        endDate,
+        excludeAssignmentId: assignment._id
+      });
+
+      if (conflictResponse.success && conflictResponse.data?.hasConflicts) {
+        const overlapping = conflictResponse.data.conflicts;
+        const combinedAllocation = overlapping.reduce((sum, conflict) => sum + conflict.allocation, assignment.allocationPercentage);
+        const summary = overlapping.map(conflict => `${conflict.projectName} (${conflict.allocation}%)`).join(', ');
+
+        if (!confirm(`The new dates overlap with ${summary}. Combined allocation may reach ${combinedAllocation}%. Save anyway?`)) {
+          return;
+        }
+      }
+
+      if (conflictResponse.success && conflictResponse.data?.hasTimeOff) {
+        const absences = conflictResponse.data.timeOff.map(absence => absence.label).join(', ');
+
+        if (!confirm(`The engineer has time off during the new dates (${absences}), which reduces their capacity. Save anyway?`)) {
+          return;
+        }
+      }
+
+      const response = await assignmentService.updateAssignment(assignment._id, { startDate, endDate });
+      if (response.success) {
+        showToast({
+          type: 'success',
+          title: 'Assignment Rescheduled',
+          message: `${getProject(assignment)?.name || 'Assignment'} now runs ${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`
+        });
+        await loadTimelineData();
+      } else {
+        throw new Error(response.message || 'Update failed');
+      }
+    } catch (error) {
+      console.error('Error rescheduling assignment:', error);
+      showToast({
+        type: 'error',
+        title: 'Reschedule Failed',
+        message: (error as Error).message || 'Failed to update assignment dates'
+      });
+    } finally {
+      setSavingAssignmentId(null);
+    }
+  }, [loadTimelineData, showToast]);
+
+  // Track the pointer while an edge is being dragged and commit on release
+  useEffect(() => {
+    if (!drag) return;
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const deltaDays = Math.round((event.clientX - drag.originX) / dayWidth);
+      if (deltaDays !== drag.deltaDays) {
+        setDrag({ ...drag, deltaDays });
+      }
+    };
+
+    const handlePointerUp = () => {
+      const assignment = assignments.find(a => a._id === drag.assignmentId);
+      setDrag(null);
+
+      if (assignment && drag.deltaDays !== 0) {
+        const { start, end } = getPreviewDates(assignment);
+        commitResize(assignment, start, end);
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [drag, dayWidth, assignments, getPreviewDates, commitResize]);
+
+  const lanes = useMemo(() => {
+    return engineers.map(engineer => {
+      const engineerAssignments = assignments.filter(assignment =>
+        getEngineerId(assignment) === engineer._id &&
+        parseDay(assignment.startDate) <= viewEnd &&
+        parseDay(assignment.endDate) >= viewStart
+      );
+      return { engineer, rows: packIntoRows(engineerAssignments) };
+    });
+  }, [engineers, assignments, viewStart, viewEnd]);
+
+  const ticks = useMemo(() => {
+    const result: { date: Date; label: string }[] = [];
+    for (let offset = 0; offset < visibleDays; offset++) {
+      const date = addDays(viewStart, offset);
+      if (zoom === 'week') {
+        result.push({ date, label: format(date, 'EEE d') });
+      } else if (zoom === 'month' && date.getDay() === 1) {
+        result.push({ date, label: format(date, 'MMM d') });
+      } else if (zoom === 'quarter' && startOfMonth(date).getTime() === date.getTime()) {
+        result.push({ date, label: format(date, 'MMM yyyy') });
+      }
+    }
+    return result;
+  }, [viewStart, visibleDays, zoom]);
+
+  const projectLegend = useMemo(() => {
+    const seen = new Map<string, string>();
+    assignments.forEach(assignment => {
+      const project = getProject(assignment);
+      if (project) seen.set(project._id, project.name);
+    });
+    return [...seen.entries()];
+  }, [assignments]);
+
+  const todayOffset = differenceInCalendarDays(new Date(), viewStart);
+  const gridWidth = visibleDays * dayWidth;
+
+  const startDrag = (event: React.PointerEvent, assignmentId: string, edge: DragState['edge']) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDrag({ assignmentId, edge, originX: event.clientX, deltaDays: 0 });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
+            <GanttChart className="h-8 w-8 text-blue-600" />
+            Resource Timeline
+          </h1>
+          <p className="text-gray-600 mt-1">
+            {canEdit
+              ? 'Drag the edges of an assignment to change its dates'
+              : 'Your assignments over time'}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {/* Navigation */}
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="sm" onClick={() => setViewStart(prev => addDays(prev, -step))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setViewStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setViewStart(prev => addDays(prev, step))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            {isFetchingAssignments && <Loader2 className="h-4 w-4 ml-1 animate-spin text-gray-400" />}
+          </div>
+
+          {/* Zoom */}
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {(Object.keys(ZOOM_LEVELS) as ZoomLevel[]).map(level => (
+              <button
+                key={level}
+                onClick={() => setZoom(level)}
+                className={`px-3 py-1.5 text-sm font-medium ${
+                  zoom === level ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {ZOOM_LEVELS[level].label}
+              </button>
+            ))}
+          </div>
+
+          {/* Color mode */}
+          <select
+            value={colorMode}
+            onChange={(e) => setColorMode(e.target.value as ColorMode)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="project">Color by project</option>
+            <option value="role">Color by role</option>
+          </select>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        {format(viewStart, 'MMM d, yyyy')} – {format(viewEnd, 'MMM d, yyyy')}
+      </p>
+
+      {/* Swimlanes */}
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          <div style={{ width: LANE_LABEL_WIDTH + gridWidth }} className={drag ? 'select-none cursor-ew-resize' : ''}>
+            {/* Time axis */}
+            <div className="flex border-b border-gray-200 bg-gray-50 sticky top-0 z-10">
+              <div style={{ width: LANE_LABEL_WIDTH }} className="flex-shrink-0 px-4 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Engineer
+              </div>
+              <div className="relative h-8" style={{ width: gridWidth }}>
+                {ticks.map(tick => (
+                  <div
+                    key={tick.date.getTime()}
+                    className="absolute top-0 h-full border-l border-gray-200 pl-1 text-xs text-gray-500 whitespace-nowrap leading-8"
+                    style={{ left: differenceInCalendarDays(tick.date, viewStart) * dayWidth }}
+                  >
+                    {tick.label}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {lanes.length === 0 && (
+              <div className="px-6 py-12 text-center text-gray-500">
+                <GanttChart className="h-12 w-12 mx-auto mb-4 opacity-40" />
+                <p>No engineers found</p>
+              </div>
+            )}
+
+            {lanes.map(({ engineer, rows }) => {
+              const laneHeight = Math.max(1, rows.length) * (BAR_HEIGHT + BAR_GAP) + BAR_GAP;
+
+              return (
+                <div key={engineer._id} className="flex border-b border-gray-100 hover:bg-gray-50/60">
+                  <div style={{ width: LANE_LABEL_WIDTH }} className="flex-shrink-0 px-4 py-2 flex items-center space-x-3">
+                    <div className="h-8 w-8 rounded-full bg-blue-500 flex items-center justify-center text-white text-sm font-medium">
+                      {engineer.name?.charAt(0) || 'E'}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{engineer.name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {engineer.currentUtilization || 0}% now • max {engineer.maxCapacity || 100}%
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="relative" style={{ width: gridWidth, height: laneHeight }}>
+                    {/* Grid lines */}
+                    {ticks.map(tick => (
+                      <div
+                        key={tick.date.getTime()}
+                        className="absolute top-0 h-full border-l border-gray-100"
+                        style={{ left: differenceInCalendarDays(tick.date, viewStart) * dayWidth }}
+                      />
+                    ))}
+
+                    {/* Today marker */}
+                    {todayOffset >= 0 && todayOffset < visibleDays && (
+                      <div
+                        className="absolute top-0 h-full border-l-2 border-red-400"
+                        style={{ left: todayOffset * dayWidth }}
+                      />
+                    )}
+
+                    {rows.map((row, rowIndex) => row.map(assignment => {
+                      const { start, end } = getPreviewDates(assignment);
+                      const project = getProject(assignment);
+                      const startOffset = Math.max(0, differenceInCalendarDays(start, viewStart));
+                      const endOffset = Math.min(visibleDays - 1, differenceInCalendarDays(end, viewStart));
+                      if (endOffset < 0 || startOffset > visibleDays - 1) return null;
+
+                      const color = colorMode === 'project'
+                        ? getProjectColor(project?._id || String(assignment.projectId))
+                        : ROLE_COLORS[assignment.role];
+                      const isEditable = canManageAssignmentsOn(user, project) && assignment.status === 'active' &&
+                        savingAssignmentId !== assignment._id;
+                      const isDragging = drag?.assignmentId === assignment._id;
+
+                      return (
+                        <div
+                          key={assignment._id}
+                          title={`${project?.name || 'Project'} • ${assignment.role} • ${assignment.allocationPercentage}%\n${format(start, 'MMM d, yyyy')} – ${format(end, 'MMM d, yyyy')}`}
+                          className={`absolute rounded-md text-white text-xs font-medium flex items-center overflow-hidden shadow-sm ${
+                            assignment.status !== 'active' ? 'grayscale' : ''
+                          } ${isDragging ? 'ring-2 ring-offset-1 ring-blue-400' : ''}`}
+                          style={{
+                            left: startOffset * dayWidth,
+                            width: Math.max(dayWidth, (endOffset - startOffset + 1) * dayWidth),
+                            top: BAR_GAP + rowIndex * (BAR_HEIGHT + BAR_GAP),
+                            height: BAR_HEIGHT,
+                            backgroundColor: color,
+                            opacity: 0.35 + 0.65 * Math.min(100, assignment.allocationPercentage) / 100
+                          }}
+                        >
+                          {isEditable && (
+                            <div
+                              className="absolute left-0 top-0 h-full w-2 cursor-ew-resize bg-black/20 hover:bg-black/40"
+                              onPointerDown={(e) => startDrag(e, assignment._id, 'start')}
+                            />
+                          )}
+                          <span className="px-3 truncate">
+                            {savingAssignmentId === assignment._id && <Loader2 className="inline h-3 w-3 mr-1 animate-spin" />}
+                            {project?.name || 'Project'} • {assignment.allocationPercentage}%
+                          </span>
+                          {isEditable && (
+                            <div
+                              className="absolute right-0 top-0 h-full w-2 cursor-ew-resize bg-black/20 hover:bg-black/40"
+                              onPointerDown={(e) => startDrag(e, assignment._id, 'end')}
+                            />
+                          )}
+                        </div>
+                      );
+                    }))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-600 mr-2">Legend:</span>
+        {colorMode === 'project'
+          ? projectLegend.map(([projectId, name]) => (
+              <Badge key={projectId} variant="outline" className="text-xs">
+                <span className="inline-block w-3 h-3 rounded-sm mr-1.5" style={{ backgroundColor: getProjectColor(projectId) }} />
+                {name}
+              </Badge>
+            ))
+          : (Object.keys(ROLE_COLORS) as Assignment['role'][]).map(role => (
+              <Badge key={role} variant="outline" className="text-xs capitalize">
+                <span className="inline-block w-3 h-3 rounded-sm mr-1.5" style={{ backgroundColor: ROLE_COLORS[role] }} />
+                {role}
+              </Badge>
+            ))}
+        <span className="text-xs text-gray-500 ml-auto">Bar opacity reflects allocation percentage</span>
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
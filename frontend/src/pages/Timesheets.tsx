@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, ChevronDown, ChevronRight, ClipboardList } from 'lucide-react';
+import { addWeeks, format, startOfWeek } from 'date-fns';
+import { timesheetService } from '@/services/timesheetService';
+import { projectService } from '@/services/projectService';
+import { useAuth } from '@/context/AuthContext';
+import type { Project, TimesheetSummary } from '@/types';
+
+// Logged hours within this share of planned count as on plan
+const VARIANCE_TOLERANCE = 0.1;
+
+const varianceStyle = (planned: number, logged: number) => {
+  if (!planned) return logged ? 'text-yellow-600' : 'text-gray-500';
+  const ratio = (logged - planned) / planned;
+  if (Math.abs(ratio) <= VARIANCE_TOLERANCE) return 'text-green-600';
+  return ratio > 0 ? 'text-red-600' : 'text-yellow-600';
+};
+
+const formatVariance = (variance: number) => `${variance > 0 ? '+' : ''}${variance}h`;
+
+const HoursBar: React.FC<{ planned: number; logged: number }> = ({ planned, logged }) => {
+  const scale = Math.max(planned, logged, 1);
+
+  return (
+    <div className="space-y-1">
+      <div className="h-2 w-full rounded-full bg-gray-100">
+        <div className="h-2 rounded-full bg-gray-400" style={{ width: `${(planned / scale) * 100}%` }} />
+      </div>
+      <div className="h-2 w-full rounded-full bg-gray-100">
+        <div className="h-2 rounded-full bg-blue-500" style={{ width: `${(logged / scale) * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const Timesheets: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const [summary, setSummary] = useState<TimesheetSummary | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [startDate, setStartDate] = useState(() =>
+    format(addWeeks(startOfWeek(new Date(), { weekStartsOn: 1 }), -3), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [expandedProjectId, setExpandedProjectId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const isManager = hasPermission('analytics:read');
+
+  const loadSummary = useCallback(async () => {
+    if (!startDate || !endDate || endDate < startDate) return;
+
+    try {
+      setLoading(true);
+      setError('');
+      const response = await timesheetService.getSummary({
+        projectId: projectId || undefined,
+        startDate,
+        endDate
+      });
+
+      if (response.success && response.data) {
+        setSummary(response.data.summary);
+      } else {
+        setError('Failed to load timesheets');
+      }
+    } catch (err) {
+      console.error('Error loading timesheets:', err);
+      setError((err as Error).message || 'Failed to load timesheets');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, startDate, endDate]);
+
+  useEffect(() => {
+    if (isManager) {
+      loadSummary();
+    }
+  }, [isManager, loadSummary]);
+
+  useEffect(() => {
+    if (!isManager) return;
+
+    projectService.getAllProjects()
+      .then(response => setProjects(response.data?.projects || []))
+      .catch(err => console.error('Error loading projects:', err));
+  }, [isManager]);
+
+  if (!isManager) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Timesheets</h1>
+          <p className="text-gray-600">Hours logged against planned allocation, by project and assignment</p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <select
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+          >
+            <option value="">All Projects</option>
+            {projects.map(project => (
+              <option key={project._id} value={project._id}>{project.name}</option>
+            ))}
+          </select>
+          <Input
+            type="date"
+            className="w-auto"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+          <Input
+            type="date"
+            className="w-auto"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {/* Loading State */}
+      {loading && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading timesheets...</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Error State */}
+      {!loading && error && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="text-red-600 mb-4">
+              <AlertCircle className="h-12 w-12 mx-auto" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Timesheets</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <Button onClick={loadSummary}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {!loading && !error && summary && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-gray-900">{summary.totals.plannedHours}h</p>
+                <p className="text-sm text-gray-600">Planned</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-blue-600">{summary.totals.loggedHours}h</p>
+                <p className="text-sm text-gray-600">Logged</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className={`text-2xl font-bold ${varianceStyle(summary.totals.plannedHours, summary.totals.loggedHours)}`}>
+                  {formatVariance(Math.round((summary.totals.loggedHours - summary.totals.plannedHours) * 10) / 10)}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {format(new Date(summary.startDate), 'MMM d')} – {format(new Date(summary.endDate), 'MMM d, yyyy')}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="flex gap-4 text-xs text-gray-600">
+            <span className="flex items-center gap-1"><span className="h-2 w-4 rounded bg-gray-400" /> Planned</span>
+            <span className="flex items-center gap-1"><span className="h-2 w-4 rounded bg-blue-500" /> Logged</span>
+          </div>
+
+          {/* Projects */}
+          {summary.projects.length === 0 ? (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">No assignments ran in this period.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {summary.projects.map(project => {
+                const isExpanded = expandedProjectId === project.projectId;
+
+                return (
+                  <Card key={project.projectId}>
+                    <CardContent className="p-4 space-y-3">
+                      <button
+                        type="button"
+                        className="w-full text-left"
+                        onClick={() => setExpandedProjectId(isExpanded ? null : project.projectId)}
+                      >
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="flex items-center gap-2 min-w-0">
+                            {isExpanded
+                              ? <ChevronDown className="h-4 w-4 text-gray-400 shrink-0" />
+                              : <ChevronRight className="h-4 w-4 text-gray-400 shrink-0" />}
+                            <h3 className="font-semibold text-gray-900 truncate">{project.name}</h3>
+                            {project.status && <Badge variant="outline" className="capitalize">{project.status}</Badge>}
+                          </div>
+                          <div className="text-right text-sm shrink-0">
+                            <span className="text-gray-600">{project.loggedHours}h / {project.plannedHours}h</span>
+                            <span className={`ml-2 font-semibold ${varianceStyle(project.plannedHours, project.loggedHours)}`}>
+                              {formatVariance(project.variance)}
+                            </span>
+                          </div>
+                        </div>
+                      </button>
+
+                      <div className="pl-6">
+                        <HoursBar planned={project.plannedHours} logged={project.loggedHours} />
+                      </div>
+
+                      {isExpanded && (
+                        <div className="border-t pt-3 pl-6 overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-xs text-gray-500">
+                                <th className="py-1 pr-4 font-medium">Engineer</th>
+                                <th className="py-1 pr-4 font-medium">Allocation</th>
+                                <th className="py-1 pr-4 font-medium text-right">Planned</th>
+                                <th className="py-1 pr-4 font-medium text-right">Logged</th>
+                                <th className="py-1 pr-4 font-medium text-right">Variance</th>
+                                <th className="py-1 font-medium text-right">Progress</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {project.assignments.map(assignment => (
+                                <tr key={assignment.assignmentId} className="border-t">
+                                  <td className="py-2 pr-4">
+                                    <p className="text-gray-900">{assignment.engineer?.name || 'Engineer'}</p>
+                                    <p className="text-xs text-gray-500 capitalize">{assignment.role}</p>
+                                  </td>
+                                  <td className="py-2 pr-4 text-gray-600">{assignment.allocationPercentage}%</td>
+                                  <td className="py-2 pr-4 text-right text-gray-600">{assignment.plannedHours}h</td>
+                                  <td className="py-2 pr-4 text-right text-gray-900">
+                                    {assignment.loggedHours}h
+                                    {assignment.weeksLogged === 0 && (
+                                      <span className="block text-xs text-yellow-600">Nothing logged</span>
+                                    )}
+                                  </td>
+                                  <td className={`py-2 pr-4 text-right font-medium ${varianceStyle(assignment.plannedHours, assignment.loggedHours)}`}>
+                                    {formatVariance(assignment.variance)}
+                                  </td>
+                                  <td className="py-2 text-right text-gray-600">{assignment.completionPercentage}%</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Timesheets;
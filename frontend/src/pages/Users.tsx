@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Search, ShieldCheck, UserCog, UserPlus } from 'lucide-react';
+import { userService } from '@/services/userService';
+import RoleForm from '@/components/forms/RoleForm';
+import InvitationForm from '@/components/forms/InvitationForm';
+import PendingInvitations, { type InviteLink } from '@/components/PendingInvitations';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/components/ui/toast';
+import { useDebounce } from '@/hooks/useDebounce';
+import { ROLE_LABELS } from '@/utils/permissions';
+import type { Pagination, Permission, Role, RoleDetails, User } from '@/types';
+
+const ROLE_STYLES: Record<Role, string> = {
+  admin: 'bg-purple-100 text-purple-800',
+  'resource-manager': 'bg-blue-100 text-blue-800',
+  'project-manager': 'bg-teal-100 text-teal-800',
+  engineer: 'bg-gray-100 text-gray-800',
+  viewer: 'bg-amber-100 text-amber-800'
+};
+
+const Users: React.FC = () => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [accounts, setAccounts] = useState<User[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [roles, setRoles] = useState<RoleDetails[]>([]);
+  const [permissionLabels, setPermissionLabels] = useState<Partial<Record<Permission, string>>>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [roleFilter, setRoleFilter] = useState<Role | ''>('');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [editingAccount, setEditingAccount] = useState<User | null>(null);
+  const [isInviteFormOpen, setIsInviteFormOpen] = useState(false);
+  const [inviteLink, setInviteLink] = useState<InviteLink | null>(null);
+
+  const debouncedSearch = useDebounce(searchTerm, 300);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await userService.getAccounts({
+        search: debouncedSearch || undefined,
+        role: roleFilter || undefined,
+        page,
+        limit: 20
+      });
+
+      if (response.success && response.data) {
+        setAccounts(response.data.users);
+        setPagination(response.data.pagination);
+      } else {
+        setError('Failed to load users');
+      }
+    } catch (err) {
+      console.error('Error loading users:', err);
+      setError((err as Error).message || 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, [debouncedSearch, roleFilter, page]);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  useEffect(() => {
+    const loadRoles = async () => {
+      try {
+        const response = await userService.getRoles();
+        if (response.success && response.data) {
+          setRoles(response.data.roles);
+          setPermissionLabels(response.data.permissions);
+        }
+      } catch (err) {
+        showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to load roles' });
+      }
+    };
+
+    loadRoles();
+  }, [showToast]);
+
+  const handleRoleChanged = (updated: User) => {
+    setAccounts(prev => prev.map(account => account._id === updated._id ? { ...account, ...updated } : account));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Users & Roles</h1>
+          <p className="text-gray-600">Invite people and choose what each of them can see and change</p>
+        </div>
+        <Button onClick={() => setIsInviteFormOpen(true)}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Invite User
+        </Button>
+      </div>
+
+      <PendingInvitations inviteLink={inviteLink} onInviteLink={setInviteLink} />
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search by name or email..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setPage(1);
+                }}
+                className="pl-10"
+              />
+            </div>
+            <select
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+              value={roleFilter}
+              onChange={(e) => {
+                setRoleFilter(e.target.value as Role | '');
+                setPage(1);
+              }}
+            >
+              <option value="">All Roles</option>
+              {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                <option key={role} value={role}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Error State */}
+      {!loading && error && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="text-red-600 mb-4">
+              <AlertCircle className="h-12 w-12 mx-auto" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Users</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <Button onClick={loadAccounts}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Account List */}
+      {!error && (
+        <Card>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+                    <th className="px-6 py-3 font-medium">Name</th>
+                    <th className="px-6 py-3 font-medium">Email</th>
+                    <th className="px-6 py-3 font-medium">Role</th>
+                    <th className="px-6 py-3 font-medium">Department</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {loading && accounts.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-12 text-center text-gray-500">Loading users...</td>
+                    </tr>
+                  ) : accounts.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-12 text-center text-gray-500">No users match these filters</td>
+                    </tr>
+                  ) : (
+                    accounts.map(account => (
+                      <tr key={account._id} className="hover:bg-gray-50">
+                        <td className="px-6 py-3 font-medium text-gray-900">
+                          {account.name}
+                          {account._id === user?._id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                        </td>
+                        <td className="px-6 py-3 text-gray-600">{account.email}</td>
+                        <td className="px-6 py-3">
+                          <Badge className={`${ROLE_STYLES[account.role]} border-0`}>
+                            {ROLE_LABELS[account.role]}
+                          </Badge>
+                        </td>
+                        <td className="px-6 py-3 text-gray-600">{account.department || '—'}</td>
+                        <td className="px-6 py-3 text-right">
+                          {account._id !== user?._id && (
+                            <Button variant="outline" size="sm" onClick={() => setEditingAccount(account)}>
+                              <UserCog className="h-4 w-4 mr-2" />
+                              Change Role
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {pagination && pagination.pages > 1 && (
+              <div className="flex items-center justify-between px-6 py-3 border-t text-sm text-gray-600">
+                <span>Page {pagination.page} of {pagination.pages}</span>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page <= 1 || loading}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page >= pagination.pages || loading}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Role Reference */}
+      {roles.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-blue-600" />
+              Roles
+            </CardTitle>
+            <CardDescription>Project managers only change the projects they manage and see the engineers on them</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {roles.map(details => (
+                <div key={details.role} className="p-4 border border-gray-200 rounded-lg">
+                  <Badge className={`${ROLE_STYLES[details.role]} border-0 mb-2`}>{details.label}</Badge>
+                  {details.permissions.length === 0 ? (
+                    <p className="text-sm text-gray-600">Their own profile, assignments, time off and timesheets</p>
+                  ) : (
+                    <ul className="list-disc pl-5 space-y-1 text-sm text-gray-600">
+                      {details.permissions.map(permission => (
+                        <li key={permission}>{permissionLabels[permission] || permission}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <RoleForm
+        isOpen={!!editingAccount}
+        onClose={() => setEditingAccount(null)}
+        onSuccess={handleRoleChanged}
+        account={editingAccount}
+        roles={roles}
+        permissionLabels={permissionLabels}
+      />
+
+      <InvitationForm
+        isOpen={isInviteFormOpen}
+        onClose={() => setIsInviteFormOpen(false)}
+        onSuccess={(invitation, inviteUrl) => setInviteLink({ invitation, inviteUrl })}
+        roles={roles}
+      />
+    </div>
+  );
+};
+
+export default Users;
@@ -0,0 +1,540 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  Copy,
+  Edit,
+  KeyRound,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Send,
+  Trash2,
+  Webhook as WebhookIcon,
+  XCircle
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { webhookService } from '@/services/webhookService';
+import WebhookForm from '@/components/forms/WebhookForm';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/components/ui/toast';
+import type { Pagination, Webhook, WebhookDelivery, WebhookDeliveryStatus } from '@/types';
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const STATUS_ICONS: Record<WebhookDeliveryStatus, React.ReactNode> = {
+  pending: <Clock className="h-3 w-3 mr-1" />,
+  succeeded: <CheckCircle className="h-3 w-3 mr-1" />,
+  failed: <XCircle className="h-3 w-3 mr-1" />
+};
+
+const timeAgo = (date: string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+const DeliveryLog: React.FC<{ webhook: Webhook }> = ({ webhook }) => {
+  const { showToast } = useToast();
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | ''>('');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await webhookService.getDeliveries(webhook._id, {
+        status: statusFilter || undefined,
+        page,
+        limit: 20
+      });
+      if (response.success && response.data) {
+        setDeliveries(response.data.deliveries);
+        setPagination(response.data.pagination);
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load deliveries');
+    } finally {
+      setLoading(false);
+    }
+  }, [webhook._id, statusFilter, page]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const handleRetry = async (delivery: WebhookDelivery) => {
+    setRetryingId(delivery._id);
+    try {
+      const response = await webhookService.retryDelivery(delivery._id);
+      if (response.success && response.data) {
+        const updated = response.data.delivery;
+        setDeliveries(prev => prev.map(item => item._id === updated._id ? updated : item));
+        showToast({
+          type: updated.status === 'succeeded' ? 'success' : 'error',
+          title: updated.status === 'succeeded' ? 'Delivered' : 'Delivery Failed',
+          message: response.message
+        });
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to retry delivery' });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle>Deliveries: {webhook.name}</CardTitle>
+            <CardDescription>Kept for 30 days. Failed deliveries are retried after 1 minute, 5 minutes, 30 minutes, 2 hours and 6 hours.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <select
+              className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as WebhookDeliveryStatus | '');
+                setPage(1);
+              }}
+            >
+              <option value="">All Statuses</option>
+              <option value="pending">Pending</option>
+              <option value="succeeded">Succeeded</option>
+              <option value="failed">Failed</option>
+            </select>
+            <Button variant="outline" size="sm" onClick={loadDeliveries} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : loading && deliveries.length === 0 ? (
+          <p className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading deliveries...
+          </p>
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500">No deliveries yet. Send a test event to check the receiver.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-2 pr-3 font-medium">Event</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2 pr-3 font-medium">Response</th>
+                  <th className="py-2 pr-3 font-medium">Attempts</th>
+                  <th className="py-2 pr-3 font-medium">Created</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map(delivery => (
+                  <React.Fragment key={delivery._id}>
+                    <tr
+                      className="border-b align-top cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpandedId(id => id === delivery._id ? null : delivery._id)}
+                    >
+                      <td className="py-2 pr-3 font-mono text-xs text-gray-900">{delivery.event}</td>
+                      <td className="py-2 pr-3">
+                        <Badge className={`${STATUS_STYLES[delivery.status]} border-0`}>
+                          {STATUS_ICONS[delivery.status]}
+                          {delivery.status}
+                        </Badge>
+                        {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                          <span className="block text-xs text-gray-500 mt-1">Next try {timeAgo(delivery.nextAttemptAt)}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-gray-600">
+                        {delivery.responseStatus ?? '—'}
+                        {delivery.error && (
+                          <span className="block text-xs text-red-600 max-w-xs truncate" title={delivery.error}>{delivery.error}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-gray-600">{delivery.attempts}</td>
+                      <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">{timeAgo(delivery.createdAt)}</td>
+                      <td className="py-2 text-right">
+                        {delivery.status !== 'succeeded' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRetry(delivery);
+                            }}
+                            disabled={retryingId === delivery._id}
+                          >
+                            {retryingId === delivery._id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              'Retry'
+                            )}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedId === delivery._id && (
+                      <tr className="border-b bg-gray-50">
+                        <td colSpan={6} className="p-3 space-y-2">
+                          <div>
+                            <p className="text-xs font-medium text-gray-500 mb-1">Payload</p>
+                            <pre className="text-xs bg-white border rounded p-2 overflow-x-auto max-h-64">
+                              {JSON.stringify(delivery.payload, null, 2)}
+                            </pre>
+                          </div>
+                          {delivery.responseBody && (
+                            <div>
+                              <p className="text-xs font-medium text-gray-500 mb-1">Response</p>
+                              <pre className="text-xs bg-white border rounded p-2 overflow-x-auto max-h-32 whitespace-pre-wrap">
+                                {delivery.responseBody}
+                              </pre>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pagination && pagination.pages > 1 && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+            <span>Page {pagination.page} of {pagination.pages}</span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page <= 1 || loading}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page >= pagination.pages || loading}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Webhooks: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const { showToast } = useToast();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const isManager = hasPermission('webhooks:manage');
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await webhookService.getWebhooks();
+
+      if (response.success && response.data) {
+        setWebhooks(response.data.webhooks);
+      } else {
+        setError('Failed to load webhooks');
+      }
+    } catch (err) {
+      console.error('Error loading webhooks:', err);
+      setError((err as Error).message || 'Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isManager) {
+      loadWebhooks();
+    }
+  }, [isManager, loadWebhooks]);
+
+  if (!isManager) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  const selectedWebhook = webhooks.find(webhook => webhook._id === selectedId) || null;
+
+  const openForm = (webhook: Webhook | null = null) => {
+    setEditingWebhook(webhook);
+    setIsFormOpen(true);
+  };
+
+  const handleSaved = (webhook: Webhook, secret?: string) => {
+    if (secret) {
+      setRevealedSecret({ name: webhook.name, secret });
+      setSelectedId(webhook._id);
+    }
+    loadWebhooks();
+  };
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    try {
+      await webhookService.updateWebhook(webhook._id, { isActive: !webhook.isActive });
+      showToast({
+        type: 'success',
+        title: webhook.isActive ? 'Webhook Paused' : 'Webhook Resumed',
+        message: webhook.isActive ? `${webhook.name} will not receive new events.` : `${webhook.name} will receive new events.`
+      });
+      loadWebhooks();
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to update webhook' });
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    setBusyId(webhook._id);
+    try {
+      const response = await webhookService.testWebhook(webhook._id);
+      const succeeded = response.data?.delivery.status === 'succeeded';
+      showToast({
+        type: succeeded ? 'success' : 'error',
+        title: succeeded ? 'Test Delivered' : 'Test Failed',
+        message: response.message
+      });
+      setSelectedId(webhook._id);
+      loadWebhooks();
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to send test event' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    if (!confirm(`Create a new signing secret for "${webhook.name}"? Its receiver will reject deliveries until it uses the new secret.`)) {
+      return;
+    }
+
+    setBusyId(webhook._id);
+    try {
+      const response = await webhookService.rotateSecret(webhook._id);
+      if (response.success && response.data) {
+        setRevealedSecret({ name: webhook.name, secret: response.data.secret });
+        showToast({ type: 'success', title: 'Secret Rotated', message: response.message });
+      }
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to rotate secret' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete "${webhook.name}"? Its delivery log and pending retries are deleted too.`)) {
+      return;
+    }
+
+    try {
+      await webhookService.deleteWebhook(webhook._id);
+      showToast({ type: 'success', title: 'Webhook Deleted', message: `${webhook.name} has been deleted.` });
+      if (selectedId === webhook._id) setSelectedId(null);
+      loadWebhooks();
+    } catch (err) {
+      showToast({ type: 'error', title: 'Error', message: (err as Error).message || 'Failed to delete webhook' });
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!revealedSecret) return;
+    try {
+      await navigator.clipboard.writeText(revealedSecret.secret);
+      showToast({ type: 'success', title: 'Secret Copied', message: 'Store it with your receiver' });
+    } catch {
+      showToast({ type: 'error', title: 'Copy Failed', message: 'Select the secret and copy it manually' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+          <p className="text-gray-600">Send signed assignment, project and capacity events to other systems</p>
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Webhook
+        </Button>
+      </div>
+
+      {/* Secret, shown once after it is created */}
+      {revealedSecret && (
+        <Card className="border-amber-300 bg-amber-50">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-start gap-2">
+              <KeyRound className="h-5 w-5 text-amber-600 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-medium text-gray-900">Signing secret for {revealedSecret.name}</p>
+                <p className="text-sm text-gray-600">
+                  Copy it now; it will not be shown again. Receivers use it to check the X-ERMS-Signature header.
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-col md:flex-row gap-2">
+              <Input
+                readOnly
+                value={revealedSecret.secret}
+                onFocus={(e) => e.target.select()}
+                className="font-mono text-xs bg-white"
+                aria-label="Webhook signing secret"
+              />
+              <div className="flex gap-2 shrink-0">
+                <Button variant="outline" onClick={handleCopySecret}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button variant="outline" onClick={() => setRevealedSecret(null)}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Loading State */}
+      {loading && webhooks.length === 0 && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading webhooks...</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Error State */}
+      {!loading && error && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="text-red-600 mb-4">
+              <AlertCircle className="h-12 w-12 mx-auto" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Webhooks</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <Button onClick={loadWebhooks}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Empty State */}
+      {!loading && !error && webhooks.length === 0 && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <WebhookIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No webhooks yet</h3>
+            <p className="text-gray-500">Add a webhook to notify another system when assignments, projects or capacity change</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Webhook List */}
+      {!error && webhooks.length > 0 && (
+        <div className="space-y-3">
+          {webhooks.map(webhook => (
+            <Card
+              key={webhook._id}
+              className={`${webhook.isActive ? '' : 'opacity-70'} ${selectedId === webhook._id ? 'ring-2 ring-blue-500' : ''}`}
+            >
+              <CardContent className="p-4">
+                <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-3">
+                  <button
+                    type="button"
+                    className="text-left min-w-0"
+                    onClick={() => setSelectedId(id => id === webhook._id ? null : webhook._id)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-gray-900">{webhook.name}</h3>
+                      {!webhook.isActive && <Badge variant="secondary">Paused</Badge>}
+                      {webhook.lastDeliveryStatus && (
+                        <Badge className={`${STATUS_STYLES[webhook.lastDeliveryStatus]} border-0`}>
+                          {STATUS_ICONS[webhook.lastDeliveryStatus]}
+                          Last delivery {webhook.lastDeliveryStatus}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm font-mono text-gray-600 truncate mt-1">{webhook.url}</p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {webhook.events.map(event => (
+                        <Badge key={event} variant="outline" className="font-mono text-xs">{event}</Badge>
+                      ))}
+                    </div>
+                    {webhook.lastDeliveryAt && (
+                      <p className="text-xs text-gray-500 mt-2">Last delivery {timeAgo(webhook.lastDeliveryAt)}</p>
+                    )}
+                  </button>
+                  <div className="flex flex-wrap gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => handleTest(webhook)} disabled={busyId === webhook._id}>
+                      {busyId === webhook._id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Send className="h-4 w-4 mr-2" />
+                      )}
+                      Test
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleToggleActive(webhook)}>
+                      {webhook.isActive ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleRotateSecret(webhook)} disabled={busyId === webhook._id}>
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      Rotate Secret
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => openForm(webhook)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(webhook)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Delivery Log, reloaded whenever the webhook has delivered something new */}
+      {selectedWebhook && (
+        <DeliveryLog key={`${selectedWebhook._id}:${selectedWebhook.lastDeliveryAt}`} webhook={selectedWebhook} />
+      )}
+
+      <WebhookForm
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        onSuccess={handleSaved}
+        webhook={editingWebhook}
+      />
+    </div>
+  );
+};
+
+export default Webhooks;
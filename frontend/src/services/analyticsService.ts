@@ -0,0 +1,25 @@
+import type { PortfolioHealth, Project, SkillGapAnalysis } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export interface SkillGapQuery {
+  weeks?: number;
+  department?: string;
+}
+
+export const analyticsService = {
+  async getSkillGaps(query: SkillGapQuery = {}): Promise<ApiResponse<SkillGapAnalysis>> {
+    const params = new URLSearchParams();
+    if (query.weeks) params.append('weeks', String(query.weeks));
+    if (query.department) params.append('department', query.department);
+
+    const queryString = params.toString();
+    const response = await api.get(queryString ? `/analytics/skill-gaps?${queryString}` : '/analytics/skill-gaps');
+    return response.data;
+  },
+
+  async getProjectHealth(status?: Project['status']): Promise<ApiResponse<PortfolioHealth>> {
+    const response = await api.get(status ? `/analytics/project-health?status=${status}` : '/analytics/project-health');
+    return response.data;
+  },
+};
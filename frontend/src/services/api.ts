@@ -1,73 +1,104 @@
 import axios from 'axios';
-import { shouldRefreshToken } from '@/utils/jwt';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3300/api';
 
+// Cookie mode: the server keeps the access and refresh tokens in httpOnly cookies
+// this code cannot read, and returns a CSRF token to send with every change
+const AUTH_HEADERS = { 'X-Auth-Mode': 'cookie' };
+
 const api = axios.create({
   baseURL: API_BASE_URL,
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
+    ...AUTH_HEADERS,
   },
 });
 
-let isRefreshing = false;
-let failedQueue: any[] = [];
+// The server ended the session (sign-out elsewhere, password change or a reused token)
+const SESSION_REVOKED = 'SESSION_REVOKED';
+// Another tab refreshed with the same token a moment earlier
+const SESSION_ROTATED = 'SESSION_ROTATED';
+// The CSRF token was missing, e.g. after the page lost it
+const CSRF_INVALID = 'CSRF_INVALID';
+
+const SAFE_METHODS = ['get', 'head', 'options'];
+
+// Sign-in routes answer 401 for bad credentials, which a refresh cannot fix
+const SESSION_ROUTES = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/accept-invite',
+  '/auth/forgot-password',
+  '/auth/password-reset',
+  '/auth/reset-password',
+  '/auth/refresh-token',
+  '/auth/logout'
+];
+const isSessionRoute = (url?: string) => SESSION_ROUTES.some(route => url?.startsWith(route));
+
+// Kept in memory only, so a script injected into the page cannot find it in storage
+let csrfToken: string | null = null;
+let accessTokenExpiresAt: number | null = null;
+
+export interface SessionTokens {
+  csrfToken: string;
+  accessTokenExpiresAt: string;
+}
+
+export const setSessionTokens = (tokens: SessionTokens | null) => {
+  csrfToken = tokens?.csrfToken || null;
+  accessTokenExpiresAt = tokens ? new Date(tokens.accessTokenExpiresAt).getTime() : null;
+};
 
-const processQueue = (error: any, token: string | null = null) => {
-  failedQueue.forEach(prom => {
-    if (error) {
-      prom.reject(error);
-    } else {
-      prom.resolve(token);
-    }
-  });
-  
-  failedQueue = [];
+// Drop the session and send the user to sign in again
+export const endLocalSession = () => {
+  setSessionTokens(null);
+
+  if (!window.location.pathname.includes('/login')) {
+    window.location.href = '/login?session=ended';
+  }
 };
 
-// Request interceptor to add auth token and handle proactive refresh
+// One refresh at a time; requests that fail meanwhile wait for it
+let refreshing: Promise<void> | null = null;
+
+export const refreshSession = (): Promise<void> => {
+  if (!refreshing) {
+    refreshing = axios.post(`${API_BASE_URL}/auth/refresh-token`, {}, { withCredentials: true, headers: AUTH_HEADERS })
+      .then(response => {
+        setSessionTokens(response.data.data);
+      })
+      .catch(error => {
+        // Another tab refreshed first and the browser already holds its cookies
+        if (axios.isAxiosError(error) && error.response?.data?.code === SESSION_ROTATED) {
+          return;
+        }
+        throw error;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+// Request interceptor to refresh proactively and add the CSRF token
 api.interceptors.request.use(
   async (config) => {
-    const token = localStorage.getItem('token');
-    
-    if (token) {
-      // Check if token should be refreshed proactively
-      if (shouldRefreshToken(token) && !isRefreshing && !config.url?.includes('/auth/refresh-token')) {
-        const refreshToken = localStorage.getItem('refreshToken');
-        
-        if (refreshToken) {
-          isRefreshing = true;
-          
-          try {
-            const response = await axios.post(`${API_BASE_URL}/auth/refresh-token`, {
-              refreshToken: refreshToken
-            });
-
-            if (response.data.success) {
-              const { accessToken, refreshToken: newRefreshToken } = response.data.data;
-              
-              localStorage.setItem('token', accessToken);
-              if (newRefreshToken) {
-                localStorage.setItem('refreshToken', newRefreshToken);
-              }
-              
-              config.headers.Authorization = `Bearer ${accessToken}`;
-            }
-          } catch (error) {
-            console.error('Proactive token refresh failed:', error);
-            // Continue with current token, let the response interceptor handle expiration
-          } finally {
-            isRefreshing = false;
-          }
-        }
-      }
-      
-      // Use current token (might be refreshed above)
-      const currentToken = localStorage.getItem('token');
-      if (currentToken) {
-        config.headers.Authorization = `Bearer ${currentToken}`;
+    // Refresh if the access token expires within a minute
+    if (accessTokenExpiresAt && accessTokenExpiresAt - Date.now() < 60 * 1000 && !isSessionRoute(config.url)) {
+      try {
+        await refreshSession();
+      } catch (error) {
+        console.error('Proactive session refresh failed:', error);
+        // Continue with the current cookie, let the response interceptor handle expiration
       }
     }
+
+    if (csrfToken && !SAFE_METHODS.includes((config.method || 'get').toLowerCase())) {
+      config.headers['X-CSRF-Token'] = csrfToken;
+    }
     
     return config;
   },
@@ -76,7 +107,7 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle errors and token refresh
+// Response interceptor to handle errors and session refresh
 api.interceptors.response.use(
   (response) => response,
   async (error) => {
@@ -88,64 +119,23 @@ api.interceptors.response.use(
       url: error.config?.url,
       method: error.config?.method
     });
-    
-    if (error.response?.status === 401 && !originalRequest._retry) {
-      if (isRefreshing) {
-        return new Promise((resolve, reject) => {
-          failedQueue.push({ resolve, reject });
-        }).then(token => {
-          originalRequest.headers.Authorization = `Bearer ${token}`;
-          return api(originalRequest);
-        }).catch(err => {
-          return Promise.reject(err);
-        });
-      }
 
+    const status = error.response?.status;
+    const code = error.response?.data?.code;
+
+    if (status === 401 && code === SESSION_REVOKED) {
+      // A revoked session cannot be refreshed
+      endLocalSession();
+    } else if ((status === 401 || code === CSRF_INVALID) && originalRequest && !originalRequest._retry && !isSessionRoute(originalRequest.url)) {
+      // An expired access token or a lost CSRF token: refresh once, then retry
       originalRequest._retry = true;
-      isRefreshing = true;
-
-      const refreshToken = localStorage.getItem('refreshToken');
-
-      if (refreshToken) {
-        try {
-          const response = await axios.post(`${API_BASE_URL}/auth/refresh-token`, {
-            refreshToken: refreshToken
-          });
-
-          if (response.data.success) {
-            const { accessToken, refreshToken: newRefreshToken } = response.data.data;
-            
-            localStorage.setItem('token', accessToken);
-            if (newRefreshToken) {
-              localStorage.setItem('refreshToken', newRefreshToken);
-            }
-
-            processQueue(null, accessToken);
-            
-            originalRequest.headers.Authorization = `Bearer ${accessToken}`;
-            return api(originalRequest);
-          }
-        } catch (refreshError) {
-          processQueue(refreshError, null);
-          localStorage.removeItem('token');
-          localStorage.removeItem('refreshToken');
-          localStorage.removeItem('user');
-          
-          if (!window.location.pathname.includes('/login')) {
-            window.location.href = '/login';
-          }
-          
-          return Promise.reject(refreshError);
-        } finally {
-          isRefreshing = false;
-        }
-      } else {
-        // No refresh token, redirect to login
-        localStorage.removeItem('token');
-        localStorage.removeItem('user');
-        if (!window.location.pathname.includes('/login')) {
-          window.location.href = '/login';
-        }
+
+      try {
+        await refreshSession();
+        return api(originalRequest);
+      } catch (refreshError) {
+        endLocalSession();
+        return Promise.reject(refreshError);
       }
     }
 
@@ -170,4 +160,8 @@ api.interceptors.response.use(
   }
 );
 
+// Request config carrying the reason recorded in the audit log for a change
+export const withAuditReason = (reason?: string) =>
+  reason?.trim() ? { headers: { 'X-Audit-Reason': encodeURIComponent(reason.trim()) } } : undefined;
+
 export default api;
\ No newline at end of file
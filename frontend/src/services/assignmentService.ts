@@ -1,5 +1,5 @@
-import type { Assignment } from '@/types';
-import api from './api';
+import type { Assignment, AssignmentConflictCheck, BulkAssignmentOperation, BulkAssignmentResult, CapacityForecast, Pagination, ProgressUpdate, ProjectStaffingSuggestions, RebalanceMove, RebalancePlan } from '@/types';
+import api, { withAuditReason } from './api';
 import type { ApiResponse } from './authService';
 
 export interface CreateAssignmentData {
@@ -13,9 +13,67 @@ export interface CreateAssignmentData {
   notes?: string;
 }
 
+export interface AssignmentFilters {
+  status?: string;
+  engineerId?: string;
+  projectId?: string;
+  // Assignments overlapping this window (YYYY-MM-DD)
+  startDate?: string;
+  endDate?: string;
+  archived?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface BulkAssignmentRequest {
+  assignmentIds: string[];
+  operation: BulkAssignmentOperation;
+  days?: number;
+  dateField?: 'both' | 'start' | 'end';
+  allocationPercentage?: number;
+  allocationChange?: number;
+  status?: Assignment['status'];
+  preview?: boolean;
+}
+
+export interface ConflictCheckParams {
+  engineerId: string;
+  startDate: string;
+  endDate: string;
+  excludeAssignmentId?: string;
+}
+
+export interface CapacityForecastQuery {
+  weeks?: number;
+  department?: string;
+}
+
+export interface StaffingMember {
+  engineerId: string;
+  allocationPercentage: number;
+  role: CreateAssignmentData['role'];
+}
+
+export interface AcceptSuggestedTeamData {
+  startDate: string;
+  endDate: string;
+  members: StaffingMember[];
+}
+
 export const assignmentService = {
-  async getAllAssignments(): Promise<ApiResponse<{assignments: Assignment[], pagination?: any}>> {
-    const response = await api.get('/assignments');
+  async getAllAssignments(filters?: AssignmentFilters): Promise<ApiResponse<{assignments: Assignment[], pagination?: Pagination}>> {
+    const params = new URLSearchParams();
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.engineerId) params.append('engineerId', filters.engineerId);
+    if (filters?.projectId) params.append('projectId', filters.projectId);
+    if (filters?.startDate) params.append('startDate', filters.startDate);
+    if (filters?.endDate) params.append('endDate', filters.endDate);
+    if (filters?.archived) params.append('archived', 'true');
+    if (filters?.page) params.append('page', String(filters.page));
+    if (filters?.limit) params.append('limit', String(filters.limit));
+
+    const query = params.toString();
+    const response = await api.get(query ? `/assignments?${query}` : '/assignments');
     return response.data;
   },
 
@@ -44,8 +102,8 @@ export const assignmentService = {
     return response.data;
   },
 
-  async updateAssignment(id: string, assignmentData: Partial<CreateAssignmentData>): Promise<ApiResponse<Assignment>> {
-    const response = await api.put(`/assignments/${id}`, assignmentData);
+  async updateAssignment(id: string, assignmentData: Partial<CreateAssignmentData>, reason?: string): Promise<ApiResponse<Assignment>> {
+    const response = await api.put(`/assignments/${id}`, assignmentData, withAuditReason(reason));
     return response.data;
   },
 
@@ -54,13 +112,73 @@ export const assignmentService = {
     return response.data;
   },
 
-  async updateAssignmentProgress(id: string, completionPercentage: number): Promise<ApiResponse<Assignment>> {
-    const response = await api.patch(`/assignments/${id}/progress`, { completionPercentage });
+  async updateAssignmentProgress(id: string, completionPercentage: number, note?: string): Promise<ApiResponse<Assignment>> {
+    const response = await api.patch(`/assignments/${id}/progress`, { completionPercentage, note });
+    return response.data;
+  },
+
+  async getProgressHistory(id: string): Promise<ApiResponse<{updates: ProgressUpdate[]}>> {
+    const response = await api.get(`/assignments/${id}/progress`);
+    return response.data;
+  },
+
+  async checkConflicts(params: ConflictCheckParams): Promise<ApiResponse<AssignmentConflictCheck>> {
+    const query = new URLSearchParams({
+      engineerId: params.engineerId,
+      startDate: params.startDate,
+      endDate: params.endDate,
+    });
+    if (params.excludeAssignmentId) query.append('excludeAssignmentId', params.excludeAssignmentId);
+
+    const response = await api.get(`/assignments/conflicts/check?${query.toString()}`);
+    return response.data;
+  },
+
+  // Availability is judged over the given dates, or the rest of the project when omitted
+  async getSuggestions(projectId: string, dates?: { startDate: string; endDate: string }): Promise<ApiResponse<ProjectStaffingSuggestions>> {
+    const params = new URLSearchParams(dates);
+    const query = params.toString();
+    const response = await api.get(query ? `/assignments/suggestions/${projectId}?${query}` : `/assignments/suggestions/${projectId}`);
+    return response.data;
+  },
+
+  async acceptSuggestedTeam(projectId: string, data: AcceptSuggestedTeamData): Promise<ApiResponse<{assignments: Assignment[]}>> {
+    const response = await api.post(`/assignments/suggestions/${projectId}/accept`, data);
+    return response.data;
+  },
+
+  async getCapacityForecast(query: CapacityForecastQuery = {}): Promise<ApiResponse<CapacityForecast>> {
+    const params = new URLSearchParams();
+    if (query.weeks) params.append('weeks', String(query.weeks));
+    if (query.department) params.append('department', query.department);
+
+    const queryString = params.toString();
+    const response = await api.get(queryString ? `/assignments/forecast/capacity?${queryString}` : '/assignments/forecast/capacity');
+    return response.data;
+  },
+
+  async getRebalancePlan(engineerId: string): Promise<ApiResponse<{plan: RebalancePlan}>> {
+    const response = await api.get(`/assignments/rebalance/${engineerId}`);
+    return response.data;
+  },
+
+  async applyRebalancePlan(engineerId: string, moves: RebalanceMove[]): Promise<ApiResponse<{applied: {moveId: string, type: string, assignmentId: string}[], plan: RebalancePlan}>> {
+    const response = await api.post(`/assignments/rebalance/${engineerId}/apply`, { moves });
+    return response.data;
+  },
+
+  async bulkUpdateAssignments(request: BulkAssignmentRequest, reason?: string): Promise<ApiResponse<{result: BulkAssignmentResult}>> {
+    const response = await api.post('/assignments/bulk', request, withAuditReason(reason));
+    return response.data;
+  },
+
+  async deleteAssignment(id: string, reason?: string): Promise<ApiResponse> {
+    const response = await api.delete(`/assignments/${id}`, withAuditReason(reason));
     return response.data;
   },
 
-  async deleteAssignment(id: string): Promise<ApiResponse> {
-    const response = await api.delete(`/assignments/${id}`);
+  async restoreAssignment(id: string, reason?: string): Promise<ApiResponse<{assignment: Assignment}>> {
+    const response = await api.post(`/assignments/${id}/restore`, {}, withAuditReason(reason));
     return response.data;
   },
 };
\ No newline at end of file
@@ -0,0 +1,29 @@
+import type { AuditAction, AuditEntityType, AuditLogEntry, Pagination } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export interface AuditFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  projectId?: string;
+  engineerId?: string;
+  actor?: string;
+  action?: AuditAction;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+export const auditService = {
+  async getAuditLogs(filters?: AuditFilters): Promise<ApiResponse<{logs: AuditLogEntry[], pagination: Pagination}>> {
+    const params = new URLSearchParams();
+    Object.entries(filters || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.append(key, String(value));
+    });
+
+    const query = params.toString();
+    const response = await api.get(query ? `/audit?${query}` : '/audit');
+    return response.data;
+  },
+};
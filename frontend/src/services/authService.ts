@@ -1,14 +1,13 @@
-import type { User } from '@/types';
-import api from './api';
+import type { InvitationPreview, PasswordPolicy, PasswordResetPreview, User, UserSession } from '@/types';
+import api, { type SessionTokens } from './api';
 // import { User } from '@/types';
 
+// The tokens themselves are set as httpOnly cookies
 export interface LoginResponse {
   success: boolean;
   message: string;
-  data: {
+  data: SessionTokens & {
     engineer: User;
-    accessToken: string;
-    refreshToken: string;
   };
 }
 
@@ -25,17 +24,27 @@ export const authService = {
     return response.data;
   },
 
-  async register(userData: any): Promise<ApiResponse<{ engineer: User; accessToken: string; refreshToken: string }>> {
+  async register(userData: any): Promise<LoginResponse> {
     const response = await api.post('/auth/register', userData);
     return response.data;
   },
 
-  async getProfile(): Promise<ApiResponse<User>> {
+  async getInvitation(token: string): Promise<ApiResponse<{ invitation: InvitationPreview }>> {
+    const response = await api.get(`/auth/invitations/${encodeURIComponent(token)}`);
+    return response.data;
+  },
+
+  async acceptInvitation(token: string, data: { name?: string; password: string }): Promise<LoginResponse> {
+    const response = await api.post('/auth/accept-invite', { token, ...data });
+    return response.data;
+  },
+
+  async getProfile(): Promise<ApiResponse<{ engineer: User }>> {
     const response = await api.get('/auth/profile');
     return response.data;
   },
 
-  async updateProfile(userData: Partial<User>): Promise<ApiResponse<User>> {
+  async updateProfile(userData: Partial<User>): Promise<ApiResponse<{ engineer: User }>> {
     const response = await api.put('/auth/profile', userData);
     return response.data;
   },
@@ -47,4 +56,44 @@ export const authService = {
     });
     return response.data;
   },
+
+  async forgotPassword(email: string): Promise<ApiResponse> {
+    const response = await api.post('/auth/forgot-password', { email });
+    return response.data;
+  },
+
+  async getPasswordReset(token: string): Promise<ApiResponse<{ reset: PasswordResetPreview }>> {
+    const response = await api.get(`/auth/password-reset/${encodeURIComponent(token)}`);
+    return response.data;
+  },
+
+  async getPasswordPolicy(): Promise<ApiResponse<{ policy: PasswordPolicy }>> {
+    const response = await api.get('/auth/password-policy');
+    return response.data;
+  },
+
+  async resetPassword(token: string, password: string): Promise<ApiResponse> {
+    const response = await api.post('/auth/reset-password', { token, password });
+    return response.data;
+  },
+
+  async logout(): Promise<ApiResponse> {
+    const response = await api.post('/auth/logout');
+    return response.data;
+  },
+
+  async getSessions(): Promise<ApiResponse<{ sessions: UserSession[] }>> {
+    const response = await api.get('/auth/sessions');
+    return response.data;
+  },
+
+  async revokeSession(id: string): Promise<ApiResponse> {
+    const response = await api.delete(`/auth/sessions/${id}`);
+    return response.data;
+  },
+
+  async revokeOtherSessions(): Promise<ApiResponse<{ signedOutSessions: number }>> {
+    const response = await api.delete('/auth/sessions');
+    return response.data;
+  },
 };
\ No newline at end of file
@@ -0,0 +1,15 @@
+import type { CalendarFeed } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export const calendarService = {
+  async getFeed(): Promise<ApiResponse<{feed: CalendarFeed}>> {
+    const response = await api.get('/calendar/subscription');
+    return response.data;
+  },
+
+  async rotateFeed(): Promise<ApiResponse<{feed: CalendarFeed}>> {
+    const response = await api.post('/calendar/subscription/rotate');
+    return response.data;
+  },
+};
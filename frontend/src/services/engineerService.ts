@@ -1,16 +1,12 @@
-import type { EngineerWithAssignments, User, Skill } from '@/types';
-import api from './api';
+import type { ArchiveRestoreResult, EngineerWithAssignments, User, CapacityTimeline, Pagination } from '@/types';
+import api, { withAuditReason } from './api';
 import type { ApiResponse } from './authService';
 
-export interface CreateEngineerData {
-  name: string;
-  email: string;
-  password: string;
-  skills: Skill[];
-  seniority: 'junior' | 'mid' | 'senior';
-  maxCapacity: number;
-  department: string;
-  role: 'engineer';
+export interface CapacityTimelineQuery {
+  startDate?: string;
+  endDate?: string;
+  granularity?: 'day' | 'week';
+  excludeAssignmentId?: string;
 }
 
 export const engineerService = {
@@ -19,12 +15,18 @@ export const engineerService = {
     seniority?: string;
     department?: string;
     available?: boolean;
-  }): Promise<ApiResponse<{engineers: EngineerWithAssignments[]}>> {
+    archived?: boolean;
+    page?: number;
+    limit?: number;
+  }): Promise<ApiResponse<{engineers: EngineerWithAssignments[], pagination?: Pagination}>> {
     const params = new URLSearchParams();
     if (filters?.skills) params.append('skills', filters.skills);
     if (filters?.seniority) params.append('seniority', filters.seniority);
     if (filters?.department) params.append('department', filters.department);
     if (filters?.available) params.append('available', 'true');
+    if (filters?.archived) params.append('archived', 'true');
+    if (filters?.page) params.append('page', String(filters.page));
+    if (filters?.limit) params.append('limit', String(filters.limit));
 
     const response = await api.get(`/engineers?${params.toString()}`);
     return response.data;
@@ -40,14 +42,29 @@ export const engineerService = {
     return response.data;
   },
 
-  async createEngineer(engineerData: CreateEngineerData): Promise<ApiResponse<{ user: User; token: string }>> {
-    // Engineers are created through the auth/register endpoint
-    const response = await api.post('/auth/register', engineerData);
+  async getEngineerCapacityTimeline(id: string, query: CapacityTimelineQuery = {}): Promise<ApiResponse<{ timeline: CapacityTimeline }>> {
+    const params = new URLSearchParams();
+    if (query.startDate) params.append('startDate', query.startDate);
+    if (query.endDate) params.append('endDate', query.endDate);
+    if (query.granularity) params.append('granularity', query.granularity);
+    if (query.excludeAssignmentId) params.append('excludeAssignmentId', query.excludeAssignmentId);
+
+    const response = await api.get(`/engineers/${id}/capacity/timeline?${params.toString()}`);
+    return response.data;
+  },
+
+  async updateEngineer(id: string, userData: Partial<User>, reason?: string): Promise<ApiResponse<User>> {
+    const response = await api.put(`/engineers/${id}`, userData, withAuditReason(reason));
+    return response.data;
+  },
+
+  async archiveEngineer(id: string, reason?: string): Promise<ApiResponse> {
+    const response = await api.delete(`/engineers/${id}`, withAuditReason(reason));
     return response.data;
   },
 
-  async updateEngineer(id: string, userData: Partial<User>): Promise<ApiResponse<User>> {
-    const response = await api.put(`/engineers/${id}`, userData);
+  async restoreEngineer(id: string, reason?: string): Promise<ApiResponse<{engineer: User} & ArchiveRestoreResult>> {
+    const response = await api.post(`/engineers/${id}/restore`, {}, withAuditReason(reason));
     return response.data;
   },
 
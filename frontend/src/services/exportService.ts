@@ -0,0 +1,31 @@
+import axios from 'axios';
+import type { ExportOptions, ExportReport } from '@/types';
+import api from './api';
+import { downloadBlob } from '@/utils/download';
+
+// Name the file from the Content-Disposition header, falling back to the report and format
+const filenameOf = (disposition: string | undefined, report: ExportReport, options: ExportOptions) =>
+  disposition?.match(/filename="([^"]+)"/)?.[1] || `${report}.${options.format}`;
+
+export const exportService = {
+  async downloadReport(report: ExportReport, options: ExportOptions): Promise<void> {
+    try {
+      const response = await api.get(`/exports/${report}`, {
+        params: options,
+        responseType: 'blob',
+      });
+      downloadBlob(response.data, filenameOf(response.headers['content-disposition'], report, options));
+    } catch (error) {
+      // Errors arrive as a blob too, so the API message has to be read out of it
+      if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+        const body = await error.response.data.text();
+        try {
+          error.message = JSON.parse(body).error || error.message;
+        } catch {
+          // Not JSON; keep the message set by the interceptor
+        }
+      }
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,51 @@
+import type { Holiday, HolidayImportResult } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export interface HolidayFilters {
+  startDate?: string;
+  endDate?: string;
+  department?: string;
+  location?: string;
+}
+
+export interface HolidayData {
+  name: string;
+  date: string;
+  departments?: string[];
+  locations?: string[];
+}
+
+export const holidayService = {
+  async getHolidays(filters?: HolidayFilters): Promise<ApiResponse<{holidays: Holiday[]}>> {
+    const params = new URLSearchParams();
+    if (filters?.startDate) params.append('startDate', filters.startDate);
+    if (filters?.endDate) params.append('endDate', filters.endDate);
+    if (filters?.department) params.append('department', filters.department);
+    if (filters?.location) params.append('location', filters.location);
+
+    const query = params.toString();
+    const response = await api.get(query ? `/holidays?${query}` : '/holidays');
+    return response.data;
+  },
+
+  async createHoliday(holidayData: HolidayData): Promise<ApiResponse<{holiday: Holiday}>> {
+    const response = await api.post('/holidays', holidayData);
+    return response.data;
+  },
+
+  async importHolidays(ics: string, scope: Pick<HolidayData, 'departments' | 'locations'>, dryRun = false): Promise<ApiResponse<{result: HolidayImportResult}>> {
+    const response = await api.post('/holidays/import', { ics, ...scope, dryRun });
+    return response.data;
+  },
+
+  async updateHoliday(id: string, holidayData: Partial<HolidayData>): Promise<ApiResponse<{holiday: Holiday}>> {
+    const response = await api.put(`/holidays/${id}`, holidayData);
+    return response.data;
+  },
+
+  async deleteHoliday(id: string): Promise<ApiResponse> {
+    const response = await api.delete(`/holidays/${id}`);
+    return response.data;
+  },
+};
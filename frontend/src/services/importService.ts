@@ -0,0 +1,12 @@
+import type { ImportEntity, ImportResult } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export type ImportRow = Record<string, string>;
+
+export const importService = {
+  async importRecords(entity: ImportEntity, rows: ImportRow[], dryRun = false): Promise<ApiResponse<{result: ImportResult}>> {
+    const response = await api.post(`/import/${entity}`, { rows, dryRun });
+    return response.data;
+  },
+};
@@ -0,0 +1,50 @@
+import type { Invitation, InvitationStatus, Pagination, Role, Skill } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export interface InvitationData {
+  name: string;
+  email: string;
+  role?: Role;
+  // Engineer profile, copied onto the account when the invitation is accepted
+  department?: string;
+  location?: string;
+  seniority?: 'junior' | 'mid' | 'senior';
+  maxCapacity?: number;
+  hourlyRate?: number;
+  skills?: Skill[];
+}
+
+export interface InvitationFilters {
+  // Expired invitations are still pending but their link no longer works
+  status?: InvitationStatus | 'expired';
+  page?: number;
+  limit?: number;
+}
+
+export const invitationService = {
+  async getInvitations(filters: InvitationFilters = {}): Promise<ApiResponse<{invitations: Invitation[], pagination: Pagination}>> {
+    const params = new URLSearchParams();
+    if (filters.status) params.append('status', filters.status);
+    if (filters.page) params.append('page', String(filters.page));
+    if (filters.limit) params.append('limit', String(filters.limit));
+
+    const response = await api.get(`/invitations?${params.toString()}`);
+    return response.data;
+  },
+
+  async createInvitation(data: InvitationData): Promise<ApiResponse<{invitation: Invitation, inviteUrl: string}>> {
+    const response = await api.post('/invitations', data);
+    return response.data;
+  },
+
+  async resendInvitation(id: string): Promise<ApiResponse<{invitation: Invitation, inviteUrl: string}>> {
+    const response = await api.post(`/invitations/${id}/resend`);
+    return response.data;
+  },
+
+  async revokeInvitation(id: string): Promise<ApiResponse<{invitation: Invitation}>> {
+    const response = await api.delete(`/invitations/${id}`);
+    return response.data;
+  }
+};
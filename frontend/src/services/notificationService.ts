@@ -0,0 +1,47 @@
+import type { AppNotification, NotificationPreference, NotificationType, Pagination } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export interface NotificationFilters {
+  unread?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export const notificationService = {
+  async getNotifications(filters?: NotificationFilters): Promise<ApiResponse<{notifications: AppNotification[], unreadCount: number, pagination: Pagination}>> {
+    const params = new URLSearchParams();
+    Object.entries(filters || {}).forEach(([key, value]) => {
+      if (value !== undefined) params.append(key, String(value));
+    });
+
+    const query = params.toString();
+    const response = await api.get(query ? `/notifications?${query}` : '/notifications');
+    return response.data;
+  },
+
+  async getUnreadCount(): Promise<ApiResponse<{unreadCount: number}>> {
+    const response = await api.get('/notifications/unread-count');
+    return response.data;
+  },
+
+  async markAsRead(id: string): Promise<ApiResponse<{notification: AppNotification}>> {
+    const response = await api.put(`/notifications/${id}/read`);
+    return response.data;
+  },
+
+  async markAllAsRead(): Promise<ApiResponse<{updated: number}>> {
+    const response = await api.put('/notifications/read-all');
+    return response.data;
+  },
+
+  async getPreferences(): Promise<ApiResponse<{preferences: NotificationPreference[]}>> {
+    const response = await api.get('/notifications/preferences');
+    return response.data;
+  },
+
+  async updatePreferences(preferences: Partial<Record<NotificationType, boolean>>): Promise<ApiResponse<{preferences: NotificationPreference[]}>> {
+    const response = await api.put('/notifications/preferences', { preferences });
+    return response.data;
+  },
+};
@@ -1,9 +1,10 @@
-import type { Project, ProjectWithAssignments } from '@/types';
-import api from './api';
+import type { ArchiveRestoreResult, Project, ProjectStatusChange, ProjectWithAssignments } from '@/types';
+import api, { withAuditReason } from './api';
 import type { ApiResponse } from './authService';
 
 interface SkillRequirement {
   skill: string;
+  skillId?: string;
   level: 'beginner' | 'intermediate' | 'advanced' | 'expert';
   priority: 'must-have' | 'nice-to-have';
 }
@@ -28,12 +29,14 @@ export const projectService = {
     priority?: string;
     managerId?: string;
     skills?: string;
+    archived?: boolean;
   }): Promise<ApiResponse<{projects: ProjectWithAssignments[]}>> {
     const params = new URLSearchParams();
     if (filters?.status) params.append('status', filters.status);
     if (filters?.priority) params.append('priority', filters.priority);
     if (filters?.managerId) params.append('managerId', filters.managerId);
     if (filters?.skills) params.append('skills', filters.skills);
+    if (filters?.archived) params.append('archived', 'true');
 
     const response = await api.get(`/projects?${params.toString()}`);
     return response.data;
@@ -49,13 +52,28 @@ export const projectService = {
     return response.data;
   },
 
-  async updateProject(id: string, projectData: Partial<CreateProjectData>): Promise<ApiResponse<Project>> {
-    const response = await api.put(`/projects/${id}`, projectData);
+  async updateProject(id: string, projectData: Partial<CreateProjectData>, reason?: string): Promise<ApiResponse<Project>> {
+    const response = await api.put(`/projects/${id}`, projectData, withAuditReason(reason));
     return response.data;
   },
 
-  async deleteProject(id: string): Promise<ApiResponse> {
-    const response = await api.delete(`/projects/${id}`);
+  async deleteProject(id: string, reason?: string): Promise<ApiResponse> {
+    const response = await api.delete(`/projects/${id}`, withAuditReason(reason));
+    return response.data;
+  },
+
+  async restoreProject(id: string, reason?: string): Promise<ApiResponse<{project: Project} & ArchiveRestoreResult>> {
+    const response = await api.post(`/projects/${id}/restore`, {}, withAuditReason(reason));
+    return response.data;
+  },
+
+  async changeProjectStatus(
+    id: string,
+    status: Project['status'],
+    preview = false,
+    reason?: string
+  ): Promise<ApiResponse<{ project: Project; result: ProjectStatusChange }>> {
+    const response = await api.post(`/projects/${id}/status`, { status, preview }, withAuditReason(reason));
     return response.data;
   },
 
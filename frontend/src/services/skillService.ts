@@ -0,0 +1,68 @@
+import type { SkillCategory, SkillDefinition } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export interface SkillFilters {
+  search?: string;
+  category?: SkillCategory | '';
+  includeInactive?: boolean;
+  limit?: number;
+}
+
+export interface SkillData {
+  name: string;
+  aliases?: string[];
+  category?: SkillCategory;
+  description?: string;
+  relatedSkills?: string[];
+  rubric?: SkillDefinition['rubric'];
+  isActive?: boolean;
+}
+
+export const SKILL_CATEGORIES: SkillCategory[] = [
+  'frontend',
+  'backend',
+  'mobile',
+  'database',
+  'cloud',
+  'devops',
+  'data',
+  'testing',
+  'design',
+  'management',
+  'other'
+];
+
+export const skillService = {
+  async getSkills(filters?: SkillFilters): Promise<ApiResponse<{skills: SkillDefinition[]}>> {
+    const params = new URLSearchParams();
+    if (filters?.search) params.append('search', filters.search);
+    if (filters?.category) params.append('category', filters.category);
+    if (filters?.includeInactive) params.append('includeInactive', 'true');
+    if (filters?.limit) params.append('limit', String(filters.limit));
+
+    const query = params.toString();
+    const response = await api.get(query ? `/skills?${query}` : '/skills');
+    return response.data;
+  },
+
+  async getSkillById(id: string): Promise<ApiResponse<{skill: SkillDefinition, usage: {engineerCount: number, projectCount: number}}>> {
+    const response = await api.get(`/skills/${id}`);
+    return response.data;
+  },
+
+  async createSkill(skillData: SkillData): Promise<ApiResponse<{skill: SkillDefinition}>> {
+    const response = await api.post('/skills', skillData);
+    return response.data;
+  },
+
+  async updateSkill(id: string, skillData: Partial<SkillData>): Promise<ApiResponse<{skill: SkillDefinition}>> {
+    const response = await api.put(`/skills/${id}`, skillData);
+    return response.data;
+  },
+
+  async deleteSkill(id: string): Promise<ApiResponse> {
+    const response = await api.delete(`/skills/${id}`);
+    return response.data;
+  },
+};
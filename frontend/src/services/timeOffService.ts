@@ -0,0 +1,53 @@
+import type { AssignmentConflict, TimeOff, TimeOffStatus, TimeOffType } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export interface TimeOffFilters {
+  engineerId?: string;
+  status?: TimeOffStatus;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface TimeOffData {
+  engineerId?: string;
+  type: TimeOffType;
+  startDate: string;
+  endDate: string;
+  percentage?: number;
+  reason?: string;
+}
+
+export const TIME_OFF_TYPES: TimeOffType[] = ['vacation', 'sick', 'personal', 'training', 'other'];
+
+export const timeOffService = {
+  async getTimeOff(filters?: TimeOffFilters): Promise<ApiResponse<{timeOff: TimeOff[]}>> {
+    const params = new URLSearchParams();
+    if (filters?.engineerId) params.append('engineerId', filters.engineerId);
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.startDate) params.append('startDate', filters.startDate);
+    if (filters?.endDate) params.append('endDate', filters.endDate);
+
+    const query = params.toString();
+    const response = await api.get(query ? `/time-off?${query}` : '/time-off');
+    return response.data;
+  },
+
+  async requestTimeOff(timeOffData: TimeOffData): Promise<ApiResponse<{timeOff: TimeOff}>> {
+    const response = await api.post('/time-off', timeOffData);
+    return response.data;
+  },
+
+  async reviewTimeOff(
+    id: string,
+    review: { status: 'approved' | 'rejected'; reviewNote?: string }
+  ): Promise<ApiResponse<{timeOff: TimeOff, affectedAssignments: Omit<AssignmentConflict, 'priority'>[]}>> {
+    const response = await api.put(`/time-off/${id}/review`, review);
+    return response.data;
+  },
+
+  async cancelTimeOff(id: string): Promise<ApiResponse<{timeOff: TimeOff}>> {
+    const response = await api.put(`/time-off/${id}/cancel`);
+    return response.data;
+  },
+};
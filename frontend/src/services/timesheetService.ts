@@ -0,0 +1,51 @@
+import type { TimesheetSummary, WeeklyTimesheet } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export interface TimesheetEntryData {
+  assignmentId: string;
+  hours: number;
+  note?: string;
+}
+
+export interface TimesheetData {
+  weekStart: string;
+  engineerId?: string;
+  entries: TimesheetEntryData[];
+}
+
+export interface TimesheetSummaryFilters {
+  projectId?: string;
+  engineerId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export const timesheetService = {
+  async getTimesheet(weekStart?: string, engineerId?: string): Promise<ApiResponse<{timesheet: WeeklyTimesheet}>> {
+    const params = new URLSearchParams();
+    if (weekStart) params.append('weekStart', weekStart);
+    if (engineerId) params.append('engineerId', engineerId);
+
+    const query = params.toString();
+    const response = await api.get(query ? `/timesheets?${query}` : '/timesheets');
+    return response.data;
+  },
+
+  async saveTimesheet(timesheetData: TimesheetData): Promise<ApiResponse<{timesheet: WeeklyTimesheet}>> {
+    const response = await api.put('/timesheets', timesheetData);
+    return response.data;
+  },
+
+  async getSummary(filters?: TimesheetSummaryFilters): Promise<ApiResponse<{summary: TimesheetSummary}>> {
+    const params = new URLSearchParams();
+    if (filters?.projectId) params.append('projectId', filters.projectId);
+    if (filters?.engineerId) params.append('engineerId', filters.engineerId);
+    if (filters?.startDate) params.append('startDate', filters.startDate);
+    if (filters?.endDate) params.append('endDate', filters.endDate);
+
+    const query = params.toString();
+    const response = await api.get(query ? `/timesheets/summary?${query}` : '/timesheets/summary');
+    return response.data;
+  },
+};
@@ -0,0 +1,39 @@
+import type { Pagination, Permission, Role, RoleDetails, User } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export interface AccountFilters {
+  role?: Role;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface RoleChangeData {
+  role: Role;
+  // Required when someone without a department becomes an engineer
+  department?: string;
+}
+
+export const userService = {
+  async getAccounts(filters: AccountFilters = {}): Promise<ApiResponse<{users: User[], pagination: Pagination}>> {
+    const params = new URLSearchParams();
+    if (filters.role) params.append('role', filters.role);
+    if (filters.search) params.append('search', filters.search);
+    if (filters.page) params.append('page', String(filters.page));
+    if (filters.limit) params.append('limit', String(filters.limit));
+
+    const response = await api.get(`/users/accounts?${params.toString()}`);
+    return response.data;
+  },
+
+  async getRoles(): Promise<ApiResponse<{roles: RoleDetails[], permissions: Record<Permission, string>}>> {
+    const response = await api.get('/users/roles');
+    return response.data;
+  },
+
+  async updateRole(id: string, data: RoleChangeData): Promise<ApiResponse<{user: User}>> {
+    const response = await api.put(`/users/${id}/role`, data);
+    return response.data;
+  }
+};
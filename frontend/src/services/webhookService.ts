@@ -0,0 +1,72 @@
+import type { Pagination, Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '@/types';
+import api from './api';
+import type { ApiResponse } from './authService';
+
+export interface WebhookData {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  isActive?: boolean;
+}
+
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  page?: number;
+  limit?: number;
+}
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string; description: string }[] = [
+  { value: 'assignment.created', label: 'Assignment created', description: 'An engineer is assigned to a project, or an assignment is restored' },
+  { value: 'assignment.updated', label: 'Assignment updated', description: 'The engineer, allocation, dates, role or status of an assignment changes' },
+  { value: 'assignment.deleted', label: 'Assignment deleted', description: 'An assignment is archived or deleted' },
+  { value: 'project.status_changed', label: 'Project status changed', description: 'A project moves between planning, active, on hold, completed and cancelled' },
+  { value: 'engineer.overloaded', label: 'Engineer overloaded', description: 'An engineer is allocated beyond capacity in the next four weeks' }
+];
+
+export const webhookService = {
+  async getWebhooks(): Promise<ApiResponse<{webhooks: Webhook[]}>> {
+    const response = await api.get('/webhooks');
+    return response.data;
+  },
+
+  async createWebhook(data: WebhookData): Promise<ApiResponse<{webhook: Webhook, secret: string}>> {
+    const response = await api.post('/webhooks', data);
+    return response.data;
+  },
+
+  async updateWebhook(id: string, data: Partial<WebhookData>): Promise<ApiResponse<{webhook: Webhook}>> {
+    const response = await api.put(`/webhooks/${id}`, data);
+    return response.data;
+  },
+
+  async deleteWebhook(id: string): Promise<ApiResponse> {
+    const response = await api.delete(`/webhooks/${id}`);
+    return response.data;
+  },
+
+  async rotateSecret(id: string): Promise<ApiResponse<{webhook: Webhook, secret: string}>> {
+    const response = await api.post(`/webhooks/${id}/rotate-secret`);
+    return response.data;
+  },
+
+  async testWebhook(id: string): Promise<ApiResponse<{delivery: WebhookDelivery}>> {
+    const response = await api.post(`/webhooks/${id}/test`);
+    return response.data;
+  },
+
+  async getDeliveries(id: string, filters?: WebhookDeliveryFilters): Promise<ApiResponse<{deliveries: WebhookDelivery[], pagination: Pagination}>> {
+    const params = new URLSearchParams();
+    Object.entries(filters || {}).forEach(([key, value]) => {
+      if (value !== undefined) params.append(key, String(value));
+    });
+
+    const query = params.toString();
+    const response = await api.get(query ? `/webhooks/${id}/deliveries?${query}` : `/webhooks/${id}/deliveries`);
+    return response.data;
+  },
+
+  async retryDelivery(deliveryId: string): Promise<ApiResponse<{delivery: WebhookDelivery}>> {
+    const response = await api.post(`/webhooks/deliveries/${deliveryId}/retry`);
+    return response.data;
+  },
+};
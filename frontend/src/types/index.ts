@@ -1,28 +1,88 @@
 export interface Skill {
   skill: string;
+  skillId?: string;
   level: 'beginner' | 'intermediate' | 'advanced' | 'expert';
 }
 
+export type Role = 'admin' | 'resource-manager' | 'project-manager' | 'engineer' | 'viewer';
+
+export type Permission =
+  | 'engineers:read'
+  | 'engineers:read-team'
+  | 'engineers:manage'
+  | 'users:manage-roles'
+  | 'analytics:read'
+  | 'projects:manage'
+  | 'projects:manage-own'
+  | 'assignments:manage'
+  | 'assignments:manage-own'
+  | 'assignments:rebalance'
+  | 'timeoff:review'
+  | 'holidays:manage'
+  | 'skills:manage'
+  | 'audit:read'
+  | 'import:run'
+  | 'webhooks:manage';
+
+export interface RoleDetails {
+  role: Role;
+  label: string;
+  permissions: Permission[];
+}
+
 export interface User {
   _id: string;
   email: string;
   name: string;
-  role: 'engineer' | 'manager';
+  role: Role;
+  // Sent with the signed-in user only
+  permissions?: Permission[];
   skills?: Skill[];
   seniority?: 'junior' | 'mid' | 'senior';
   maxCapacity?: number;
+  hourlyRate?: number;
   department?: string;
-  isActive?: boolean;
+  location?: string;
+  archivedAt?: string | null;
+  archivedBy?: string | Pick<User, '_id' | 'name'> | null;
   createdAt?: string;
   updatedAt?: string;
 }
 
 export interface RequiredSkill {
   skill: string;
+  skillId?: string;
   level: 'beginner' | 'intermediate' | 'advanced' | 'expert';
   priority: 'must-have' | 'nice-to-have';
 }
 
+export type SkillCategory =
+  | 'frontend'
+  | 'backend'
+  | 'mobile'
+  | 'database'
+  | 'cloud'
+  | 'devops'
+  | 'data'
+  | 'testing'
+  | 'design'
+  | 'management'
+  | 'other';
+
+// Canonical entry in the skill taxonomy
+export interface SkillDefinition {
+  _id: string;
+  name: string;
+  aliases: string[];
+  category: SkillCategory;
+  description?: string;
+  relatedSkills: Pick<SkillDefinition, '_id' | 'name' | 'category'>[];
+  rubric?: Partial<Record<Skill['level'], string>>;
+  isActive: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 export interface Project {
   _id: string;
   name: string;
@@ -37,8 +97,10 @@ export interface Project {
   actualStartDate?: Date;
   actualEndDate?: Date;
   completionPercentage?: number;
-  managerId: string;
+  managerId: string | Pick<User, '_id' | 'name' | 'email'>;
   tags?: string[];
+  archivedAt?: string | null;
+  archivedBy?: string | Pick<User, '_id' | 'name'> | null;
   createdAt?: string;
   updatedAt?: string;
   // Additional computed properties from backend
@@ -55,10 +117,12 @@ export interface Assignment {
   startDate: Date;
   endDate: Date;
   role: 'developer' | 'lead' | 'architect' | 'tester' | 'devops' | 'analyst' | 'designer';
-  status: 'active' | 'completed' | 'cancelled';
+  status: 'active' | 'paused' | 'completed' | 'cancelled';
   completionPercentage?: number;
   notes?: string;
   createdBy: string;
+  archivedAt?: string | null;
+  archivedBy?: string | Pick<User, '_id' | 'name'> | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -76,8 +140,690 @@ export interface ProjectWithAssignments extends Project {
   assignedEngineers?: User[];
 }
 
+export interface CapacityTimelineAssignment {
+  assignmentId: string;
+  projectId: string;
+  projectName: string;
+  role: Assignment['role'];
+  allocation: number;
+}
+
+// Approved time off or a public holiday as the capacity engine sees it
+export interface Absence {
+  type: TimeOffType | 'holiday';
+  label: string;
+  percentage: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface CapacityTimelinePeriod {
+  periodStart: string;
+  periodEnd: string;
+  allocated: number;
+  averageAllocation: number;
+  capacity: number;
+  available: number;
+  utilizationRate: number;
+  isOverallocated: boolean;
+  timeOffDays: number;
+  timeOff: Absence[];
+  assignments: CapacityTimelineAssignment[];
+}
+
+export interface CapacityTimeline {
+  engineerId: string;
+  name: string;
+  maxCapacity: number;
+  startDate: string;
+  endDate: string;
+  granularity: 'day' | 'week';
+  periods: CapacityTimelinePeriod[];
+  summary: {
+    peakAllocation: number;
+    peakDate: string;
+    minimumAvailable: number;
+    averageAllocation: number;
+    overallocatedPeriods: number;
+    timeOffDays: number;
+  };
+}
+
+export interface AssignmentConflict {
+  assignmentId: string;
+  projectName: string;
+  startDate: string;
+  endDate: string;
+  allocation: number;
+  priority: Project['priority'];
+}
+
+export interface AssignmentConflictCheck {
+  hasConflicts: boolean;
+  conflicts: AssignmentConflict[];
+  hasTimeOff: boolean;
+  timeOff: Absence[];
+}
+
+export interface CapacityForecastEngineer {
+  engineerId: string;
+  engineerName: string;
+  department?: string;
+  maxCapacity: number;
+  // Max capacity less time off that week
+  capacity: number;
+  timeOffDays: number;
+  allocated: number;
+  available: number;
+  utilizationRate: number;
+  isOverallocated: boolean;
+  assignments: {
+    projectName?: string;
+    allocation: number;
+  }[];
+}
+
+export interface CapacityForecastWeek {
+  week: number;
+  weekStart: string;
+  weekEnd: string;
+  totalCapacity: number;
+  totalAllocated: number;
+  totalAvailable: number;
+  utilizationRate: number;
+  overallocatedEngineers: number;
+  engineers: CapacityForecastEngineer[];
+}
+
+export interface CapacityForecast {
+  forecastPeriod: {
+    startDate: string;
+    endDate: string;
+    weeks: number;
+    department: string | null;
+  };
+  forecast: CapacityForecastWeek[];
+  summary: {
+    averageUtilization: number;
+    peakUtilization: number;
+    lowUtilization: number;
+    overallocatedWeeks: number;
+  };
+}
+
+// How one project requirement was scored for a candidate
+export interface SkillMatchItem {
+  skill: string;
+  skillId: string | null;
+  requiredLevel: Skill['level'];
+  priority: RequiredSkill['priority'];
+  weight: number;
+  matchType: 'exact' | 'related' | 'missing';
+  matchedSkill: string | null;
+  engineerLevel: Skill['level'] | null;
+  levelGap: number | null;
+  score: number;
+}
+
+export interface SkillMatchResult {
+  score: number;
+  mustHaveScore: number;
+  breakdown: SkillMatchItem[];
+}
+
+export interface AssignmentSuggestion {
+  engineer: {
+    _id: string;
+    name: string;
+    email: string;
+    seniority?: User['seniority'];
+    department?: string;
+    skills?: Skill[];
+  };
+  skillMatch: number;
+  mustHaveMatch: number;
+  skillBreakdown: SkillMatchItem[];
+  availableCapacity: number;
+  workloadBalance: number;
+  score: number;
+  recommendation: string;
+}
+
+export interface ProjectStaffingSuggestions {
+  projectId: string;
+  // Dates availability was judged over
+  startDate: string;
+  endDate: string;
+  totalSuggestions: number;
+  topSuggestions: AssignmentSuggestion[];
+  optimalTeam: AssignmentSuggestion[];
+  analysis: {
+    averageSkillMatch: number;
+    totalAvailableCapacity: number;
+    skillCoverage: number;
+  };
+}
+
+export type RebalanceMoveType = 'reassign' | 'reduce-allocation' | 'shift-dates';
+
+export interface RebalanceMoveSnapshot {
+  engineerId: string;
+  engineerName: string;
+  allocationPercentage: number;
+  startDate: string;
+  endDate: string;
+}
+
+export interface RebalanceMove {
+  id: string;
+  type: RebalanceMoveType;
+  assignmentId: string;
+  projectId: string;
+  projectName: string;
+  projectPriority: 'low' | 'medium' | 'high' | 'critical';
+  role: string;
+  before: RebalanceMoveSnapshot;
+  after: RebalanceMoveSnapshot;
+  relief: number;
+  reason: string;
+  recommended: boolean;
+}
+
+export interface RebalancePlan {
+  engineer: {
+    _id: string;
+    name: string;
+    maxCapacity: number;
+  };
+  targetUtilization: number;
+  // The target on the peak day, less that day's partial time off
+  targetOnPeakDate: number;
+  peakAllocation: number;
+  peakDate: string;
+  excess: number;
+  availableCapacity: number;
+  moves: RebalanceMove[];
+  projectedPeakAllocation: number;
+}
+
+export type TimeOffType = 'vacation' | 'sick' | 'personal' | 'training' | 'other';
+
+export type TimeOffStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface TimeOff {
+  _id: string;
+  engineerId: string | Pick<User, '_id' | 'name' | 'email' | 'department' | 'location'>;
+  type: TimeOffType;
+  startDate: string;
+  endDate: string;
+  percentage: number;
+  reason?: string;
+  status: TimeOffStatus;
+  reviewedBy?: Pick<User, '_id' | 'name'>;
+  reviewedAt?: string;
+  reviewNote?: string;
+  createdAt?: string;
+}
+
+export interface Holiday {
+  _id: string;
+  name: string;
+  date: string;
+  departments: string[];
+  locations: string[];
+  isActive: boolean;
+}
+
+// Subscription links for a user's iCalendar feed
+export interface CalendarFeed {
+  url: string;
+  webcalUrl: string;
+}
+
+// One day read from an imported holiday calendar
+export interface HolidayImportEntry {
+  name: string;
+  date: string;
+  recurring: boolean;
+  status: 'new' | 'duplicate' | 'skipped';
+  reason?: string;
+}
+
+export interface HolidayImportResult {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  new: number;
+  duplicates: number;
+  skipped: number;
+  holidays: HolidayImportEntry[];
+}
+
+export interface ProgressUpdate {
+  _id: string;
+  assignmentId: string;
+  projectId: string;
+  previousPercentage: number;
+  completionPercentage: number;
+  note?: string;
+  updatedBy: Pick<User, '_id' | 'name' | 'role'>;
+  createdAt: string;
+}
+
+export interface TimesheetRow {
+  assignment: Omit<Assignment, 'projectId'> & { projectId: Pick<Project, '_id' | 'name' | 'status'> };
+  plannedHours: number;
+  hours: number;
+  note: string;
+  updatedAt: string | null;
+}
+
+export interface WeeklyTimesheet {
+  weekStart: string;
+  weekEnd: string;
+  rows: TimesheetRow[];
+  totals: {
+    plannedHours: number;
+    loggedHours: number;
+  };
+}
+
+export interface TimesheetAssignmentSummary {
+  assignmentId: string;
+  engineer: Pick<User, '_id' | 'name' | 'email' | 'department' | 'location'>;
+  project: Pick<Project, '_id' | 'name' | 'status'>;
+  role: Assignment['role'];
+  allocationPercentage: number;
+  startDate: string;
+  endDate: string;
+  completionPercentage: number;
+  plannedHours: number;
+  loggedHours: number;
+  variance: number;
+  weeksLogged: number;
+}
+
+export interface TimesheetProjectSummary {
+  projectId: string;
+  name: string;
+  status?: Project['status'];
+  plannedHours: number;
+  loggedHours: number;
+  variance: number;
+  assignments: TimesheetAssignmentSummary[];
+}
+
+export interface TimesheetSummary {
+  startDate: string;
+  endDate: string;
+  projects: TimesheetProjectSummary[];
+  totals: {
+    plannedHours: number;
+    loggedHours: number;
+  };
+}
+
+export type AuditEntityType = 'User' | 'Project' | 'Assignment';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'archive' | 'restore';
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogEntry {
+  _id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName?: string;
+  action: AuditAction;
+  changes: AuditChange[];
+  projectId?: Pick<Project, '_id' | 'name'> | null;
+  engineerId?: Pick<User, '_id' | 'name'> | null;
+  actor?: Pick<User, '_id' | 'name' | 'email' | 'role'> | null;
+  actorName?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+export type BulkAssignmentOperation = 'shift-dates' | 'change-allocation' | 'change-status' | 'archive';
+
+export interface BulkAssignmentState {
+  startDate: string;
+  endDate: string;
+  allocationPercentage: number;
+  status: Assignment['status'];
+}
+
+// One assignment in a bulk operation with its state before and after, and why it cannot change
+export interface BulkAssignmentRow {
+  assignmentId: string;
+  engineer?: string;
+  project?: string;
+  before: BulkAssignmentState;
+  after: BulkAssignmentState;
+  errors: string[];
+}
+
+export interface BulkAssignmentResult {
+  operation: BulkAssignmentOperation;
+  preview: boolean;
+  applied: boolean;
+  total: number;
+  failed: number;
+  rows: BulkAssignmentRow[];
+}
+
+// Assignment left archived when its project or engineer was restored
+export interface SkippedAssignment {
+  assignmentId: string;
+  engineer?: string;
+  project?: string;
+  reason: string;
+}
+
+export interface ArchiveRestoreResult {
+  restoredAssignments: number;
+  skippedAssignments: SkippedAssignment[];
+}
+
+export type ProjectStatusAction = 'pause' | 'resume' | 'complete' | 'cancel';
+
+// What a project status change does to one of its assignments
+export interface ProjectStatusEffect {
+  assignmentId: string;
+  engineer?: string;
+  allocationPercentage: number;
+  action: ProjectStatusAction;
+  before: { status: Assignment['status']; endDate: string };
+  after: { status: Assignment['status']; endDate: string };
+  skipped: string | null;
+}
+
+export interface ProjectStatusChange {
+  from: Project['status'];
+  to: Project['status'];
+  preview: boolean;
+  allowedTransitions: Project['status'][];
+  effects: ProjectStatusEffect[];
+  skipped: number;
+  freedAllocation: number;
+}
+
+export type ImportEntity = 'engineers' | 'projects' | 'assignments';
+
+// Outcome of one spreadsheet row; row counts data rows from 1, below the header
+export interface ImportRowResult {
+  row: number;
+  label: string | null;
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors: string[];
+  // Imported engineers: the link that lets them accept their invitation
+  inviteUrl?: string;
+}
+
+export interface ImportResult {
+  entity: ImportEntity;
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  created: number;
+  rows: ImportRowResult[];
+}
+
+export type ExportReport = 'utilization' | 'assignments' | 'forecast';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  startDate?: string;
+  endDate?: string;
+  department?: string;
+  status?: Assignment['status'];
+  weeks?: number;
+}
+
+export type NotificationType =
+  | 'assignment-created'
+  | 'assignment-updated'
+  | 'assignment-removed'
+  | 'project-status'
+  | 'capacity-overload'
+  | 'assignment-ending';
+
+// Named to stay clear of the browser's Notification API
+export interface AppNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message?: string;
+  link?: string;
+  entityType?: 'User' | 'Project' | 'Assignment';
+  entityId?: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationPreference {
+  type: NotificationType;
+  label: string;
+  description: string;
+  enabled: boolean;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export type WebhookEvent =
+  | 'assignment.created'
+  | 'assignment.updated'
+  | 'assignment.deleted'
+  | 'project.status_changed'
+  | 'engineer.overloaded';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface Webhook {
+  _id: string;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdBy?: { _id: string; name: string };
+  lastDeliveryAt?: string;
+  lastDeliveryStatus?: 'succeeded' | 'failed';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDelivery {
+  _id: string;
+  webhookId: string;
+  event: WebhookEvent | 'ping';
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt?: string;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error?: string | null;
+  durationMs?: number;
+  createdAt: string;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+export interface Invitation {
+  _id: string;
+  email: string;
+  name: string;
+  role: Role;
+  profile?: {
+    department?: string;
+    location?: string;
+    seniority?: User['seniority'];
+    maxCapacity?: number;
+    hourlyRate?: number;
+    skills?: Skill[];
+  };
+  status: InvitationStatus;
+  isExpired: boolean;
+  expiresAt: string;
+  invitedBy?: { _id: string; name: string };
+  acceptedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the accept page shows before the invitee has an account
+export interface InvitationPreview {
+  email: string;
+  name: string;
+  role: Role;
+  invitedBy?: string;
+  expiresAt: string;
+}
+
+// Whose password a reset link changes
+export interface PasswordResetPreview {
+  email: string;
+  expiresAt: string;
+}
+
+// The rules new passwords must meet, as served by the backend
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireLetter: boolean;
+  requireNumber: boolean;
+  emailNameMinLength: number;
+  commonPasswords: string[];
+  hint: string;
+}
+
+// A device the user is signed in on
+export interface UserSession {
+  _id: string;
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+// Tokens are httpOnly cookies, so the client only knows who is signed in
 export interface AuthState {
   user: User | null;
-  token: string | null;
   isAuthenticated: boolean;
-}
\ No newline at end of file
+}
+
+export interface SkillGapRecommendation {
+  type: 'hire' | 'train';
+  skill: string;
+  level: Skill['level'];
+  count: number;
+  reason: string;
+  candidates: {
+    engineerId: string;
+    name: string;
+    fromSkill: string;
+    fromLevel: Skill['level'];
+    freeCapacity: number;
+  }[];
+}
+
+// Demand and supply are in FTE (1 = one engineer at 100%), averaged over the horizon
+export interface SkillSupplyDemand {
+  skill: string;
+  skillId: string | null;
+  category: SkillCategory;
+  level: Skill['level'];
+  projects: string[];
+  engineersWithSkill: number;
+  demand: number;
+  supply: number;
+  gap: number;
+  peakGap: number;
+  peakWeekStart: string;
+  recommendations?: SkillGapRecommendation[];
+}
+
+export interface SkillGapTrendWeek {
+  week: number;
+  weekStart: string;
+  weekEnd: string;
+  totalDemand: number;
+  totalSupply: number;
+  gaps: Record<string, number>;
+}
+
+export interface SkillGapAnalysis {
+  horizon: {
+    weeks: number;
+    startDate: string;
+    endDate: string;
+  };
+  skills: SkillSupplyDemand[];
+  skillGaps: SkillSupplyDemand[];
+  totalGaps: number;
+  trend: SkillGapTrendWeek[];
+  trendSkills: string[];
+  recommendations: SkillGapRecommendation[];
+  summary: {
+    trackedSkills: number;
+    totalGaps: number;
+    hiringNeeds: number;
+    trainingCandidates: number;
+  };
+}
+
+export type HealthRag = 'green' | 'amber' | 'red';
+
+export interface ProjectHealthFactor {
+  key: 'schedule' | 'skillCoverage' | 'allocation' | 'budget';
+  label: string;
+  score: number;
+  rag: HealthRag;
+  weight: number;
+  summary: string;
+  details: Record<string, unknown>;
+}
+
+export interface ProjectHealth {
+  projectId: string;
+  name: string;
+  status: Project['status'];
+  priority: Project['priority'];
+  manager?: string;
+  startDate: string;
+  endDate: string;
+  isOverdue: boolean;
+  requiredTeamSize: number;
+  currentTeamSize: number;
+  healthScore: number;
+  rag: HealthRag;
+  factors: ProjectHealthFactor[];
+}
+
+export interface PortfolioHealth {
+  projects: ProjectHealth[];
+  summary: {
+    total: number;
+    green: number;
+    amber: number;
+    red: number;
+    averageScore: number;
+  };
+}
@@ -1,4 +1,4 @@
-import type { EngineerWithAssignments, Assignment, Skill } from '@/types';
+import type { EngineerWithAssignments, Skill, RequiredSkill, SkillMatchItem, SkillMatchResult, CapacityTimeline } from '@/types';
 
 export interface CapacityInfo {
   engineerId: string;
@@ -9,30 +9,23 @@ export interface CapacityInfo {
   status: 'available' | 'busy' | 'overloaded';
 }
 
+// Free capacity over the coming week as the backend's capacity engine measures it
 export const getAvailableCapacity = (engineer: EngineerWithAssignments): number => {
   const maxCapacity = engineer.maxCapacity || 100;
-  const currentUtilization = engineer.currentUtilization || 0;
-  return Math.max(0, maxCapacity - currentUtilization);
+  return engineer.availableCapacity ?? Math.max(0, maxCapacity - (engineer.currentUtilization || 0));
 };
 
-export const calculateUtilizationFromAssignments = (
-  maxCapacity: number, 
-  assignments: Assignment[]
-): number => {
-  if (!assignments || assignments.length === 0) return 0;
-  
-  const totalAllocated = assignments.reduce((sum, assignment) => {
-    return sum + (assignment.allocationPercentage || 0);
-  }, 0);
-  
-  return Math.min(totalAllocated, maxCapacity);
+// Capacity left on the tightest working day of a timeline window, rather than just today
+export const getAvailableCapacityForTimeline = (timeline: CapacityTimeline): number => {
+  return timeline.summary.minimumAvailable;
 };
 
+// Utilization and free capacity come from the backend, which counts only working days
+// and assignments actually running in the coming week
 export const getCapacityInfo = (engineer: EngineerWithAssignments): CapacityInfo => {
   const maxCapacity = engineer.maxCapacity || 100;
-  const currentUtilization = engineer.currentUtilization || 
-    calculateUtilizationFromAssignments(maxCapacity, engineer.assignments || []);
-  const availableCapacity = Math.max(0, maxCapacity - currentUtilization);
+  const currentUtilization = engineer.currentUtilization || 0;
+  const availableCapacity = getAvailableCapacity(engineer);
   const utilizationPercentage = (currentUtilization / maxCapacity) * 100;
   
   let status: 'available' | 'busy' | 'overloaded';
@@ -50,16 +43,30 @@ export const getCapacityInfo = (engineer: EngineerWithAssignments): CapacityInfo
   };
 };
 
+type SkillRef = string | Pick<Skill, 'skill' | 'skillId'>;
+
+const normalizeSkillName = (name: string): string =>
+  name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Mirrors the backend taxonomy: same canonical skill ID, or the same normalized name
+export const skillsMatch = (a: SkillRef, b: SkillRef): boolean => {
+  if (typeof a !== 'string' && typeof b !== 'string' && a.skillId && b.skillId) {
+    return a.skillId === b.skillId;
+  }
+
+  const aName = typeof a === 'string' ? a : a.skill;
+  const bName = typeof b === 'string' ? b : b.skill;
+  return normalizeSkillName(aName) === normalizeSkillName(bName);
+};
+
 export const findSuitableEngineers = (
   engineers: EngineerWithAssignments[],
-  requiredSkills: string[],
+  requiredSkills: SkillRef[],
   minimumCapacity: number = 10
 ): EngineerWithAssignments[] => {
   return engineers.filter(engineer => {
-    const hasRequiredSkills = requiredSkills.some(skill => 
-      engineer.skills?.some(engineerSkill => 
-        engineerSkill.skill.toLowerCase().includes(skill.toLowerCase())
-      )
+    const hasRequiredSkills = requiredSkills.some(skill =>
+      engineer.skills?.some(engineerSkill => skillsMatch(engineerSkill, skill))
     );
     
     const hasCapacity = getAvailableCapacity(engineer) >= minimumCapacity;
@@ -68,20 +75,77 @@ export const findSuitableEngineers = (
   });
 };
 
+const LEVEL_RANK: Record<Skill['level'], number> = { beginner: 1, intermediate: 2, advanced: 3, expert: 4 };
+const PRIORITY_WEIGHTS: Record<RequiredSkill['priority'], number> = { 'must-have': 2, 'nice-to-have': 1 };
+const LEVEL_GAP_PENALTY = 0.25;
+const RELATED_SKILL_CREDIT = 0.5;
+
+type RequirementRef = string | (Pick<RequiredSkill, 'skill' | 'skillId'> & Partial<Pick<RequiredSkill, 'level' | 'priority'>>);
+
+type BestMatch = Pick<SkillMatchItem, 'matchType' | 'matchedSkill' | 'engineerLevel' | 'levelGap'> & { credit: number };
+
+// Same model as the backend optimizer: level gaps cost credit, must-haves weigh double,
+// and a related skill earns partial credit
+const scoreRequirement = (
+  engineerSkills: Skill[],
+  required: RequirementRef,
+  relatedSkills: Map<string, Set<string>>
+): SkillMatchItem => {
+  const requirement = typeof required === 'string' ? { skill: required } : required;
+  const requiredLevel = requirement.level || 'beginner';
+  const priority = requirement.priority || 'must-have';
+  const relatedIds = (requirement.skillId && relatedSkills.get(requirement.skillId)) || new Set<string>();
+
+  let best: BestMatch | null = null;
+  for (const engineerSkill of engineerSkills) {
+    const matchType = skillsMatch(engineerSkill, requirement)
+      ? 'exact'
+      : engineerSkill.skillId && relatedIds.has(engineerSkill.skillId) ? 'related' : null;
+    if (!matchType) continue;
+
+    const levelGap = Math.max(0, LEVEL_RANK[requiredLevel] - (LEVEL_RANK[engineerSkill.level] || 1));
+    const levelCredit = Math.max(0, 1 - levelGap * LEVEL_GAP_PENALTY);
+    const credit = matchType === 'exact' ? levelCredit : levelCredit * RELATED_SKILL_CREDIT;
+
+    if (!best || credit > best.credit || (credit === best.credit && matchType === 'exact')) {
+      best = { matchType, matchedSkill: engineerSkill.skill, engineerLevel: engineerSkill.level, levelGap, credit };
+    }
+  }
+
+  return {
+    skill: requirement.skill,
+    skillId: requirement.skillId || null,
+    requiredLevel,
+    priority,
+    weight: PRIORITY_WEIGHTS[priority],
+    matchType: best?.matchType || 'missing',
+    matchedSkill: best?.matchedSkill || null,
+    engineerLevel: best?.engineerLevel || null,
+    levelGap: best?.levelGap ?? null,
+    score: Math.round((best?.credit || 0) * 100)
+  };
+};
+
+const weightedScore = (breakdown: SkillMatchItem[]): number => {
+  const totalWeight = breakdown.reduce((sum, item) => sum + item.weight, 0);
+  if (!totalWeight) return 100;
+  return breakdown.reduce((sum, item) => sum + item.score * item.weight, 0) / totalWeight;
+};
+
 export const getSkillMatch = (
-  engineerSkills: Skill[], 
-  requiredSkills: string[]
-): number => {
-  if (!engineerSkills || !requiredSkills || requiredSkills.length === 0) return 0;
-  
-  const matchingSkills = requiredSkills.filter(reqSkill =>
-    engineerSkills.some(engSkill => 
-      engSkill.skill.toLowerCase().includes(reqSkill.toLowerCase()) ||
-      reqSkill.toLowerCase().includes(engSkill.skill.toLowerCase())
-    )
+  engineerSkills: Skill[],
+  requiredSkills: RequirementRef[],
+  relatedSkills: Map<string, Set<string>> = new Map()
+): SkillMatchResult => {
+  const breakdown = (requiredSkills || []).map(required =>
+    scoreRequirement(engineerSkills || [], required, relatedSkills)
   );
-  
-  return (matchingSkills.length / requiredSkills.length) * 100;
+
+  return {
+    score: Math.round(weightedScore(breakdown)),
+    mustHaveScore: Math.round(weightedScore(breakdown.filter(item => item.priority === 'must-have'))),
+    breakdown
+  };
 };
 
 export const getTeamCapacityStats = (engineers: EngineerWithAssignments[]) => {
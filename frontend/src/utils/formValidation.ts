@@ -1,3 +1,5 @@
+import type { PasswordPolicy } from '@/types';
+
 export interface ValidationRule<T = unknown> {
   required?: boolean;
   minLength?: number;
@@ -75,6 +77,33 @@ export const validateField = <T>(
   return null;
 };
 
+// Why a password breaks the policy loaded from the backend, or null; before the
+// policy has loaded there is nothing to check against and the server still refuses
+export const passwordProblem = (
+  password: string,
+  policy: PasswordPolicy | null,
+  { email }: { email?: string } = {}
+): string | null => {
+  if (!policy) return null;
+  if (password.length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters`;
+  }
+  if (password.length > policy.maxLength) {
+    return `Password cannot be longer than ${policy.maxLength} characters`;
+  }
+  if ((policy.requireLetter && !/[A-Za-z]/.test(password)) || (policy.requireNumber && !/\d/.test(password))) {
+    return 'Password must contain at least one letter and one number';
+  }
+  if (policy.commonPasswords.includes(password.toLowerCase())) {
+    return 'This password is too common. Choose another one';
+  }
+  const emailName = email?.split('@')[0].toLowerCase();
+  if (emailName && emailName.length >= policy.emailNameMinLength && password.toLowerCase().includes(emailName)) {
+    return 'Password cannot contain your email address';
+  }
+  return null;
+};
+
 export const validateForm = <T extends Record<string, unknown>>(
   data: T,
   rules: { [K in keyof T]?: ValidationRule<T[K]> }
@@ -97,7 +126,7 @@ export const validateForm = <T extends Record<string, unknown>>(
 // Common validation rules
 export const commonRules = {
   email: { required: true, email: true },
-  password: { required: true, minLength: 6 },
+  password: { required: true },
   name: { required: true, minLength: 2, maxLength: 100 },
   description: { required: true, minLength: 10, maxLength: 1000 },
   percentage: { required: true, min: 1, max: 100 },
@@ -0,0 +1,36 @@
+import type { Permission, Project, Role, User } from '@/types';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  'resource-manager': 'Resource Manager',
+  'project-manager': 'Project Manager',
+  engineer: 'Engineer',
+  viewer: 'Viewer'
+};
+
+// Whether the user has at least one of the permissions; the server still checks every request
+export const hasPermission = (user: User | null | undefined, ...permissions: Permission[]) =>
+  permissions.some(permission => user?.permissions?.includes(permission) ?? false);
+
+// Whether the user manages this project, for permissions scoped to their own projects
+export const managesProject = (
+  user: User | null | undefined,
+  project: { managerId?: Project['managerId'] } | null | undefined
+) => {
+  const managerId = typeof project?.managerId === 'object' ? project.managerId._id : project?.managerId;
+  return !!user && managerId === user._id;
+};
+
+// Whether the user can edit this project
+export const canManageProject = (
+  user: User | null | undefined,
+  project: { managerId?: Project['managerId'] } | null | undefined
+) => hasPermission(user, 'projects:manage') ||
+  (hasPermission(user, 'projects:manage-own') && managesProject(user, project));
+
+// Whether the user can change assignments on this project
+export const canManageAssignmentsOn = (
+  user: User | null | undefined,
+  project: { managerId?: Project['managerId'] } | null | undefined
+) => hasPermission(user, 'assignments:manage') ||
+  (hasPermission(user, 'assignments:manage-own') && managesProject(user, project));
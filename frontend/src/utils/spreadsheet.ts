@@ -0,0 +1,58 @@
+import Papa from 'papaparse';
+import readXlsxFile from 'read-excel-file/browser';
+import { format } from 'date-fns';
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx';
+
+// Dates become yyyy-MM-dd so CSV and Excel files reach the API in the same shape
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return format(cell, 'yyyy-MM-dd');
+  return String(cell).trim();
+};
+
+// Use the first non-empty row as headers and drop rows with no values
+const toSpreadsheetData = (table: unknown[][]): SpreadsheetData => {
+  const cells = table.map(row => row.map(cellToString));
+  const headerIndex = cells.findIndex(row => row.some(Boolean));
+  if (headerIndex === -1) {
+    return { headers: [], rows: [] };
+  }
+
+  return {
+    headers: cells[headerIndex],
+    rows: cells.slice(headerIndex + 1).filter(row => row.some(Boolean))
+  };
+};
+
+const readCsv = (file: File) =>
+  new Promise<SpreadsheetData>((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      skipEmptyLines: 'greedy',
+      complete: (results) => resolve(toSpreadsheetData(results.data)),
+      error: (error) => reject(error)
+    });
+  });
+
+// Read the first sheet of an .xlsx file, or a .csv file
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'csv') {
+    return readCsv(file);
+  }
+  if (extension === 'xlsx') {
+    const [sheet] = await readXlsxFile(file);
+    return toSpreadsheetData(sheet?.data || []);
+  }
+
+  throw new Error('Upload a .csv or .xlsx file');
+};
+
+// Loose header comparison: "Max Capacity", "max_capacity" and "maxCapacity" all match
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');